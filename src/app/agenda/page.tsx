@@ -0,0 +1,233 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { useAuthStore } from "@/stores/auth-store";
+import { useAgendaStore } from "@/stores/agenda-store";
+import { useUserCalendars } from "@/hooks/use-calendars";
+import { useSubscribedCalendars } from "@/hooks/use-subscriptions";
+import { useAgendaCalendarEvents, useUserRsvps } from "@/hooks/use-agenda";
+import {
+  CalendarView,
+  type CalendarViewItem,
+} from "@/components/calendar/CalendarView";
+import {
+  type AgendaCalendar,
+  type AgendaCalendarRole,
+  buildAgendaCalendars,
+  getAgendaItems,
+  getOutsideRsvps,
+  mergeAgendaItems,
+} from "@/lib/agenda";
+import { getUserTimezone } from "@/lib/calendar-validation";
+import type { AttendeeStatus } from "@/types/calendar";
+import { getEventPageUrl } from "@/utils/pubky-uri";
+
+const DEFAULT_COLOR = "#3B82F6";
+const RSVP_COLOR = "#737373";
+
+const ROLE_LABELS: Record<AgendaCalendarRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  subscriber: "Subscribed",
+};
+
+const RSVP_LABELS: Record<AttendeeStatus, string> = {
+  ACCEPTED: "Going",
+  TENTATIVE: "Maybe",
+  DECLINED: "Can't go",
+};
+
+export default function AgendaPage() {
+  const router = useRouter();
+  const { user, isAuthenticated } = useAuthStore();
+  const { shown, showRsvps, setShown, setShowRsvps } = useAgendaStore();
+  const publicKey = isAuthenticated ? user?.publicKey : null;
+  const [visibleRange, setVisibleRange] = useState<
+    { start: Date; end: Date } | null
+  >(null);
+
+  const { data: administered, isLoading: isLoadingAdministered } =
+    useUserCalendars(publicKey || undefined);
+  const { data: subscribed, isLoading: isLoadingSubscribed } =
+    useSubscribedCalendars(publicKey);
+
+  const calendars = useMemo(
+    () =>
+      publicKey
+        ? buildAgendaCalendars(publicKey, administered || [], subscribed || [])
+        : [],
+    [publicKey, administered, subscribed],
+  );
+
+  const isShown = (calendar: AgendaCalendar) =>
+    shown[calendar.uri] ?? !calendar.hidden;
+
+  const { data: calendarEvents, isLoading: isLoadingEvents } =
+    useAgendaCalendarEvents(calendars);
+  const { data: rsvps, isLoading: isLoadingRsvps } = useUserRsvps(
+    publicKey,
+    showRsvps,
+  );
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      router.push("/");
+    }
+  }, [isAuthenticated, router]);
+
+  const items = useMemo(() => {
+    if (!visibleRange) return [];
+    const { start, end } = visibleRange;
+
+    const sources = calendars.map((calendar, index) =>
+      shown[calendar.uri] ?? !calendar.hidden
+        ? getAgendaItems(calendarEvents[index] || [], start, end, {
+          calendarUri: calendar.uri,
+          color: calendar.color || DEFAULT_COLOR,
+          timeZone: calendar.timezone || getUserTimezone(),
+        })
+        : []
+    );
+
+    if (showRsvps && rsvps) {
+      const outside = getOutsideRsvps(
+        rsvps.flatMap(({ data, event }) =>
+          event
+            ? [{
+              status: data.rsvp,
+              event: { uri: data.x_pubky_event_uri, data: event },
+            }]
+            : []
+        ),
+        calendars.map((calendar) => calendar.uri),
+      );
+      sources.push(
+        getAgendaItems(outside.map(({ event }) => event), start, end, {
+          color: RSVP_COLOR,
+          rsvps: new Map(outside.map(({ status, event }) => [event.uri, status])),
+        }),
+      );
+    }
+
+    return mergeAgendaItems(sources);
+  }, [calendars, calendarEvents, shown, showRsvps, rsvps, visibleRange]);
+
+  const itemsByKey = useMemo(
+    () => new Map(items.map((item) => [item.key, item])),
+    [items],
+  );
+
+  const viewItems = useMemo<CalendarViewItem[]>(
+    () =>
+      items.map(({ key, occurrence, color, rsvp }) => ({
+        key,
+        title: `${occurrence.event.summary || "Untitled Event"}${
+          rsvp ? ` (${RSVP_LABELS[rsvp]})` : ""
+        }`,
+        start: occurrence.start,
+        end: occurrence.end,
+        color,
+      })),
+    [items],
+  );
+
+  const handleItemSelect = (key: string) => {
+    const item = itemsByKey.get(key);
+    const url = item && getEventPageUrl(item.eventUri);
+    if (url) {
+      router.push(url);
+    }
+  };
+
+  if (!isAuthenticated) {
+    return null; // Will redirect
+  }
+
+  const isLoadingCalendars = isLoadingAdministered || isLoadingSubscribed;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Agenda</h1>
+        <p className="text-neutral-600 dark:text-neutral-400">
+          Events from the calendars you own, administer and subscribe to.
+        </p>
+      </div>
+
+      <div className="grid md:grid-cols-4 gap-8">
+        {/* Calendar toggles */}
+        <aside className="space-y-4">
+          <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">
+            Calendars
+          </h2>
+
+          {isLoadingCalendars && (
+            <Loader2 className="h-5 w-5 animate-spin text-neutral-400" />
+          )}
+
+          {!isLoadingCalendars && calendars.length === 0 && (
+            <p className="text-sm text-neutral-500">
+              No calendars yet.{" "}
+              <Link href="/calendars" className="underline">
+                Discover calendars
+              </Link>{" "}
+              to subscribe to.
+            </p>
+          )}
+
+          <ul className="space-y-2">
+            {calendars.map((calendar) => (
+              <li key={calendar.uri}>
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={isShown(calendar)}
+                    onChange={(e) => setShown(calendar.uri, e.target.checked)}
+                  />
+                  <span
+                    className="h-3 w-3 shrink-0 rounded-full"
+                    style={{ backgroundColor: calendar.color || DEFAULT_COLOR }}
+                  />
+                  <span className="min-w-0 flex-1 truncate">
+                    {calendar.name}
+                  </span>
+                  <span className="text-xs text-neutral-500">
+                    {ROLE_LABELS[calendar.role]}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+
+          <div className="border-t border-neutral-200 dark:border-neutral-800 pt-4">
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showRsvps}
+                onChange={(e) => setShowRsvps(e.target.checked)}
+              />
+              <span
+                className="h-3 w-3 shrink-0 rounded-full"
+                style={{ backgroundColor: RSVP_COLOR }}
+              />
+              My RSVPs in other calendars
+            </label>
+          </div>
+        </aside>
+
+        <div className="md:col-span-3">
+          <CalendarView
+            items={viewItems}
+            isLoading={isLoadingCalendars || isLoadingEvents ||
+              (showRsvps && isLoadingRsvps)}
+            onRangeChangeAction={setVisibleRange}
+            onItemSelectAction={handleItemSelect}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
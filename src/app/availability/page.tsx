@@ -0,0 +1,216 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useQueryClient } from "@tanstack/react-query";
+import { ChevronLeft, ChevronRight, Loader2, Plus, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { useAuthStore } from "@/stores/auth-store";
+import { useAvailabilityStore } from "@/stores/availability-store";
+import {
+  freeBusyKeys,
+  useComputedFreeBusy,
+  usePublishedFreeBusy,
+} from "@/hooks/use-freebusy";
+import {
+  type AvailabilityPerson,
+  AvailabilityOverlay,
+} from "@/components/calendar/AvailabilityOverlay";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { getUserTimezone } from "@/lib/calendar-validation";
+import { addDaysToWallClock } from "@/lib/event-time";
+import { getWallClockTime, wallClockToDate } from "@/lib/timezone";
+import { FREEBUSY_DAYS, publishFreeBusy } from "@/services/freebusy-service";
+import { parsePublicKey } from "@/utils/pubky-uri";
+
+const DAYS_SHOWN = 7;
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString(undefined, { dateStyle: "medium" });
+}
+
+export default function AvailabilityPage() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { user, isAuthenticated } = useAuthStore();
+  const { people, addPerson, removePerson } = useAvailabilityStore();
+  const publicKey = isAuthenticated ? user?.publicKey : null;
+  const [query, setQuery] = useState("");
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  const timeZone = getUserTimezone();
+  const days = useMemo(() => {
+    const today = {
+      ...getWallClockTime(new Date(), timeZone),
+      hour: 0,
+      minute: 0,
+      second: 0,
+    };
+    return Array.from({ length: DAYS_SHOWN }, (_, index) => {
+      const offset = weekOffset * DAYS_SHOWN + index;
+      return {
+        start: wallClockToDate(addDaysToWallClock(today, offset), timeZone),
+        end: wallClockToDate(addDaysToWallClock(today, offset + 1), timeZone),
+      };
+    });
+  }, [timeZone, weekOffset]);
+  const range = { start: days[0].start, end: days[days.length - 1].end };
+
+  const others = people.filter((person) => person !== publicKey);
+  const { data: ownBusy, isLoading: isLoadingOwn } = useComputedFreeBusy(
+    publicKey,
+    range,
+    timeZone,
+  );
+  const published = usePublishedFreeBusy(
+    publicKey ? [publicKey, ...others] : others,
+  );
+  const ownPublished = publicKey ? published.data[0] : null;
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      router.push("/");
+    }
+  }, [isAuthenticated, router]);
+
+  const candidate = parsePublicKey(query);
+
+  const handleAdd = () => {
+    if (!candidate) return;
+    addPerson(candidate);
+    setQuery("");
+  };
+
+  const handlePublish = async () => {
+    if (!publicKey) return;
+    setIsPublishing(true);
+    try {
+      await publishFreeBusy(publicKey, timeZone);
+      await queryClient.invalidateQueries({
+        queryKey: freeBusyKeys.published(publicKey),
+      });
+      toast.success("Free/busy time published");
+    } catch (error) {
+      console.error("Failed to publish free/busy time:", error);
+      toast.error("Failed to publish free/busy time");
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  if (!isAuthenticated || !publicKey) {
+    return null; // Will redirect
+  }
+
+  const offset = published.data.length - others.length;
+  const rows: AvailabilityPerson[] = [
+    {
+      publicKey,
+      periods: ownBusy || null,
+      isLoading: isLoadingOwn,
+      isSelf: true,
+    },
+    ...others.map((person, index) => ({
+      publicKey: person,
+      periods: published.data[offset + index]?.periods || null,
+      isLoading: published.isLoading[offset + index],
+    })),
+  ];
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Availability</h1>
+        <p className="text-neutral-600 dark:text-neutral-400">
+          Compare when people are busy, without seeing their events.
+        </p>
+      </div>
+
+      <div className="grid md:grid-cols-4 gap-8">
+        <aside className="space-y-6">
+          <div className="space-y-2">
+            <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">
+              Your free/busy time
+            </h2>
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">
+              {ownPublished?.end
+                ? `Published until ${formatDay(ownPublished.end)}.`
+                : "Not published yet."}{" "}
+              Publishing shares when you are busy over the next{" "}
+              {FREEBUSY_DAYS} days, from your calendars and the events you
+              accepted.
+            </p>
+            <Button
+              size="sm"
+              onClick={handlePublish}
+              disabled={isPublishing}
+            >
+              {isPublishing
+                ? <Loader2 className="h-4 w-4 animate-spin" />
+                : <Upload className="h-4 w-4" />}
+              Publish
+            </Button>
+          </div>
+
+          <div className="space-y-2 border-t border-neutral-200 dark:border-neutral-800 pt-4">
+            <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">
+              Compare with
+            </h2>
+            <div className="flex gap-2">
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Paste a public key"
+              />
+              <Button
+                size="icon"
+                variant="outline"
+                onClick={handleAdd}
+                disabled={!candidate || candidate === publicKey}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-neutral-500 dark:text-neutral-400">
+              Only people who published their free/busy time can be shown.
+            </p>
+          </div>
+        </aside>
+
+        <div className="md:col-span-3">
+          <div className="flex items-center justify-between mb-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setWeekOffset(weekOffset - 1)}
+              disabled={weekOffset === 0}
+            >
+              <ChevronLeft className="h-4 w-4" />
+              Earlier
+            </Button>
+            <span className="text-sm text-neutral-600 dark:text-neutral-400">
+              {formatDay(range.start)} – {formatDay(days[days.length - 1].start)}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setWeekOffset(weekOffset + 1)}
+            >
+              Later
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <AvailabilityOverlay
+            people={rows}
+            days={days}
+            timeZone={timeZone}
+            onRemoveAction={removePerson}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { blake3 } from "@noble/hashes/blake3.js";
+import { bytesToHex } from "@noble/hashes/utils.js";
+import { buildCalendarFeed } from "@/services/ical-export-service";
+import { ICS_CONTENT_TYPE } from "@/lib/ical-serializer";
+import { AppError } from "@/types/errors";
+
+interface FeedRouteContext {
+  params: Promise<{
+    author_id: string;
+    calendar_id: string;
+  }>;
+}
+
+export const dynamic = "force-dynamic";
+
+/**
+ * iCalendar subscription feed for a calendar
+ *
+ * GET /calendar/:author_id/:calendar_id/feed.ics
+ * Supports conditional requests (If-None-Match / If-Modified-Since) so
+ * subscribed clients can poll without downloading unchanged feeds.
+ */
+export async function GET(request: Request, { params }: FeedRouteContext) {
+  const { author_id, calendar_id } = await params;
+
+  let feed;
+  try {
+    feed = await buildCalendarFeed(
+      author_id,
+      calendar_id,
+      new URL(request.url).origin,
+    );
+  } catch (error) {
+    const message = error instanceof AppError
+      ? error.getUserMessage()
+      : "Failed to build calendar feed";
+    return new Response(message, { status: 502 });
+  }
+
+  if (!feed) {
+    return new Response("Calendar not found", { status: 404 });
+  }
+
+  const etag = `"${
+    bytesToHex(blake3(new TextEncoder().encode(feed.content))).slice(0, 32)
+  }"`;
+  // HTTP dates have second precision
+  const lastModified = new Date(
+    Math.floor(feed.lastModified.getTime() / 1000) * 1000,
+  );
+
+  const headers = new Headers({
+    "Content-Type": ICS_CONTENT_TYPE,
+    "Content-Disposition": `inline; filename="${feed.filename}"`,
+    "Cache-Control": "public, max-age=300",
+    "ETag": etag,
+    "Last-Modified": lastModified.toUTCString(),
+  });
+
+  const ifNoneMatch = request.headers.get("if-none-match");
+  const ifModifiedSince = request.headers.get("if-modified-since");
+  const notModified = ifNoneMatch
+    ? ifNoneMatch.split(",").some((tag) =>
+      tag.trim().replace(/^W\//, "") === etag || tag.trim() === "*"
+    )
+    : ifModifiedSince !== null &&
+      !isNaN(Date.parse(ifModifiedSince)) &&
+      lastModified.getTime() <= Date.parse(ifModifiedSince);
+
+  if (notModified) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(feed.content, { status: 200, headers });
+}
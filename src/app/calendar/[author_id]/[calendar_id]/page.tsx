@@ -1,16 +1,64 @@
 "use client";
 
-import { use, useState } from "react";
+import { use, useMemo, useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useQueryClient } from "@tanstack/react-query";
 import { useAuthStore } from "@/stores/auth-store";
-import { useCalendar, useCalendarEvents } from "@/hooks/use-calendars";
+import {
+  calendarKeys,
+  eventKeys,
+  useAllCalendarEvents,
+  useCalendar,
+  useCalendarAdmins,
+  useCalendarEventRecords,
+  useCalendarEventsInRange,
+  useCalendarTrust,
+  useRescheduleEvent,
+} from "@/hooks/use-calendars";
 import { CalendarHeader } from "@/components/calendar/CalendarHeader";
 import { CalendarAdmins } from "@/components/calendar/CalendarAdmins";
+import { CalendarTransfer } from "@/components/calendar/CalendarTransfer";
+import { PendingSubmissions } from "@/components/calendar/PendingSubmissions";
+import { EventTimeRange } from "@/components/calendar/EventTimeRange";
 import { Button } from "@/components/ui/Button";
-import { Loader2, Plus, Calendar as CalendarIcon, MapPin, Clock } from "lucide-react";
+import { Loader2, Plus, MapPin, Clock, FileUp, Pencil, X } from "lucide-react";
 import { EventFormModal } from "@/components/calendar/EventFormModal";
+import { IcsImportWizard } from "@/components/calendar/IcsImportWizard";
+import { OccurrenceEditDialog } from "@/components/calendar/OccurrenceEditDialog";
+import { RecurrenceScopeDialog } from "@/components/calendar/RecurrenceScopeDialog";
+import {
+  CalendarView,
+  type CalendarViewItem,
+} from "@/components/calendar/CalendarView";
+import type { IcsImportResult } from "@/services/ical-import-service";
 import { getEventPageUrl } from "@/utils/pubky-uri";
+import { nexusEventToEventData } from "@/lib/event-data";
+import {
+  type EventOccurrence,
+  expandEvents,
+  isRecurringEvent,
+} from "@/lib/recurrence";
+import { getUserTimezone } from "@/lib/calendar-validation";
+import { getAppConfig } from "@/lib/config";
+import { getCalendarRole, partitionEventsByTrust } from "@/lib/event-trust";
+import {
+  type EventTiming,
+  fromViewerDate,
+  getEventTiming,
+  toViewerDate,
+} from "@/lib/event-time";
+import type { NexusEvent } from "@/lib/nexus-types";
+import type {
+  PubkyAppEventData,
+  PubkyAppEventRecord,
+} from "@/types/calendar";
+import { fetchEventData } from "@/services/calendar-service";
+import { approveSubmission } from "@/services/calendar-trust-service";
+import type {
+  RecurrenceEditScope,
+  RecurrenceSeries,
+} from "@/services/recurrence-edit-service";
 import { toast } from "sonner";
 
 interface CalendarPageProps {
@@ -20,26 +68,110 @@ interface CalendarPageProps {
   }>;
 }
 
+interface ListedEvent {
+  key: string;
+  event: NexusEvent;
+  start: Date; // In the viewer's timezone, also for floating events
+  end: Date | null;
+  timing: EventTiming;
+  isOccurrence: boolean;
+  occurrence?: EventOccurrence;
+  series?: RecurrenceSeries;
+}
+
 export default function CalendarPage({ params }: CalendarPageProps) {
   const resolvedParams = use(params);
   const router = useRouter();
   const queryClient = useQueryClient();
   const { user, isAuthenticated } = useAuthStore();
   const [isEventModalOpen, setIsEventModalOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<
+    { uri: string; event: PubkyAppEventData } | null
+  >(null);
+  const [editingOccurrence, setEditingOccurrence] = useState<
+    { series: RecurrenceSeries; occurrence: EventOccurrence } | null
+  >(null);
+  const [visibleRange, setVisibleRange] = useState<
+    { start: Date; end: Date } | null
+  >(null);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [pendingReschedule, setPendingReschedule] = useState<
+    { item: ListedEvent; start: Date; end: Date } | null
+  >(null);
+
+  const rescheduleMutation = useRescheduleEvent(resolvedParams.calendar_id);
 
-  // Fetch calendar metadata from Nexus
+  // Fetch calendar metadata
   const {
     data: nexusCalendar,
     isLoading: isLoadingCalendar,
     error: calendarError,
   } = useCalendar(resolvedParams.author_id, resolvedParams.calendar_id);
 
-  // Fetch events for this calendar from Nexus
+  // Fetch events for this calendar
   const {
-    data: nexusEvents,
+    data: allEvents,
     isLoading: isLoadingEvents,
     error: eventsError,
-  } = useCalendarEvents(resolvedParams.calendar_id);
+  } = useAllCalendarEvents(
+    resolvedParams.author_id,
+    resolvedParams.calendar_id,
+  );
+
+  // Fetch the events of the visible range
+  const {
+    data: rangeEvents,
+    isFetching: isFetchingRange,
+  } = useCalendarEventsInRange(
+    resolvedParams.author_id,
+    resolvedParams.calendar_id,
+    visibleRange,
+  );
+
+  const { data: adminSettings } = useCalendarAdmins(
+    resolvedParams.author_id,
+    resolvedParams.calendar_id,
+  );
+
+  // Only the owner and admins may add events; others' events linking to
+  // this calendar are held back as pending submissions until approved
+  const { data: trust } = useCalendarTrust(
+    resolvedParams.author_id,
+    resolvedParams.calendar_id,
+    nexusCalendar ? nexusCalendar.x_pubky_admins || [] : undefined,
+  );
+  const [approvingUri, setApprovingUri] = useState<string | null>(null);
+
+  const pendingEvents = useMemo(
+    () =>
+      trust && allEvents
+        ? partitionEventsByTrust(
+          allEvents,
+          trust,
+          getAppConfig().removedAdminEvents,
+        ).pending
+        : [],
+    [trust, allEvents],
+  );
+
+  // Recurring events may start before the visible range, so they are taken
+  // from the full list and expanded locally
+  const nexusEvents = useMemo(() => {
+    if (!allEvents || !trust) return undefined;
+    const byUri = new Map<string, NexusEvent>();
+    for (const event of rangeEvents || []) byUri.set(event.uri, event);
+    for (const event of allEvents) {
+      if (event.recurrence_rule || event.recurrence_id) {
+        byUri.set(event.uri, event);
+      }
+    }
+    return partitionEventsByTrust(
+      Array.from(byUri.values()),
+      trust,
+      getAppConfig().removedAdminEvents,
+    ).trusted;
+  }, [allEvents, rangeEvents, trust]);
 
   // Convert Nexus calendar to serializable format for components
   const calendar = nexusCalendar ? {
@@ -51,6 +183,106 @@ export default function CalendarPage({ params }: CalendarPageProps) {
     created: nexusCalendar.created?.toString(),
   } : null;
 
+  // Recurring events need their stored data (UID, EXDATE) to be matched
+  // with overrides; fall back to the indexed data while it loads
+  const { data: eventRecords } = useCalendarEventRecords(
+    resolvedParams.calendar_id,
+    nexusEvents,
+  );
+
+  // Expand recurring events into their occurrences in the visible range,
+  // with overrides replacing the occurrences they modify
+  const listedEvents = useMemo(() => {
+    if (!nexusEvents || !visibleRange) return [];
+
+    const viewerTimeZone = getUserTimezone();
+    const timeZone = nexusCalendar?.timezone || viewerTimeZone;
+    const { start: windowStart, end: windowEnd } = visibleRange;
+
+    const nexusByUri = new Map(nexusEvents.map((event) => [event.uri, event]));
+    const records: PubkyAppEventRecord[] = eventRecords ||
+      nexusEvents.map((event) => ({
+        uri: event.uri,
+        data: nexusEventToEventData(event),
+      }));
+
+    // Group recurring masters with the overrides sharing their UID
+    const seriesByUid = new Map<string, RecurrenceSeries>();
+    for (const record of records) {
+      if (isRecurringEvent(record.data)) {
+        seriesByUid.set(record.data.uid, {
+          master: record,
+          overrides: [],
+          timeZone,
+        });
+      }
+    }
+    for (const record of records) {
+      if (record.data.recurrence_id) {
+        seriesByUid.get(record.data.uid)?.overrides.push(record);
+      }
+    }
+
+    const items: ListedEvent[] = [];
+
+    for (const record of records) {
+      const event = nexusByUri.get(record.uri);
+      if (!event) continue;
+
+      const series = seriesByUid.get(record.data.uid);
+      if (series && series.master !== record) continue; // Listed with its master
+
+      // Floating and all-day times happen at the viewer's wall-clock time
+      const timing = getEventTiming(record.data, timeZone);
+      const toViewer = (date: Date) =>
+        toViewerDate(date, timing, viewerTimeZone);
+
+      const occurrences = series
+        ? expandEvents(
+          [series.master.data, ...series.overrides.map((o) => o.data)],
+          windowStart,
+          windowEnd,
+          timeZone,
+        )
+        : [];
+
+      if (occurrences.length === 0) {
+        const start = new Date(event.start_date);
+        const end = event.end_date ? new Date(event.end_date) : null;
+        if (start < windowEnd && (end || start) >= windowStart) {
+          items.push({
+            key: `${event.id}-${start.getTime()}`,
+            event,
+            start: toViewer(start),
+            end: end && toViewer(end),
+            timing,
+            isOccurrence: false,
+          });
+        }
+        continue;
+      }
+
+      for (const occurrence of occurrences) {
+        const source = series!.overrides.find((o) => o.data === occurrence.event);
+        const listed = (source && nexusByUri.get(source.uri)) || event;
+        items.push({
+          key: `${listed.id}-${occurrence.start.getTime()}`,
+          event: listed,
+          start: toViewer(occurrence.start),
+          end: occurrence.event.dtend ? toViewer(occurrence.end) : null,
+          timing,
+          isOccurrence: true,
+          occurrence,
+          series,
+        });
+      }
+    }
+
+    return items.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }, [nexusEvents, eventRecords, nexusCalendar?.timezone, visibleRange]);
+
+  const selectedEvent = listedEvents.find((item) => item.key === selectedKey);
+
   // Owner is the creator of the calendar (author_id)
   const isOwner = Boolean(
     isAuthenticated &&
@@ -73,6 +305,30 @@ export default function CalendarPage({ params }: CalendarPageProps) {
   // Both owner and admins can create events
   const canCreateEvents = isOwner || isAdmin;
 
+  // The owner and moderators review outside submissions
+  const role = trust && isAuthenticated
+    ? getCalendarRole(trust, user?.publicKey)
+    : null;
+  const canModerate = role === "owner" || role === "moderator";
+
+  const viewItems = useMemo<CalendarViewItem[]>(
+    () =>
+      listedEvents.map(({ key, event, start, end }) => ({
+        key,
+        title: event.summary || "Untitled Event",
+        start,
+        // Events without an end take up their day (all-day) or a moment
+        end: end ||
+          (event.all_day ? new Date(start.getTime() + 24 * 60 * 60 * 1000) : start),
+        allDay: event.all_day,
+        color: nexusCalendar?.color || undefined,
+        // Events can only be written by their author's homeserver session
+        editable: canCreateEvents && event.author === user?.publicKey,
+      })),
+    [listedEvents, nexusCalendar?.color, canCreateEvents, user?.publicKey],
+  );
+
+
   const handleCalendarUpdated = async () => {    
     // Invalidate and refetch the calendar query
     await queryClient.invalidateQueries({
@@ -81,6 +337,36 @@ export default function CalendarPage({ params }: CalendarPageProps) {
     toast.success("Calendar updated!");
   };
 
+  const handleAdminSettingsChanged = () => {
+    queryClient.invalidateQueries({
+      queryKey: calendarKeys.detail(
+        resolvedParams.author_id,
+        resolvedParams.calendar_id,
+      ),
+    });
+  };
+
+  const handleApprove = async (eventUri: string) => {
+    if (!user?.publicKey) return;
+
+    setApprovingUri(eventUri);
+    try {
+      await approveSubmission(calendarUri, eventUri, user.publicKey);
+      await queryClient.invalidateQueries({
+        queryKey: calendarKeys.detail(
+          resolvedParams.author_id,
+          resolvedParams.calendar_id,
+        ),
+      });
+      toast.success("Submission approved");
+    } catch (error) {
+      console.error("Failed to approve submission:", error);
+      toast.error("Failed to approve the submission");
+    } finally {
+      setApprovingUri(null);
+    }
+  };
+
   const handleCalendarDeleted = () => {
     toast.success("Calendar deleted!");
     router.push("/my-calendars");
@@ -95,16 +381,79 @@ export default function CalendarPage({ params }: CalendarPageProps) {
       queryKey: ["events", "calendar", resolvedParams.calendar_id],
     });
 
-    // Get event page URL
+    // Open the new event's page
     const pageUrl = getEventPageUrl(eventUri);
     if (pageUrl) {
-      console.log(`Event created at: ${pageUrl}`);
+      router.push(pageUrl);
+    }
+  };
+
+  const handleEventsImported = (results: IcsImportResult[]) => {
+    if (results.some((result) => result.status === "success")) {
+      queryClient.invalidateQueries({
+        queryKey: ["events", "calendar", resolvedParams.calendar_id],
+      });
+    }
+  };
+
+  const handleEditEvent = async (eventUri: string) => {
+    const event = await fetchEventData(eventUri);
+    if (!event) {
+      toast.error("Failed to load event");
+      return;
+    }
+    setEditingEvent({ uri: eventUri, event });
+  };
+
+  const handleEventUpdated = () => {
+    toast.success("Event updated!");
+  };
+
+  const reschedule = (
+    { item, start, end }: { item: ListedEvent; start: Date; end: Date },
+    scope?: RecurrenceEditScope,
+  ) => {
+    if (!user?.publicKey) return;
 
-      // TODO: Redirect to event detail page when implemented
-      // router.push(pageUrl);
+    const viewerTimeZone = getUserTimezone();
+    rescheduleMutation.mutate({
+      eventUri: item.event.uri,
+      start: fromViewerDate(start, item.timing, viewerTimeZone),
+      // Keep events without an end open-ended unless they were resized
+      end: item.end || end.getTime() !== start.getTime()
+        ? fromViewerDate(end, item.timing, viewerTimeZone)
+        : null,
+      publicKey: user.publicKey,
+      recurrence: item.occurrence && item.series && scope
+        ? { series: item.series, occurrence: item.occurrence, scope }
+        : undefined,
+    }, {
+      onSuccess: () => toast.success("Event rescheduled"),
+      onError: (error) => {
+        console.error("Failed to reschedule event:", error);
+        toast.error("Failed to move the event. Please try again.");
+      },
+    });
+  };
+
+  const handleItemChange = (key: string, times: { start: Date; end: Date }) => {
+    const item = listedEvents.find((listed) => listed.key === key);
+    if (!item) return;
+
+    // Recurring events ask whether to move one occurrence or the series
+    if (item.occurrence && item.series) {
+      setPendingReschedule({ item, ...times });
+    } else {
+      reschedule({ item, ...times });
     }
   };
 
+  const handleOccurrenceChanged = () => {
+    queryClient.invalidateQueries({
+      queryKey: eventKeys.calendar(resolvedParams.calendar_id),
+    });
+  };
+
   // Loading state
   if (isLoadingCalendar) {
     return (
@@ -164,13 +513,23 @@ export default function CalendarPage({ params }: CalendarPageProps) {
           {canCreateEvents && (
             <div className="mb-6 flex items-center justify-between">
               <h2 className="text-2xl font-bold">Events</h2>
-              <Button
-                onClick={() => setIsEventModalOpen(true)}
-                className="flex items-center space-x-2"
-              >
-                <Plus className="h-4 w-4" />
-                <span>New Event</span>
-              </Button>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setIsImportOpen(true)}
+                  className="flex items-center space-x-2"
+                >
+                  <FileUp className="h-4 w-4" />
+                  <span>Import .ics</span>
+                </Button>
+                <Button
+                  onClick={() => setIsEventModalOpen(true)}
+                  className="flex items-center space-x-2"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>New Event</span>
+                </Button>
+              </div>
             </div>
           )}
 
@@ -192,27 +551,63 @@ export default function CalendarPage({ params }: CalendarPageProps) {
                 The backend may have data format issues. Events feature is under development.
               </p>
             </div>
-          ) : !nexusEvents || nexusEvents.length === 0 ? (
-            <div className="bg-neutral-50 dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-lg p-8 text-center">
-              <CalendarIcon className="h-12 w-12 mx-auto mb-4 text-neutral-400" />
-              <p className="text-neutral-600 dark:text-neutral-400">
-                No events yet. {canCreateEvents ? "Create your first event!" : ""}
-              </p>
-            </div>
           ) : (
             <div className="space-y-4">
-              {nexusEvents.map((event) => (
+              <CalendarView
+                items={viewItems}
+                timeZone={calendar.timezone}
+                isLoading={isFetchingRange}
+                onRangeChangeAction={setVisibleRange}
+                onItemSelectAction={setSelectedKey}
+                onItemChangeAction={handleItemChange}
+              />
+
+              {/* Selected Event */}
+              {selectedEvent && (
                 <div
-                  key={event.id}
                   className="bg-white dark:bg-neutral-950 border border-neutral-200 dark:border-neutral-800 rounded-lg p-4 hover:border-neutral-300 dark:hover:border-neutral-700 transition-colors"
                 >
-                  <h3 className="text-lg font-semibold mb-2">
-                    {event.summary || "Untitled Event"}
-                  </h3>
+                  <div className="flex items-start justify-between gap-2 mb-2">
+                    <h3 className="text-lg font-semibold">
+                      <Link
+                        href={getEventPageUrl(selectedEvent.event.uri) || "#"}
+                        className="hover:underline"
+                      >
+                        {selectedEvent.event.summary || "Untitled Event"}
+                      </Link>
+                    </h3>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {selectedEvent.event.author === user?.publicKey && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            selectedEvent.occurrence && selectedEvent.series
+                              ? setEditingOccurrence({
+                                series: selectedEvent.series,
+                                occurrence: selectedEvent.occurrence,
+                              })
+                              : handleEditEvent(selectedEvent.event.uri)}
+                          className="flex items-center gap-1"
+                        >
+                          <Pencil className="h-3 w-3" />
+                          <span>Edit</span>
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Close"
+                        onClick={() => setSelectedKey(null)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
                   
-                  {event.description && (
+                  {selectedEvent.event.description && (
                     <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-3">
-                      {event.description}
+                      {selectedEvent.event.description}
                     </p>
                   )}
 
@@ -220,32 +615,31 @@ export default function CalendarPage({ params }: CalendarPageProps) {
                     {/* Date/Time */}
                     <div className="flex items-start gap-2">
                       <Clock className="h-4 w-4 mt-0.5 text-neutral-500 shrink-0" />
-                      <div>
-                        <div className="text-neutral-900 dark:text-neutral-100">
-                          {new Date(event.start_date).toLocaleString()}
-                        </div>
-                        {event.end_date && (
-                          <div className="text-neutral-600 dark:text-neutral-400">
-                            to {new Date(event.end_date).toLocaleString()}
-                          </div>
-                        )}
-                        {event.all_day && (
-                          <span className="text-xs bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-0.5 rounded ml-2">
-                            All Day
-                          </span>
+                      <EventTimeRange
+                        start={fromViewerDate(
+                          selectedEvent.start,
+                          selectedEvent.timing,
+                          getUserTimezone(),
                         )}
-                      </div>
+                        end={selectedEvent.end &&
+                          fromViewerDate(
+                            selectedEvent.end,
+                            selectedEvent.timing,
+                            getUserTimezone(),
+                          )}
+                        timing={selectedEvent.timing}
+                      />
                     </div>
 
                     {/* Location */}
-                    {event.location && (
+                    {selectedEvent.event.location && (
                       <div className="flex items-start gap-2">
                         <MapPin className="h-4 w-4 mt-0.5 text-neutral-500 shrink-0" />
                         <div className="text-neutral-700 dark:text-neutral-300">
-                          {event.location.name || event.location.address || "Location"}
-                          {event.location.uri && (
+                          {selectedEvent.event.location.name || selectedEvent.event.location.address || "Location"}
+                          {selectedEvent.event.location.uri && (
                             <a
-                              href={event.location.uri}
+                              href={selectedEvent.event.location.uri}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="ml-2 text-blue-600 dark:text-blue-400 hover:underline"
@@ -259,12 +653,12 @@ export default function CalendarPage({ params }: CalendarPageProps) {
 
                     {/* Status & Tags */}
                     <div className="flex flex-wrap gap-2 mt-2">
-                      {event.status && (
+                      {selectedEvent.event.status && (
                         <span className="text-xs bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300 px-2 py-1 rounded">
-                          {event.status}
+                          {selectedEvent.event.status}
                         </span>
                       )}
-                      {event.tags?.map((tag) => (
+                      {selectedEvent.event.tags?.map((tag) => (
                         <span
                           key={tag}
                           className="text-xs bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200 px-2 py-1 rounded"
@@ -272,9 +666,13 @@ export default function CalendarPage({ params }: CalendarPageProps) {
                           #{tag}
                         </span>
                       ))}
-                      {event.recurrence_rule && (
+                      {(selectedEvent.event.recurrence_rule || selectedEvent.isOccurrence) && (
                         <span className="text-xs bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200 px-2 py-1 rounded">
-                          Recurring
+                          {selectedEvent.occurrence?.isOverride
+                            ? "Rescheduled"
+                            : selectedEvent.isOccurrence
+                            ? "Repeats"
+                            : "Recurring"}
                         </span>
                       )}
                     </div>
@@ -285,12 +683,12 @@ export default function CalendarPage({ params }: CalendarPageProps) {
                         View Raw Data
                       </summary>
                       <pre className="mt-2 text-xs bg-neutral-100 dark:bg-neutral-900 p-3 rounded overflow-x-auto">
-                        {JSON.stringify(event, null, 2)}
+                        {JSON.stringify(selectedEvent.event, null, 2)}
                       </pre>
                     </details>
                   </div>
                 </div>
-              ))}
+              )}
             </div>
           )}
         </div>
@@ -327,6 +725,28 @@ export default function CalendarPage({ params }: CalendarPageProps) {
             </div>
           </div>
 
+          {/* Ownership transfer offers and moved calendars */}
+          <CalendarTransfer
+            calendarUri={calendarUri}
+            authorId={resolvedParams.author_id}
+            calendarId={resolvedParams.calendar_id}
+            admins={(nexusCalendar?.x_pubky_admins || []).filter(
+              (admin) => admin !== resolvedParams.author_id,
+            )}
+            transfer={adminSettings?.transfer}
+            isWriter={canCreateEvents}
+            onChangedAction={handleAdminSettingsChanged}
+          />
+
+          {/* Events by non-admins, for the owner and moderators to review */}
+          {canModerate && (
+            <PendingSubmissions
+              events={pendingEvents}
+              approvingUri={approvingUri}
+              onApproveAction={handleApprove}
+            />
+          )}
+
           {/* Calendar Admins (filtered to exclude owner) */}
           <CalendarAdmins
             admins={calendar.x_pubky_admins || []}
@@ -343,6 +763,49 @@ export default function CalendarPage({ params }: CalendarPageProps) {
         onSuccessAction={handleEventCreated}
         defaultCalendarUri={calendarUri}
       />
+
+      {/* Event Import Wizard */}
+      <IcsImportWizard
+        isOpen={isImportOpen}
+        onCloseAction={() => setIsImportOpen(false)}
+        onImportedAction={handleEventsImported}
+        defaultCalendarUri={calendarUri}
+      />
+
+      {/* Event Edit Modal */}
+      {editingEvent && (
+        <EventFormModal
+          isOpen={true}
+          onCloseAction={() => setEditingEvent(null)}
+          onSuccessAction={handleEventUpdated}
+          initialData={editingEvent.event}
+          eventUri={editingEvent.uri}
+          defaultCalendarUri={calendarUri}
+          mode="edit"
+        />
+      )}
+
+      {/* Scope of a dragged recurring event */}
+      <RecurrenceScopeDialog
+        isOpen={pendingReschedule !== null}
+        onCloseAction={() => setPendingReschedule(null)}
+        onConfirmAction={(scope) => {
+          if (pendingReschedule) reschedule(pendingReschedule, scope);
+          setPendingReschedule(null);
+        }}
+        action="edit"
+      />
+
+      {/* Occurrence Edit Dialog */}
+      {editingOccurrence && (
+        <OccurrenceEditDialog
+          isOpen={true}
+          onCloseAction={() => setEditingOccurrence(null)}
+          onChangedAction={handleOccurrenceChanged}
+          series={editingOccurrence.series}
+          occurrence={editingOccurrence.occurrence}
+        />
+      )}
     </div>
   );
 }
@@ -1,15 +1,116 @@
 "use client";
 
-import { useCalendars, nexusCalendarsToSerializable } from "@/hooks/use-calendars";
+import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Loader2, Search, Star } from "lucide-react";
+import {
+  useFeaturedCalendars,
+  useInfiniteCalendarSearch,
+} from "@/hooks/use-calendars";
 import { CalendarCard } from "@/components/calendar/CalendarCard";
 import { Button } from "@/components/ui/Button";
-import { Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/Input";
+import type { CalendarSorting } from "@/lib/nexus-types";
 
-export default function CalendarDiscoveryPage() {
-  const { data: nexusCalendars, isLoading, error } = useCalendars();
+const PAGE_SIZE = 20;
+const QUERY_DEBOUNCE_MS = 300;
+
+const SORT_OPTIONS: Array<{ value: CalendarSorting; label: string }> = [
+  { value: "newest", label: "Newest" },
+  { value: "events", label: "Most events" },
+  { value: "subscribers", label: "Most subscribers" },
+];
+
+function parseSorting(value: string | null): CalendarSorting {
+  return SORT_OPTIONS.some((option) => option.value === value)
+    ? value as CalendarSorting
+    : "newest";
+}
+
+function CalendarDiscoveryContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const [isSentinelVisible, setIsSentinelVisible] = useState(false);
+
+  // Search and sort live in the query string so results can be shared
+  const query = searchParams.get("q") || "";
+  const sorting = parseSorting(searchParams.get("sort"));
+  const [queryInput, setQueryInput] = useState(query);
+
+  const updateSearchParams = useCallback(
+    (next: { q?: string; sort?: CalendarSorting }) => {
+      const params = new URLSearchParams(searchParams.toString());
+      Object.entries(next).forEach(([key, value]) => {
+        if (value && !(key === "sort" && value === "newest")) {
+          params.set(key, value);
+        } else {
+          params.delete(key);
+        }
+      });
+      const queryString = params.toString();
+      router.replace(queryString ? `${pathname}?${queryString}` : pathname, {
+        scroll: false,
+      });
+    },
+    [router, pathname, searchParams],
+  );
+
+  useEffect(() => {
+    setQueryInput(query);
+  }, [query]);
+
+  // Debounce typing so every key does not restart the search
+  useEffect(() => {
+    const trimmed = queryInput.trim();
+    if (trimmed === query) return;
+
+    const timeoutId = setTimeout(() => {
+      updateSearchParams({ q: trimmed });
+    }, QUERY_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [queryInput, query, updateSearchParams]);
+
+  const searchOptions = useMemo(
+    () => ({ query: query || undefined, sorting }),
+    [query, sorting],
+  );
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteCalendarSearch(searchOptions, PAGE_SIZE);
+  const { data: featured } = useFeaturedCalendars();
+
+  const calendars = useMemo(
+    () => data?.pages.flatMap((page) => page.calendars) || [],
+    [data],
+  );
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => setIsSentinelVisible(entry.isIntersecting),
+      { rootMargin: "200px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, []);
 
-  // Convert Nexus calendars to serializable format for CalendarCard
-  const calendars = nexusCalendars ? nexusCalendarsToSerializable(nexusCalendars) : [];
+  // Keep loading while the end of the list is in view, which also covers
+  // pages without matches
+  useEffect(() => {
+    if (isSentinelVisible && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [isSentinelVisible, hasNextPage, isFetchingNextPage, fetchNextPage, data]);
 
   return (
     <div className="container mx-auto px-4 py-8 max-w-6xl">
@@ -20,6 +121,52 @@ export default function CalendarDiscoveryPage() {
         </p>
       </div>
 
+      <div className="flex flex-col sm:flex-row gap-3 mb-8">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-neutral-500" />
+          <Input
+            value={queryInput}
+            onChange={(e) => setQueryInput(e.target.value)}
+            placeholder="Search calendars by name or description"
+            className="pl-9"
+            aria-label="Search calendars"
+          />
+        </div>
+        <select
+          value={sorting}
+          onChange={(e) =>
+            updateSearchParams({ sort: e.target.value as CalendarSorting })}
+          className="h-10 sm:w-48 px-3 text-sm border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-950"
+          aria-label="Sort calendars"
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Featured */}
+      {!query && featured && featured.length > 0 && (
+        <section className="mb-10">
+          <h2 className="flex items-center gap-2 text-xl font-semibold mb-4">
+            <Star className="h-5 w-5 text-amber-500" />
+            Featured
+          </h2>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {featured.map((calendar) => (
+              <CalendarCard
+                key={calendar.uri}
+                authorId={calendar.authorId}
+                calendarId={calendar.calendarId}
+                calendar={calendar.calendar}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+
       {isLoading && (
         <div className="flex items-center justify-center py-12">
           <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
@@ -42,16 +189,33 @@ export default function CalendarDiscoveryPage() {
         </div>
       )}
 
-      {!isLoading && !error && calendars.length === 0 && (
+      {!isLoading && !error && calendars.length === 0 && !hasNextPage && (
         <div className="rounded-lg border border-dashed p-12 text-center">
-          <p className="text-muted-foreground text-lg mb-2">No public calendars found</p>
-          <p className="text-sm text-muted-foreground">
-            Check back later as more calendars are published to the network
-          </p>
+          {query
+            ? (
+              <>
+                <p className="text-muted-foreground text-lg mb-2">
+                  No calendars match &quot;{query}&quot;
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Try a shorter or different search
+                </p>
+              </>
+            )
+            : (
+              <>
+                <p className="text-muted-foreground text-lg mb-2">
+                  No public calendars found
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Check back later as more calendars are published to the network
+                </p>
+              </>
+            )}
         </div>
       )}
 
-      {!isLoading && !error && calendars.length > 0 && (
+      {calendars.length > 0 && (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {calendars.map((calendar) => (
             <CalendarCard
@@ -63,6 +227,31 @@ export default function CalendarDiscoveryPage() {
           ))}
         </div>
       )}
+
+      {/* Infinite scroll trigger */}
+      <div ref={sentinelRef} className="flex justify-center py-8">
+        {isFetchingNextPage ? (
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        ) : hasNextPage ? (
+          <Button variant="outline" onClick={() => fetchNextPage()}>
+            Load more
+          </Button>
+        ) : null}
+      </div>
     </div>
   );
 }
+
+export default function CalendarDiscoveryPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      }
+    >
+      <CalendarDiscoveryContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,428 @@
+"use client";
+
+import { use, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuthStore } from "@/stores/auth-store";
+import { eventKeys, useCalendar, useEvent } from "@/hooks/use-calendars";
+import { Button } from "@/components/ui/Button";
+import { Image } from "@/components/ui/Image";
+import { ProfileItem } from "@/components/ui/ProfileItem";
+import { ConfirmationDialog } from "@/components/ui/ConfirmationDialog";
+import { EventFormModal } from "@/components/calendar/EventFormModal";
+import { EventTimeRange } from "@/components/calendar/EventTimeRange";
+import { getEventTiming, toViewerDate } from "@/lib/event-time";
+import { EventDescription } from "@/components/calendar/EventDescription";
+import { EventLocationMap } from "@/components/calendar/EventLocationMap";
+import { EventAttendees } from "@/components/calendar/EventAttendees";
+import { EventAlarms } from "@/components/calendar/EventAlarms";
+import { deleteEvent } from "@/services/calendar-service";
+import { getEventCalendarUris, microsToDate } from "@/lib/event-data";
+import {
+  describeRRule,
+  getEventRecurrenceInput,
+  getNextOccurrence,
+} from "@/lib/recurrence";
+import { isSafeUrl } from "@/lib/rich-text";
+import { getUserTimezone } from "@/lib/calendar-validation";
+import { extractFileId, getNexusImageUrl } from "@/lib/nexus";
+import { getCalendarPageUrl, parseCalendarUri } from "@/utils/pubky-uri";
+import {
+  parseConference,
+  parseOrganizer,
+  parseStructuredLocation,
+  parseStyledDescription,
+} from "@/types/calendar";
+import {
+  ArrowLeft,
+  Calendar as CalendarIcon,
+  Clock,
+  Loader2,
+  MapPin,
+  Pencil,
+  Repeat,
+  Trash2,
+  Video,
+} from "lucide-react";
+import { toast } from "sonner";
+
+interface EventPageProps {
+  params: Promise<{
+    author_id: string;
+    event_id: string;
+  }>;
+}
+
+function formatDateTime(date: Date): string {
+  return date.toLocaleString(undefined, {
+    dateStyle: "full",
+    timeStyle: "short",
+  });
+}
+
+/**
+ * Link to a calendar the event belongs to, labelled with its name
+ */
+function ParentCalendarLink({ calendarUri }: { calendarUri: string }) {
+  const parsed = parseCalendarUri(calendarUri);
+  const { data: calendar } = useCalendar(parsed?.authorId, parsed?.calendarId);
+  const pageUrl = getCalendarPageUrl(calendarUri);
+
+  if (!pageUrl) return null;
+
+  return (
+    <Link
+      href={pageUrl}
+      className="flex items-center gap-2 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+    >
+      <span
+        className="h-3 w-3 rounded-full shrink-0"
+        style={{ backgroundColor: calendar?.color || "#3B82F6" }}
+      />
+      {calendar?.name || parsed?.calendarId}
+    </Link>
+  );
+}
+
+export default function EventPage({ params }: EventPageProps) {
+  const resolvedParams = use(params);
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { user, isAuthenticated } = useAuthStore();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  const {
+    data: detail,
+    isLoading,
+    error,
+  } = useEvent(resolvedParams.author_id, resolvedParams.event_id);
+
+  const event = detail?.data;
+  const calendarUris = event ? getEventCalendarUris(event) : [];
+
+  // The parent calendar's timezone drives the recurrence summary
+  const primaryCalendar = calendarUris[0]
+    ? parseCalendarUri(calendarUris[0])
+    : null;
+  const { data: nexusCalendar } = useCalendar(
+    primaryCalendar?.authorId,
+    primaryCalendar?.calendarId,
+  );
+  const timeZone = nexusCalendar?.timezone || getUserTimezone();
+
+  const nextOccurrence = useMemo(() => {
+    if (!event?.rrule) return null;
+    try {
+      return getNextOccurrence(
+        getEventRecurrenceInput(event, timeZone),
+        new Date(),
+      );
+    } catch {
+      return null;
+    }
+  }, [event, timeZone]);
+
+  // The form reloads whenever initialData changes
+  const editableEvent = isEditOpen && event ? event : undefined;
+
+  // Events live on the author's homeserver, so only the author can change
+  // them; calendar admins manage their own events
+  const canManage = Boolean(
+    isAuthenticated &&
+      user?.publicKey &&
+      resolvedParams.author_id === user.publicKey,
+  );
+
+  const handleEventUpdated = () => {
+    toast.success("Event updated!");
+  };
+
+  const handleDelete = async () => {
+    if (!detail) return;
+    setIsDeleteOpen(false);
+
+    const success = await deleteEvent(detail.uri);
+    if (!success) {
+      toast.error("Failed to delete event. Please try again.");
+      return;
+    }
+
+    toast.success("Event deleted!");
+    await queryClient.invalidateQueries({ queryKey: eventKeys.all });
+    router.push(
+      (calendarUris[0] && getCalendarPageUrl(calendarUris[0])) || "/events",
+    );
+  };
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-neutral-500" />
+          <span className="ml-3 text-neutral-600 dark:text-neutral-400">
+            Loading event...
+          </span>
+        </div>
+      </div>
+    );
+  }
+
+  // Error state
+  if (error || !detail || !event) {
+    const errorMessage = error instanceof Error
+      ? error.message
+      : "Event not found";
+
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-2xl mx-auto text-center">
+          <h1 className="text-2xl font-bold text-red-600 dark:text-red-400 mb-4">
+            {errorMessage}
+          </h1>
+          <Button onClick={() => router.push("/events")} variant="outline">
+            Back to Events
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const start = microsToDate(event.dtstart);
+  const end = event.dtend ? microsToDate(event.dtend) : null;
+  const organizer = parseOrganizer(event.organizer || undefined);
+  const conference = parseConference(event.conference || undefined);
+  const location = parseStructuredLocation(
+    event.structured_location || undefined,
+  );
+  const description = parseStyledDescription(
+    event.styled_description || undefined,
+  );
+  const imageFileId = extractFileId(event.image_uri);
+  const imageUrl = imageFileId
+    ? getNexusImageUrl(resolvedParams.author_id, imageFileId, "main")
+    : null;
+  const organizerUri = organizer?.uri
+    ? organizer.uri.startsWith("pubky://")
+      ? organizer.uri
+      : `pubky://${organizer.uri}`
+    : `pubky://${resolvedParams.author_id}`;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => router.back()}
+        className="mb-4 flex items-center gap-1"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back
+      </Button>
+
+      {/* Event Image */}
+      {imageUrl && (
+        <Image
+          src={imageUrl}
+          alt={event.summary}
+          className="w-full h-64 rounded-lg mb-6"
+        />
+      )}
+
+      {/* Title & Actions */}
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">
+            {event.summary || "Untitled Event"}
+          </h1>
+          <div className="flex flex-wrap gap-2 mt-3">
+            {event.status && (
+              <span className="text-xs bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300 px-2 py-1 rounded">
+                {event.status}
+              </span>
+            )}
+            {event.categories?.map((category) => (
+              <span
+                key={category}
+                className="text-xs bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200 px-2 py-1 rounded"
+              >
+                #{category}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {canManage && (
+          <div className="flex items-center gap-2 shrink-0">
+            <Button
+              variant="outline"
+              onClick={() => setIsEditOpen(true)}
+              className="flex items-center space-x-2"
+            >
+              <Pencil className="h-4 w-4" />
+              <span>Edit</span>
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => setIsDeleteOpen(true)}
+              className="flex items-center space-x-2"
+            >
+              <Trash2 className="h-4 w-4" />
+              <span>Delete</span>
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-8 grid md:grid-cols-3 gap-8">
+        {/* Main Content Area */}
+        <div className="md:col-span-2 space-y-6">
+          {/* Date/Time & Recurrence */}
+          <div className="space-y-3 text-sm">
+            <div className="flex items-start gap-2">
+              <Clock className="h-4 w-4 mt-0.5 text-neutral-500 shrink-0" />
+              <EventTimeRange
+                start={start}
+                end={end}
+                timing={getEventTiming(event, nexusCalendar?.timezone)}
+              />
+            </div>
+
+            {event.rrule && (
+              <div className="flex items-start gap-2">
+                <Repeat className="h-4 w-4 mt-0.5 text-neutral-500 shrink-0" />
+                <div>
+                  <div className="text-neutral-900 dark:text-neutral-100">
+                    {describeRRule(event.rrule, timeZone)}
+                  </div>
+                  {nextOccurrence && (
+                    <div className="text-neutral-600 dark:text-neutral-400">
+                      Next: {formatDateTime(
+                        toViewerDate(
+                          nextOccurrence,
+                          getEventTiming(event, nexusCalendar?.timezone),
+                          getUserTimezone(),
+                        ),
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {conference && isSafeUrl(conference.uri) && (
+              <div className="flex items-start gap-2">
+                <Video className="h-4 w-4 mt-0.5 text-neutral-500 shrink-0" />
+                <a
+                  href={conference.uri}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 dark:text-blue-400 hover:underline break-all"
+                >
+                  {conference.label || conference.uri}
+                </a>
+              </div>
+            )}
+          </div>
+
+          {/* Description */}
+          {description && (
+            <div className="bg-white dark:bg-neutral-950 border border-neutral-200 dark:border-neutral-800 rounded-lg p-4">
+              <EventDescription description={description} />
+            </div>
+          )}
+
+          {/* Location */}
+          {location && (
+            <div className="space-y-3">
+              <div className="flex items-start gap-2 text-sm">
+                <MapPin className="h-4 w-4 mt-0.5 text-neutral-500 shrink-0" />
+                <div>
+                  <div className="text-neutral-900 dark:text-neutral-100">
+                    {location.name || "Location"}
+                  </div>
+                  {location.description &&
+                    location.description !== location.name && (
+                    <div className="text-neutral-600 dark:text-neutral-400">
+                      {location.description}
+                    </div>
+                  )}
+                </div>
+              </div>
+              {location.uri?.startsWith("geo:") && (
+                <EventLocationMap geoUri={location.uri} label={location.name} />
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          {/* Organizer */}
+          <div className="bg-white dark:bg-neutral-950 border border-neutral-200 dark:border-neutral-800 rounded-lg p-4">
+            <h3 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100 mb-3">
+              Organizer
+            </h3>
+            <ProfileItem userUri={organizerUri} showBio={false} />
+          </div>
+
+          {/* Attendees */}
+          <EventAttendees
+            authorId={resolvedParams.author_id}
+            eventId={resolvedParams.event_id}
+            eventUri={detail.uri}
+          />
+
+          {/* Reminders */}
+          <EventAlarms eventUri={detail.uri} />
+
+          {/* Calendars */}
+          {calendarUris.length > 0 && (
+            <div className="bg-white dark:bg-neutral-950 border border-neutral-200 dark:border-neutral-800 rounded-lg p-4">
+              <h3 className="flex items-center gap-2 text-sm font-semibold text-neutral-900 dark:text-neutral-100 mb-3">
+                <CalendarIcon className="h-4 w-4" />
+                {calendarUris.length > 1 ? "Calendars" : "Calendar"}
+              </h3>
+              <div className="space-y-2">
+                {calendarUris.map((calendarUri) => (
+                  <ParentCalendarLink
+                    key={calendarUri}
+                    calendarUri={calendarUri}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Event Edit Modal */}
+      {canManage && editableEvent && (
+        <EventFormModal
+          isOpen={isEditOpen}
+          onCloseAction={() => setIsEditOpen(false)}
+          onSuccessAction={handleEventUpdated}
+          initialData={editableEvent}
+          eventUri={detail.uri}
+          defaultCalendarUri={calendarUris[0]}
+          mode="edit"
+        />
+      )}
+
+      {/* Delete Confirmation */}
+      <ConfirmationDialog
+        isOpen={isDeleteOpen}
+        onCloseAction={() => setIsDeleteOpen(false)}
+        onConfirmAction={handleDelete}
+        title="Delete event?"
+        description={event.rrule
+          ? "This deletes the event and all of its occurrences. This cannot be undone."
+          : "This event will be permanently deleted. This cannot be undone."}
+        confirmText="Delete"
+        variant="destructive"
+      />
+    </div>
+  );
+}
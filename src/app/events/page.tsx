@@ -1,18 +1,159 @@
-export default function EventDiscoveryPage() {
+"use client";
+
+import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { useInfiniteEvents } from "@/hooks/use-calendars";
+import { EventCard } from "@/components/calendar/EventCard";
+import { EventFilterBar } from "@/components/calendar/EventFilterBar";
+import { Button } from "@/components/ui/Button";
+import {
+  type EventFilters,
+  matchesEventFilters,
+  parseEventFilters,
+  serializeEventFilters,
+  toStreamEventsParams,
+} from "@/lib/event-filters";
+import { getUserTimezone } from "@/lib/calendar-validation";
+
+const PAGE_SIZE = 20;
+
+function EventDiscoveryContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const [isSentinelVisible, setIsSentinelVisible] = useState(false);
+
+  // Filters live in the query string so results can be shared and revisited
+  const filters = useMemo(
+    () => parseEventFilters(new URLSearchParams(searchParams.toString())),
+    [searchParams],
+  );
+  const streamParams = useMemo(
+    () => toStreamEventsParams(filters, getUserTimezone()),
+    [filters],
+  );
+
+  const handleFiltersChange = useCallback((next: EventFilters) => {
+    const query = serializeEventFilters(next).toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  }, [router, pathname]);
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteEvents(streamParams, PAGE_SIZE);
+
+  // Free text and radius are checked again on the client
+  const events = useMemo(
+    () =>
+      (data?.pages.flat() || []).filter((event) =>
+        matchesEventFilters(event, filters)
+      ),
+    [data, filters],
+  );
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => setIsSentinelVisible(entry.isIntersecting),
+      { rootMargin: "200px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep loading while the end of the list is in view, which also covers
+  // pages whose events were all filtered out on the client
+  useEffect(() => {
+    if (isSentinelVisible && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [isSentinelVisible, hasNextPage, isFetchingNextPage, fetchNextPage, data]);
+
   return (
-    <div className="container mx-auto px-4 py-8">
-      <div className="max-w-4xl mx-auto">
-        <h1 className="text-3xl font-bold mb-4">Event Discovery</h1>
-        <p className="text-neutral-600 dark:text-neutral-400 mb-8">
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Event Discovery</h1>
+        <p className="text-muted-foreground">
           Discover events from the Pubky network
         </p>
+      </div>
 
-        <div className="border rounded-lg p-8 text-center bg-neutral-50 dark:bg-neutral-900">
-          <p className="text-lg text-neutral-500">
-            Event discovery functionality coming soon...
+      <div className="mb-8">
+        <EventFilterBar filters={filters} onChangeAction={handleFiltersChange} />
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          <span className="ml-3 text-muted-foreground">Loading events...</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-6 text-center">
+          <p className="text-destructive font-medium mb-2">Failed to load events</p>
+          <p className="text-sm text-muted-foreground mb-4">
+            {error instanceof Error ? error.message : "An unknown error occurred"}
           </p>
+          <Button
+            variant="outline"
+            onClick={() => window.location.reload()}
+          >
+            Try Again
+          </Button>
+        </div>
+      )}
+
+      {!isLoading && !error && events.length === 0 && !hasNextPage && (
+        <div className="rounded-lg border border-dashed p-12 text-center">
+          <p className="text-muted-foreground text-lg mb-2">No events found</p>
+          <p className="text-sm text-muted-foreground">
+            Try widening the date range or removing some filters
+          </p>
+        </div>
+      )}
+
+      {events.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {events.map((event) => (
+            <EventCard key={event.uri} event={event} />
+          ))}
         </div>
+      )}
+
+      {/* Infinite scroll trigger */}
+      <div ref={sentinelRef} className="flex justify-center py-8">
+        {isFetchingNextPage ? (
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        ) : hasNextPage ? (
+          <Button variant="outline" onClick={() => fetchNextPage()}>
+            Load more
+          </Button>
+        ) : null}
       </div>
     </div>
   );
 }
+
+export default function EventDiscoveryPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      }
+    >
+      <EventDiscoveryContent />
+    </Suspense>
+  );
+}
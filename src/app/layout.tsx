@@ -2,6 +2,10 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { TopNav } from "@/components/layout/TopNav";
+import { AlarmScheduler } from "@/components/layout/AlarmScheduler";
+import { CalendarDeletionProcessor } from "@/components/layout/CalendarDeletionProcessor";
+import { OutboxProcessor } from "@/components/layout/OutboxProcessor";
+import { PollNotifier } from "@/components/layout/PollNotifier";
 import { Toaster } from "@/components/ui/Sonner";
 import { QueryProvider } from "@/lib/query-provider";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
@@ -36,6 +40,10 @@ export default function RootLayout({
             <TopNav />
             <main>{children}</main>
             <Toaster />
+            <AlarmScheduler />
+            <PollNotifier />
+            <OutboxProcessor />
+            <CalendarDeletionProcessor />
           </QueryProvider>
         </ErrorBoundary>
       </body>
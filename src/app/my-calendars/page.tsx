@@ -6,8 +6,21 @@ import { useAuthStore } from "@/stores/auth-store";
 import { useUserCalendars, nexusCalendarsToSerializable } from "@/hooks/use-calendars";
 import { CalendarCard } from "@/components/calendar/CalendarCard";
 import { Button } from "@/components/ui/Button";
-import { Calendar as CalendarIcon, Loader2, Plus } from "lucide-react";
-import { CalendarModal } from "@/components/calendar";
+import {
+  Calendar as CalendarIcon,
+  EyeOff,
+  FileUp,
+  Loader2,
+  Plus,
+  Settings,
+} from "lucide-react";
+import {
+  CalendarModal,
+  IcsImportWizard,
+  SubscriptionSettingsDialog,
+} from "@/components/calendar";
+import { useSubscribedCalendars } from "@/hooks/use-subscriptions";
+import type { SubscribedCalendar } from "@/services/subscription-service";
 import { handleCalendarCreated } from "@/utils/calendar-redirect";
 import { toast } from "sonner";
 import { useState } from "react";
@@ -16,6 +29,10 @@ export default function MyCalendarsPage() {
   const router = useRouter();
   const { user, isAuthenticated } = useAuthStore();
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [settingsFor, setSettingsFor] = useState<SubscribedCalendar | null>(
+    null,
+  );
 
   // Fetch user's calendars using React Query
   const { data: nexusCalendars, isLoading, error, refetch } = useUserCalendars(user?.publicKey);
@@ -23,6 +40,9 @@ export default function MyCalendarsPage() {
   // Convert Nexus calendars to serializable format
   const calendars = nexusCalendars ? nexusCalendarsToSerializable(nexusCalendars) : [];
 
+  const { data: subscribed, isLoading: isLoadingSubscribed } =
+    useSubscribedCalendars(user?.publicKey);
+
   // Redirect if not authenticated
   useEffect(() => {
     if (!isAuthenticated) {
@@ -53,13 +73,25 @@ export default function MyCalendarsPage() {
             </p>
           </div>
 
-          <Button
-            onClick={() => setIsCreateModalOpen(true)}
-            className="flex items-center space-x-2"
-          >
-            <Plus className="h-4 w-4" />
-            <span>New Calendar</span>
-          </Button>
+          <div className="flex items-center gap-2">
+            {calendars.length > 0 && (
+              <Button
+                variant="outline"
+                onClick={() => setIsImportOpen(true)}
+                className="flex items-center space-x-2"
+              >
+                <FileUp className="h-4 w-4" />
+                <span>Import .ics</span>
+              </Button>
+            )}
+            <Button
+              onClick={() => setIsCreateModalOpen(true)}
+              className="flex items-center space-x-2"
+            >
+              <Plus className="h-4 w-4" />
+              <span>New Calendar</span>
+            </Button>
+          </div>
         </div>
 
         {/* Content */}
@@ -118,8 +150,93 @@ export default function MyCalendarsPage() {
               ))}
             </div>
           )}
+
+        {/* Subscribed calendars */}
+        <section className="mt-12">
+          <h2 className="text-2xl font-bold mb-4">Subscribed</h2>
+          {isLoadingSubscribed
+            ? (
+              <div className="flex items-center py-8 text-neutral-600 dark:text-neutral-400">
+                <Loader2 className="h-5 w-5 animate-spin mr-2" />
+                Loading subscriptions...
+              </div>
+            )
+            : !subscribed || subscribed.length === 0
+            ? (
+              <p className="text-neutral-600 dark:text-neutral-400">
+                Subscribe to calendars from their page to list them here.
+              </p>
+            )
+            : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {subscribed.map((item) => {
+                  const { subscription, calendar } = item;
+                  return (
+                    <div key={subscription.uri} className="relative">
+                      {calendar
+                        ? (
+                          <CalendarCard
+                            authorId={calendar.authorId}
+                            calendarId={calendar.calendarId}
+                            calendar={{
+                              ...calendar.calendar,
+                              color: subscription.data.color ||
+                                calendar.calendar.color,
+                            }}
+                            className={subscription.data.hidden
+                              ? "opacity-60"
+                              : undefined}
+                          />
+                        )
+                        : (
+                          <div className="rounded-lg border border-dashed p-6 text-sm text-neutral-600 dark:text-neutral-400 break-all">
+                            Calendar unavailable:{" "}
+                            {subscription.data.x_pubky_calendar_uri}
+                          </div>
+                        )}
+                      <div className="absolute top-2 right-2 flex items-center gap-1">
+                        {subscription.data.hidden && (
+                          <span className="flex items-center gap-1 rounded-full bg-white/90 dark:bg-neutral-900/90 px-2 py-1 text-xs">
+                            <EyeOff className="h-3 w-3" />
+                            Hidden
+                          </span>
+                        )}
+                        <Button
+                          variant="secondary"
+                          size="icon"
+                          className="h-8 w-8 rounded-full bg-white/90 hover:bg-white dark:bg-neutral-900/90 dark:hover:bg-neutral-900"
+                          onClick={() => setSettingsFor(item)}
+                          aria-label="Subscription settings"
+                        >
+                          <Settings className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+        </section>
       </div>
 
+      {/* Subscription Settings */}
+      {settingsFor && user?.publicKey && (
+        <SubscriptionSettingsDialog
+          isOpen
+          onCloseAction={() => setSettingsFor(null)}
+          subscription={settingsFor.subscription}
+          publicKey={user.publicKey}
+          calendarName={settingsFor.calendar?.calendar.name}
+          calendarColor={settingsFor.calendar?.calendar.color}
+        />
+      )}
+
+      {/* Import Events Wizard */}
+      <IcsImportWizard
+        isOpen={isImportOpen}
+        onCloseAction={() => setIsImportOpen(false)}
+      />
+
       {/* Create Calendar Modal */}
       <CalendarModal
         isOpen={isCreateModalOpen}
@@ -0,0 +1,397 @@
+"use client";
+
+import { use, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowLeft,
+  Check,
+  CheckCircle2,
+  HelpCircle,
+  Link as LinkIcon,
+  Loader2,
+  MapPin,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import { useAuthStore } from "@/stores/auth-store";
+import { pollKeys, usePoll, usePollVoters } from "@/hooks/use-polls";
+import { eventKeys } from "@/hooks/use-calendars";
+import { useNexusProfile } from "@/hooks/useNexusProfile";
+import { Button } from "@/components/ui/Button";
+import { getBestSlots, getSlotKey, tallyPoll } from "@/lib/polls";
+import { microsToDate } from "@/lib/event-data";
+import {
+  buildPollUri,
+  finalizePoll,
+  savePollVote,
+} from "@/services/poll-service";
+import { getDisplayName } from "@/utils/avatar";
+import { getEventPageUrl } from "@/utils/pubky-uri";
+import type { PollAnswer, PollSlot } from "@/types/calendar";
+
+interface PollPageProps {
+  params: Promise<{
+    author_id: string;
+    poll_id: string;
+  }>;
+}
+
+const NEXT_ANSWER: Record<PollAnswer, PollAnswer> = {
+  YES: "MAYBE",
+  MAYBE: "NO",
+  NO: "YES",
+};
+
+const ANSWER_STYLES: Record<PollAnswer, string> = {
+  YES: "bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300",
+  MAYBE: "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300",
+  NO: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300",
+};
+
+function formatSlot(slot: PollSlot): { day: string; time: string } {
+  const start = microsToDate(slot.start);
+  const end = microsToDate(slot.end);
+  return {
+    day: start.toLocaleDateString(undefined, {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    }),
+    time: `${
+      start.toLocaleTimeString(undefined, { timeStyle: "short" })
+    } – ${end.toLocaleTimeString(undefined, { timeStyle: "short" })}`,
+  };
+}
+
+function AnswerIcon({ answer }: { answer: PollAnswer | null }) {
+  if (answer === "YES") return <Check className="h-4 w-4" />;
+  if (answer === "MAYBE") return <HelpCircle className="h-4 w-4" />;
+  if (answer === "NO") return <X className="h-4 w-4" />;
+  return <span className="text-neutral-400">–</span>;
+}
+
+function VoterName({ publicKey, name }: { publicKey: string; name?: string }) {
+  const { data: profile } = useNexusProfile(name ? null : publicKey);
+  return <>{getDisplayName(name || profile?.name, publicKey)}</>;
+}
+
+export default function PollPage({ params }: PollPageProps) {
+  const resolvedParams = use(params);
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { user, isAuthenticated } = useAuthStore();
+  const pollUri = buildPollUri(resolvedParams.author_id, resolvedParams.poll_id);
+  const [answers, setAnswers] = useState<Record<string, PollAnswer>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [finalizingKey, setFinalizingKey] = useState<string | null>(null);
+
+  const { data: poll, isLoading, error } = usePoll(pollUri);
+  const { data: voters, isLoading: isLoadingVotes } = usePollVoters(
+    pollUri,
+    poll,
+  );
+
+  const viewerKey = isAuthenticated ? user?.publicKey : null;
+  const isOrganizer = viewerKey === resolvedParams.author_id;
+  const ownVote = voters?.find((voter) => voter.publicKey === viewerKey)?.vote;
+
+  // Start from the answers already on the viewer's homeserver
+  useEffect(() => {
+    setAnswers(ownVote?.answers || {});
+  }, [ownVote]);
+
+  const tally = useMemo(
+    () => poll && voters ? tallyPoll(poll, voters) : null,
+    [poll, voters],
+  );
+  const bestKeys = useMemo(
+    () => new Set((tally ? getBestSlots(tally) : []).map(getSlotKey)),
+    [tally],
+  );
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("Poll link copied");
+    } catch {
+      toast.error("Could not copy poll link");
+    }
+  };
+
+  const handleSaveVote = async () => {
+    if (!viewerKey) return;
+    setIsSaving(true);
+    try {
+      await savePollVote(pollUri, answers, viewerKey, user?.name);
+      await queryClient.invalidateQueries({
+        queryKey: pollKeys.votes(pollUri),
+      });
+      await queryClient.invalidateQueries({
+        queryKey: pollKeys.user(viewerKey),
+      });
+      toast.success("Vote saved");
+    } catch (error) {
+      console.error("Failed to save vote:", error);
+      toast.error("Failed to save your vote. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFinalize = async (slot: PollSlot) => {
+    if (!viewerKey) return;
+    setFinalizingKey(getSlotKey(slot));
+    try {
+      await finalizePoll(pollUri, slot, viewerKey);
+      await queryClient.invalidateQueries({ queryKey: pollKeys.all });
+      await queryClient.invalidateQueries({ queryKey: eventKeys.all });
+      toast.success("Event created");
+    } catch (error) {
+      console.error("Failed to finalize poll:", error);
+      toast.error("Failed to create the event. Please try again.");
+    } finally {
+      setFinalizingKey(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-neutral-500" />
+          <span className="ml-3 text-neutral-600 dark:text-neutral-400">
+            Loading poll...
+          </span>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !poll) {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-2xl mx-auto text-center">
+          <h1 className="text-2xl font-bold text-red-600 dark:text-red-400 mb-4">
+            {error instanceof Error ? error.message : "Poll not found"}
+          </h1>
+          <Button onClick={() => router.push("/polls")} variant="outline">
+            Back to Polls
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const finalEventUrl = poll.final
+    ? getEventPageUrl(poll.final.event_uri)
+    : null;
+  const canVote = !poll.final && !!tally?.rows.some((row) =>
+    row.publicKey === viewerKey
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => router.back()}
+        className="mb-4 flex items-center gap-1"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back
+      </Button>
+
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">
+            {poll.summary || "Untitled poll"}
+          </h1>
+          <p className="mt-1 text-sm text-neutral-600 dark:text-neutral-400">
+            Organized by{" "}
+            <VoterName publicKey={resolvedParams.author_id} />
+            {poll.tzid ? ` · ${poll.tzid}` : ""}
+          </p>
+          {poll.location && (
+            <p className="mt-1 flex items-center gap-1 text-sm text-neutral-600 dark:text-neutral-400">
+              <MapPin className="h-4 w-4" />
+              {poll.location}
+            </p>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={handleCopyLink}>
+          <LinkIcon className="h-4 w-4" />
+          Copy link
+        </Button>
+      </div>
+
+      {poll.description && (
+        <p className="mb-6 whitespace-pre-wrap text-neutral-700 dark:text-neutral-300">
+          {poll.description}
+        </p>
+      )}
+
+      {/* Decided time */}
+      {poll.final && (
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-lg border border-green-200 dark:border-green-900 bg-green-50 dark:bg-green-950/20 p-4 mb-6">
+          <div className="flex items-center gap-2 text-sm">
+            <CheckCircle2 className="h-5 w-5 text-green-600" />
+            <span>
+              Decided: {formatSlot(poll.final.slot).day},{" "}
+              {formatSlot(poll.final.slot).time}
+            </span>
+          </div>
+          {finalEventUrl && (
+            <Button asChild size="sm">
+              <Link href={finalEventUrl}>View event and RSVP</Link>
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Tally */}
+      {isLoadingVotes || !tally
+        ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-neutral-400" />
+          </div>
+        )
+        : (
+          <div className="overflow-x-auto rounded-lg border border-neutral-200 dark:border-neutral-800">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-neutral-200 dark:border-neutral-800">
+                  <th className="p-3 text-left font-medium">
+                    {tally.pending.length > 0
+                      ? `${tally.pending.length} not answered`
+                      : "Everyone answered"}
+                  </th>
+                  {tally.slots.map(({ slot }) => {
+                    const { day, time } = formatSlot(slot);
+                    const isBest = bestKeys.has(getSlotKey(slot));
+                    const isFinal = poll.final &&
+                      getSlotKey(poll.final.slot) === getSlotKey(slot);
+                    return (
+                      <th
+                        key={getSlotKey(slot)}
+                        className={`p-3 text-center font-medium whitespace-nowrap ${
+                          isFinal || (!poll.final && isBest)
+                            ? "bg-green-50 dark:bg-green-950/30"
+                            : ""
+                        }`}
+                      >
+                        <div>{day}</div>
+                        <div className="text-xs font-normal text-neutral-500">
+                          {time}
+                        </div>
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {tally.rows.map((row) => {
+                  const isViewer = canVote && row.publicKey === viewerKey;
+                  return (
+                    <tr
+                      key={row.publicKey}
+                      className="border-b border-neutral-200 dark:border-neutral-800"
+                    >
+                      <td className="p-3 whitespace-nowrap">
+                        <VoterName publicKey={row.publicKey} name={row.name} />
+                        {row.publicKey === resolvedParams.author_id && (
+                          <span className="ml-1 text-xs text-neutral-500">
+                            (organizer)
+                          </span>
+                        )}
+                      </td>
+                      {tally.slots.map(({ slot }, index) => {
+                        const key = getSlotKey(slot);
+                        const answer = isViewer
+                          ? answers[key] || null
+                          : row.answers[index];
+                        return (
+                          <td key={key} className="p-2 text-center">
+                            {isViewer
+                              ? (
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    setAnswers({
+                                      ...answers,
+                                      [key]: answer ? NEXT_ANSWER[answer] : "YES",
+                                    })}
+                                  className={`inline-flex h-8 w-8 items-center justify-center rounded-md border border-neutral-300 dark:border-neutral-700 ${
+                                    answer ? ANSWER_STYLES[answer] : ""
+                                  }`}
+                                  aria-label={`Answer for ${
+                                    formatSlot(slot).day
+                                  } ${formatSlot(slot).time}`}
+                                >
+                                  <AnswerIcon answer={answer} />
+                                </button>
+                              )
+                              : (
+                                <span
+                                  className={`inline-flex h-8 w-8 items-center justify-center rounded-md ${
+                                    answer ? ANSWER_STYLES[answer] : ""
+                                  }`}
+                                >
+                                  <AnswerIcon answer={answer} />
+                                </span>
+                              )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <td className="p-3 text-xs text-neutral-500">
+                    Yes / maybe / no
+                  </td>
+                  {tally.slots.map(({ slot, yes, maybe, no }) => (
+                    <td
+                      key={getSlotKey(slot)}
+                      className="p-3 text-center text-xs text-neutral-600 dark:text-neutral-400"
+                    >
+                      <div>{yes} / {maybe} / {no}</div>
+                      {isOrganizer && !poll.final && (
+                        <Button
+                          size="sm"
+                          variant={bestKeys.has(getSlotKey(slot))
+                            ? "default"
+                            : "outline"}
+                          className="mt-2"
+                          disabled={finalizingKey !== null}
+                          onClick={() => handleFinalize(slot)}
+                        >
+                          {finalizingKey === getSlotKey(slot)
+                            ? <Loader2 className="h-4 w-4 animate-spin" />
+                            : "Pick"}
+                        </Button>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+
+      {canVote && (
+        <div className="flex items-center justify-between gap-4 mt-4">
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">
+            Click a time to answer yes, maybe or no.
+          </p>
+          <Button onClick={handleSaveVote} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save vote"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { CheckCircle2, Loader2, Plus } from "lucide-react";
+import { useAuthStore } from "@/stores/auth-store";
+import { useUserPolls } from "@/hooks/use-polls";
+import { PollFormModal } from "@/components/calendar/PollFormModal";
+import { Button } from "@/components/ui/Button";
+import { formatDate } from "@/lib/calendar-validation";
+import { microsToDate } from "@/lib/event-data";
+import type { PollRecord } from "@/services/poll-service";
+import { getPollPageUrl } from "@/utils/pubky-uri";
+
+function PollList(
+  { title, polls, empty }: {
+    title: string;
+    polls: PollRecord[];
+    empty: string;
+  },
+) {
+  return (
+    <section className="mb-8">
+      <h2 className="text-lg font-semibold mb-3">{title}</h2>
+      {polls.length === 0
+        ? (
+          <div className="rounded-lg border border-dashed p-8 text-center text-neutral-500">
+            {empty}
+          </div>
+        )
+        : (
+          <ul className="divide-y divide-neutral-200 dark:divide-neutral-800 rounded-lg border border-neutral-200 dark:border-neutral-800">
+            {polls.map(({ uri, data }) => (
+              <li key={uri} className="p-4">
+                <Link
+                  href={getPollPageUrl(uri) || "/polls"}
+                  className="font-medium hover:underline"
+                >
+                  {data.summary || "Untitled poll"}
+                </Link>
+                <div className="flex items-center gap-1 text-sm text-neutral-600 dark:text-neutral-400">
+                  {data.final
+                    ? (
+                      <>
+                        <CheckCircle2 className="h-4 w-4 text-green-600" />
+                        {formatDate(microsToDate(data.final.slot.start))}
+                      </>
+                    )
+                    : `${data.slots.length} proposed times · ${data.invitees.length} invited`}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+    </section>
+  );
+}
+
+export default function PollsPage() {
+  const router = useRouter();
+  const { user, isAuthenticated } = useAuthStore();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const { data, isLoading, error } = useUserPolls(
+    isAuthenticated ? user?.publicKey : null,
+  );
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      router.push("/");
+    }
+  }, [isAuthenticated, router]);
+
+  if (!isAuthenticated) {
+    return null; // Will redirect
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <div className="flex items-start justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Polls</h1>
+          <p className="text-neutral-600 dark:text-neutral-400">
+            Propose times for an event and let people vote on them.
+          </p>
+        </div>
+        <Button onClick={() => setIsCreateOpen(true)}>
+          <Plus className="h-4 w-4" />
+          New poll
+        </Button>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-neutral-400" />
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 dark:bg-red-950/20 p-6 text-center text-red-600">
+          Failed to load polls
+        </div>
+      )}
+
+      {data && (
+        <>
+          <PollList
+            title="Organized by you"
+            polls={data.organized}
+            empty="You have not started a poll yet"
+          />
+          <PollList
+            title="Voted on"
+            polls={data.voted}
+            empty="You have not voted on a poll yet"
+          />
+        </>
+      )}
+
+      <PollFormModal
+        isOpen={isCreateOpen}
+        onCloseAction={() => setIsCreateOpen(false)}
+        onCreatedAction={(pollUri) => {
+          const url = getPollPageUrl(pollUri);
+          if (url) router.push(url);
+        }}
+      />
+    </div>
+  );
+}
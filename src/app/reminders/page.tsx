@@ -0,0 +1,231 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useQueryClient } from "@tanstack/react-query";
+import { Bell, BellOff, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuthStore } from "@/stores/auth-store";
+import { useAlarmStore } from "@/stores/alarm-store";
+import { alarmKeys, useAlarmSchedule } from "@/hooks/use-alarms";
+import { Button } from "@/components/ui/Button";
+import {
+  describeAlarm,
+  getPendingNotifications,
+  getScheduleNotifications,
+} from "@/lib/alarms";
+import { formatDate, getUserTimezone } from "@/lib/calendar-validation";
+import { deleteAlarm } from "@/services/alarm-service";
+import { getEventPageUrl } from "@/utils/pubky-uri";
+
+const UPCOMING_DAYS = 30;
+
+type PermissionState = NotificationPermission | "unsupported";
+
+export default function RemindersPage() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { user, isAuthenticated } = useAuthStore();
+  const { notifications } = useAlarmStore();
+  const [permission, setPermission] = useState<PermissionState>("default");
+  const [deletingUri, setDeletingUri] = useState<string | null>(null);
+
+  const { data: schedule, isLoading, error } = useAlarmSchedule(
+    isAuthenticated ? user?.publicKey : null,
+  );
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      router.push("/");
+    }
+  }, [isAuthenticated, router]);
+
+  useEffect(() => {
+    setPermission(
+      "Notification" in window ? Notification.permission : "unsupported",
+    );
+  }, []);
+
+  const upcoming = useMemo(() => {
+    if (!schedule) return [];
+    const now = new Date();
+    return getPendingNotifications(
+      getScheduleNotifications(
+        schedule,
+        now,
+        new Date(now.getTime() + UPCOMING_DAYS * 24 * 60 * 60 * 1000),
+        getUserTimezone(),
+      ),
+      notifications,
+    );
+  }, [schedule, notifications]);
+
+  const alarmsByUri = useMemo(
+    () => new Map((schedule || []).map((entry) => [entry.alarm.uri, entry])),
+    [schedule],
+  );
+  const orphaned = (schedule || []).filter(({ event }) => !event);
+
+  const handleEnableNotifications = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  const handleDelete = async (alarmUri: string) => {
+    if (!user?.publicKey) return;
+
+    setDeletingUri(alarmUri);
+    try {
+      await deleteAlarm(alarmUri, user.publicKey);
+      toast.success("Reminder removed");
+      await queryClient.invalidateQueries({
+        queryKey: alarmKeys.user(user.publicKey),
+      });
+    } catch (error) {
+      console.error("Failed to remove reminder:", error);
+      toast.error("Failed to remove reminder. Please try again.");
+    } finally {
+      setDeletingUri(null);
+    }
+  };
+
+  if (!isAuthenticated) {
+    return null; // Will redirect
+  }
+
+  const deleteButton = (alarmUri: string) => (
+    <Button
+      variant="ghost"
+      size="icon"
+      disabled={deletingUri === alarmUri}
+      onClick={() => handleDelete(alarmUri)}
+      aria-label="Remove reminder"
+    >
+      {deletingUri === alarmUri
+        ? <Loader2 className="h-4 w-4 animate-spin" />
+        : <Trash2 className="h-4 w-4" />}
+    </Button>
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Reminders</h1>
+        <p className="text-neutral-600 dark:text-neutral-400">
+          Reminders for the next {UPCOMING_DAYS} days. Add reminders from an
+          event&apos;s page.
+        </p>
+      </div>
+
+      {/* Notification permission */}
+      <div className="flex items-center justify-between gap-4 rounded-lg border border-neutral-200 dark:border-neutral-800 p-4 mb-8">
+        <div className="flex items-center gap-3 text-sm">
+          {permission === "granted"
+            ? <Bell className="h-5 w-5 text-green-600" />
+            : <BellOff className="h-5 w-5 text-neutral-500" />}
+          <span>
+            {permission === "granted"
+              ? "Browser notifications are enabled."
+              : permission === "denied"
+              ? "Browser notifications are blocked. Allow them in your browser settings to get reminders outside this tab."
+              : permission === "unsupported"
+              ? "This browser does not support notifications. Reminders are shown in the app."
+              : "Enable browser notifications to get reminders outside this tab."}
+          </span>
+        </div>
+        {permission === "default" && (
+          <Button size="sm" onClick={handleEnableNotifications}>
+            Enable
+          </Button>
+        )}
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-neutral-400" />
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 dark:bg-red-950/20 p-6 text-center text-red-600">
+          Failed to load reminders
+        </div>
+      )}
+
+      {!isLoading && !error && upcoming.length === 0 && (
+        <div className="rounded-lg border border-dashed p-12 text-center text-neutral-500">
+          No upcoming reminders
+        </div>
+      )}
+
+      {upcoming.length > 0 && (
+        <ul className="divide-y divide-neutral-200 dark:divide-neutral-800 rounded-lg border border-neutral-200 dark:border-neutral-800">
+          {upcoming.map((notification) => {
+            const scheduled = alarmsByUri.get(notification.alarmUri);
+            const url = getEventPageUrl(notification.eventUri);
+            const isSnoozed =
+              notifications[notification.key]?.snoozedUntil !== undefined;
+
+            return (
+              <li
+                key={notification.key}
+                className="flex items-center justify-between gap-4 p-4"
+              >
+                <div className="min-w-0">
+                  {url
+                    ? (
+                      <Link
+                        href={url}
+                        className="font-medium hover:underline truncate block"
+                      >
+                        {notification.summary}
+                      </Link>
+                    )
+                    : (
+                      <span className="font-medium truncate block">
+                        {notification.summary}
+                      </span>
+                    )}
+                  <div className="text-sm text-neutral-600 dark:text-neutral-400">
+                    {formatDate(notification.fireAt)}
+                    {isSnoozed ? " (snoozed)" : ""} · Starts{" "}
+                    {formatDate(notification.occurrenceStart)}
+                  </div>
+                  {scheduled && (
+                    <div className="text-xs text-neutral-500">
+                      {describeAlarm(scheduled.alarm.data)}
+                      {scheduled.subscriptionUri ? " · Calendar default" : ""}
+                    </div>
+                  )}
+                </div>
+                {!scheduled?.subscriptionUri &&
+                  deleteButton(notification.alarmUri)}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {orphaned.length > 0 && (
+        <div className="mt-8">
+          <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100 mb-2">
+            Reminders for deleted events
+          </h2>
+          <ul className="divide-y divide-neutral-200 dark:divide-neutral-800 rounded-lg border border-neutral-200 dark:border-neutral-800">
+            {orphaned.map(({ alarm }) => (
+              <li
+                key={alarm.uri}
+                className="flex items-center justify-between gap-4 p-4 text-sm"
+              >
+                <span className="text-neutral-600 dark:text-neutral-400 truncate">
+                  {alarm.data.summary || alarm.data.x_pubky_event_uri}
+                </span>
+                {deleteButton(alarm.uri)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
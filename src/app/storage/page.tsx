@@ -0,0 +1,305 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuthStore } from "@/stores/auth-store";
+import { storageKeys, useStorageReport } from "@/hooks/use-storage";
+import { Button } from "@/components/ui/Button";
+import { ConfirmationDialog } from "@/components/ui/ConfirmationDialog";
+import { formatStorageSize } from "@/lib/storage-references";
+import {
+  deleteStoredContent,
+  type StorageDeletionProgress,
+} from "@/services/storage-service";
+
+export default function StoragePage() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { user, isAuthenticated } = useAuthStore();
+  const publicKey = isAuthenticated ? user?.publicKey : null;
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [progress, setProgress] = useState<StorageDeletionProgress | null>(
+    null,
+  );
+
+  const { data: report, isLoading, isFetching, error, refetch } =
+    useStorageReport(publicKey);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      router.push("/");
+    }
+  }, [isAuthenticated, router]);
+
+  // Forget selections of items a new scan no longer lists
+  useEffect(() => {
+    setSelected(new Set());
+  }, [report]);
+
+  const orphans = useMemo(() => {
+    if (!report) return [];
+    const unused = new Set([
+      ...report.orphaned.files,
+      ...report.orphaned.blobs,
+    ]);
+    return report.content.filter((item) => unused.has(item.uri));
+  }, [report]);
+
+  const totals = useMemo(() => ({
+    size: report?.usage.reduce((sum, usage) => sum + usage.size, 0) || 0,
+    orphanedSize:
+      report?.usage.reduce((sum, usage) => sum + usage.orphanedSize, 0) || 0,
+  }), [report]);
+
+  const toggle = (uri: string) => {
+    const next = new Set(selected);
+    if (next.has(uri)) {
+      next.delete(uri);
+    } else {
+      next.add(uri);
+    }
+    setSelected(next);
+  };
+
+  const handleDelete = async () => {
+    if (!publicKey) return;
+    setIsConfirmOpen(false);
+
+    const uris = Array.from(selected);
+    setProgress({ done: 0, total: uris.length });
+    try {
+      const { completed, failed } = await deleteStoredContent(
+        uris,
+        publicKey,
+        setProgress,
+      );
+      if (failed.length > 0) {
+        toast.error(`${failed.length} of ${uris.length} items not deleted`);
+      } else {
+        toast.success(`${completed} unused items deleted`);
+      }
+      await queryClient.invalidateQueries({
+        queryKey: storageKeys.report(publicKey),
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  if (!isAuthenticated) {
+    return null; // Will redirect
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className="flex items-start justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Storage</h1>
+          <p className="text-neutral-600 dark:text-neutral-400">
+            Images you uploaded to your homeserver, and the ones no calendar,
+            event, post or profile uses any more.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => refetch()}
+          disabled={isFetching || progress !== null}
+        >
+          <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+          Scan again
+        </Button>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center gap-3 py-12 text-neutral-500">
+          <Loader2 className="h-8 w-8 animate-spin text-neutral-400" />
+          Scanning your homeserver...
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 dark:bg-red-950/20 p-6 text-center text-red-600">
+          Failed to scan your storage
+        </div>
+      )}
+
+      {report && (
+        <>
+          {report.unreadable.length > 0 && (
+            <div className="mb-8 flex gap-2 rounded-md bg-amber-50 dark:bg-amber-950/20 p-3 text-sm text-amber-800 dark:text-amber-300">
+              <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+              {report.unreadable.length} record
+              {report.unreadable.length === 1 ? "" : "s"} could not be read and
+              may use your uploads, so none are shown as unused. Scan again to
+              retry.
+            </div>
+          )}
+
+          {/* Usage */}
+          <section className="mb-8">
+            <h2 className="text-lg font-semibold mb-3">
+              Usage · {formatStorageSize(totals.size)}
+              {totals.orphanedSize > 0 && (
+                <span className="font-normal text-neutral-500">
+                  {" "}({formatStorageSize(totals.orphanedSize)} unused)
+                </span>
+              )}
+            </h2>
+            {report.usage.length === 0
+              ? (
+                <div className="rounded-lg border border-dashed p-8 text-center text-neutral-500">
+                  Nothing uploaded yet
+                </div>
+              )
+              : (
+                <table className="w-full text-sm rounded-lg border border-neutral-200 dark:border-neutral-800">
+                  <thead>
+                    <tr className="border-b border-neutral-200 dark:border-neutral-800 text-left">
+                      <th className="p-3 font-medium">Content type</th>
+                      <th className="p-3 font-medium text-right">Items</th>
+                      <th className="p-3 font-medium text-right">Size</th>
+                      <th className="p-3 font-medium text-right">Unused</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.usage.map((usage) => (
+                      <tr
+                        key={usage.contentType}
+                        className="border-b border-neutral-200 dark:border-neutral-800 last:border-0"
+                      >
+                        <td className="p-3">{usage.contentType}</td>
+                        <td className="p-3 text-right tabular-nums">
+                          {usage.count}
+                        </td>
+                        <td className="p-3 text-right tabular-nums">
+                          {formatStorageSize(usage.size)}
+                        </td>
+                        <td className="p-3 text-right tabular-nums text-neutral-500">
+                          {usage.orphanedCount > 0
+                            ? `${usage.orphanedCount} · ${
+                              formatStorageSize(usage.orphanedSize)
+                            }`
+                            : "–"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+          </section>
+
+          {/* Unused uploads */}
+          <section>
+            <div className="flex items-center justify-between gap-4 mb-3">
+              <h2 className="text-lg font-semibold">Unused</h2>
+              {orphans.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setSelected(
+                        selected.size === orphans.length
+                          ? new Set()
+                          : new Set(orphans.map((item) => item.uri)),
+                      )}
+                    disabled={progress !== null}
+                  >
+                    {selected.size === orphans.length
+                      ? "Select none"
+                      : "Select all"}
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => setIsConfirmOpen(true)}
+                    disabled={selected.size === 0 || progress !== null}
+                  >
+                    {progress
+                      ? <Loader2 className="h-4 w-4 animate-spin" />
+                      : <Trash2 className="h-4 w-4" />}
+                    Delete {selected.size > 0 ? selected.size : ""}
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            {progress && (
+              <div className="mb-3">
+                <div className="h-2 rounded-full bg-neutral-200 dark:bg-neutral-800 overflow-hidden">
+                  <div
+                    className="h-full bg-red-500 transition-all"
+                    style={{
+                      width: `${
+                        Math.round(
+                          (progress.done / Math.max(progress.total, 1)) * 100,
+                        )
+                      }%`,
+                    }}
+                  />
+                </div>
+                <p className="mt-1 text-xs text-neutral-500">
+                  Deleting {progress.done}/{progress.total}
+                </p>
+              </div>
+            )}
+
+            {orphans.length === 0
+              ? (
+                <div className="rounded-lg border border-dashed p-8 text-center text-neutral-500">
+                  No unused uploads
+                </div>
+              )
+              : (
+                <ul className="divide-y divide-neutral-200 dark:divide-neutral-800 rounded-lg border border-neutral-200 dark:border-neutral-800">
+                  {orphans.map((item) => (
+                    <li key={item.uri}>
+                      <label className="flex items-center gap-3 p-3 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(item.uri)}
+                          onChange={() => toggle(item.uri)}
+                          disabled={progress !== null}
+                        />
+                        <div className="min-w-0 flex-1">
+                          <div className="truncate font-medium">
+                            {item.name || item.uri.split("/").pop()}
+                          </div>
+                          <div className="text-xs text-neutral-500">
+                            {item.kind === "file" ? "File details" : "Stored data"}
+                            {item.contentType ? ` · ${item.contentType}` : ""}
+                          </div>
+                        </div>
+                        <span className="text-sm tabular-nums text-neutral-600 dark:text-neutral-400">
+                          {item.size !== null
+                            ? formatStorageSize(item.size)
+                            : "Unknown size"}
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              )}
+          </section>
+        </>
+      )}
+
+      <ConfirmationDialog
+        isOpen={isConfirmOpen}
+        onCloseAction={() => setIsConfirmOpen(false)}
+        onConfirmAction={handleDelete}
+        title="Delete Unused Uploads"
+        description={`Delete ${selected.size} unused item${
+          selected.size === 1 ? "" : "s"
+        } from your homeserver? Links to them elsewhere will stop working.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        variant="destructive"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { useNexusProfile } from "@/hooks/useNexusProfile";
+import {
+  type FreeBusyPeriod,
+  getCommonFreePeriods,
+  type TimePeriod,
+} from "@/lib/freebusy";
+import { getDisplayName } from "@/utils/avatar";
+
+const HOUR_MARKS = [0, 6, 12, 18];
+
+/**
+ * One person compared in the overlay
+ */
+export interface AvailabilityPerson {
+  publicKey: string;
+  periods: FreeBusyPeriod[] | null; // null if nothing was published
+  isLoading: boolean;
+  isSelf?: boolean;
+}
+
+function PersonName({ person }: { person: AvailabilityPerson }) {
+  const { data: profile } = useNexusProfile(person.publicKey);
+  const name = getDisplayName(profile?.name, person.publicKey);
+  return <>{person.isSelf ? `${name} (you)` : name}</>;
+}
+
+function TimeBar<T extends TimePeriod>({
+  day,
+  periods,
+  className,
+}: {
+  day: TimePeriod;
+  periods: T[];
+  className: (period: T) => string;
+}) {
+  const dayStart = day.start.getTime();
+  const length = day.end.getTime() - dayStart;
+
+  return (
+    <div className="relative h-5 flex-1 rounded bg-neutral-100 dark:bg-neutral-900 overflow-hidden">
+      {periods.map((period) => {
+        const start = Math.max(period.start.getTime(), dayStart);
+        const end = Math.min(period.end.getTime(), day.end.getTime());
+        if (end <= start) return null;
+        return (
+          <div
+            key={`${period.start.getTime()}-${period.end.getTime()}`}
+            className={`absolute inset-y-0 ${className(period)}`}
+            style={{
+              left: `${((start - dayStart) / length) * 100}%`,
+              width: `${((end - start) / length) * 100}%`,
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+interface AvailabilityOverlayProps {
+  people: AvailabilityPerson[];
+  days: TimePeriod[]; // Local days in the viewer's timezone
+  timeZone: string; // Viewer's timezone
+  onRemoveAction?: (publicKey: string) => void;
+}
+
+/**
+ * AvailabilityOverlay Component
+ *
+ * Compares the busy time of several people side by side, one row per
+ * person for each day, with a row showing when everyone is free.
+ * Busy time is red, tentatively busy time amber.
+ */
+export function AvailabilityOverlay({
+  people,
+  days,
+  timeZone,
+  onRemoveAction,
+}: AvailabilityOverlayProps) {
+  const known = people.filter((person) => person.periods);
+
+  return (
+    <div className="space-y-6">
+      {days.map((day) => (
+        <div key={day.start.getTime()}>
+          <div className="flex items-end gap-3 mb-1">
+            <h3 className="w-40 shrink-0 text-sm font-semibold text-neutral-900 dark:text-neutral-100">
+              {day.start.toLocaleDateString(undefined, {
+                timeZone,
+                weekday: "short",
+                month: "short",
+                day: "numeric",
+              })}
+            </h3>
+            <div className="relative flex-1 h-4 text-[10px] text-neutral-500">
+              {HOUR_MARKS.map((hour) => (
+                <span
+                  key={hour}
+                  className="absolute"
+                  style={{ left: `${(hour / 24) * 100}%` }}
+                >
+                  {String(hour).padStart(2, "0")}:00
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            {people.map((person) => (
+              <div key={person.publicKey} className="flex items-center gap-3">
+                <div className="w-40 shrink-0 flex items-center gap-1 min-w-0 text-sm text-neutral-700 dark:text-neutral-300">
+                  <span className="truncate">
+                    <PersonName person={person} />
+                  </span>
+                  {onRemoveAction && !person.isSelf && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-5 w-5 shrink-0"
+                      onClick={() => onRemoveAction(person.publicKey)}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+                {person.isLoading
+                  ? (
+                    <div className="flex-1">
+                      <Loader2 className="h-4 w-4 animate-spin text-neutral-400" />
+                    </div>
+                  )
+                  : person.periods
+                  ? (
+                    <TimeBar
+                      day={day}
+                      periods={person.periods}
+                      className={(period) =>
+                        period.type === "BUSY"
+                          ? "bg-red-400 dark:bg-red-500"
+                          : "bg-amber-300 dark:bg-amber-600"}
+                    />
+                  )
+                  : (
+                    <p className="flex-1 text-xs text-neutral-500">
+                      No free/busy time published
+                    </p>
+                  )}
+              </div>
+            ))}
+
+            {known.length > 1 && (
+              <div className="flex items-center gap-3">
+                <span className="w-40 shrink-0 text-sm font-medium text-green-700 dark:text-green-400">
+                  Everyone free
+                </span>
+                <TimeBar
+                  day={day}
+                  periods={getCommonFreePeriods(
+                    known.map((person) => person.periods || []),
+                    day.start,
+                    day.end,
+                  )}
+                  className={() => "bg-green-400 dark:bg-green-600"}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
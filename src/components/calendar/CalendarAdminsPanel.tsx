@@ -0,0 +1,260 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, Plus, Search, User, X } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { useNexusProfile, useNexusUserSearch } from "@/hooks/useNexusProfile";
+import { useAllCalendarEvents } from "@/hooks/use-calendars";
+import { getAppConfig } from "@/lib/config";
+import { getDisplayName } from "@/utils/avatar";
+import { extractPublicKey, parsePublicKey } from "@/utils/pubky-uri";
+import type { CalendarRole } from "@/types/calendar";
+
+const ROLE_LABELS: Record<CalendarRole, string> = {
+  editor: "Editor",
+  moderator: "Moderator",
+};
+
+function ProfileSummary({ publicKey }: { publicKey: string }) {
+  const { data: profile, isLoading } = useNexusProfile(publicKey);
+  const displayName = getDisplayName(profile?.name, publicKey);
+
+  return (
+    <div className="flex items-center gap-2 min-w-0 flex-1">
+      {profile?.imageUrl
+        ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={profile.imageUrl}
+            alt={displayName}
+            className="h-8 w-8 rounded-full object-cover flex-shrink-0"
+          />
+        )
+        : (
+          <div className="h-8 w-8 rounded-full bg-neutral-200 dark:bg-neutral-800 flex items-center justify-center flex-shrink-0">
+            <User className="h-4 w-4 text-neutral-500" />
+          </div>
+        )}
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-neutral-900 dark:text-neutral-100 truncate">
+          {isLoading ? "Loading..." : displayName}
+        </p>
+        <p className="text-xs font-mono text-neutral-500 dark:text-neutral-400 truncate">
+          {publicKey.slice(0, 8)}...{publicKey.slice(-8)}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+interface CalendarAdminsPanelProps {
+  admins: string[]; // Admin pubky URIs
+  roles: Record<string, CalendarRole>; // By public key
+  ownerId: string; // Owner's public key, always an admin
+  calendarId?: string; // Set when editing, to warn about admins' events
+  onChangeAction: (
+    admins: string[],
+    roles: Record<string, CalendarRole>,
+  ) => void;
+}
+
+/**
+ * CalendarAdminsPanel Component
+ *
+ * Manages a calendar's admins in the calendar form. Admins are added by
+ * public key, with a profile preview, or found by name through Nexus.
+ * Each admin is an editor or a moderator, who may also approve outside
+ * submissions. Removing an admin with events on the calendar asks for
+ * confirmation first.
+ */
+export function CalendarAdminsPanel({
+  admins,
+  roles,
+  ownerId,
+  calendarId,
+  onChangeAction,
+}: CalendarAdminsPanelProps) {
+  const [query, setQuery] = useState("");
+  const [pendingRemoval, setPendingRemoval] = useState<string | null>(null);
+
+  const candidate = parsePublicKey(query);
+  const adminKeys = admins.map((admin) => extractPublicKey(admin) || admin);
+  const { data: searchResults, isFetching: isSearching } = useNexusUserSearch(
+    candidate ? "" : query,
+  );
+  const { data: calendarEvents } = useAllCalendarEvents(ownerId, calendarId, {
+    enabled: !!pendingRemoval,
+  });
+
+  const addAdmin = (publicKey: string) => {
+    if (!adminKeys.includes(publicKey)) {
+      onChangeAction([...admins, `pubky://${publicKey}`], roles);
+    }
+    setQuery("");
+  };
+
+  const setRole = (publicKey: string, role: CalendarRole) => {
+    onChangeAction(admins, { ...roles, [publicKey]: role });
+  };
+
+  const removeAdmin = (publicKey: string) => {
+    const { [publicKey]: _removed, ...remainingRoles } = roles;
+    onChangeAction(
+      admins.filter((admin) => extractPublicKey(admin) !== publicKey),
+      remainingRoles,
+    );
+    setPendingRemoval(null);
+  };
+
+  const removalEventCount = pendingRemoval && calendarEvents
+    ? calendarEvents.filter((event) => event.author === pendingRemoval).length
+    : 0;
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+        Admins <span className="text-red-500">*</span>
+      </label>
+
+      <div className="space-y-2 max-h-48 overflow-y-auto mb-2">
+        {adminKeys.map((publicKey) => (
+          <div key={publicKey}>
+            <div className="flex items-center gap-2 p-2 bg-neutral-50 dark:bg-neutral-900 rounded-md">
+              <ProfileSummary publicKey={publicKey} />
+              {publicKey === ownerId
+                ? (
+                  <span className="text-xs text-neutral-500 dark:text-neutral-400 px-2">
+                    Owner
+                  </span>
+                )
+                : (
+                  <>
+                    <select
+                      value={roles[publicKey] || "editor"}
+                      onChange={(e) =>
+                        setRole(publicKey, e.target.value as CalendarRole)}
+                      className="px-2 py-1 text-xs border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-900"
+                    >
+                      {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                        <option key={role} value={role}>{label}</option>
+                      ))}
+                    </select>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 text-red-600 hover:text-red-700"
+                      onClick={() =>
+                        calendarId
+                          ? setPendingRemoval(publicKey)
+                          : removeAdmin(publicKey)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+            </div>
+
+            {pendingRemoval === publicKey && (
+              <div className="mt-1 p-2 rounded-md border border-amber-300 dark:border-amber-800 bg-amber-50 dark:bg-amber-950/30 text-xs text-amber-800 dark:text-amber-200">
+                <p className="flex items-start gap-1.5">
+                  <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+                  {!calendarEvents
+                    ? "Checking this admin's events..."
+                    : removalEventCount === 0
+                    ? "This admin has no events on the calendar."
+                    : getAppConfig().removedAdminEvents === "keep-earlier"
+                    ? `This admin has ${removalEventCount} event(s) on the calendar. They stay visible, but new ones will be held as submissions.`
+                    : `This admin has ${removalEventCount} event(s) on the calendar. They will be hidden from visitors.`}
+                </p>
+                <div className="flex justify-end gap-2 mt-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPendingRemoval(null)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => removeAdmin(publicKey)}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-neutral-400" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by name or paste a public key"
+          className="pl-9"
+        />
+      </div>
+
+      {candidate && (
+        <div className="mt-2 flex items-center gap-2 p-2 border border-neutral-200 dark:border-neutral-800 rounded-md">
+          <ProfileSummary publicKey={candidate} />
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => addAdmin(candidate)}
+            disabled={adminKeys.includes(candidate)}
+          >
+            <Plus className="h-4 w-4" />
+            {adminKeys.includes(candidate) ? "Added" : "Add"}
+          </Button>
+        </div>
+      )}
+
+      {!candidate && query.trim().length >= 2 && (
+        <div className="mt-2 space-y-1">
+          {isSearching && (
+            <p className="text-xs text-neutral-500 dark:text-neutral-400">
+              Searching...
+            </p>
+          )}
+          {!isSearching && searchResults?.length === 0 && (
+            <p className="text-xs text-neutral-500 dark:text-neutral-400">
+              No users found. Paste a public key to add someone directly.
+            </p>
+          )}
+          {searchResults?.map((publicKey) => (
+            <div
+              key={publicKey}
+              className="flex items-center gap-2 p-2 border border-neutral-200 dark:border-neutral-800 rounded-md"
+            >
+              <ProfileSummary publicKey={publicKey} />
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => addAdmin(publicKey)}
+                disabled={adminKeys.includes(publicKey)}
+              >
+                <Plus className="h-4 w-4" />
+                {adminKeys.includes(publicKey) ? "Added" : "Add"}
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+        Editors can add events. Moderators can also approve events submitted
+        by others.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { formatTimeOfDay, getItemsForDay } from "@/lib/calendar-layout";
+import type { CalendarSubviewProps } from "./CalendarView";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * CalendarAgendaView Component
+ *
+ * Upcoming days with events as a list, grouped by day
+ */
+export function CalendarAgendaView({
+  items,
+  days,
+  timeZone,
+  focusedDay,
+  todayDay,
+  onFocusDayAction,
+  onOpenDayAction,
+  onItemSelectAction,
+}: CalendarSubviewProps) {
+  const agendaDays = days
+    .map((day) => ({ day, items: getItemsForDay(items, day, timeZone) }))
+    .filter(({ day, items }) => items.length > 0 || day === focusedDay);
+
+  return (
+    <div role="list" aria-label="Agenda" className="divide-y divide-neutral-200 dark:divide-neutral-800">
+      {agendaDays.map(({ day, items: dayItems }) => (
+        <div key={day} role="listitem" className="flex gap-4 p-3">
+          <div
+            data-day={day}
+            tabIndex={day === focusedDay ? 0 : -1}
+            onClick={() => onFocusDayAction(day)}
+            onDoubleClick={() => onOpenDayAction(day)}
+            className={`w-28 shrink-0 text-sm outline-none rounded focus-visible:ring-2 focus-visible:ring-blue-500 ${
+              day === todayDay
+                ? "text-blue-600 dark:text-blue-400 font-semibold"
+                : "text-neutral-700 dark:text-neutral-300"
+            }`}
+          >
+            {new Date(day * DAY_MS).toLocaleDateString(undefined, {
+              weekday: "short",
+              month: "short",
+              day: "numeric",
+              timeZone: "UTC",
+            })}
+          </div>
+
+          <div className="flex-1 min-w-0 space-y-1">
+            {dayItems.length === 0 && (
+              <p className="text-sm text-neutral-500">No events</p>
+            )}
+            {dayItems.map((item) => (
+              <button
+                key={item.key}
+                type="button"
+                onClick={() => onItemSelectAction?.(item.key)}
+                className="flex w-full items-center gap-3 rounded px-2 py-1 text-left text-sm hover:bg-neutral-100 dark:hover:bg-neutral-800"
+              >
+                <span
+                  className="h-2.5 w-2.5 shrink-0 rounded-full bg-blue-600"
+                  style={{ backgroundColor: item.color }}
+                />
+                <span className="w-28 shrink-0 text-neutral-500 dark:text-neutral-400">
+                  {item.allDay
+                    ? "All day"
+                    : `${formatTimeOfDay(item.start, timeZone)} – ${
+                      formatTimeOfDay(item.end, timeZone)
+                    }`}
+                </span>
+                <span className="truncate">{item.title}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
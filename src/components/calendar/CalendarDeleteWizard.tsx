@@ -0,0 +1,342 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, Loader2, Trash2 } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/Dialog";
+import { Button } from "@/components/ui/Button";
+import { useAuthStore } from "@/stores/auth-store";
+import { calendarDeletionKeys } from "@/hooks/use-calendar-deletions";
+import {
+  type CalendarEventMode,
+  getPlanSize,
+  planCalendarDeletion,
+} from "@/lib/calendar-deletion";
+import {
+  type CalendarDeletionProgress,
+  type CalendarDeletionReport,
+  type CalendarDeletionScan,
+  cancelCalendarDeletion,
+  executeCalendarDeletion,
+  scanCalendarDeletion,
+  scheduleCalendarDeletion,
+} from "@/services/calendar-deletion-service";
+import type { PubkyAppEventData } from "@/types/calendar";
+import { AppError, ErrorCode } from "@/types/errors";
+
+const PREVIEW_COUNT = 5;
+
+interface CalendarDeleteWizardProps {
+  isOpen: boolean;
+  onCloseAction: () => void;
+  onDeletedAction: () => void;
+  calendarUri: string;
+  calendarName: string;
+}
+
+/**
+ * CalendarDeleteWizard Component
+ *
+ * Lists what a calendar deletion touches, lets the owner delete or keep
+ * their events, and deletes right away with progress or after a grace
+ * period during which it can be undone from any device.
+ */
+export function CalendarDeleteWizard({
+  isOpen,
+  onCloseAction,
+  onDeletedAction,
+  calendarUri,
+  calendarName,
+}: CalendarDeleteWizardProps) {
+  const queryClient = useQueryClient();
+  const { user } = useAuthStore();
+  const [scan, setScan] = useState<CalendarDeletionScan | null>(null);
+  const [scanError, setScanError] = useState(false);
+  const [eventMode, setEventMode] = useState<CalendarEventMode>("delete");
+  const [progress, setProgress] = useState<CalendarDeletionProgress | null>(
+    null,
+  );
+  const [report, setReport] = useState<CalendarDeletionReport | null>(null);
+  const [isScheduling, setIsScheduling] = useState(false);
+  const publicKey = user?.publicKey;
+
+  useEffect(() => {
+    if (!isOpen || !publicKey) return;
+
+    let cancelled = false;
+    setScan(null);
+    setScanError(false);
+    setProgress(null);
+    setReport(null);
+    scanCalendarDeletion(calendarUri, publicKey)
+      .then((result) => !cancelled && setScan(result))
+      .catch(() => !cancelled && setScanError(true));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, calendarUri, publicKey]);
+
+  const plan = useMemo(
+    () =>
+      scan ? planCalendarDeletion(calendarUri, scan.records, eventMode) : null,
+    [scan, calendarUri, eventMode],
+  );
+
+  const eventNames = useMemo(() => {
+    if (!scan || !plan) return [];
+    const affected = new Set([
+      ...plan.deleteEvents,
+      ...plan.detachEvents.map((event) => event.uri),
+    ]);
+    return scan.records
+      .filter((record) => affected.has(record.uri))
+      .map((record) =>
+        (record.data as PubkyAppEventData).summary || "Untitled Event"
+      );
+  }, [scan, plan]);
+
+  const isRunning = progress !== null && report === null;
+  const name = calendarName || "this calendar";
+
+  const handleClose = () => {
+    if (isRunning) return;
+    if (report) {
+      onDeletedAction();
+    }
+    onCloseAction();
+  };
+
+  const showError = (error: unknown, message: string) => {
+    const appError = error instanceof AppError ? error : new AppError({
+      code: ErrorCode.UNKNOWN_ERROR,
+      message,
+      details: error,
+    });
+    toast.error(appError.getUserMessage());
+  };
+
+  const handleUndo = async () => {
+    if (!publicKey) return;
+
+    try {
+      await cancelCalendarDeletion(calendarUri, publicKey);
+      await queryClient.invalidateQueries({
+        queryKey: calendarDeletionKeys.all,
+      });
+      toast.success("Calendar deletion undone");
+    } catch (error) {
+      showError(error, "Failed to undo calendar deletion");
+    }
+  };
+
+  const handleSchedule = async () => {
+    if (!publicKey) return;
+
+    setIsScheduling(true);
+    try {
+      await scheduleCalendarDeletion(calendarUri, eventMode, publicKey);
+      await queryClient.invalidateQueries({
+        queryKey: calendarDeletionKeys.all,
+      });
+      toast.success(`${calendarName || "Calendar"} will be deleted in 24 hours`, {
+        action: { label: "Undo", onClick: handleUndo },
+      });
+      onCloseAction();
+    } catch (error) {
+      showError(error, "Failed to schedule calendar deletion");
+    } finally {
+      setIsScheduling(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!publicKey || !plan) return;
+
+    setProgress({ done: 0, total: getPlanSize(plan), label: "Starting" });
+    setReport(await executeCalendarDeletion(plan, publicKey, setProgress));
+  };
+
+  const row = (label: string, value: number, note?: string) => (
+    <li className="flex justify-between gap-4 py-2">
+      <span>
+        {label}
+        {note && (
+          <span className="block text-xs text-neutral-500 dark:text-neutral-400">
+            {note}
+          </span>
+        )}
+      </span>
+      <span className="font-medium tabular-nums">{value}</span>
+    </li>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="w-[95vw] max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Trash2 className="h-5 w-5" />
+            Delete Calendar
+          </DialogTitle>
+          <DialogDescription>
+            Everything stored for &quot;{name}&quot; on your homeserver.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Scanning */}
+        {!scan && !scanError && (
+          <div className="flex items-center justify-center gap-3 py-12 text-sm text-neutral-600 dark:text-neutral-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Looking for references...
+          </div>
+        )}
+
+        {scanError && (
+          <div className="rounded-lg border border-red-200 bg-red-50 dark:bg-red-950/20 p-4 text-sm text-red-600">
+            Failed to read your homeserver. Please try again.
+          </div>
+        )}
+
+        {/* Review */}
+        {scan && plan && !progress && (
+          <div className="space-y-4 text-sm">
+            <fieldset className="space-y-2">
+              <legend className="font-medium mb-2">Your events in it</legend>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="event-mode"
+                  checked={eventMode === "delete"}
+                  onChange={() => setEventMode("delete")}
+                />
+                Delete them
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="event-mode"
+                  checked={eventMode === "detach"}
+                  onChange={() => setEventMode("detach")}
+                />
+                Keep them without this calendar
+              </label>
+              {eventNames.length > 0 && (
+                <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                  {eventNames.slice(0, PREVIEW_COUNT).join(", ")}
+                  {eventNames.length > PREVIEW_COUNT
+                    ? ` and ${eventNames.length - PREVIEW_COUNT} more`
+                    : ""}
+                </p>
+              )}
+            </fieldset>
+
+            <ul className="divide-y divide-neutral-200 dark:divide-neutral-800 border-y border-neutral-200 dark:border-neutral-800">
+              {row("Events deleted", plan.deleteEvents.length)}
+              {row(
+                "Events kept",
+                plan.detachEvents.length,
+                "Removed from this calendar, other calendars stay",
+              )}
+              {row(
+                "Settings, reminders and RSVPs",
+                plan.dependents.length,
+              )}
+              {row(
+                "Unused images",
+                plan.files.length,
+                plan.blobs.length > 0
+                  ? `With ${plan.blobs.length} stored file${
+                    plan.blobs.length === 1 ? "" : "s"
+                  } of image data`
+                  : undefined,
+              )}
+            </ul>
+
+            {scan.otherEvents.length > 0 && (
+              <p className="flex gap-2 rounded-md bg-amber-50 dark:bg-amber-950/20 p-3 text-amber-800 dark:text-amber-300">
+                <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                {scan.otherEvents.length} event
+                {scan.otherEvents.length === 1 ? "" : "s"} by admins stay on
+                their homeservers but no longer show in a calendar.
+              </p>
+            )}
+
+            <div className="flex flex-col-reverse sm:flex-row gap-2 pt-2">
+              <Button variant="outline" onClick={handleClose} className="flex-1">
+                Cancel
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleDelete}
+                disabled={isScheduling}
+                className="flex-1 text-red-600 dark:text-red-400"
+              >
+                Delete now
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleSchedule}
+                disabled={isScheduling}
+                className="flex-1"
+              >
+                {isScheduling && <Loader2 className="h-4 w-4 animate-spin" />}
+                Delete in 24 hours
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Progress and report */}
+        {progress && (
+          <div className="space-y-4 text-sm">
+            <div className="h-2 rounded-full bg-neutral-200 dark:bg-neutral-800 overflow-hidden">
+              <div
+                className="h-full bg-red-500 transition-all"
+                style={{
+                  width: `${
+                    Math.round((progress.done / Math.max(progress.total, 1)) *
+                      100)
+                  }%`,
+                }}
+              />
+            </div>
+            <p className="text-neutral-600 dark:text-neutral-400">
+              {report
+                ? `${report.completed} of ${progress.total} steps done`
+                : `${progress.label} (${progress.done}/${progress.total})`}
+            </p>
+
+            {report && report.failed.length > 0 && (
+              <div className="rounded-lg border border-red-200 bg-red-50 dark:bg-red-950/20 p-3">
+                <p className="font-medium text-red-600 mb-1">
+                  {report.failed.length} step
+                  {report.failed.length === 1 ? "" : "s"} failed
+                </p>
+                <ul className="space-y-1 text-xs text-red-600">
+                  {report.failed.map(({ uri, label }) => (
+                    <li key={uri} className="truncate">
+                      {label}: {uri}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {report && (
+              <Button onClick={handleClose} className="w-full">
+                Done
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { PubkyAppCalendar } from "pubky-app-specs";
 import { Button } from "@/components/ui/Button";
 import {
@@ -9,10 +10,30 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/DropdownMenu";
-import { ConfirmationDialog } from "@/components/ui/ConfirmationDialog";
 import { CalendarModal } from "./CalendarModal";
-import { Edit, MoreVertical, Trash2 } from "lucide-react";
-import { deleteCalendar } from "@/services/calendar-service";
+import { CalendarDeleteWizard } from "./CalendarDeleteWizard";
+import { CalendarSubscribeButton } from "./CalendarSubscribeButton";
+import {
+  Copy,
+  Download,
+  Edit,
+  Loader2,
+  MoreVertical,
+  Rss,
+  Trash2,
+} from "lucide-react";
+import {
+  downloadIcsDocument,
+  exportCalendarToIcs,
+} from "@/services/ical-export-service";
+import { cancelCalendarDeletion } from "@/services/calendar-deletion-service";
+import {
+  calendarDeletionKeys,
+  useScheduledDeletion,
+} from "@/hooks/use-calendar-deletions";
+import { useAuthStore } from "@/stores/auth-store";
+import { getCalendarFeedUrl, parseCalendarUri } from "@/utils/pubky-uri";
+import { getAppConfig } from "@/lib/config";
 import { getNexusImageUrl, extractPublicKey, extractFileId } from "@/lib/nexus";
 import { toast } from "sonner";
 import { logError } from "@/lib/error-logger";
@@ -45,7 +66,10 @@ export function CalendarHeader({
 }: CalendarHeaderProps) {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
-  const [isDeleting, setIsDeleting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const queryClient = useQueryClient();
+  const { user } = useAuthStore();
+  const { data: scheduledDeletion } = useScheduledDeletion(calendarUri);
 
   // Resolve calendar image URL using simple getNexusImageUrl approach
   const imageUrl = useMemo(() => {
@@ -70,37 +94,64 @@ export function CalendarHeader({
     setIsEditModalOpen(false);
   };
 
-  const handleDelete = async () => {
-    setIsDeleting(true);
+  const handleDownloadIcs = async () => {
+    const parsed = parseCalendarUri(calendarUri);
+    if (!parsed) return;
 
+    setIsExporting(true);
     try {
-      const success = await deleteCalendar(calendarUri);
+      const document = await exportCalendarToIcs(
+        parsed.authorId,
+        parsed.calendarId,
+      );
+      downloadIcsDocument(document);
+    } catch (error) {
+      const appError = error instanceof AppError ? error : new AppError({
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to export calendar",
+        details: error,
+      });
+      toast.error(appError.getUserMessage());
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
-      if (!success) {
-        throw new AppError({
-          code: ErrorCode.HOMESERVER_ERROR,
-          message: "Failed to delete calendar",
-        });
-      }
+  const handleUndoDeletion = async () => {
+    if (!user?.publicKey) return;
 
-      onCalendarDeletedAction();
+    try {
+      await cancelCalendarDeletion(calendarUri, user.publicKey);
+      await queryClient.invalidateQueries({
+        queryKey: calendarDeletionKeys.all,
+      });
+      toast.success("Calendar deletion undone");
     } catch (error) {
       const appError = error instanceof AppError ? error : new AppError({
         code: ErrorCode.UNKNOWN_ERROR,
-        message: "Failed to delete calendar",
+        message: "Failed to undo calendar deletion",
         details: error,
       });
+      toast.error(appError.getUserMessage());
+    }
+  };
 
-      logError(appError, {
-        component: "CalendarHeader",
-        action: "handleDelete",
-        metadata: { calendarUri },
-      });
+  // Absolute feed URL; calendar apps subscribe via the webcal:// scheme
+  // (resolved after mount, the origin is unknown during server rendering)
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const path = getCalendarFeedUrl(calendarUri);
+    const appUrl = getAppConfig().appUrl;
+    setFeedUrl(path && appUrl ? `${appUrl}${path}` : null);
+  }, [calendarUri]);
 
-      toast.error(appError.getUserMessage());
-    } finally {
-      setIsDeleting(false);
-      setIsDeleteDialogOpen(false);
+  const handleCopyFeedUrl = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success("Feed URL copied");
+    } catch {
+      toast.error("Could not copy feed URL");
     }
   };
 
@@ -160,11 +211,73 @@ export function CalendarHeader({
           )}
         </div>
 
+        {/* Pending Deletion */}
+        {scheduledDeletion && (
+          <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-3 bg-red-50 dark:bg-red-950/20 border-b border-red-200 dark:border-red-900 text-sm text-red-700 dark:text-red-300">
+            <span>
+              This calendar will be deleted on{" "}
+              {new Date(scheduledDeletion.delete_at / 1000).toLocaleString(
+                undefined,
+                { dateStyle: "medium", timeStyle: "short" },
+              )}
+              .
+            </span>
+            {isAdmin && (
+              <Button variant="outline" size="sm" onClick={handleUndoDeletion}>
+                Undo
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* Calendar Info */}
-        <div className="p-6">
+        <div className="p-6 flex flex-wrap items-center justify-between gap-4">
           <h1 className="text-3xl font-bold text-neutral-900 dark:text-neutral-100">
             {calendarName || "Unnamed Calendar"}
           </h1>
+          <div className="flex items-center gap-2">
+            <CalendarSubscribeButton
+              calendarUri={calendarUri}
+              calendarName={calendarName}
+              calendarColor={calendarColor}
+            />
+            {feedUrl && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <Rss className="h-4 w-4" />
+                    iCal feed
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem asChild className="cursor-pointer">
+                    <a href={feedUrl.replace(/^https?:\/\//, "webcal://")}>
+                      <Rss className="mr-2 h-4 w-4" />
+                      Open in calendar app
+                    </a>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={handleCopyFeedUrl}
+                    className="cursor-pointer"
+                  >
+                    <Copy className="mr-2 h-4 w-4" />
+                    Copy feed URL
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDownloadIcs}
+              disabled={isExporting}
+            >
+              {isExporting
+                ? <Loader2 className="h-4 w-4 animate-spin" />
+                : <Download className="h-4 w-4" />}
+              Download .ics
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -180,19 +293,16 @@ export function CalendarHeader({
         />
       )}
 
-      {/* Delete Confirmation Dialog */}
-      <ConfirmationDialog
-        isOpen={isDeleteDialogOpen}
-        onCloseAction={() => setIsDeleteDialogOpen(false)}
-        onConfirmAction={handleDelete}
-        title="Delete Calendar"
-        description={`Are you sure you want to delete "${
-          calendarName || "this calendar"
-        }"? This action cannot be undone and will remove all associated events.`}
-        confirmText={isDeleting ? "Deleting..." : "Delete"}
-        cancelText="Cancel"
-        variant="destructive"
-      />
+      {/* Delete Wizard */}
+      {isAdmin && (
+        <CalendarDeleteWizard
+          isOpen={isDeleteDialogOpen}
+          onCloseAction={() => setIsDeleteDialogOpen(false)}
+          onDeletedAction={onCalendarDeletedAction}
+          calendarUri={calendarUri}
+          calendarName={calendarName}
+        />
+      )}
     </>
   );
 }
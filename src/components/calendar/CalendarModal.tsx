@@ -5,13 +5,14 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { toast } from "sonner";
-import { Calendar, X, Plus, Globe, Palette, Upload, ImageIcon } from "lucide-react";
-import type { PubkyAppCalendar } from "@/types/calendar";
+import { Calendar, X, Globe, Palette, Upload, ImageIcon } from "lucide-react";
+import type { CalendarRole, PubkyAppCalendar } from "@/types/calendar";
 import { useAuthStore } from "@/stores/auth-store";
 import { createCalendar, updateCalendar } from "@/services/calendar-service";
 import { getUserTimezone } from "@/lib/calendar-validation";
-import { truncatePubkyUri } from "@/lib/utils";
 import { getNexusImageUrl, extractFileId, extractPublicKey } from "@/lib/nexus";
+import { useCalendarAdmins } from "@/hooks/use-calendars";
+import { CalendarAdminsPanel } from "@/components/calendar/CalendarAdminsPanel";
 
 interface CalendarModalProps {
   isOpen: boolean;
@@ -44,9 +45,15 @@ export function CalendarModal({ isOpen, onCloseAction, onSuccessAction, calendar
     imagePreview: null as string | null,
     existingImageUri: null as string | null, // Track existing image
     removeExistingImage: false, // Flag to remove existing image
+    roles: {} as Record<string, CalendarRole>,
   });
-  
-  const [newAdmin, setNewAdmin] = useState("");
+
+  // The owner is always an admin and cannot be removed
+  const ownerId = calendarUri ? extractPublicKey(calendarUri) : user?.publicKey;
+  const { data: adminSettings } = useCalendarAdmins(
+    calendar ? ownerId || undefined : undefined,
+    calendarUri?.split("/").pop(),
+  );
 
   // Load calendar data when editing
   useEffect(() => {
@@ -65,6 +72,7 @@ export function CalendarModal({ isOpen, onCloseAction, onSuccessAction, calendar
         imagePreview: null,
         existingImageUri: calendar.image_uri || null,
         removeExistingImage: false,
+        roles: {},
       });
       
       // Load existing image preview from Nexus
@@ -85,6 +93,13 @@ export function CalendarModal({ isOpen, onCloseAction, onSuccessAction, calendar
     }
   }, [calendar, calendarUri, user]);
 
+  // Load the admins' roles once the owner's settings arrive
+  useEffect(() => {
+    if (calendar && adminSettings?.roles) {
+      setFormData(prev => ({ ...prev, roles: adminSettings.roles || {} }));
+    }
+  }, [calendar, adminSettings]);
+
   // Handle image file selection
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -152,6 +167,7 @@ export function CalendarModal({ isOpen, onCloseAction, onSuccessAction, calendar
         color: formData.color,
         timezone: formData.timezone,
         x_pubky_admins: formData.admins,
+        adminRoles: formData.roles,
         imageFile: formData.imageFile || undefined,
       };
 
@@ -163,7 +179,13 @@ export function CalendarModal({ isOpen, onCloseAction, onSuccessAction, calendar
         // - Otherwise, keep existing image
         const imageToKeep = formData.removeExistingImage ? null : calendar.image_uri;
         
-        await updateCalendar(calendarUri, calendarData, user.publicKey, imageToKeep);
+        await updateCalendar(
+          calendarUri,
+          calendarData,
+          user.publicKey,
+          imageToKeep,
+          calendar.x_pubky_admins || [],
+        );
         onSuccessAction?.(calendarUri);
       } else {
         // Create new calendar
@@ -182,43 +204,6 @@ export function CalendarModal({ isOpen, onCloseAction, onSuccessAction, calendar
     }
   };
 
-  const addAdmin = () => {
-    const trimmedAdmin = newAdmin.trim();
-    
-    if (!trimmedAdmin) {
-      toast.error("Please enter a pubky URI");
-      return;
-    }
-    
-    if (!trimmedAdmin.startsWith("pubky://")) {
-      toast.error('Admin URI must start with "pubky://"');
-      return;
-    }
-    
-    if (formData.admins.includes(trimmedAdmin)) {
-      toast.error("This admin is already added");
-      return;
-    }
-    
-    setFormData(prev => ({ 
-      ...prev, 
-      admins: [...prev.admins, trimmedAdmin] 
-    }));
-    setNewAdmin("");
-  };
-
-  const removeAdmin = (index: number) => {
-    if (formData.admins.length <= 1) {
-      toast.error("At least one admin is required");
-      return;
-    }
-    
-    setFormData(prev => ({ 
-      ...prev, 
-      admins: prev.admins.filter((_, i) => i !== index) 
-    }));
-  };
-
   const resetForm = () => {
     setFormData({
       name: "",
@@ -229,8 +214,8 @@ export function CalendarModal({ isOpen, onCloseAction, onSuccessAction, calendar
       imagePreview: null,
       existingImageUri: null,
       removeExistingImage: false,
+      roles: {},
     });
-    setNewAdmin("");
   };
 
   const handleCancel = () => {
@@ -316,51 +301,16 @@ export function CalendarModal({ isOpen, onCloseAction, onSuccessAction, calendar
           </div>
 
           {/* Admins */}
-          <div>
-            <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
-              Admins <span className="text-red-500">*</span>
-            </label>
-            <div className="space-y-2 max-h-32 overflow-y-auto mb-2">
-              {formData.admins.map((admin, i) => (
-                <div key={i} className="flex items-center gap-2 p-2 bg-neutral-50 dark:bg-neutral-900 rounded-md">
-                  <span className="flex-1 text-xs font-mono text-neutral-700 dark:text-neutral-300 truncate">
-                    {truncatePubkyUri(admin, 40)}
-                  </span>
-                  {formData.admins.length > 1 && (
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="icon"
-                      className="h-6 w-6 text-red-600 hover:text-red-700"
-                      onClick={() => removeAdmin(i)}
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
-                  )}
-                </div>
-              ))}
-            </div>
-            <div className="flex gap-2">
-              <Input
-                value={newAdmin}
-                onChange={(e) => setNewAdmin(e.target.value)}
-                placeholder="pubky://..."
-                className="flex-1"
-              />
-              <Button
-                type="button"
-                size="icon"
-                variant="outline"
-                onClick={addAdmin}
-                disabled={!newAdmin.trim()}
-              >
-                <Plus className="h-4 w-4" />
-              </Button>
-            </div>
-            <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
-              Add Pubky URIs of users who can edit this calendar
-            </p>
-          </div>
+          {ownerId && (
+            <CalendarAdminsPanel
+              admins={formData.admins}
+              roles={formData.roles}
+              ownerId={ownerId}
+              calendarId={calendarUri?.split("/").pop()}
+              onChangeAction={(admins, roles) =>
+                setFormData(prev => ({ ...prev, admins, roles }))}
+            />
+          )}
 
           {/* Image Upload */}
           <div>
@@ -0,0 +1,175 @@
+"use client";
+
+import {
+  formatTimeOfDay,
+  getItemsForDay,
+  isSpanningItem,
+  layoutSpanningItems,
+} from "@/lib/calendar-layout";
+import type { CalendarSubviewProps } from "./CalendarView";
+
+const MAX_TIMED_PER_DAY = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * CalendarMonthView Component
+ *
+ * Weeks of the month as rows; all-day and multi-day events are drawn as
+ * bars across the days they cover, timed events are listed in their day.
+ */
+export function CalendarMonthView({
+  items,
+  days,
+  timeZone,
+  focusedDay,
+  todayDay,
+  onFocusDayAction,
+  onOpenDayAction,
+  onItemSelectAction,
+}: CalendarSubviewProps) {
+  const focusedMonth = new Date(focusedDay * DAY_MS).getUTCMonth();
+  const spanningItems = items.filter((item) => isSpanningItem(item, timeZone));
+  const timedItems = items.filter((item) => !isSpanningItem(item, timeZone));
+
+  const weeks: number[][] = [];
+  for (let i = 0; i < days.length; i += 7) {
+    weeks.push(days.slice(i, i + 7));
+  }
+
+  return (
+    <div role="grid" aria-label="Month">
+      {/* Weekday names */}
+      <div role="row" className="grid grid-cols-7 border-b border-neutral-200 dark:border-neutral-800">
+        {weeks[0]?.map((day) => (
+          <div
+            key={day}
+            role="columnheader"
+            className="px-2 py-1 text-xs font-medium text-neutral-500 dark:text-neutral-400"
+          >
+            {new Date(day * DAY_MS).toLocaleDateString(undefined, {
+              weekday: "short",
+              timeZone: "UTC",
+            })}
+          </div>
+        ))}
+      </div>
+
+      {weeks.map((week) => {
+        const bars = layoutSpanningItems(spanningItems, week, timeZone);
+        const barRows = bars.reduce((max, bar) => Math.max(max, bar.row + 1), 0);
+
+        return (
+          <div
+            key={week[0]}
+            role="row"
+            className="grid grid-cols-7 border-b border-neutral-200 dark:border-neutral-800 last:border-b-0"
+            style={{
+              gridTemplateRows: `1.75rem repeat(${barRows}, 1.5rem) minmax(3.5rem, auto)`,
+            }}
+          >
+            {/* Day cells (background, focus targets) */}
+            {week.map((day, index) => {
+              const isOtherMonth =
+                new Date(day * DAY_MS).getUTCMonth() !== focusedMonth;
+              return (
+                <div
+                  key={day}
+                  role="gridcell"
+                  data-day={day}
+                  tabIndex={day === focusedDay ? 0 : -1}
+                  aria-selected={day === focusedDay}
+                  aria-label={new Date(day * DAY_MS).toLocaleDateString(undefined, {
+                    dateStyle: "full",
+                    timeZone: "UTC",
+                  })}
+                  onClick={() => onFocusDayAction(day)}
+                  onDoubleClick={() => onOpenDayAction(day)}
+                  className={`border-r border-neutral-200 dark:border-neutral-800 last:border-r-0 outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500 ${
+                    isOtherMonth ? "bg-neutral-50 dark:bg-neutral-900/50" : ""
+                  } ${day === focusedDay ? "bg-blue-50/50 dark:bg-blue-950/20" : ""}`}
+                  style={{ gridColumn: index + 1, gridRow: "1 / -1" }}
+                >
+                  <button
+                    type="button"
+                    tabIndex={-1}
+                    onClick={() => onOpenDayAction(day)}
+                    className={`m-1 h-6 min-w-6 px-1 rounded-full text-xs hover:bg-neutral-200 dark:hover:bg-neutral-800 ${
+                      day === todayDay
+                        ? "bg-blue-600 text-white hover:bg-blue-700 dark:hover:bg-blue-700"
+                        : isOtherMonth
+                        ? "text-neutral-400"
+                        : "text-neutral-700 dark:text-neutral-300"
+                    }`}
+                  >
+                    {new Date(day * DAY_MS).getUTCDate()}
+                  </button>
+                </div>
+              );
+            })}
+
+            {/* All-day and multi-day bars */}
+            {bars.map((bar) => (
+              <button
+                key={`${bar.item.key}-${week[0]}`}
+                type="button"
+                onClick={() => onItemSelectAction?.(bar.item.key)}
+                className={`relative z-10 mx-1 my-0.5 px-2 truncate text-left text-xs text-white bg-blue-600 hover:opacity-90 ${
+                  bar.continuesBefore ? "rounded-l-none ml-0" : "rounded-l"
+                } ${bar.continuesAfter ? "rounded-r-none mr-0" : "rounded-r"}`}
+                style={{
+                  gridColumn: `${bar.startIndex + 1} / span ${bar.span}`,
+                  gridRow: bar.row + 2,
+                  backgroundColor: bar.item.color,
+                }}
+              >
+                {bar.item.title}
+              </button>
+            ))}
+
+            {/* Timed events */}
+            {week.map((day, index) => {
+              const dayItems = getItemsForDay(timedItems, day, timeZone);
+              if (dayItems.length === 0) return null;
+              const hidden = dayItems.length - MAX_TIMED_PER_DAY;
+
+              return (
+                <div
+                  key={day}
+                  className="relative z-10 min-w-0 px-1 pb-1 space-y-0.5"
+                  style={{ gridColumn: index + 1, gridRow: barRows + 2 }}
+                >
+                  {dayItems.slice(0, MAX_TIMED_PER_DAY).map((item) => (
+                    <button
+                      key={item.key}
+                      type="button"
+                      onClick={() => onItemSelectAction?.(item.key)}
+                      className="flex w-full items-center gap-1 rounded px-1 text-left text-xs hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                    >
+                      <span
+                        className="h-2 w-2 shrink-0 rounded-full bg-blue-600"
+                        style={{ backgroundColor: item.color }}
+                      />
+                      <span className="text-neutral-500 dark:text-neutral-400 shrink-0">
+                        {formatTimeOfDay(item.start, timeZone)}
+                      </span>
+                      <span className="truncate">{item.title}</span>
+                    </button>
+                  ))}
+                  {hidden > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => onOpenDayAction(day)}
+                      className="px-1 text-xs text-neutral-500 hover:underline"
+                    >
+                      +{hidden} more
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
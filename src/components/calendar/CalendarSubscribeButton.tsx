@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { BellPlus, Check, Loader2, Settings, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/Button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/DropdownMenu";
+import { SubscriptionSettingsDialog } from "./SubscriptionSettingsDialog";
+import { subscriptionKeys, useSubscription } from "@/hooks/use-subscriptions";
+import { alarmKeys } from "@/hooks/use-alarms";
+import { useAuthStore } from "@/stores/auth-store";
+import {
+  deleteSubscription,
+  saveSubscription,
+} from "@/services/subscription-service";
+
+interface CalendarSubscribeButtonProps {
+  calendarUri: string;
+  calendarName?: string;
+  calendarColor?: string;
+}
+
+/**
+ * CalendarSubscribeButton Component
+ *
+ * Subscribes the signed-in user to a calendar, with access to the
+ * subscription settings once subscribed.
+ */
+export function CalendarSubscribeButton({
+  calendarUri,
+  calendarName,
+  calendarColor,
+}: CalendarSubscribeButtonProps) {
+  const queryClient = useQueryClient();
+  const { user, isAuthenticated } = useAuthStore();
+  const publicKey = isAuthenticated ? user?.publicKey : null;
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  const { data: subscription, isLoading } = useSubscription(
+    publicKey,
+    calendarUri,
+  );
+
+  if (!publicKey) return null;
+
+  const refresh = () =>
+    Promise.all([
+      queryClient.invalidateQueries({
+        queryKey: subscriptionKeys.user(publicKey),
+      }),
+      queryClient.invalidateQueries({ queryKey: alarmKeys.user(publicKey) }),
+    ]);
+
+  const handleSubscribe = async () => {
+    setIsSaving(true);
+    try {
+      await saveSubscription(calendarUri, publicKey);
+      toast.success("Subscribed to calendar");
+      await refresh();
+    } catch (error) {
+      console.error("Failed to subscribe:", error);
+      toast.error("Failed to subscribe. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUnsubscribe = async () => {
+    setIsSaving(true);
+    try {
+      await deleteSubscription(calendarUri, publicKey);
+      toast.success("Unsubscribed from calendar");
+      await refresh();
+    } catch (error) {
+      console.error("Failed to unsubscribe:", error);
+      toast.error("Failed to unsubscribe. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!subscription) {
+    return (
+      <Button
+        size="sm"
+        onClick={handleSubscribe}
+        disabled={isLoading || isSaving}
+      >
+        {isSaving
+          ? <Loader2 className="h-4 w-4 animate-spin" />
+          : <BellPlus className="h-4 w-4" />}
+        Subscribe
+      </Button>
+    );
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isSaving}>
+            {isSaving
+              ? <Loader2 className="h-4 w-4 animate-spin" />
+              : <Check className="h-4 w-4" />}
+            Subscribed
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem
+            onClick={() => setIsSettingsOpen(true)}
+            className="cursor-pointer"
+          >
+            <Settings className="mr-2 h-4 w-4" />
+            Subscription settings
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={handleUnsubscribe}
+            className="cursor-pointer text-red-600 focus:text-red-600 dark:text-red-400 dark:focus:text-red-400"
+          >
+            <X className="mr-2 h-4 w-4" />
+            Unsubscribe
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <SubscriptionSettingsDialog
+        isOpen={isSettingsOpen}
+        onCloseAction={() => setIsSettingsOpen(false)}
+        subscription={subscription}
+        publicKey={publicKey}
+        calendarName={calendarName}
+        calendarColor={calendarColor}
+      />
+    </>
+  );
+}
@@ -0,0 +1,316 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  formatTimeOfDay,
+  getDayStart,
+  getItemsForDay,
+  isSpanningItem,
+  layoutSpanningItems,
+  layoutTimedItems,
+  moveItem,
+  resizeItem,
+} from "@/lib/calendar-layout";
+import type { CalendarSubviewProps, CalendarViewItem } from "./CalendarView";
+
+const HOUR_HEIGHT = 48; // px
+const DAY_HEIGHT = HOUR_HEIGHT * 24;
+const INITIAL_SCROLL_HOUR = 8;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const SNAP_MINUTES = 15;
+
+interface DragState {
+  key: string;
+  mode: "move" | "resize";
+  originX: number;
+  originY: number;
+  columnWidth: number;
+  dayDelta: number;
+  minuteDelta: number;
+}
+
+/**
+ * CalendarTimeGrid Component
+ *
+ * Week and day views: an all-day band above a 24 hour grid. Timed events
+ * are positioned by start and end, overlapping events share the column.
+ * Editable events can be dragged to another slot or resized at the bottom
+ * edge, snapping to 15 minutes.
+ */
+export function CalendarTimeGrid({
+  items,
+  days,
+  timeZone,
+  focusedDay,
+  todayDay,
+  onFocusDayAction,
+  onOpenDayAction,
+  onItemSelectAction,
+  onItemChangeAction,
+}: CalendarSubviewProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const draggedRef = useRef(false); // Suppresses the click that ends a drag
+
+  const spanningItems = items.filter((item) => isSpanningItem(item, timeZone));
+  const timedItems = items.filter((item) => !isSpanningItem(item, timeZone));
+  const bars = layoutSpanningItems(spanningItems, days, timeZone);
+  const barRows = bars.reduce((max, bar) => Math.max(max, bar.row + 1), 0);
+  const columns = `4rem repeat(${days.length}, minmax(0, 1fr))`;
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: INITIAL_SCROLL_HOUR * HOUR_HEIGHT });
+  }, []);
+
+  // Move the current time marker every minute
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const startDrag = (
+    e: React.PointerEvent<HTMLElement>,
+    key: string,
+    mode: DragState["mode"],
+  ) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const column = e.currentTarget.closest<HTMLElement>("[data-day-column]");
+    draggedRef.current = false;
+    setDrag({
+      key,
+      mode,
+      originX: e.clientX,
+      originY: e.clientY,
+      columnWidth: column?.offsetWidth || 1,
+      dayDelta: 0,
+      minuteDelta: 0,
+    });
+  };
+
+  const updateDrag = (e: React.PointerEvent<HTMLElement>, dayIndex: number) => {
+    if (!drag) return;
+    const minutes = ((e.clientY - drag.originY) / HOUR_HEIGHT) * 60;
+    const minuteDelta = Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+    const dayDelta = drag.mode === "move"
+      ? Math.min(
+        Math.max(Math.round((e.clientX - drag.originX) / drag.columnWidth), -dayIndex),
+        days.length - 1 - dayIndex,
+      )
+      : 0;
+
+    if (minuteDelta !== drag.minuteDelta || dayDelta !== drag.dayDelta) {
+      draggedRef.current = true;
+      setDrag({ ...drag, minuteDelta, dayDelta });
+    }
+  };
+
+  const getDraggedTimes = (item: CalendarViewItem, state: DragState) =>
+    state.mode === "move"
+      ? moveItem(item, state.dayDelta, state.minuteDelta, timeZone)
+      : resizeItem(item, state.minuteDelta);
+
+  const endDrag = (item: CalendarViewItem) => {
+    if (!drag) return;
+    setDrag(null);
+    if (drag.dayDelta === 0 && drag.minuteDelta === 0) return;
+    onItemChangeAction?.(item.key, getDraggedTimes(item, drag));
+  };
+
+  return (
+    <div role="grid" aria-label={days.length === 1 ? "Day" : "Week"}>
+      {/* Day headers */}
+      <div
+        role="row"
+        className="grid border-b border-neutral-200 dark:border-neutral-800"
+        style={{ gridTemplateColumns: columns }}
+      >
+        <div />
+        {days.map((day) => (
+          <div
+            key={day}
+            role="columnheader"
+            data-day={day}
+            tabIndex={day === focusedDay ? 0 : -1}
+            aria-selected={day === focusedDay}
+            onClick={() => onFocusDayAction(day)}
+            onDoubleClick={() => onOpenDayAction(day)}
+            className={`py-2 text-center text-sm outline-none cursor-pointer focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500 ${
+              day === todayDay
+                ? "text-blue-600 dark:text-blue-400 font-semibold"
+                : "text-neutral-700 dark:text-neutral-300"
+            }`}
+          >
+            {new Date(day * DAY_MS).toLocaleDateString(undefined, {
+              weekday: "short",
+              day: "numeric",
+              timeZone: "UTC",
+            })}
+          </div>
+        ))}
+      </div>
+
+      {/* All-day band */}
+      {barRows > 0 && (
+        <div
+          className="grid border-b border-neutral-200 dark:border-neutral-800 py-1"
+          style={{
+            gridTemplateColumns: columns,
+            gridTemplateRows: `repeat(${barRows}, 1.5rem)`,
+          }}
+        >
+          <div
+            className="pr-2 text-right text-xs text-neutral-500"
+            style={{ gridColumn: 1, gridRow: 1 }}
+          >
+            All day
+          </div>
+          {bars.map((bar) => (
+            <button
+              key={bar.item.key}
+              type="button"
+              onClick={() => onItemSelectAction?.(bar.item.key)}
+              className={`mx-1 my-0.5 px-2 truncate text-left text-xs text-white bg-blue-600 hover:opacity-90 ${
+                bar.continuesBefore ? "rounded-l-none ml-0" : "rounded-l"
+              } ${bar.continuesAfter ? "rounded-r-none mr-0" : "rounded-r"}`}
+              style={{
+                gridColumn: `${bar.startIndex + 2} / span ${bar.span}`,
+                gridRow: bar.row + 1,
+                backgroundColor: bar.item.color,
+              }}
+            >
+              {bar.item.title}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Hour grid */}
+      <div ref={scrollRef} className="max-h-[600px] overflow-y-auto">
+        <div
+          className="grid relative"
+          style={{ gridTemplateColumns: columns, height: DAY_HEIGHT }}
+        >
+          {/* Hour labels */}
+          <div className="relative">
+            {HOURS.slice(1).map((hour) => (
+              <span
+                key={hour}
+                className="absolute right-2 -translate-y-1/2 text-xs text-neutral-500"
+                style={{ top: hour * HOUR_HEIGHT }}
+              >
+                {new Date(Date.UTC(2000, 0, 1, hour)).toLocaleTimeString(
+                  undefined,
+                  { hour: "2-digit", minute: "2-digit", timeZone: "UTC" },
+                )}
+              </span>
+            ))}
+          </div>
+
+          {days.map((day, dayIndex) => {
+            const dayStart = getDayStart(day, timeZone).getTime();
+            const dayLength = getDayStart(day + 1, timeZone).getTime() - dayStart;
+            const layouts = layoutTimedItems(
+              getItemsForDay(timedItems, day, timeZone),
+              day,
+              timeZone,
+            );
+
+            return (
+              <div
+                key={day}
+                role="gridcell"
+                data-day-column
+                className="relative border-l border-neutral-200 dark:border-neutral-800"
+              >
+                {HOURS.map((hour) => (
+                  <div
+                    key={hour}
+                    className="border-b border-neutral-100 dark:border-neutral-900"
+                    style={{ height: HOUR_HEIGHT }}
+                  />
+                ))}
+
+                {layouts.map(({ item, top, height, column, columns }) => {
+                  const canDrag = Boolean(item.editable && onItemChangeAction);
+                  const dragging = drag?.key === item.key ? drag : null;
+                  const times = dragging ? getDraggedTimes(item, dragging) : item;
+                  const offsetY = dragging?.mode === "move"
+                    ? (dragging.minuteDelta / 60) * HOUR_HEIGHT
+                    : 0;
+                  const extraHeight = dragging?.mode === "resize"
+                    ? ((times.end.getTime() - item.end.getTime()) / HOUR_MS) * HOUR_HEIGHT
+                    : 0;
+
+                  return (
+                    <button
+                      key={item.key}
+                      type="button"
+                      onClick={() => {
+                        if (draggedRef.current) {
+                          draggedRef.current = false;
+                          return;
+                        }
+                        onItemSelectAction?.(item.key);
+                      }}
+                      onPointerDown={canDrag
+                        ? (e) => startDrag(e, item.key, "move")
+                        : undefined}
+                      onPointerMove={canDrag ? (e) => updateDrag(e, dayIndex) : undefined}
+                      onPointerUp={canDrag ? () => endDrag(item) : undefined}
+                      onPointerCancel={canDrag ? () => setDrag(null) : undefined}
+                      onKeyDown={(e) => {
+                        if (dragging && e.key === "Escape") setDrag(null);
+                      }}
+                      aria-grabbed={canDrag ? Boolean(dragging) : undefined}
+                      className={`absolute overflow-hidden rounded border border-white dark:border-neutral-950 bg-blue-600 px-1 text-left text-xs text-white hover:opacity-90 ${
+                        canDrag ? "touch-none cursor-grab" : ""
+                      } ${dragging ? "z-20 opacity-80 shadow-lg cursor-grabbing" : ""}`}
+                      style={{
+                        top: `${top * 100}%`,
+                        height: `calc(${height * 100}% + ${extraHeight}px)`,
+                        left: `${(column / columns) * 100}%`,
+                        width: `${100 / columns}%`,
+                        transform: dragging
+                          ? `translate(${dragging.dayDelta * dragging.columnWidth}px, ${offsetY}px)`
+                          : undefined,
+                        backgroundColor: item.color,
+                      }}
+                    >
+                      <div className="font-medium truncate">{item.title}</div>
+                      <div className="opacity-80 truncate">
+                        {formatTimeOfDay(times.start, timeZone)} –{" "}
+                        {formatTimeOfDay(times.end, timeZone)}
+                      </div>
+                      {canDrag && (
+                        <div
+                          aria-hidden
+                          onPointerDown={(e) => startDrag(e, item.key, "resize")}
+                          className="absolute inset-x-0 bottom-0 h-1.5 cursor-ns-resize"
+                        />
+                      )}
+                    </button>
+                  );
+                })}
+
+                {day === todayDay && (
+                  <div
+                    aria-hidden
+                    className="absolute inset-x-0 z-10 h-0.5 bg-red-500"
+                    style={{
+                      top: `${((now.getTime() - dayStart) / dayLength) * 100}%`,
+                    }}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ArrowRightLeft, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/Button";
+import { ConfirmationDialog } from "@/components/ui/ConfirmationDialog";
+import { useAuthStore } from "@/stores/auth-store";
+import { useCalendar } from "@/hooks/use-calendars";
+import { useNexusProfile } from "@/hooks/useNexusProfile";
+import { getDisplayName } from "@/utils/avatar";
+import { buildCalendarUri } from "@/services/calendar-fetch-service";
+import {
+  acceptCalendarTransfer,
+  cancelCalendarTransfer,
+  moveEventsToCalendar,
+  offerCalendarTransfer,
+} from "@/services/calendar-transfer-service";
+import type { CalendarTransferOffer } from "@/types/calendar";
+
+function UserName({ publicKey }: { publicKey: string }) {
+  const { data: profile } = useNexusProfile(publicKey);
+  return <>{getDisplayName(profile?.name, publicKey)}</>;
+}
+
+interface CalendarTransferProps {
+  calendarUri: string;
+  authorId: string; // Current owner
+  calendarId: string;
+  admins: string[]; // Public keys of admins other than the owner
+  transfer: CalendarTransferOffer | null | undefined;
+  isWriter: boolean; // Owner or admin
+  onChangedAction: () => void;
+}
+
+/**
+ * CalendarTransfer Component
+ *
+ * Ownership transfer of a calendar. The owner offers the calendar to an
+ * admin, who accepts by copying it to their homeserver. Once copied, the
+ * old calendar points to the new one and its writers can move their
+ * events over. Renders nothing when there is nothing to do.
+ */
+export function CalendarTransfer({
+  calendarUri,
+  authorId,
+  calendarId,
+  admins,
+  transfer,
+  isWriter,
+  onChangedAction,
+}: CalendarTransferProps) {
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const [recipient, setRecipient] = useState("");
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // The calendar has moved once the recipient's copy exists
+  const { data: movedCalendar } = useCalendar(transfer?.to, calendarId);
+  const movedUri = transfer ? buildCalendarUri(transfer.to, calendarId) : null;
+  const isOwner = user?.publicKey === authorId;
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(failure, error);
+      toast.error(failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleOffer = () =>
+    run(async () => {
+      if (!user?.publicKey) return;
+      await offerCalendarTransfer(calendarUri, recipient, user.publicKey);
+      toast.success("Transfer offered");
+      onChangedAction();
+    }, "Failed to offer the transfer");
+
+  const handleCancel = () =>
+    run(async () => {
+      if (!user?.publicKey) return;
+      await cancelCalendarTransfer(calendarUri, user.publicKey);
+      toast.success("Transfer cancelled");
+      onChangedAction();
+    }, "Failed to cancel the transfer");
+
+  const handleAccept = () =>
+    run(async () => {
+      if (!user?.publicKey) return;
+      await acceptCalendarTransfer(calendarUri, user.publicKey);
+      toast.success("You now own this calendar");
+      router.push(`/calendar/${user.publicKey}/${calendarId}`);
+    }, "Failed to take over the calendar");
+
+  const handleMoveEvents = () =>
+    run(async () => {
+      if (!user?.publicKey || !movedUri) return;
+      const moved = await moveEventsToCalendar(
+        calendarUri,
+        movedUri,
+        user.publicKey,
+      );
+      toast.success(`Moved ${moved} event(s)`);
+      onChangedAction();
+    }, "Failed to move your events");
+
+  const card =
+    "bg-white dark:bg-neutral-950 border border-neutral-200 dark:border-neutral-800 rounded-lg p-4 text-sm";
+  const title =
+    "flex items-center gap-2 text-sm font-semibold text-neutral-900 dark:text-neutral-100 mb-2";
+
+  if (transfer && movedCalendar) {
+    return (
+      <div className={card}>
+        <h3 className={title}>
+          <ArrowRightLeft className="h-4 w-4" />
+          Calendar moved
+        </h3>
+        <p className="text-neutral-600 dark:text-neutral-400 mb-3">
+          <UserName publicKey={transfer.to} /> took over this calendar.{" "}
+          <Link
+            href={`/calendar/${transfer.to}/${calendarId}`}
+            className="underline"
+          >
+            Go to the new calendar
+          </Link>
+        </p>
+        {isWriter && user?.publicKey !== transfer.to && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleMoveEvents}
+            disabled={isWorking}
+          >
+            {isWorking && <Loader2 className="h-4 w-4 animate-spin" />}
+            Move my events
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  if (transfer && user?.publicKey === transfer.to) {
+    return (
+      <div className={card}>
+        <h3 className={title}>
+          <ArrowRightLeft className="h-4 w-4" />
+          Ownership offered to you
+        </h3>
+        <p className="text-neutral-600 dark:text-neutral-400 mb-3">
+          <UserName publicKey={authorId} /> wants to hand this calendar over.
+          Accepting copies it to your homeserver and moves your events.
+        </p>
+        <Button size="sm" onClick={handleAccept} disabled={isWorking}>
+          {isWorking && <Loader2 className="h-4 w-4 animate-spin" />}
+          Accept ownership
+        </Button>
+      </div>
+    );
+  }
+
+  if (!isOwner || (!transfer && admins.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className={card}>
+      <h3 className={title}>
+        <ArrowRightLeft className="h-4 w-4" />
+        Transfer ownership
+      </h3>
+      {transfer
+        ? (
+          <>
+            <p className="text-neutral-600 dark:text-neutral-400 mb-3">
+              Waiting for <UserName publicKey={transfer.to} /> to accept.
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleCancel}
+              disabled={isWorking}
+            >
+              Cancel transfer
+            </Button>
+          </>
+        )
+        : (
+          <>
+            <p className="text-neutral-600 dark:text-neutral-400 mb-3">
+              Hand this calendar over to one of its admins. You stay on as an
+              admin.
+            </p>
+            <div className="flex gap-2">
+              <select
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1 text-sm border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-900"
+              >
+                <option value="">Choose an admin</option>
+                {admins.map((admin) => (
+                  <option key={admin} value={admin}>
+                    {admin.slice(0, 8)}...{admin.slice(-8)}
+                  </option>
+                ))}
+              </select>
+              <Button
+                size="sm"
+                onClick={() => setIsConfirmOpen(true)}
+                disabled={!recipient || isWorking}
+              >
+                Offer
+              </Button>
+            </div>
+          </>
+        )}
+
+      <ConfirmationDialog
+        isOpen={isConfirmOpen}
+        onCloseAction={() => setIsConfirmOpen(false)}
+        onConfirmAction={() => {
+          setIsConfirmOpen(false);
+          handleOffer();
+        }}
+        title="Transfer ownership?"
+        description="The admin can take over this calendar at any time until you cancel the offer. Visitors are pointed to their copy once they accept."
+        confirmText="Offer transfer"
+      />
+    </div>
+  );
+}
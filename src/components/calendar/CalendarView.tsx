@@ -0,0 +1,280 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import {
+  type CalendarViewType,
+  getDaysRange,
+  getViewDays,
+  shiftAnchorDay,
+  toDayNumber,
+} from "@/lib/calendar-layout";
+import { getUserTimezone } from "@/lib/calendar-validation";
+import { CalendarMonthView } from "./CalendarMonthView";
+import { CalendarTimeGrid } from "./CalendarTimeGrid";
+import { CalendarAgendaView } from "./CalendarAgendaView";
+
+/**
+ * An event occurrence shown in the calendar views
+ */
+export interface CalendarViewItem {
+  key: string;
+  title: string;
+  start: Date;
+  end: Date;
+  allDay?: boolean;
+  color?: string;
+  editable?: boolean; // Can be dragged and resized in the time grid
+}
+
+interface CalendarViewProps {
+  items: CalendarViewItem[];
+  timeZone?: string | null; // Calendar timezone, viewer's timezone if unset
+  isLoading?: boolean;
+  onRangeChangeAction: (range: { start: Date; end: Date }) => void;
+  onItemSelectAction?: (key: string) => void;
+  onItemChangeAction?: (key: string, times: { start: Date; end: Date }) => void;
+}
+
+/**
+ * Props shared by the month, time grid and agenda views
+ */
+export interface CalendarSubviewProps {
+  items: CalendarViewItem[];
+  days: number[];
+  timeZone: string;
+  focusedDay: number;
+  todayDay: number;
+  onFocusDayAction: (day: number) => void;
+  onOpenDayAction: (day: number) => void;
+  onItemSelectAction?: (key: string) => void;
+  onItemChangeAction?: (key: string, times: { start: Date; end: Date }) => void;
+}
+
+const VIEWS: Array<{ value: CalendarViewType; label: string; shortcut: string }> = [
+  { value: "month", label: "Month", shortcut: "m" },
+  { value: "week", label: "Week", shortcut: "w" },
+  { value: "day", label: "Day", shortcut: "d" },
+  { value: "agenda", label: "Agenda", shortcut: "a" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDay(day: number, options: Intl.DateTimeFormatOptions): string {
+  return new Date(day * DAY_MS).toLocaleDateString(undefined, {
+    ...options,
+    timeZone: "UTC",
+  });
+}
+
+function getTitle(view: CalendarViewType, days: number[], anchorDay: number) {
+  const first = days[0];
+  const last = days[days.length - 1];
+  switch (view) {
+    case "month":
+      return formatDay(anchorDay, { month: "long", year: "numeric" });
+    case "day":
+      return formatDay(anchorDay, { dateStyle: "full" });
+    default:
+      return `${formatDay(first, { month: "short", day: "numeric" })} – ${
+        formatDay(last, { month: "short", day: "numeric", year: "numeric" })
+      }`;
+  }
+}
+
+/**
+ * CalendarView Component
+ *
+ * Month, week, day and agenda views of event occurrences.
+ * Keyboard: arrow keys move the focused day, PageUp/PageDown change the
+ * period, T jumps to today, M/W/D/A switch views and Enter opens a day.
+ * Editable items can be dragged and resized in the week and day views.
+ */
+export function CalendarView({
+  items,
+  timeZone: calendarTimeZone,
+  isLoading = false,
+  onRangeChangeAction,
+  onItemSelectAction,
+  onItemChangeAction,
+}: CalendarViewProps) {
+  const viewerTimeZone = getUserTimezone();
+  const [useCalendarTimeZone, setUseCalendarTimeZone] = useState(true);
+  const timeZone = (useCalendarTimeZone && calendarTimeZone) || viewerTimeZone;
+
+  const [view, setView] = useState<CalendarViewType>("month");
+  const todayDay = toDayNumber(new Date(), timeZone);
+  const [anchorDay, setAnchorDay] = useState(todayDay);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const moveFocusRef = useRef(false);
+
+  const days = useMemo(() => getViewDays(view, anchorDay), [view, anchorDay]);
+  const range = useMemo(
+    () => getDaysRange(days, timeZone),
+    [days, timeZone],
+  );
+
+  // Report range changes only, not new callback identities
+  const onRangeChangeRef = useRef(onRangeChangeAction);
+  useEffect(() => {
+    onRangeChangeRef.current = onRangeChangeAction;
+  }, [onRangeChangeAction]);
+
+  const rangeStart = range.start.getTime();
+  const rangeEnd = range.end.getTime();
+  useEffect(() => {
+    onRangeChangeRef.current({
+      start: new Date(rangeStart),
+      end: new Date(rangeEnd),
+    });
+  }, [rangeStart, rangeEnd]);
+
+  // Keep keyboard focus on the focused day after navigating
+  useEffect(() => {
+    if (!moveFocusRef.current) return;
+    moveFocusRef.current = false;
+    containerRef.current
+      ?.querySelector<HTMLElement>(`[data-day="${anchorDay}"]`)
+      ?.focus();
+  }, [anchorDay, view]);
+
+  const focusDay = (day: number) => {
+    moveFocusRef.current = true;
+    setAnchorDay(day);
+  };
+
+  const openDay = (day: number) => {
+    setAnchorDay(day);
+    setView("day");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (target.closest("input, select, textarea")) return;
+
+    const weekStep = view === "month" || view === "week" ? 7 : 1;
+    const steps: Record<string, number> = {
+      ArrowLeft: -1,
+      ArrowRight: 1,
+      ArrowUp: -weekStep,
+      ArrowDown: weekStep,
+    };
+
+    if (e.key in steps) {
+      e.preventDefault();
+      focusDay(anchorDay + steps[e.key]);
+    } else if (e.key === "PageUp" || e.key === "PageDown") {
+      e.preventDefault();
+      focusDay(shiftAnchorDay(view, anchorDay, e.key === "PageUp" ? -1 : 1));
+    } else if (e.key === "Home" || e.key.toLowerCase() === "t") {
+      e.preventDefault();
+      focusDay(todayDay);
+    } else if (e.key === "Enter" && target.dataset.day && view !== "day") {
+      e.preventDefault();
+      openDay(Number(target.dataset.day));
+    } else if (!e.metaKey && !e.ctrlKey && !e.altKey) {
+      const shortcut = VIEWS.find((v) => v.shortcut === e.key.toLowerCase());
+      if (shortcut) {
+        e.preventDefault();
+        moveFocusRef.current = true;
+        setView(shortcut.value);
+      }
+    }
+  };
+
+  const subviewProps: CalendarSubviewProps = {
+    items,
+    days,
+    timeZone,
+    focusedDay: anchorDay,
+    todayDay,
+    onFocusDayAction: setAnchorDay,
+    onOpenDayAction: openDay,
+    onItemSelectAction,
+    onItemChangeAction,
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onKeyDown={handleKeyDown}
+      className="bg-white dark:bg-neutral-950 border border-neutral-200 dark:border-neutral-800 rounded-lg"
+    >
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-2 p-3 border-b border-neutral-200 dark:border-neutral-800">
+        <div className="flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label="Previous"
+            onClick={() => setAnchorDay(shiftAnchorDay(view, anchorDay, -1))}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setAnchorDay(todayDay)}>
+            Today
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label="Next"
+            onClick={() => setAnchorDay(shiftAnchorDay(view, anchorDay, 1))}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h3 className="ml-2 font-semibold" aria-live="polite">
+            {getTitle(view, days, anchorDay)}
+          </h3>
+          {isLoading && (
+            <Loader2 className="ml-2 h-4 w-4 animate-spin text-neutral-500" />
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          {calendarTimeZone && calendarTimeZone !== viewerTimeZone && (
+            <select
+              aria-label="Timezone"
+              value={useCalendarTimeZone ? "calendar" : "viewer"}
+              onChange={(e) =>
+                setUseCalendarTimeZone(e.target.value === "calendar")}
+              className="h-9 px-2 text-sm border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-900"
+            >
+              <option value="calendar">{calendarTimeZone}</option>
+              <option value="viewer">{viewerTimeZone} (yours)</option>
+            </select>
+          )}
+          <div
+            role="tablist"
+            aria-label="Calendar view"
+            className="flex rounded-md border border-neutral-200 dark:border-neutral-800 overflow-hidden"
+          >
+            {VIEWS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                role="tab"
+                aria-selected={view === option.value}
+                aria-keyshortcuts={option.shortcut}
+                onClick={() => setView(option.value)}
+                className={`px-3 h-9 text-sm ${
+                  view === option.value
+                    ? "bg-neutral-900 text-white dark:bg-neutral-100 dark:text-neutral-900"
+                    : "hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {view === "month" && <CalendarMonthView {...subviewProps} />}
+      {(view === "week" || view === "day") && (
+        <CalendarTimeGrid {...subviewProps} />
+      )}
+      {view === "agenda" && <CalendarAgendaView {...subviewProps} />}
+    </div>
+  );
+}
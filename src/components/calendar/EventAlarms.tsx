@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Bell, Loader2, Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/Button";
+import { alarmKeys, useAlarmSchedule } from "@/hooks/use-alarms";
+import { useAuthStore } from "@/stores/auth-store";
+import { ALARM_TRIGGER_PRESETS, describeAlarm } from "@/lib/alarms";
+import {
+  type AlarmOptions,
+  createAlarm,
+  deleteAlarm,
+} from "@/services/alarm-service";
+
+interface EventAlarmsProps {
+  eventUri: string;
+}
+
+const REPEAT_OPTIONS: Array<{ label: string; options: AlarmOptions }> = [
+  { label: "Once", options: {} },
+  { label: "3 times, 5 min apart", options: { repeat: 2, duration: "PT5M" } },
+  { label: "3 times, 10 min apart", options: { repeat: 2, duration: "PT10M" } },
+];
+
+const selectClassName =
+  "h-9 w-full px-2 text-sm border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-950";
+
+/**
+ * EventAlarms Component
+ *
+ * The signed-in user's reminders for an event, stored on their homeserver.
+ */
+export function EventAlarms({ eventUri }: EventAlarmsProps) {
+  const queryClient = useQueryClient();
+  const { user, isAuthenticated } = useAuthStore();
+  const publicKey = isAuthenticated ? user?.publicKey : null;
+  const [trigger, setTrigger] = useState(ALARM_TRIGGER_PRESETS[2].value);
+  const [repeatIndex, setRepeatIndex] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingUri, setDeletingUri] = useState<string | null>(null);
+
+  const { data: schedule, isLoading } = useAlarmSchedule(publicKey);
+  const alarms = (schedule || []).filter(({ alarm }) =>
+    alarm.data.x_pubky_event_uri === eventUri
+  );
+
+  if (!publicKey) return null;
+
+  const refresh = () =>
+    queryClient.invalidateQueries({ queryKey: alarmKeys.user(publicKey) });
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    try {
+      // Ask while we still have the user's click
+      if ("Notification" in window && Notification.permission === "default") {
+        await Notification.requestPermission();
+      }
+      await createAlarm(
+        eventUri,
+        trigger,
+        publicKey,
+        REPEAT_OPTIONS[repeatIndex].options,
+      );
+      toast.success("Reminder added");
+      await refresh();
+    } catch (error) {
+      console.error("Failed to add reminder:", error);
+      toast.error("Failed to add reminder. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (alarmUri: string) => {
+    setDeletingUri(alarmUri);
+    try {
+      await deleteAlarm(alarmUri, publicKey);
+      toast.success("Reminder removed");
+      await refresh();
+    } catch (error) {
+      console.error("Failed to remove reminder:", error);
+      toast.error("Failed to remove reminder. Please try again.");
+    } finally {
+      setDeletingUri(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-neutral-950 border border-neutral-200 dark:border-neutral-800 rounded-lg p-4">
+      <h3 className="flex items-center gap-2 text-sm font-semibold text-neutral-900 dark:text-neutral-100 mb-3">
+        <Bell className="h-4 w-4" />
+        Reminders
+      </h3>
+
+      {isLoading
+        ? (
+          <div className="flex items-center text-sm text-neutral-500 mb-3">
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            Loading reminders...
+          </div>
+        )
+        : alarms.length > 0 && (
+          <ul className="space-y-1 mb-3">
+            {alarms.map(({ alarm, subscriptionUri }) => (
+              <li
+                key={alarm.uri}
+                className="flex items-center justify-between text-sm"
+              >
+                <span className="text-neutral-700 dark:text-neutral-300">
+                  {describeAlarm(alarm.data)}
+                </span>
+                {subscriptionUri
+                  ? (
+                    <span className="text-xs text-neutral-500">
+                      Calendar default
+                    </span>
+                  )
+                  : (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={deletingUri === alarm.uri}
+                      onClick={() => handleDelete(alarm.uri)}
+                      aria-label="Remove reminder"
+                    >
+                      {deletingUri === alarm.uri
+                        ? <Loader2 className="h-3 w-3 animate-spin" />
+                        : <X className="h-3 w-3" />}
+                    </Button>
+                  )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+      <div className="space-y-2">
+        <select
+          value={trigger}
+          onChange={(e) => setTrigger(e.target.value)}
+          className={selectClassName}
+          aria-label="Remind me"
+        >
+          {ALARM_TRIGGER_PRESETS.map((preset) => (
+            <option key={preset.value} value={preset.value}>
+              {preset.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={repeatIndex}
+          onChange={(e) => setRepeatIndex(Number(e.target.value))}
+          className={selectClassName}
+          aria-label="Repeat"
+        >
+          {REPEAT_OPTIONS.map((option, index) => (
+            <option key={option.label} value={index}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <Button
+          size="sm"
+          variant="outline"
+          className="w-full flex items-center gap-1"
+          disabled={isSaving}
+          onClick={handleAdd}
+        >
+          {isSaving
+            ? <Loader2 className="h-3 w-3 animate-spin" />
+            : <Plus className="h-3 w-3" />}
+          Add reminder
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Check, HelpCircle, Loader2, Users, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/Button";
+import { ProfileItem } from "@/components/ui/ProfileItem";
+import { eventKeys, useEventAttendees } from "@/hooks/use-calendars";
+import { agendaKeys } from "@/hooks/use-agenda";
+import { useAuthStore } from "@/stores/auth-store";
+import {
+  ATTENDEE_STATUSES,
+  groupAttendeesByStatus,
+} from "@/lib/attendees";
+import { saveRsvp, withdrawRsvp } from "@/services/attendee-service";
+import type { RsvpStatus } from "@/lib/nexus-types";
+import type { AttendeeStatus } from "@/types/calendar";
+
+interface EventAttendeesProps {
+  authorId: string;
+  eventId: string;
+  eventUri: string;
+}
+
+const RSVP_OPTIONS: Array<{
+  value: AttendeeStatus;
+  label: string;
+  icon: typeof Check;
+}> = [
+  { value: "ACCEPTED", label: "Going", icon: Check },
+  { value: "TENTATIVE", label: "Maybe", icon: HelpCircle },
+  { value: "DECLINED", label: "Can't go", icon: X },
+];
+
+const STATUS_LABELS: Partial<Record<RsvpStatus, string>> = {
+  ACCEPTED: "Going",
+  TENTATIVE: "Maybe",
+  DECLINED: "Not going",
+};
+
+/**
+ * EventAttendees Component
+ *
+ * RSVP buttons for the signed-in user and the event's attendees grouped
+ * by answer.
+ */
+export function EventAttendees({
+  authorId,
+  eventId,
+  eventUri,
+}: EventAttendeesProps) {
+  const queryClient = useQueryClient();
+  const { user, isAuthenticated } = useAuthStore();
+  const viewerKey = isAuthenticated ? user?.publicKey : null;
+  const [savingStatus, setSavingStatus] = useState<
+    AttendeeStatus | "withdraw" | null
+  >(null);
+
+  const { data: attendees, isLoading } = useEventAttendees(
+    authorId,
+    eventId,
+    viewerKey,
+  );
+
+  const groups = groupAttendeesByStatus(attendees || []);
+  const ownStatus = attendees?.find((attendee) =>
+    attendee.publicKey === viewerKey
+  )?.rsvp;
+
+  const handleRsvp = async (status: AttendeeStatus | "withdraw") => {
+    if (!viewerKey) {
+      toast.error("You must be logged in to RSVP");
+      return;
+    }
+
+    setSavingStatus(status);
+    try {
+      if (status === "withdraw") {
+        await withdrawRsvp(eventUri, viewerKey);
+        toast.success("RSVP withdrawn");
+      } else {
+        await saveRsvp(eventUri, status, viewerKey, user?.name);
+        toast.success("RSVP saved");
+      }
+      await Promise.all([
+        queryClient.invalidateQueries({
+          queryKey: eventKeys.attendees(authorId, eventId),
+        }),
+        queryClient.invalidateQueries({
+          queryKey: agendaKeys.rsvps(viewerKey),
+        }),
+      ]);
+    } catch (error) {
+      console.error("Failed to update RSVP:", error);
+      toast.error("Failed to update your RSVP. Please try again.");
+    } finally {
+      setSavingStatus(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-neutral-950 border border-neutral-200 dark:border-neutral-800 rounded-lg p-4">
+      <h3 className="flex items-center gap-2 text-sm font-semibold text-neutral-900 dark:text-neutral-100 mb-3">
+        <Users className="h-4 w-4" />
+        Attendees
+      </h3>
+
+      {/* RSVP */}
+      {viewerKey && (
+        <div className="mb-4 space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            {RSVP_OPTIONS.map(({ value, label, icon: Icon }) => (
+              <Button
+                key={value}
+                size="sm"
+                variant={ownStatus === value ? "default" : "outline"}
+                aria-pressed={ownStatus === value}
+                disabled={savingStatus !== null}
+                onClick={() => handleRsvp(value)}
+                className="flex items-center gap-1"
+              >
+                {savingStatus === value
+                  ? <Loader2 className="h-3 w-3 animate-spin" />
+                  : <Icon className="h-3 w-3" />}
+                <span>{label}</span>
+              </Button>
+            ))}
+          </div>
+          {ownStatus && (
+            <Button
+              size="sm"
+              variant="link"
+              disabled={savingStatus !== null}
+              onClick={() => handleRsvp("withdraw")}
+              className="px-0 h-auto text-neutral-500"
+            >
+              {savingStatus === "withdraw" ? "Withdrawing..." : "Withdraw RSVP"}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Counts and lists */}
+      {isLoading ? (
+        <div className="flex items-center text-sm text-neutral-500">
+          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          Loading attendees...
+        </div>
+      ) : !attendees || attendees.length === 0 ? (
+        <p className="text-sm text-neutral-500">No RSVPs yet</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex gap-4 text-sm">
+            {ATTENDEE_STATUSES.map((status) => (
+              <div key={status}>
+                <span className="font-semibold text-neutral-900 dark:text-neutral-100">
+                  {groups[status].length}
+                </span>{" "}
+                <span className="text-neutral-500">{STATUS_LABELS[status]}</span>
+              </div>
+            ))}
+          </div>
+
+          {ATTENDEE_STATUSES.filter((status) => groups[status].length > 0).map(
+            (status) => (
+              <div key={status}>
+                <h4 className="text-xs font-medium uppercase text-neutral-500 mb-2">
+                  {STATUS_LABELS[status]}
+                </h4>
+                <div className="space-y-2">
+                  {groups[status].map((attendee) => (
+                    <ProfileItem
+                      key={attendee.publicKey}
+                      userUri={`pubky://${attendee.publicKey}`}
+                      showBio={false}
+                      showLink={false}
+                    />
+                  ))}
+                </div>
+              </div>
+            ),
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
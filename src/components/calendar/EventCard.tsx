@@ -0,0 +1,82 @@
+"use client";
+
+import Link from "next/link";
+import { Clock, MapPin, Repeat } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { NexusEvent } from "@/lib/nexus-types";
+import { getEventPageUrl } from "@/utils/pubky-uri";
+
+interface EventCardProps {
+  event: NexusEvent;
+  className?: string;
+}
+
+function formatEventTime(event: NexusEvent): string {
+  const start = new Date(event.start_date);
+  if (event.all_day) {
+    return start.toLocaleDateString(undefined, { dateStyle: "medium" });
+  }
+  return start.toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+export function EventCard({ event, className }: EventCardProps) {
+  const eventUrl = getEventPageUrl(event.uri) || "#";
+  const locationLabel = event.location?.name || event.location?.address;
+
+  return (
+    <Link href={eventUrl}>
+      <div
+        className={cn(
+          "group h-full rounded-lg border border-neutral-200 bg-white p-4 transition-all hover:shadow-lg dark:border-neutral-800 dark:bg-neutral-950",
+          className,
+        )}
+      >
+        <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-100 line-clamp-2 mb-2 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">
+          {event.summary || "Untitled Event"}
+        </h3>
+
+        <div className="space-y-1 text-sm text-neutral-600 dark:text-neutral-400">
+          <div className="flex items-center gap-2">
+            <Clock className="h-4 w-4 shrink-0" />
+            <span>{formatEventTime(event)}</span>
+          </div>
+
+          {locationLabel && (
+            <div className="flex items-center gap-2">
+              <MapPin className="h-4 w-4 shrink-0" />
+              <span className="truncate">{locationLabel}</span>
+            </div>
+          )}
+
+          {event.recurrence_rule && (
+            <div className="flex items-center gap-2">
+              <Repeat className="h-4 w-4 shrink-0" />
+              <span>Recurring</span>
+            </div>
+          )}
+        </div>
+
+        {(event.status || (event.tags && event.tags.length > 0)) && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {event.status && event.status !== "CONFIRMED" && (
+              <span className="text-xs bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300 px-2 py-1 rounded">
+                {event.status}
+              </span>
+            )}
+            {event.tags?.map((tag) => (
+              <span
+                key={tag}
+                className="text-xs bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200 px-2 py-1 rounded"
+              >
+                #{tag}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </Link>
+  );
+}
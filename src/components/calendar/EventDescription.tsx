@@ -0,0 +1,34 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { styledDescriptionToHtml } from "@/lib/rich-text";
+import type { StyledDescription } from "@/types/calendar";
+
+interface EventDescriptionProps {
+  description: StyledDescription;
+  className?: string;
+}
+
+/**
+ * EventDescription Component
+ *
+ * Renders a styled description (HTML, Markdown or plain text) after
+ * sanitizing it. Rendering waits for the browser, where the sanitizer
+ * has a DOM to work with.
+ */
+export function EventDescription({ description, className = "" }: EventDescriptionProps) {
+  const [html, setHtml] = useState<string | null>(null);
+
+  useEffect(() => {
+    setHtml(styledDescriptionToHtml(description));
+  }, [description]);
+
+  if (html === null) return null;
+
+  return (
+    <div
+      className={`text-sm text-neutral-700 dark:text-neutral-300 space-y-3 break-words [&_a]:text-blue-600 [&_a]:underline dark:[&_a]:text-blue-400 [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5 [&_h1]:text-xl [&_h2]:text-lg [&_h1]:font-semibold [&_h2]:font-semibold [&_h3]:font-semibold [&_blockquote]:border-l-2 [&_blockquote]:pl-3 [&_blockquote]:text-neutral-500 [&_pre]:bg-neutral-100 dark:[&_pre]:bg-neutral-900 [&_pre]:p-3 [&_pre]:rounded [&_pre]:overflow-x-auto [&_code]:font-mono [&_code]:text-xs ${className}`}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Search } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { LocationSearch } from "@/components/forms/LocationSearch";
+import { nominatimClient } from "@/lib/nominatim-client";
+import {
+  DEFAULT_RADIUS_KM,
+  type EventFilters,
+} from "@/lib/event-filters";
+import type { EventStatus } from "@/types/calendar";
+
+interface EventFilterBarProps {
+  filters: EventFilters;
+  onChangeAction: (filters: EventFilters) => void;
+}
+
+const RADIUS_OPTIONS = [5, 10, 25, 50, 100];
+const TEXT_DEBOUNCE_MS = 300;
+
+const selectClassName =
+  "h-10 w-full px-3 text-sm border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-950";
+
+function parseTags(value: string): string[] {
+  return value
+    .split(",")
+    .map((tag) => tag.trim().replace(/^#/, "").toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * EventFilterBar Component
+ *
+ * Filter controls for event discovery: free text, date range, tags,
+ * status and distance from a place.
+ */
+export function EventFilterBar({ filters, onChangeAction }: EventFilterBarProps) {
+  const [query, setQuery] = useState(filters.query || "");
+  const [tags, setTags] = useState(filters.tags.join(", "));
+  const tagsKey = filters.tags.join(",");
+  const locationName = filters.location?.name;
+  const locationValue = useMemo(
+    () => (locationName ? { name: locationName } : undefined),
+    [locationName],
+  );
+
+  // Follow external changes (back/forward navigation, reset)
+  useEffect(() => {
+    setQuery(filters.query || "");
+  }, [filters.query]);
+
+  useEffect(() => {
+    setTags(tagsKey.split(",").filter(Boolean).join(", "));
+  }, [tagsKey]);
+
+  // Debounce free text so typing does not refetch on every key
+  useEffect(() => {
+    const trimmed = query.trim() || undefined;
+    if (trimmed === filters.query) return;
+
+    const timeoutId = setTimeout(() => {
+      onChangeAction({ ...filters, query: trimmed });
+    }, TEXT_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [query, filters, onChangeAction]);
+
+  const commitTags = () => {
+    const next = parseTags(tags);
+    if (next.join(",") !== tagsKey) {
+      onChangeAction({ ...filters, tags: next });
+    }
+  };
+
+  const hasFilters = Boolean(
+    filters.query || filters.from || filters.to || filters.status ||
+      filters.location || filters.tags.length > 0,
+  );
+
+  return (
+    <div className="space-y-4 rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-950 p-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-neutral-400" />
+        <Input
+          type="search"
+          aria-label="Search events"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search events..."
+          className="pl-10"
+        />
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <label className="space-y-1 text-sm">
+          <span className="text-neutral-600 dark:text-neutral-400">From</span>
+          <Input
+            type="date"
+            value={filters.from || ""}
+            max={filters.to}
+            onChange={(e) =>
+              onChangeAction({ ...filters, from: e.target.value || undefined })}
+          />
+        </label>
+
+        <label className="space-y-1 text-sm">
+          <span className="text-neutral-600 dark:text-neutral-400">To</span>
+          <Input
+            type="date"
+            value={filters.to || ""}
+            min={filters.from}
+            onChange={(e) =>
+              onChangeAction({ ...filters, to: e.target.value || undefined })}
+          />
+        </label>
+
+        <label className="space-y-1 text-sm">
+          <span className="text-neutral-600 dark:text-neutral-400">Tags</span>
+          <Input
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            onBlur={commitTags}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitTags();
+            }}
+            placeholder="bitcoin, meetup"
+          />
+        </label>
+
+        <label className="space-y-1 text-sm">
+          <span className="text-neutral-600 dark:text-neutral-400">Status</span>
+          <select
+            value={filters.status || ""}
+            onChange={(e) =>
+              onChangeAction({
+                ...filters,
+                status: (e.target.value || undefined) as EventStatus | undefined,
+              })}
+            className={selectClassName}
+          >
+            <option value="">Any status</option>
+            <option value="CONFIRMED">Confirmed</option>
+            <option value="TENTATIVE">Tentative</option>
+            <option value="CANCELLED">Cancelled</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-[1fr_10rem] items-end">
+        <div className="space-y-1 text-sm">
+          <span className="text-neutral-600 dark:text-neutral-400">Near</span>
+          <LocationSearch
+            value={locationValue}
+            placeholder="Search for a place..."
+            onChangeAction={(location) => {
+              const coordinates = location?.uri
+                ? nominatimClient.parseGeoUri(location.uri)
+                : null;
+              onChangeAction({
+                ...filters,
+                location: coordinates
+                  ? {
+                    name: location?.name || `${coordinates.lat}, ${coordinates.lon}`,
+                    ...coordinates,
+                    radiusKm: filters.location?.radiusKm || DEFAULT_RADIUS_KM,
+                  }
+                  : undefined,
+              });
+            }}
+          />
+        </div>
+
+        <label className="space-y-1 text-sm">
+          <span className="text-neutral-600 dark:text-neutral-400">Radius</span>
+          <select
+            value={filters.location?.radiusKm || DEFAULT_RADIUS_KM}
+            disabled={!filters.location}
+            onChange={(e) =>
+              filters.location &&
+              onChangeAction({
+                ...filters,
+                location: { ...filters.location, radiusKm: Number(e.target.value) },
+              })}
+            className={selectClassName}
+          >
+            {RADIUS_OPTIONS.map((radius) => (
+              <option key={radius} value={radius}>
+                {radius} km
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {hasFilters && (
+        <div className="flex justify-end">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChangeAction({ tags: [] })}
+          >
+            Clear filters
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
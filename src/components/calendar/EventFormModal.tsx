@@ -1,6 +1,7 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -11,15 +12,28 @@ import { Button } from "@/components/ui/Button";
 import { ImageUpload } from "@/components/forms/ImageUpload";
 import { LocationSearch } from "@/components/forms/LocationSearch";
 import {
-  formatDateForInput,
-  parseDateFromInput,
+  getUserTimezone,
   validateEventForm,
 } from "@/lib/calendar-validation";
-import { createEvent } from "@/services/calendar-service";
+import {
+  addDaysToWallClock,
+  type EventTiming,
+  eventWallClockToDate,
+  formatEventTimeRange,
+  formatWallClockInput,
+  getEventWallClock,
+  parseWallClockInput,
+} from "@/lib/event-time";
+import { getTimezoneNames } from "@/lib/timezone";
+import { parseCalendarUri } from "@/utils/pubky-uri";
+import { createEvent, updateEvent } from "@/services/calendar-service";
+import { eventDataToFormData } from "@/lib/event-data";
+import { eventKeys, useCalendar } from "@/hooks/use-calendars";
+import { extractFileId, extractPublicKey, getNexusImageUrl } from "@/lib/nexus";
 import type {
   EventFormData,
   EventStatus,
-  PubkyAppEvent,
+  PubkyAppEventData,
 } from "@/types/calendar";
 import { useAuthStore } from "@/stores/auth-store";
 import { toast } from "sonner";
@@ -27,6 +41,7 @@ import {
   Calendar,
   Clock,
   FileText,
+  Globe,
   MapPin,
   Repeat,
   Tag,
@@ -35,11 +50,29 @@ import {
 } from "lucide-react";
 import { truncatePubkyUri } from "@/lib/utils";
 
+const FLOATING = "floating";
+
+function getFormTiming(
+  formData: EventFormData,
+  defaultTimeZone: string,
+): EventTiming {
+  const allDay = Boolean(formData.allDay);
+  const floating = !allDay && Boolean(formData.floating);
+  return {
+    allDay,
+    floating,
+    timeZone: allDay || floating
+      ? null
+      : formData.timeZone || defaultTimeZone,
+  };
+}
+
 interface EventFormModalProps {
   isOpen: boolean;
   onCloseAction: () => void;
   onSuccessAction?: (eventUri: string) => void;
-  initialData?: PubkyAppEvent; // For editing (future)
+  initialData?: PubkyAppEventData; // For editing
+  eventUri?: string; // Required for edit mode
   defaultCalendarUri?: string; // Pre-select calendar
   mode?: "create" | "edit";
 }
@@ -55,10 +88,12 @@ export function EventFormModal({
   onCloseAction,
   onSuccessAction,
   initialData,
+  eventUri,
   defaultCalendarUri,
   mode = "create",
 }: EventFormModalProps) {
   const { user } = useAuthStore();
+  const queryClient = useQueryClient();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [categoryInput, setCategoryInput] = useState("");
@@ -74,10 +109,88 @@ export function EventFormModal({
 
   // Load initial data for editing
   useEffect(() => {
-    if (initialData) {
-      // TODO: Parse initial data when editing is implemented
+    if (initialData && isOpen) {
+      const data = eventDataToFormData(initialData);
+      setFormData({
+        ...data,
+        status: data.status || "CONFIRMED",
+        calendarUri: data.calendarUri || defaultCalendarUri,
+      });
+      setErrors({});
+      setCategoryInput("");
     }
-  }, [initialData]);
+  }, [initialData, isOpen, defaultCalendarUri]);
+
+  // Preview of the stored image, served by Nexus
+  const imageAuthor = extractPublicKey(formData.imageUri);
+  const imageFileId = extractFileId(formData.imageUri);
+  const existingImageUrl = imageAuthor && imageFileId
+    ? getNexusImageUrl(imageAuthor, imageFileId, "feed")
+    : undefined;
+
+  const isEditing = mode === "edit" && Boolean(eventUri);
+
+  // Times are entered in the event's timezone, the calendar's by default
+  const parsedCalendar = formData.calendarUri
+    ? parseCalendarUri(formData.calendarUri)
+    : null;
+  const { data: calendar } = useCalendar(
+    parsedCalendar?.authorId,
+    parsedCalendar?.calendarId,
+  );
+  const calendarTimeZone = calendar?.timezone || undefined;
+  const viewerTimeZone = getUserTimezone();
+  const timeZoneNames = useMemo(() => getTimezoneNames(), []);
+  const timing = getFormTiming(formData, calendarTimeZone || viewerTimeZone);
+
+  // Re-read the entered wall-clock times with the new timing
+  const changeTiming = (
+    changes: Pick<EventFormData, "allDay" | "floating" | "timeZone">,
+  ) => {
+    const next = { ...formData, ...changes };
+    const nextTiming = getFormTiming(
+      next,
+      timing.timeZone || calendarTimeZone || viewerTimeZone,
+    );
+    const convert = (date: Date, days = 0) =>
+      eventWallClockToDate(
+        addDaysToWallClock(getEventWallClock(date, timing, viewerTimeZone), days),
+        nextTiming,
+        viewerTimeZone,
+      );
+
+    let dtend = formData.dtend && convert(formData.dtend);
+    if (nextTiming.allDay && !timing.allDay) {
+      // Whole days, the end is the day after the last one
+      dtend = convert(formData.dtend || formData.dtstart, 1);
+    } else if (!nextTiming.allDay && timing.allDay && formData.dtend) {
+      const lastDay = convert(formData.dtend, -1);
+      dtend = lastDay > convert(formData.dtstart) ? lastDay : undefined;
+    }
+
+    setFormData({
+      ...next,
+      timeZone: nextTiming.timeZone || formData.timeZone,
+      dtstart: convert(formData.dtstart),
+      dtend,
+    });
+  };
+
+  // New events start out in the calendar's timezone once it is known
+  useEffect(() => {
+    if (!isEditing && calendarTimeZone && !formData.timeZone) {
+      setFormData((prev) => ({ ...prev, timeZone: calendarTimeZone }));
+    }
+  }, [isEditing, calendarTimeZone, formData.timeZone]);
+
+  const viewerTime = !timing.allDay && !timing.floating
+    ? formatEventTimeRange(
+      formData.dtstart,
+      formData.dtend || null,
+      timing,
+      viewerTimeZone,
+    ).viewer
+    : null;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -92,7 +205,9 @@ export function EventFormModal({
 
     // Check authentication
     if (!user?.publicKey) {
-      toast.error("You must be logged in to create an event");
+      toast.error(
+        `You must be logged in to ${isEditing ? "edit" : "create"} an event`,
+      );
       return;
     }
 
@@ -100,16 +215,24 @@ export function EventFormModal({
     setErrors({});
 
     try {
-      const eventUri = await createEvent(formData, user.publicKey);
+      const eventData = { ...formData, timeZone: timing.timeZone || undefined };
+      const savedUri = isEditing && eventUri
+        ? await updateEvent(eventUri, eventData, user.publicKey)
+        : await createEvent(eventData, user.publicKey);
+
+      if (isEditing) {
+        await queryClient.invalidateQueries({ queryKey: eventKeys.all });
+      }
 
       // Reset form
       resetForm();
 
-      onSuccessAction?.(eventUri);
+      onSuccessAction?.(savedUri);
       onCloseAction();
     } catch (error) {
-      console.error("Failed to create event:", error);
-      toast.error("Failed to create event. Please try again.");
+      const action = isEditing ? "update" : "create";
+      console.error(`Failed to ${action} event:`, error);
+      toast.error(`Failed to ${action} event. Please try again.`);
     } finally {
       setIsSubmitting(false);
     }
@@ -193,6 +316,62 @@ export function EventFormModal({
             </p>
           </div>
 
+          {/* All-day & Timezone */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 items-end">
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm text-neutral-700 dark:text-neutral-300">
+                <input
+                  type="checkbox"
+                  checked={timing.allDay}
+                  onChange={(e) => changeTiming({ allDay: e.target.checked })}
+                  className="h-4 w-4 rounded border-neutral-300 dark:border-neutral-700"
+                />
+                All-day event
+              </label>
+              <label className="flex items-center gap-2 text-sm text-neutral-700 dark:text-neutral-300">
+                <input
+                  type="checkbox"
+                  checked={Boolean(formData.transparent)}
+                  onChange={(e) =>
+                    setFormData({ ...formData, transparent: e.target.checked })}
+                  className="h-4 w-4 rounded border-neutral-300 dark:border-neutral-700"
+                />
+                Show me as free
+              </label>
+            </div>
+
+            <div>
+              <label
+                htmlFor="timezone"
+                className="flex items-center gap-2 text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2"
+              >
+                <Globe className="h-4 w-4" />
+                Timezone
+              </label>
+              <select
+                id="timezone"
+                value={timing.floating ? FLOATING : timing.timeZone || ""}
+                onChange={(e) =>
+                  changeTiming(
+                    e.target.value === FLOATING
+                      ? { floating: true }
+                      : { floating: false, timeZone: e.target.value },
+                  )}
+                disabled={timing.allDay}
+                className="w-full px-3 py-2 text-sm border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-900 disabled:opacity-50"
+              >
+                <option value={FLOATING}>
+                  Floating (same local time everywhere)
+                </option>
+                {timeZoneNames.map((name) => (
+                  <option key={name} value={name}>
+                    {name === calendarTimeZone ? `${name} (calendar)` : name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
           {/* Date/Time Fields */}
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
             {/* Start Date */}
@@ -202,16 +381,27 @@ export function EventFormModal({
                 className="flex items-center gap-2 text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2"
               >
                 <Clock className="h-4 w-4" />
-                Start Date/Time <span className="text-red-500">*</span>
+                {timing.allDay ? "Start Date" : "Start Date/Time"}{" "}
+                <span className="text-red-500">*</span>
               </label>
               <input
                 id="dtstart"
-                type="datetime-local"
-                value={formatDateForInput(formData.dtstart)}
+                type={timing.allDay ? "date" : "datetime-local"}
+                value={formatWallClockInput(
+                  getEventWallClock(formData.dtstart, timing, viewerTimeZone),
+                  timing.allDay,
+                )}
                 onChange={(e) => {
-                  const date = parseDateFromInput(e.target.value);
-                  if (date) {
-                    setFormData({ ...formData, dtstart: date });
+                  const wall = parseWallClockInput(e.target.value);
+                  if (wall) {
+                    setFormData({
+                      ...formData,
+                      dtstart: eventWallClockToDate(
+                        wall,
+                        timing,
+                        viewerTimeZone,
+                      ),
+                    });
                   }
                 }}
                 className={`w-full px-3 py-2 text-sm border rounded-md bg-white dark:bg-neutral-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
@@ -232,15 +422,33 @@ export function EventFormModal({
                 className="flex items-center gap-2 text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2"
               >
                 <Clock className="h-4 w-4" />
-                End Date/Time (Optional)
+                {timing.allDay ? "End Date" : "End Date/Time"} (Optional)
               </label>
               <input
                 id="dtend"
-                type="datetime-local"
-                value={formData.dtend ? formatDateForInput(formData.dtend) : ""}
+                type={timing.allDay ? "date" : "datetime-local"}
+                value={formData.dtend
+                  ? formatWallClockInput(
+                    // All-day ends are stored exclusive, shown inclusive
+                    addDaysToWallClock(
+                      getEventWallClock(formData.dtend, timing, viewerTimeZone),
+                      timing.allDay ? -1 : 0,
+                    ),
+                    timing.allDay,
+                  )
+                  : ""}
                 onChange={(e) => {
-                  const date = parseDateFromInput(e.target.value);
-                  setFormData({ ...formData, dtend: date || undefined });
+                  const wall = parseWallClockInput(e.target.value);
+                  setFormData({
+                    ...formData,
+                    dtend: wall
+                      ? eventWallClockToDate(
+                        addDaysToWallClock(wall, timing.allDay ? 1 : 0),
+                        timing,
+                        viewerTimeZone,
+                      )
+                      : undefined,
+                  });
                 }}
                 className={`w-full px-3 py-2 text-sm border rounded-md bg-white dark:bg-neutral-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
                   errors.dtend
@@ -253,6 +461,11 @@ export function EventFormModal({
               )}
             </div>
           </div>
+          {viewerTime && (
+            <p className="-mt-2 text-xs text-neutral-500 dark:text-neutral-400">
+              Your time: {viewerTime}
+            </p>
+          )}
 
           {/* Status */}
           <div>
@@ -440,8 +653,14 @@ export function EventFormModal({
             </label>
             <ImageUpload
               value={formData.imageFile}
+              existingImageUrl={existingImageUrl}
               onChangeAction={(file) =>
-                setFormData({ ...formData, imageFile: file })}
+                setFormData({
+                  ...formData,
+                  imageFile: file,
+                  // Removing the preview also drops the stored image
+                  imageUri: file ? formData.imageUri : undefined,
+                })}
             />
           </div>
 
@@ -469,6 +688,15 @@ export function EventFormModal({
             </div>
           )}
 
+          {/* Organizer (kept when editing) */}
+          {isEditing && formData.organizer && (
+            <p className="text-xs text-neutral-500 dark:text-neutral-400">
+              <strong>Organizer:</strong>{" "}
+              {formData.organizer.name ||
+                truncatePubkyUri(formData.organizer.uri, 50)}
+            </p>
+          )}
+
           {/* Actions */}
           <div className="flex gap-3 pt-3 border-t border-neutral-200 dark:border-neutral-800">
             <Button
@@ -486,7 +714,7 @@ export function EventFormModal({
               className="flex-1"
             >
               {isSubmitting
-                ? "Creating..."
+                ? isEditing ? "Saving..." : "Creating..."
                 : mode === "create"
                 ? "Create Event"
                 : "Save Changes"}
@@ -0,0 +1,50 @@
+"use client";
+
+import { ExternalLink } from "lucide-react";
+import { nominatimClient } from "@/lib/nominatim-client";
+
+interface EventLocationMapProps {
+  geoUri: string; // geo:lat,lon
+  label?: string;
+}
+
+// Degrees shown around the marker
+const MAP_SPAN = 0.01;
+
+/**
+ * EventLocationMap Component
+ *
+ * Embedded OpenStreetMap view of a geo: URI with a link to the full map.
+ */
+export function EventLocationMap({ geoUri, label }: EventLocationMapProps) {
+  const coordinates = nominatimClient.parseGeoUri(geoUri);
+  if (!coordinates) return null;
+
+  const { lat, lon } = coordinates;
+  const bbox = [lon - MAP_SPAN, lat - MAP_SPAN, lon + MAP_SPAN, lat + MAP_SPAN]
+    .join(",");
+  const embedUrl =
+    `https://www.openstreetmap.org/export/embed.html?bbox=${bbox}&layer=mapnik&marker=${lat},${lon}`;
+  const mapUrl =
+    `https://www.openstreetmap.org/?mlat=${lat}&mlon=${lon}#map=17/${lat}/${lon}`;
+
+  return (
+    <div className="space-y-2">
+      <iframe
+        title={label ? `Map of ${label}` : "Event location map"}
+        src={embedUrl}
+        loading="lazy"
+        className="w-full h-64 rounded-lg border border-neutral-200 dark:border-neutral-800"
+      />
+      <a
+        href={mapUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+      >
+        <ExternalLink className="h-3 w-3" />
+        Open in OpenStreetMap
+      </a>
+    </div>
+  );
+}
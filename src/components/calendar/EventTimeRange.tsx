@@ -0,0 +1,36 @@
+"use client";
+
+import { getUserTimezone } from "@/lib/calendar-validation";
+import { type EventTiming, formatEventTimeRange } from "@/lib/event-time";
+
+interface EventTimeRangeProps {
+  start: Date; // Stored start
+  end: Date | null; // Stored end, exclusive for all-day events
+  timing: EventTiming;
+}
+
+/**
+ * EventTimeRange Component
+ *
+ * Shows when an event happens in its own timezone and, when the offset
+ * differs, in the viewer's timezone.
+ */
+export function EventTimeRange({ start, end, timing }: EventTimeRangeProps) {
+  const { event, viewer } = formatEventTimeRange(
+    start,
+    end,
+    timing,
+    getUserTimezone(),
+  );
+
+  return (
+    <div>
+      <div className="text-neutral-900 dark:text-neutral-100">{event}</div>
+      {viewer && (
+        <div className="text-neutral-600 dark:text-neutral-400">
+          Your time: {viewer}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,398 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/Dialog";
+import { Button } from "@/components/ui/Button";
+import { useUserCalendars } from "@/hooks/use-calendars";
+import { useAuthStore } from "@/stores/auth-store";
+import {
+  fetchExistingEventKeys,
+  importIcsEvents,
+  type IcsImportCandidate,
+  type IcsImportPreview,
+  type IcsImportResult,
+  prepareIcsImport,
+} from "@/services/ical-import-service";
+import { toast } from "sonner";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  FileUp,
+  Loader2,
+  Repeat,
+  XCircle,
+} from "lucide-react";
+
+type WizardStep = "select" | "preview" | "importing" | "report";
+
+interface IcsImportWizardProps {
+  isOpen: boolean;
+  onCloseAction: () => void;
+  onImportedAction?: (results: IcsImportResult[]) => void;
+  defaultCalendarUri?: string; // Pre-select calendar
+}
+
+function formatCandidateDate(candidate: IcsImportCandidate): string {
+  const { dtstart } = candidate.event;
+  return dtstart.allDay
+    ? dtstart.date.toLocaleDateString(undefined, { timeZone: "UTC" })
+    : dtstart.date.toLocaleString(undefined, {
+      dateStyle: "medium",
+      timeStyle: "short",
+    });
+}
+
+/**
+ * IcsImportWizard Component
+ *
+ * Imports events from an .ics file: pick a file, preview and select events
+ * (existing UIDs are unselected by default), write them into a calendar
+ * and show a per-event report.
+ */
+export function IcsImportWizard({
+  isOpen,
+  onCloseAction,
+  onImportedAction,
+  defaultCalendarUri,
+}: IcsImportWizardProps) {
+  const { user } = useAuthStore();
+  const { data: userCalendars } = useUserCalendars(user?.publicKey);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<WizardStep>("select");
+  const [isParsing, setIsParsing] = useState(false);
+  const [fileName, setFileName] = useState("");
+  const [preview, setPreview] = useState<IcsImportPreview | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [calendarUri, setCalendarUri] = useState(defaultCalendarUri || "");
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [results, setResults] = useState<IcsImportResult[]>([]);
+
+  useEffect(() => {
+    if (!calendarUri && userCalendars && userCalendars.length > 0) {
+      setCalendarUri(defaultCalendarUri || userCalendars[0].uri);
+    }
+  }, [calendarUri, defaultCalendarUri, userCalendars]);
+
+  const reset = () => {
+    setStep("select");
+    setFileName("");
+    setPreview(null);
+    setSelectedKeys(new Set());
+    setProgress({ done: 0, total: 0 });
+    setResults([]);
+  };
+
+  const handleClose = () => {
+    if (step === "importing") return;
+    reset();
+    onCloseAction();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !user?.publicKey) return;
+
+    setIsParsing(true);
+    try {
+      const [text, existingKeys] = await Promise.all([
+        file.text(),
+        fetchExistingEventKeys(user.publicKey),
+      ]);
+      const nextPreview = prepareIcsImport(text, existingKeys);
+
+      if (nextPreview.candidates.length === 0) {
+        toast.error("No events found in this file");
+        return;
+      }
+
+      setFileName(file.name);
+      setPreview(nextPreview);
+      setSelectedKeys(
+        new Set(
+          nextPreview.candidates
+            .filter((candidate) => !candidate.isDuplicate)
+            .map((candidate) => candidate.key),
+        ),
+      );
+      setStep("preview");
+    } catch (error) {
+      console.error("Failed to read .ics file:", error);
+      toast.error("Could not read this file. Is it a valid .ics file?");
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const toggleCandidate = (key: string) => {
+    const next = new Set(selectedKeys);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setSelectedKeys(next);
+  };
+
+  const toggleAll = () => {
+    if (!preview) return;
+    setSelectedKeys(
+      selectedKeys.size === preview.candidates.length
+        ? new Set()
+        : new Set(preview.candidates.map((candidate) => candidate.key)),
+    );
+  };
+
+  const handleImport = async () => {
+    if (!preview || !user?.publicKey || !calendarUri) return;
+
+    const selected = preview.candidates.filter((candidate) =>
+      selectedKeys.has(candidate.key)
+    );
+    const skipped: IcsImportResult[] = preview.candidates
+      .filter((candidate) => !selectedKeys.has(candidate.key))
+      .map((candidate) => ({
+        key: candidate.key,
+        summary: candidate.event.summary || "Untitled Event",
+        status: "skipped",
+        error: candidate.isDuplicate ? "Already exists" : "Not selected",
+      }));
+
+    setStep("importing");
+    setProgress({ done: 0, total: selected.length });
+
+    const imported = await importIcsEvents(
+      selected,
+      calendarUri,
+      user.publicKey,
+      (done, total) => setProgress({ done, total }),
+    );
+
+    const allResults = [...imported, ...skipped];
+    setResults(allResults);
+    setStep("report");
+    onImportedAction?.(allResults);
+  };
+
+  const successCount = results.filter((r) => r.status === "success").length;
+  const failedCount = results.filter((r) => r.status === "failed").length;
+  const skippedCount = results.filter((r) => r.status === "skipped").length;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="w-[95vw] max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5" />
+            Import .ics
+          </DialogTitle>
+          <DialogDescription>
+            {step === "select" &&
+              "Import events from Google Calendar, Outlook, Apple Calendar or any iCalendar file."}
+            {step === "preview" &&
+              `${preview?.candidates.length} events found in ${fileName}`}
+            {step === "importing" && "Writing events to your homeserver..."}
+            {step === "report" &&
+              `${successCount} imported, ${failedCount} failed, ${skippedCount} skipped`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Step 1: File selection */}
+        {step === "select" && (
+          <div className="mt-4 flex flex-col items-center justify-center gap-4 rounded-lg border-2 border-dashed border-neutral-300 dark:border-neutral-700 py-12">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isParsing}
+            >
+              {isParsing
+                ? <Loader2 className="h-4 w-4 animate-spin" />
+                : <FileUp className="h-4 w-4" />}
+              {isParsing ? "Reading file..." : "Choose .ics file"}
+            </Button>
+          </div>
+        )}
+
+        {/* Step 2: Preview */}
+        {step === "preview" && preview && (
+          <div className="mt-4 space-y-4">
+            <div>
+              <label
+                htmlFor="import-calendar"
+                className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2"
+              >
+                Import into
+              </label>
+              <select
+                id="import-calendar"
+                value={calendarUri}
+                onChange={(e) => setCalendarUri(e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {(userCalendars || []).map((calendar) => (
+                  <option key={calendar.uri} value={calendar.uri}>
+                    {calendar.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {preview.errors.length > 0 && (
+              <div className="rounded-md bg-yellow-50 dark:bg-yellow-900/20 p-3 text-sm text-yellow-800 dark:text-yellow-200">
+                <p className="flex items-center gap-2 font-medium">
+                  <AlertTriangle className="h-4 w-4" />
+                  {preview.errors.length} events could not be read
+                </p>
+                <ul className="mt-1 list-disc pl-6">
+                  {preview.errors.map((error, index) => (
+                    <li key={index}>{error}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between text-sm">
+              <button
+                type="button"
+                onClick={toggleAll}
+                className="text-blue-600 hover:underline dark:text-blue-400"
+              >
+                {selectedKeys.size === preview.candidates.length
+                  ? "Deselect all"
+                  : "Select all"}
+              </button>
+              <span className="text-neutral-500 dark:text-neutral-400">
+                {selectedKeys.size} selected
+              </span>
+            </div>
+
+            <ul className="divide-y divide-neutral-200 dark:divide-neutral-800 rounded-md border border-neutral-200 dark:border-neutral-800">
+              {preview.candidates.map((candidate) => (
+                <li key={candidate.key} className="flex items-start gap-3 p-3">
+                  <input
+                    type="checkbox"
+                    checked={selectedKeys.has(candidate.key)}
+                    onChange={() => toggleCandidate(candidate.key)}
+                    className="mt-1"
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium truncate">
+                        {candidate.event.summary || "Untitled Event"}
+                      </span>
+                      {candidate.event.rrule && (
+                        <Repeat className="h-3 w-3 text-neutral-500" />
+                      )}
+                      {candidate.event.recurrenceId && (
+                        <span className="rounded-full bg-neutral-100 dark:bg-neutral-800 px-2 py-0.5 text-xs">
+                          Modified occurrence
+                        </span>
+                      )}
+                      {candidate.isDuplicate && (
+                        <span className="rounded-full bg-yellow-100 dark:bg-yellow-900/30 px-2 py-0.5 text-xs text-yellow-800 dark:text-yellow-200">
+                          Already imported
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                      {formatCandidateDate(candidate)}
+                      {candidate.event.location &&
+                        ` · ${candidate.event.location}`}
+                    </p>
+                    {candidate.warnings.map((warning) => (
+                      <p
+                        key={warning}
+                        className="text-xs text-yellow-700 dark:text-yellow-300"
+                      >
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={selectedKeys.size === 0 || !calendarUri}
+              >
+                Import {selectedKeys.size} events
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Step 3: Progress */}
+        {step === "importing" && (
+          <div className="mt-4 space-y-3 py-8">
+            <div className="flex items-center justify-center gap-3">
+              <Loader2 className="h-6 w-6 animate-spin text-neutral-500" />
+              <span>
+                {progress.done} / {progress.total}
+              </span>
+            </div>
+            <div className="h-2 w-full rounded-full bg-neutral-200 dark:bg-neutral-800">
+              <div
+                className="h-2 rounded-full bg-blue-600 transition-all"
+                style={{
+                  width: `${
+                    progress.total ? (progress.done / progress.total) * 100 : 0
+                  }%`,
+                }}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Step 4: Report */}
+        {step === "report" && (
+          <div className="mt-4 space-y-4">
+            <ul className="divide-y divide-neutral-200 dark:divide-neutral-800 rounded-md border border-neutral-200 dark:border-neutral-800">
+              {results.map((result) => (
+                <li key={result.key} className="flex items-start gap-3 p-3">
+                  {result.status === "success" && (
+                    <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-600" />
+                  )}
+                  {result.status === "failed" && (
+                    <XCircle className="h-4 w-4 mt-0.5 text-red-600" />
+                  )}
+                  {result.status === "skipped" && (
+                    <AlertTriangle className="h-4 w-4 mt-0.5 text-neutral-400" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium truncate">{result.summary}</p>
+                    {result.error && (
+                      <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                        {result.error}
+                      </p>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end">
+              <Button onClick={handleClose}>Done</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
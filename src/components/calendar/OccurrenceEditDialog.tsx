@@ -0,0 +1,242 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/Dialog";
+import { Button } from "@/components/ui/Button";
+import { RecurrenceScopeDialog } from "./RecurrenceScopeDialog";
+import {
+  formatDateForInput,
+  parseDateFromInput,
+  validateEventForm,
+} from "@/lib/calendar-validation";
+import { eventDataToFormData } from "@/lib/event-data";
+import {
+  deleteOccurrence,
+  type RecurrenceEditScope,
+  type RecurrenceSeries,
+  updateOccurrence,
+} from "@/services/recurrence-edit-service";
+import type { EventOccurrence } from "@/lib/recurrence";
+import type { EventFormData } from "@/types/calendar";
+import { useAuthStore } from "@/stores/auth-store";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+interface OccurrenceEditDialogProps {
+  isOpen: boolean;
+  onCloseAction: () => void;
+  onChangedAction?: () => void;
+  series: RecurrenceSeries;
+  occurrence: EventOccurrence;
+}
+
+/**
+ * OccurrenceEditDialog Component
+ *
+ * Reschedules, renames or cancels one occurrence of a recurring event.
+ * Asks whether the change applies to this occurrence, the following ones
+ * or the whole series before writing.
+ */
+export function OccurrenceEditDialog({
+  isOpen,
+  onCloseAction,
+  onChangedAction,
+  series,
+  occurrence,
+}: OccurrenceEditDialogProps) {
+  const { user } = useAuthStore();
+  const [formData, setFormData] = useState<EventFormData | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [pendingAction, setPendingAction] = useState<"edit" | "delete" | null>(
+    null,
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFormData({
+      ...eventDataToFormData(occurrence.event),
+      dtstart: occurrence.start,
+      dtend: occurrence.event.dtend ? occurrence.end : undefined,
+    });
+    setErrors({});
+  }, [isOpen, occurrence]);
+
+  // Original start of the occurrence, which identifies it in the series
+  const occurrenceStart = occurrence.recurrenceId || occurrence.start;
+
+  const handleSave = () => {
+    if (!formData) return;
+    const validation = validateEventForm(formData);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+    setPendingAction("edit");
+  };
+
+  const handleScopeConfirmed = async (scope: RecurrenceEditScope) => {
+    const action = pendingAction;
+    setPendingAction(null);
+
+    if (!user?.publicKey || !formData || !action) {
+      toast.error("You must be logged in to change this event");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (action === "edit") {
+        await updateOccurrence(
+          series,
+          occurrenceStart,
+          formData,
+          scope,
+          user.publicKey,
+        );
+        toast.success("Event updated!");
+      } else {
+        await deleteOccurrence(series, occurrenceStart, scope, user.publicKey);
+        toast.success(scope === "this" ? "Occurrence cancelled" : "Event deleted");
+      }
+      onChangedAction?.();
+      onCloseAction();
+    } catch (error) {
+      console.error("Failed to change recurring event:", error);
+      toast.error("Failed to update the event. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName = (field: string) =>
+    `w-full px-3 py-2 text-sm border rounded-md bg-white dark:bg-neutral-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+      errors[field]
+        ? "border-red-500"
+        : "border-neutral-300 dark:border-neutral-700"
+    }`;
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onCloseAction()}>
+        <DialogContent className="w-[95vw] max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Edit occurrence</DialogTitle>
+            <DialogDescription>
+              {occurrenceStart.toLocaleString(undefined, {
+                dateStyle: "full",
+                timeStyle: "short",
+              })}
+            </DialogDescription>
+          </DialogHeader>
+
+          {formData && (
+            <div className="space-y-4">
+              <div>
+                <label
+                  htmlFor="occurrence-summary"
+                  className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2"
+                >
+                  Title
+                </label>
+                <input
+                  id="occurrence-summary"
+                  type="text"
+                  value={formData.summary}
+                  onChange={(e) =>
+                    setFormData({ ...formData, summary: e.target.value })}
+                  className={inputClassName("summary")}
+                />
+                {errors.summary && (
+                  <p className="mt-1 text-sm text-red-600">{errors.summary}</p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label
+                    htmlFor="occurrence-dtstart"
+                    className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2"
+                  >
+                    Start
+                  </label>
+                  <input
+                    id="occurrence-dtstart"
+                    type="datetime-local"
+                    value={formatDateForInput(formData.dtstart)}
+                    onChange={(e) => {
+                      const date = parseDateFromInput(e.target.value);
+                      if (date) setFormData({ ...formData, dtstart: date });
+                    }}
+                    className={inputClassName("dtstart")}
+                  />
+                  {errors.dtstart && (
+                    <p className="mt-1 text-sm text-red-600">{errors.dtstart}</p>
+                  )}
+                </div>
+                <div>
+                  <label
+                    htmlFor="occurrence-dtend"
+                    className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2"
+                  >
+                    End
+                  </label>
+                  <input
+                    id="occurrence-dtend"
+                    type="datetime-local"
+                    value={formData.dtend ? formatDateForInput(formData.dtend) : ""}
+                    onChange={(e) => {
+                      const date = parseDateFromInput(e.target.value);
+                      setFormData({ ...formData, dtend: date || undefined });
+                    }}
+                    className={inputClassName("dtend")}
+                  />
+                  {errors.dtend && (
+                    <p className="mt-1 text-sm text-red-600">{errors.dtend}</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter className="gap-2 sm:justify-between">
+            <Button
+              variant="destructive"
+              onClick={() => setPendingAction("delete")}
+              disabled={isSubmitting}
+            >
+              Cancel occurrence
+            </Button>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={onCloseAction}
+                disabled={isSubmitting}
+              >
+                Close
+              </Button>
+              <Button onClick={handleSave} disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <RecurrenceScopeDialog
+        isOpen={pendingAction !== null}
+        onCloseAction={() => setPendingAction(null)}
+        onConfirmAction={handleScopeConfirmed}
+        action={pendingAction || "edit"}
+      />
+    </>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import Link from "next/link";
+import { Check, Inbox, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { useNexusProfile } from "@/hooks/useNexusProfile";
+import { getDisplayName } from "@/utils/avatar";
+import { getEventPageUrl } from "@/utils/pubky-uri";
+import type { NexusEvent } from "@/lib/nexus-types";
+
+function AuthorName({ publicKey }: { publicKey: string }) {
+  const { data: profile } = useNexusProfile(publicKey);
+  return <>{getDisplayName(profile?.name, publicKey)}</>;
+}
+
+interface PendingSubmissionsProps {
+  events: NexusEvent[]; // Events by authors who are not owner or admin
+  approvingUri?: string | null; // Event whose approval is being saved
+  onApproveAction: (eventUri: string) => void;
+}
+
+/**
+ * PendingSubmissions Component
+ *
+ * Lists events that link to the calendar but were written by someone who
+ * is not its owner or an admin. They are hidden from the calendar until
+ * approved; only the owner and moderators see this list. Renders nothing
+ * without submissions.
+ */
+export function PendingSubmissions({
+  events,
+  approvingUri,
+  onApproveAction,
+}: PendingSubmissionsProps) {
+  if (events.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-neutral-950 border border-neutral-200 dark:border-neutral-800 rounded-lg p-4">
+      <h3 className="flex items-center gap-2 text-sm font-semibold text-neutral-900 dark:text-neutral-100 mb-1">
+        <Inbox className="h-4 w-4" />
+        Pending submissions ({events.length})
+      </h3>
+      <p className="text-xs text-neutral-500 dark:text-neutral-400 mb-3">
+        Events by people who are not admins of this calendar. They are not
+        shown to visitors until approved.
+      </p>
+      <ul className="space-y-3">
+        {events.map((event) => (
+          <li key={event.uri} className="flex items-start gap-2 text-sm">
+            <div className="min-w-0 flex-1">
+              <Link
+                href={getEventPageUrl(event.uri) || "#"}
+                className="font-medium text-neutral-900 dark:text-neutral-100 hover:underline"
+              >
+                {event.summary || "Untitled Event"}
+              </Link>
+              <div className="text-xs text-neutral-500 dark:text-neutral-400 truncate">
+                {new Date(event.start_date).toLocaleString()} · by{" "}
+                <AuthorName publicKey={event.author} />
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onApproveAction(event.uri)}
+              disabled={!!approvingUri}
+            >
+              {approvingUri === event.uri
+                ? <Loader2 className="h-4 w-4 animate-spin" />
+                : <Check className="h-4 w-4" />}
+              Approve
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
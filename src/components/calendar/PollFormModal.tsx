@@ -0,0 +1,364 @@
+"use client";
+
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Clock, Plus, Users, Vote, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/Dialog";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { useAuthStore } from "@/stores/auth-store";
+import { useUserCalendars } from "@/hooks/use-calendars";
+import { useNexusProfile } from "@/hooks/useNexusProfile";
+import { pollKeys } from "@/hooks/use-polls";
+import { getUserTimezone, validatePollForm } from "@/lib/calendar-validation";
+import { eventWallClockToDate, parseWallClockInput } from "@/lib/event-time";
+import { createPoll } from "@/services/poll-service";
+import { getDisplayName } from "@/utils/avatar";
+import { parsePublicKey } from "@/utils/pubky-uri";
+import type { PollFormData } from "@/types/calendar";
+
+const DURATIONS = [15, 30, 45, 60, 90, 120];
+
+function InviteeName({ publicKey }: { publicKey: string }) {
+  const { data: profile } = useNexusProfile(publicKey);
+  return <>{getDisplayName(profile?.name, publicKey)}</>;
+}
+
+interface PollFormModalProps {
+  isOpen: boolean;
+  onCloseAction: () => void;
+  onCreatedAction?: (pollUri: string) => void;
+  defaultCalendarUri?: string;
+}
+
+/**
+ * PollFormModal Component
+ *
+ * Starts a meeting poll: the draft event, the candidate times and the
+ * people asked to vote. Times are entered in the calendar's timezone.
+ */
+export function PollFormModal({
+  isOpen,
+  onCloseAction,
+  onCreatedAction,
+  defaultCalendarUri,
+}: PollFormModalProps) {
+  const { user } = useAuthStore();
+  const queryClient = useQueryClient();
+  const { data: calendars } = useUserCalendars(user?.publicKey);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [summary, setSummary] = useState("");
+  const [description, setDescription] = useState("");
+  const [location, setLocation] = useState("");
+  const [calendarUri, setCalendarUri] = useState(defaultCalendarUri || "");
+  const [duration, setDuration] = useState(60);
+  const [slotInputs, setSlotInputs] = useState<string[]>(["", ""]);
+  const [invitees, setInvitees] = useState<string[]>([]);
+  const [inviteeInput, setInviteeInput] = useState("");
+
+  const calendar = calendars?.find((item) => item.uri === calendarUri);
+  const timeZone = calendar?.timezone || getUserTimezone();
+  const candidate = parsePublicKey(inviteeInput);
+
+  const resetForm = () => {
+    setSummary("");
+    setDescription("");
+    setLocation("");
+    setCalendarUri(defaultCalendarUri || "");
+    setDuration(60);
+    setSlotInputs(["", ""]);
+    setInvitees([]);
+    setInviteeInput("");
+    setErrors({});
+  };
+
+  const handleCancel = () => {
+    resetForm();
+    onCloseAction();
+  };
+
+  const handleAddInvitee = () => {
+    if (!candidate) return;
+    if (!invitees.includes(candidate) && candidate !== user?.publicKey) {
+      setInvitees([...invitees, candidate]);
+    }
+    setInviteeInput("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const timing = { allDay: false, floating: false, timeZone };
+    const formData: PollFormData = {
+      summary,
+      description,
+      location,
+      calendarUri,
+      timeZone,
+      slots: slotInputs.flatMap((value) => {
+        const wall = parseWallClockInput(value);
+        if (!wall) return [];
+        const start = eventWallClockToDate(wall, timing, timeZone);
+        return [{
+          start,
+          end: new Date(start.getTime() + duration * 60 * 1000),
+        }];
+      }),
+      invitees,
+    };
+
+    const validation = validatePollForm(formData);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      toast.error("Please fix the errors in the form");
+      return;
+    }
+
+    if (!user?.publicKey) {
+      toast.error("You must be logged in to start a poll");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const pollUri = await createPoll(formData, user.publicKey);
+      await queryClient.invalidateQueries({
+        queryKey: pollKeys.user(user.publicKey),
+      });
+      toast.success("Poll created");
+      resetForm();
+      onCloseAction();
+      onCreatedAction?.(pollUri);
+    } catch (error) {
+      console.error("Failed to create poll:", error);
+      toast.error("Failed to create poll");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const label =
+    "flex items-center gap-2 text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2";
+  const field =
+    "w-full px-3 py-2 text-sm border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleCancel()}>
+      <DialogContent className="w-[95vw] max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Vote className="h-5 w-5" />
+            Find a Time
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <div>
+            <label htmlFor="poll-summary" className={label}>
+              Event Title <span className="text-red-500">*</span>
+            </label>
+            <input
+              id="poll-summary"
+              type="text"
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              placeholder="Community call"
+              className={field}
+            />
+            {errors.summary && (
+              <p className="mt-1 text-sm text-red-600">{errors.summary}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="poll-description" className={label}>
+              Description
+            </label>
+            <textarea
+              id="poll-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              className={`${field} resize-y`}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="poll-location" className={label}>
+              Location
+            </label>
+            <input
+              id="poll-location"
+              type="text"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="Online"
+              className={field}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="poll-calendar" className={label}>
+              Calendar <span className="text-red-500">*</span>
+            </label>
+            <select
+              id="poll-calendar"
+              value={calendarUri}
+              onChange={(e) => setCalendarUri(e.target.value)}
+              className={field}
+            >
+              <option value="">Choose a calendar</option>
+              {calendars?.map((item) => (
+                <option key={item.uri} value={item.uri}>
+                  {item.name || "Untitled Calendar"}
+                </option>
+              ))}
+            </select>
+            {errors.calendarUri && (
+              <p className="mt-1 text-sm text-red-600">{errors.calendarUri}</p>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className={`${label} mb-0`}>
+                <Clock className="h-4 w-4" />
+                Proposed Times <span className="text-red-500">*</span>
+              </span>
+              <select
+                value={duration}
+                onChange={(e) => setDuration(Number(e.target.value))}
+                className="px-2 py-1 text-xs border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-900"
+              >
+                {DURATIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes} min
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              {slotInputs.map((value, index) => (
+                <div key={index} className="flex gap-2">
+                  <input
+                    type="datetime-local"
+                    value={value}
+                    onChange={(e) =>
+                      setSlotInputs(
+                        slotInputs.map((slot, i) =>
+                          i === index ? e.target.value : slot
+                        ),
+                      )}
+                    className={field}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() =>
+                      setSlotInputs(slotInputs.filter((_, i) => i !== index))}
+                    disabled={slotInputs.length <= 1}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              onClick={() => setSlotInputs([...slotInputs, ""])}
+            >
+              <Plus className="h-4 w-4" />
+              Add time
+            </Button>
+            <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+              Times in {timeZone}
+            </p>
+            {errors.slots && (
+              <p className="mt-1 text-sm text-red-600">{errors.slots}</p>
+            )}
+          </div>
+
+          <div>
+            <span className={label}>
+              <Users className="h-4 w-4" />
+              Invitees <span className="text-red-500">*</span>
+            </span>
+            <div className="flex gap-2">
+              <Input
+                value={inviteeInput}
+                onChange={(e) => setInviteeInput(e.target.value)}
+                placeholder="Paste a public key"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={handleAddInvitee}
+                disabled={!candidate}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            {invitees.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {invitees.map((publicKey) => (
+                  <li
+                    key={publicKey}
+                    className="flex items-center justify-between gap-2 px-2 py-1 text-sm bg-neutral-50 dark:bg-neutral-900 rounded-md"
+                  >
+                    <span className="truncate">
+                      <InviteeName publicKey={publicKey} />
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() =>
+                        setInvitees(invitees.filter((key) => key !== publicKey))}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {errors.invitees && (
+              <p className="mt-1 text-sm text-red-600">{errors.invitees}</p>
+            )}
+          </div>
+
+          <div className="flex gap-3 pt-3 border-t border-neutral-200 dark:border-neutral-800">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleCancel}
+              disabled={isSubmitting}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSubmitting || !user}
+              className="flex-1"
+            >
+              {isSubmitting ? "Creating..." : "Create Poll"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
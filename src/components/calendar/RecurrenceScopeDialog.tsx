@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/Dialog";
+import { Button } from "@/components/ui/Button";
+import type { RecurrenceEditScope } from "@/services/recurrence-edit-service";
+
+interface RecurrenceScopeDialogProps {
+  isOpen: boolean;
+  onCloseAction: () => void;
+  onConfirmAction: (scope: RecurrenceEditScope) => void;
+  action: "edit" | "delete";
+}
+
+const SCOPE_OPTIONS: Array<{ value: RecurrenceEditScope; label: string }> = [
+  { value: "this", label: "This occurrence" },
+  { value: "following", label: "This and following occurrences" },
+  { value: "all", label: "All occurrences" },
+];
+
+/**
+ * RecurrenceScopeDialog Component
+ *
+ * Asks which occurrences of a recurring event a change applies to.
+ */
+export function RecurrenceScopeDialog({
+  isOpen,
+  onCloseAction,
+  onConfirmAction,
+  action,
+}: RecurrenceScopeDialogProps) {
+  const [scope, setScope] = useState<RecurrenceEditScope>("this");
+
+  useEffect(() => {
+    if (isOpen) setScope("this");
+  }, [isOpen]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onCloseAction()}>
+      <DialogContent className="w-[95vw] max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>
+            {action === "edit" ? "Edit recurring event" : "Delete recurring event"}
+          </DialogTitle>
+          <DialogDescription>
+            Which occurrences should be {action === "edit" ? "changed" : "deleted"}?
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {SCOPE_OPTIONS.map((option) => (
+            <label
+              key={option.value}
+              className="flex items-center gap-3 rounded-md border border-neutral-200 dark:border-neutral-800 px-3 py-2 text-sm cursor-pointer hover:bg-neutral-50 dark:hover:bg-neutral-900"
+            >
+              <input
+                type="radio"
+                name="recurrence-scope"
+                value={option.value}
+                checked={scope === option.value}
+                onChange={() => setScope(option.value)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCloseAction}>
+            Cancel
+          </Button>
+          <Button
+            variant={action === "delete" ? "destructive" : "default"}
+            onClick={() => onConfirmAction(scope)}
+          >
+            {action === "edit" ? "Save" : "Delete"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Bell, EyeOff, Loader2, Palette } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/Dialog";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { subscriptionKeys } from "@/hooks/use-subscriptions";
+import { alarmKeys } from "@/hooks/use-alarms";
+import { ALARM_TRIGGER_PRESETS } from "@/lib/alarms";
+import {
+  deleteSubscription,
+  saveSubscription,
+  type SubscriptionRecord,
+} from "@/services/subscription-service";
+
+interface SubscriptionSettingsDialogProps {
+  isOpen: boolean;
+  onCloseAction: () => void;
+  subscription: SubscriptionRecord;
+  publicKey: string;
+  calendarName?: string;
+  calendarColor?: string;
+}
+
+/**
+ * SubscriptionSettingsDialog Component
+ *
+ * Edits the subscriber's own settings for a calendar: color override,
+ * hiding its events and a default reminder for all of them.
+ */
+export function SubscriptionSettingsDialog({
+  isOpen,
+  onCloseAction,
+  subscription,
+  publicKey,
+  calendarName,
+  calendarColor,
+}: SubscriptionSettingsDialogProps) {
+  const queryClient = useQueryClient();
+  const [color, setColor] = useState("");
+  const [hidden, setHidden] = useState(false);
+  const [defaultAlarm, setDefaultAlarm] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setColor(subscription.data.color || "");
+    setHidden(Boolean(subscription.data.hidden));
+    setDefaultAlarm(subscription.data.default_alarm || "");
+  }, [isOpen, subscription]);
+
+  const refresh = () =>
+    Promise.all([
+      queryClient.invalidateQueries({
+        queryKey: subscriptionKeys.user(publicKey),
+      }),
+      queryClient.invalidateQueries({ queryKey: alarmKeys.user(publicKey) }),
+    ]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveSubscription(subscription.data.x_pubky_calendar_uri, publicKey, {
+        color: color.trim() || null,
+        hidden,
+        default_alarm: defaultAlarm || null,
+      });
+      toast.success("Subscription settings saved");
+      await refresh();
+      onCloseAction();
+    } catch (error) {
+      console.error("Failed to save subscription settings:", error);
+      toast.error("Failed to save settings. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUnsubscribe = async () => {
+    setIsSaving(true);
+    try {
+      await deleteSubscription(subscription.data.x_pubky_calendar_uri, publicKey);
+      toast.success("Unsubscribed from calendar");
+      await refresh();
+      onCloseAction();
+    } catch (error) {
+      console.error("Failed to unsubscribe:", error);
+      toast.error("Failed to unsubscribe. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onCloseAction()}>
+      <DialogContent className="w-[95vw] max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Subscription settings</DialogTitle>
+          <DialogDescription>
+            Only you see these settings for {calendarName || "this calendar"}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+              <Palette className="h-4 w-4" />
+              Color
+            </label>
+            <div className="flex gap-2 items-center">
+              <input
+                type="color"
+                value={color || calendarColor || "#3B82F6"}
+                onChange={(e) => setColor(e.target.value)}
+                className="h-10 w-16 cursor-pointer rounded border border-neutral-300 dark:border-neutral-700"
+              />
+              <Input
+                type="text"
+                value={color}
+                onChange={(e) => setColor(e.target.value)}
+                placeholder={calendarColor || "Calendar color"}
+                className="flex-1"
+              />
+              {color && (
+                <Button variant="ghost" size="sm" onClick={() => setColor("")}>
+                  Reset
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+              <Bell className="h-4 w-4" />
+              Default reminder
+            </label>
+            <select
+              value={defaultAlarm}
+              onChange={(e) => setDefaultAlarm(e.target.value)}
+              className="h-10 w-full px-3 text-sm border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-950"
+            >
+              <option value="">No reminder</option>
+              {ALARM_TRIGGER_PRESETS.map((preset) => (
+                <option key={preset.value} value={preset.value}>
+                  {preset.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={hidden}
+              onChange={(e) => setHidden(e.target.checked)}
+            />
+            <EyeOff className="h-4 w-4 text-neutral-500" />
+            Hide this calendar&apos;s events
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={handleUnsubscribe}
+            disabled={isSaving}
+            className="sm:mr-auto text-red-600 hover:text-red-700 dark:text-red-400"
+          >
+            Unsubscribe
+          </Button>
+          <Button variant="outline" onClick={onCloseAction}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,3 +3,18 @@ export { EventFormModal } from "./EventFormModal";
 export { CalendarHeader } from "./CalendarHeader";
 export { CalendarAdmins } from "./CalendarAdmins";
 export { CalendarCard } from "./CalendarCard";
+export { IcsImportWizard } from "./IcsImportWizard";
+export { RecurrenceScopeDialog } from "./RecurrenceScopeDialog";
+export { OccurrenceEditDialog } from "./OccurrenceEditDialog";
+export { EventDescription } from "./EventDescription";
+export { EventLocationMap } from "./EventLocationMap";
+export { CalendarView } from "./CalendarView";
+export { EventCard } from "./EventCard";
+export { EventFilterBar } from "./EventFilterBar";
+export { EventAttendees } from "./EventAttendees";
+export { EventAlarms } from "./EventAlarms";
+export { CalendarSubscribeButton } from "./CalendarSubscribeButton";
+export { SubscriptionSettingsDialog } from "./SubscriptionSettingsDialog";
+export { AvailabilityOverlay } from "./AvailabilityOverlay";
+export { PollFormModal } from "./PollFormModal";
+export { CalendarDeleteWizard } from "./CalendarDeleteWizard";
@@ -1,12 +1,13 @@
 "use client";
 
-import { useCallback, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { Image as ImageIcon, Upload, X } from "lucide-react";
 import { Button } from "@/components/ui/Button";
 import { toast } from "sonner";
 
 interface ImageUploadProps {
   value?: File;
+  existingImageUrl?: string; // Preview of an already uploaded image
   onChangeAction: (file: File | undefined) => void;
   maxSizeMB?: number;
   acceptedFormats?: string[];
@@ -20,11 +21,14 @@ interface ImageUploadProps {
  */
 export function ImageUpload({
   value,
+  existingImageUrl,
   onChangeAction,
   maxSizeMB = 10,
   acceptedFormats = ["image/jpeg", "image/png", "image/webp", "image/gif"],
 }: ImageUploadProps) {
-  const [preview, setPreview] = useState<string | null>(null);
+  const [preview, setPreview] = useState<string | null>(
+    existingImageUrl || null,
+  );
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -39,6 +43,13 @@ export function ImageUpload({
     }
   });
 
+  // Show the existing image until a new file is chosen
+  useEffect(() => {
+    if (!value) {
+      setPreview(existingImageUrl || null);
+    }
+  }, [existingImageUrl, value]);
+
   const validateFile = useCallback(
     (file: File): boolean => {
       // Check file type
@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { useAuthStore } from "@/stores/auth-store";
+import { useAlarmStore } from "@/stores/alarm-store";
+import { useAlarmSchedule } from "@/hooks/use-alarms";
+import {
+  type AlarmNotification,
+  getPendingNotifications,
+  getScheduleNotifications,
+} from "@/lib/alarms";
+import { formatDate, getUserTimezone } from "@/lib/calendar-validation";
+import { getEventPageUrl } from "@/utils/pubky-uri";
+
+const MINUTE = 60 * 1000;
+const LOOKBACK_MS = 60 * MINUTE; // Reminders missed while the app was closed
+const HORIZON_MS = 24 * 60 * MINUTE;
+const MAX_TIMER_MS = MINUTE; // Re-check regularly, timers drift in background tabs
+const SNOOZE_MS = 5 * MINUTE;
+const FORGET_AFTER_MS = 7 * 24 * 60 * MINUTE;
+
+/**
+ * AlarmScheduler Component
+ *
+ * Fires the signed-in user's reminders while the app is open, as browser
+ * notifications when permitted and as toasts with a snooze action.
+ * Renders nothing.
+ */
+export function AlarmScheduler() {
+  const router = useRouter();
+  const { user, isAuthenticated } = useAuthStore();
+  const { notifications, markFired, snooze, prune } = useAlarmStore();
+  const [now, setNow] = useState(() => Date.now());
+
+  const { data: schedule } = useAlarmSchedule(
+    isAuthenticated ? user?.publicKey : null,
+  );
+
+  useEffect(() => {
+    prune(Date.now() - FORGET_AFTER_MS);
+  }, [prune]);
+
+  const pending = useMemo(
+    () =>
+      schedule
+        ? getPendingNotifications(
+          getScheduleNotifications(
+            schedule,
+            new Date(now - LOOKBACK_MS),
+            new Date(now + HORIZON_MS),
+            getUserTimezone(),
+          ),
+          notifications,
+        )
+        : [],
+    [schedule, notifications, now],
+  );
+
+  // Show everything that is due
+  useEffect(() => {
+    const show = (notification: AlarmNotification) => {
+      const url = getEventPageUrl(notification.eventUri);
+      const body = `Starts ${formatDate(notification.occurrenceStart)}`;
+
+      if ("Notification" in window && Notification.permission === "granted") {
+        const browserNotification = new Notification(notification.summary, {
+          body,
+          tag: notification.key,
+        });
+        browserNotification.onclick = () => {
+          window.focus();
+          if (url) router.push(url);
+          browserNotification.close();
+        };
+      }
+
+      toast(notification.summary, {
+        description: body,
+        duration: Infinity,
+        action: {
+          label: "Snooze 5 min",
+          onClick: () => snooze(notification.key, Date.now() + SNOOZE_MS),
+        },
+      });
+    };
+
+    for (const notification of pending) {
+      if (notification.fireAt.getTime() > now) break;
+      markFired(notification.key, now);
+      show(notification);
+    }
+  }, [pending, now, markFired, snooze, router]);
+
+  // Wake up for the next notification
+  useEffect(() => {
+    const next = pending.find((notification) =>
+      notification.fireAt.getTime() > now
+    );
+    const delay = next
+      ? Math.min(next.fireAt.getTime() - now, MAX_TIMER_MS)
+      : MAX_TIMER_MS;
+
+    const timer = setTimeout(() => setNow(Date.now()), delay);
+    return () => clearTimeout(timer);
+  }, [pending, now]);
+
+  return null;
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useAuthStore } from "@/stores/auth-store";
+import { useScheduledDeletions } from "@/hooks/use-calendar-deletions";
+import { runCalendarDeletion } from "@/services/calendar-deletion-service";
+
+const MAX_TIMER_MS = 60 * 1000; // Re-check regularly, timers drift in background tabs
+
+/**
+ * CalendarDeletionProcessor Component
+ *
+ * Deletes the signed-in user's calendars once their grace period is
+ * over, showing progress in a toast. The schedule is read from the
+ * homeserver, so any of the user's devices can run it. Renders nothing.
+ */
+export function CalendarDeletionProcessor() {
+  const queryClient = useQueryClient();
+  const { user, isAuthenticated } = useAuthStore();
+  const publicKey = isAuthenticated ? user?.publicKey : null;
+  const { data: scheduled = [] } = useScheduledDeletions(publicKey);
+  const [now, setNow] = useState(() => Date.now());
+  const running = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!publicKey) return;
+
+    const due = scheduled.filter((deletion) =>
+      deletion.delete_at / 1000 <= now &&
+      !running.current.has(deletion.x_pubky_calendar_uri)
+    );
+
+    for (const deletion of due) {
+      const calendarUri = deletion.x_pubky_calendar_uri;
+      running.current.add(calendarUri);
+      const toastId = `calendar-deletion-${calendarUri}`;
+
+      toast.loading("Deleting calendar", { id: toastId });
+      // The deletion record goes with the calendar's other settings
+      runCalendarDeletion(
+        calendarUri,
+        deletion.event_mode,
+        publicKey,
+        ({ done, total, label }) =>
+          toast.loading("Deleting calendar", {
+            id: toastId,
+            description: `${label} (${done}/${total})`,
+          }),
+      )
+        .then(async ({ completed, failed }) => {
+          await queryClient.invalidateQueries();
+          if (failed.length > 0) {
+            toast.error("Calendar partly deleted", {
+              id: toastId,
+              description:
+                `${failed.length} of ${completed + failed.length} steps failed`,
+              duration: Infinity,
+            });
+          } else {
+            toast.success("Calendar deleted", {
+              id: toastId,
+              description: undefined,
+            });
+          }
+        })
+        .catch((error) => {
+          console.error("Failed to delete calendar:", error);
+          toast.error("Failed to delete calendar", {
+            id: toastId,
+            description: "It will be tried again later.",
+          });
+        })
+        .finally(() => running.current.delete(calendarUri));
+    }
+  }, [publicKey, scheduled, now, queryClient]);
+
+  // Wake up for the next deletion
+  useEffect(() => {
+    const next = Math.min(
+      ...scheduled.map((deletion) => deletion.delete_at / 1000),
+    );
+    const delay = Math.min(Math.max(next - Date.now(), 0), MAX_TIMER_MS);
+
+    const timer = setTimeout(() => setNow(Date.now()), delay);
+    return () => clearTimeout(timer);
+  }, [scheduled, now]);
+
+  return null;
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useAuthStore } from "@/stores/auth-store";
+import { useOutbox } from "@/hooks/use-outbox";
+import {
+  loadOutbox,
+  processOutbox,
+  retryOperation,
+} from "@/services/outbox-service";
+
+const MAX_TIMER_MS = 30 * 1000; // Re-check regularly, timers drift in background tabs
+
+/**
+ * OutboxProcessor Component
+ *
+ * Sends the signed-in user's queued homeserver writes when they are due,
+ * right away when the browser comes back online, and refreshes data once
+ * queued writes went through. Renders nothing.
+ */
+export function OutboxProcessor() {
+  const queryClient = useQueryClient();
+  const { user, isAuthenticated } = useAuthStore();
+  const publicKey = isAuthenticated ? user?.publicKey : null;
+  const operations = useOutbox(publicKey);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const knownIds = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    loadOutbox().then(() => setIsLoaded(true));
+  }, []);
+
+  // Tell the user when a write could not be made right away
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const known = knownIds.current;
+    if (known && operations.some((operation) => !known.has(operation.id))) {
+      toast.info("Saved on this device", {
+        id: "outbox-queued",
+        description:
+          "Your changes will be sent to your homeserver once it is reachable.",
+      });
+    }
+    knownIds.current = new Set(operations.map((operation) => operation.id));
+  }, [isLoaded, operations]);
+
+  useEffect(() => {
+    if (!publicKey || operations.length === 0) return;
+
+    const run = async () => {
+      const { completed, failed } = await processOutbox(publicKey);
+      if (completed.length > 0) {
+        await queryClient.invalidateQueries();
+      }
+      for (const operation of failed) {
+        toast.error(`${operation.label} failed`, {
+          description: operation.lastError,
+          duration: Infinity,
+          action: {
+            label: "Retry",
+            onClick: () => retryOperation(operation.id),
+          },
+        });
+      }
+    };
+
+    const now = Date.now();
+    const nextAttemptAt = Math.min(
+      ...operations
+        .filter((operation) => operation.status === "pending")
+        .map((operation) => operation.nextAttemptAt),
+    );
+    const delay = Math.min(Math.max(nextAttemptAt - now, 0), MAX_TIMER_MS);
+
+    const timer = setTimeout(run, delay);
+    window.addEventListener("online", run);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener("online", run);
+    };
+  }, [publicKey, operations, queryClient]);
+
+  return null;
+}
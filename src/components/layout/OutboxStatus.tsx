@@ -0,0 +1,116 @@
+"use client";
+
+import { AlertCircle, CloudUpload, RotateCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/DropdownMenu";
+import { useAuthStore } from "@/stores/auth-store";
+import { useOutbox } from "@/hooks/use-outbox";
+import { getBlockingOperation, type OutboxOperation } from "@/lib/outbox";
+import {
+  discardOperation,
+  retryOperation,
+} from "@/services/outbox-service";
+
+function describeOperation(
+  operation: OutboxOperation,
+  operations: OutboxOperation[],
+): string {
+  if (operation.status === "failed") {
+    return `Failed: ${operation.lastError || "unknown error"}`;
+  }
+  const blocking = getBlockingOperation(operation, operations);
+  if (blocking) {
+    return `Waiting for: ${blocking.label}`;
+  }
+  return operation.lastError
+    ? `Retrying (${operation.lastError})`
+    : "Sending…";
+}
+
+/**
+ * OutboxStatus Component
+ *
+ * Shows the signed-in user's homeserver writes that have not gone through
+ * yet, with retry and discard. Renders nothing while the queue is empty.
+ */
+export function OutboxStatus() {
+  const { user, isAuthenticated } = useAuthStore();
+  const operations = useOutbox(isAuthenticated ? user?.publicKey : null);
+
+  if (operations.length === 0) return null;
+
+  const failedCount = operations.filter((operation) =>
+    operation.status === "failed"
+  ).length;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={failedCount > 0
+            ? "text-red-600 dark:text-red-400"
+            : "text-neutral-600 dark:text-neutral-400"}
+          aria-label="Unsynced changes"
+        >
+          {failedCount > 0
+            ? <AlertCircle className="h-4 w-4" />
+            : <CloudUpload className="h-4 w-4" />}
+          <span>{failedCount > 0 ? failedCount : operations.length}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel>
+          {failedCount > 0
+            ? `${failedCount} change${failedCount === 1 ? "" : "s"} failed to sync`
+            : "Changes waiting to sync"}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <ul className="max-h-80 overflow-y-auto">
+          {operations.map((operation) => (
+            <li
+              key={operation.id}
+              className="flex items-center gap-2 px-2 py-1.5"
+            >
+              <div className="min-w-0 flex-1">
+                <div className="text-sm truncate">{operation.label}</div>
+                <div
+                  className={`text-xs truncate ${
+                    operation.status === "failed"
+                      ? "text-red-600 dark:text-red-400"
+                      : "text-neutral-500"
+                  }`}
+                >
+                  {describeOperation(operation, operations)}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => retryOperation(operation.id)}
+                aria-label="Retry now"
+              >
+                <RotateCw className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => discardOperation(operation.id)}
+                aria-label="Discard change"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
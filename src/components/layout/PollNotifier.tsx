@@ -0,0 +1,68 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { useAuthStore } from "@/stores/auth-store";
+import { usePollStore } from "@/stores/poll-store";
+import { useUserPolls } from "@/hooks/use-polls";
+import { formatDate } from "@/lib/calendar-validation";
+import { microsToDate } from "@/lib/event-data";
+import { getEventPageUrl } from "@/utils/pubky-uri";
+
+const REFRESH_MS = 5 * 60 * 1000;
+
+/**
+ * PollNotifier Component
+ *
+ * Tells the signed-in user when a poll they voted on is decided, as a
+ * browser notification when permitted and as a toast linking to the new
+ * event. Renders nothing.
+ */
+export function PollNotifier() {
+  const router = useRouter();
+  const { user, isAuthenticated } = useAuthStore();
+  const { announced, markAnnounced } = usePollStore();
+
+  const { data } = useUserPolls(isAuthenticated ? user?.publicKey : null, {
+    refetchInterval: REFRESH_MS,
+  });
+
+  useEffect(() => {
+    if (!data) return;
+
+    const decided = data.voted.filter(({ uri, data: poll }) =>
+      poll.final && !announced.includes(uri)
+    );
+    if (decided.length === 0) return;
+    markAnnounced(decided.map(({ uri }) => uri));
+
+    for (const { uri, data: poll } of decided) {
+      if (!poll.final) continue;
+      const url = getEventPageUrl(poll.final.event_uri);
+      const body = `Decided: ${formatDate(microsToDate(poll.final.slot.start))}`;
+
+      if ("Notification" in window && Notification.permission === "granted") {
+        const browserNotification = new Notification(poll.summary, {
+          body,
+          tag: uri,
+        });
+        browserNotification.onclick = () => {
+          window.focus();
+          if (url) router.push(url);
+          browserNotification.close();
+        };
+      }
+
+      toast(poll.summary, {
+        description: body,
+        duration: Infinity,
+        action: url
+          ? { label: "View event", onClick: () => router.push(url) }
+          : undefined,
+      });
+    }
+  }, [data, announced, markAnnounced, router]);
+
+  return null;
+}
@@ -12,15 +12,21 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/DropdownMenu";
 import {
+  Bell,
   Calendar,
   CalendarDays,
+  CalendarRange,
+  HardDrive,
   LogIn,
   LogOut,
   Plus,
   Search,
   User,
+  Users,
+  Vote,
 } from "lucide-react";
 import { AuthDialog } from "@/components/auth/AuthDialog";
+import { OutboxStatus } from "@/components/layout/OutboxStatus";
 import { CalendarModal } from "@/components/calendar";
 import { useAuthStore } from "@/stores/auth-store";
 import { useAuthCompletion } from "@/hooks/useAuthCompletion";
@@ -95,6 +101,9 @@ export function TopNav() {
 
             {/* Right side: auth & actions */}
             <div className="flex items-center space-x-4">
+              {/* Writes waiting for the homeserver */}
+              <OutboxStatus />
+
               {/* New Calendar Button (only when authenticated) */}
               {isAuthenticated && (
                 <Button
@@ -160,6 +169,36 @@ export function TopNav() {
                           My Calendars
                         </Link>
                       </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link href="/agenda" className="cursor-pointer">
+                          <CalendarRange className="mr-2 h-4 w-4" />
+                          Agenda
+                        </Link>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link href="/availability" className="cursor-pointer">
+                          <Users className="mr-2 h-4 w-4" />
+                          Availability
+                        </Link>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link href="/polls" className="cursor-pointer">
+                          <Vote className="mr-2 h-4 w-4" />
+                          Polls
+                        </Link>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link href="/reminders" className="cursor-pointer">
+                          <Bell className="mr-2 h-4 w-4" />
+                          Reminders
+                        </Link>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link href="/storage" className="cursor-pointer">
+                          <HardDrive className="mr-2 h-4 w-4" />
+                          Storage
+                        </Link>
+                      </DropdownMenuItem>
                       <DropdownMenuSeparator />
                       <DropdownMenuItem
                         onClick={async () => {
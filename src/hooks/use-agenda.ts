@@ -0,0 +1,68 @@
+"use client";
+
+/**
+ * React Query hooks for the personal agenda
+ */
+
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { eventKeys } from "@/hooks/use-calendars";
+import { listAllCalendarEvents } from "@/services/calendar-repository";
+import { filterTrustedEvents } from "@/services/calendar-trust-service";
+import { fetchEventRecords } from "@/services/calendar-fetch-service";
+import { fetchUserRsvps } from "@/services/attendee-service";
+
+export const agendaKeys = {
+  all: ["agenda"] as const,
+  rsvps: (publicKey: string) => [...agendaKeys.all, "rsvps", publicKey] as const,
+};
+
+/**
+ * Fetch the stored events of several calendars, one query per calendar
+ * Queries live under the calendar's event keys, so they refresh together
+ * with the calendar page. `data` holds each calendar's records in order.
+ * Events by authors who are not owner or admin are left out.
+ */
+export function useAgendaCalendarEvents(
+  calendars: Array<{ authorId: string; calendarId: string; admins: string[] }>,
+) {
+  return useQueries({
+    queries: calendars.map(({ authorId, calendarId, admins }) => ({
+      queryKey: [...eventKeys.records(calendarId), "all"],
+      queryFn: async () =>
+        fetchEventRecords(
+          await filterTrustedEvents(
+            authorId,
+            calendarId,
+            admins,
+            await listAllCalendarEvents(authorId, calendarId),
+          ),
+        ),
+      staleTime: 1000 * 60 * 5, // 5 minutes
+      gcTime: 1000 * 60 * 10, // 10 minutes
+    })),
+    combine: (results) => ({
+      data: results.map((result) => result.data),
+      isLoading: results.some((result) => result.isLoading),
+    }),
+  });
+}
+
+/**
+ * Fetch a user's RSVPs together with their events
+ */
+export function useUserRsvps(
+  publicKey: string | null | undefined,
+  enabled = true,
+) {
+  return useQuery({
+    queryKey: agendaKeys.rsvps(publicKey || ""),
+    queryFn: () => {
+      if (!publicKey) {
+        throw new Error("Public key is required");
+      }
+      return fetchUserRsvps(publicKey);
+    },
+    enabled: !!publicKey && enabled,
+    staleTime: 1000 * 60, // 1 minute
+  });
+}
@@ -0,0 +1,31 @@
+"use client";
+
+/**
+ * React Query hooks for event reminders
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { fetchAlarmSchedule } from "@/services/alarm-service";
+
+export const alarmKeys = {
+  all: ["alarms"] as const,
+  user: (publicKey: string) => [...alarmKeys.all, publicKey] as const,
+};
+
+/**
+ * Fetch a user's reminders together with their events
+ */
+export function useAlarmSchedule(publicKey: string | null | undefined) {
+  return useQuery({
+    queryKey: alarmKeys.user(publicKey || ""),
+    queryFn: () => {
+      if (!publicKey) {
+        throw new Error("Public key is required");
+      }
+      return fetchAlarmSchedule(publicKey);
+    },
+    enabled: !!publicKey,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchInterval: 1000 * 60 * 15, // Pick up edited events and other devices
+  });
+}
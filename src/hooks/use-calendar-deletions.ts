@@ -0,0 +1,49 @@
+"use client";
+
+/**
+ * React Query hooks for scheduled calendar deletions
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import {
+  fetchScheduledDeletion,
+  fetchScheduledDeletions,
+} from "@/services/calendar-deletion-service";
+
+export const calendarDeletionKeys = {
+  all: ["calendar-deletions"] as const,
+  user: (publicKey: string) =>
+    [...calendarDeletionKeys.all, "user", publicKey] as const,
+  calendar: (calendarUri: string) =>
+    [...calendarDeletionKeys.all, "calendar", calendarUri] as const,
+};
+
+/**
+ * Fetch the pending deletion of a calendar (null if none is scheduled)
+ */
+export function useScheduledDeletion(calendarUri: string) {
+  return useQuery({
+    queryKey: calendarDeletionKeys.calendar(calendarUri),
+    queryFn: () => fetchScheduledDeletion(calendarUri),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+/**
+ * Fetch a user's pending calendar deletions
+ * Re-read regularly, as other devices may schedule or undo them.
+ */
+export function useScheduledDeletions(publicKey: string | null | undefined) {
+  return useQuery({
+    queryKey: calendarDeletionKeys.user(publicKey || ""),
+    queryFn: () => {
+      if (!publicKey) {
+        throw new Error("Public key is required");
+      }
+      return fetchScheduledDeletions(publicKey);
+    },
+    enabled: !!publicKey,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchInterval: 1000 * 60 * 5,
+  });
+}
@@ -1,19 +1,55 @@
 /**
  * Calendar React Query Hooks
  *
- * Custom hooks for fetching calendar data from Nexus with caching.
+ * Custom hooks for fetching calendar data with caching. Reads go through
+ * the calendar repository, so they follow the configured data source.
  * Uses React Query for efficient data management.
  */
 
-import { useQuery } from "@tanstack/react-query";
 import {
-  streamCalendars,
-  getUserCalendars,
+  keepPreviousData,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import {
   getCalendar,
-  streamEvents,
-  getCalendarEvents,
-} from "@/lib/nexus-client";
-import { NexusCalendar, NexusEvent, StreamCalendarsParams, StreamEventsParams } from "@/lib/nexus-types";
+  listAllCalendarEvents,
+  listCalendarEvents,
+  listCalendarEventsInRange,
+  listCalendars,
+  listEvents,
+  listUserCalendars,
+} from "@/services/calendar-repository";
+import { NexusEvent, StreamCalendarsParams, StreamEventsParams } from "@/lib/nexus-types";
+import {
+  fetchEventDetail,
+  fetchEventRecords,
+} from "@/services/calendar-fetch-service";
+import { rescheduleEvent } from "@/services/calendar-service";
+import {
+  type CalendarSearchParams,
+  fetchFeaturedCalendars,
+  searchCalendars,
+} from "@/services/calendar-list-service";
+import { fetchEventAttendees } from "@/services/attendee-service";
+import {
+  fetchCalendarAdmins,
+  fetchCalendarTrust,
+} from "@/services/calendar-trust-service";
+import {
+  type RecurrenceEditScope,
+  type RecurrenceSeries,
+  rescheduleOccurrence,
+} from "@/services/recurrence-edit-service";
+import {
+  type EventTimeChange,
+  rescheduleEventRecords,
+  rescheduleIndexedEvents,
+} from "@/lib/event-reschedule";
+import type { EventOccurrence } from "@/lib/recurrence";
+import type { PubkyAppEventRecord } from "@/types/calendar";
 
 // ============================================================================
 // Query Keys
@@ -23,16 +59,33 @@ export const calendarKeys = {
   all: ["calendars"] as const,
   lists: () => [...calendarKeys.all, "list"] as const,
   list: (params: StreamCalendarsParams) => [...calendarKeys.lists(), params] as const,
+  search: (params: CalendarSearchParams) =>
+    [...calendarKeys.lists(), "search", params] as const,
+  featured: () => [...calendarKeys.all, "featured"] as const,
   user: (userId: string) => [...calendarKeys.all, "user", userId] as const,
   detail: (authorId: string, calendarId: string) => 
     [...calendarKeys.all, "detail", authorId, calendarId] as const,
+  admins: (authorId: string, calendarId: string) =>
+    [...calendarKeys.detail(authorId, calendarId), "admins"] as const,
+  trust: (authorId: string, calendarId: string, admins: string[]) =>
+    [...calendarKeys.detail(authorId, calendarId), "trust", admins] as const,
 };
 
 export const eventKeys = {
   all: ["events"] as const,
   lists: () => [...eventKeys.all, "list"] as const,
   list: (params: StreamEventsParams) => [...eventKeys.lists(), params] as const,
+  infinite: (params: StreamEventsParams) =>
+    [...eventKeys.lists(), "infinite", params] as const,
   calendar: (calendarId: string) => [...eventKeys.all, "calendar", calendarId] as const,
+  records: (calendarId: string) => [...eventKeys.calendar(calendarId), "records"] as const,
+  complete: (calendarId: string) => [...eventKeys.calendar(calendarId), "all"] as const,
+  range: (calendarId: string, start: number, end: number) =>
+    [...eventKeys.calendar(calendarId), "range", start, end] as const,
+  detail: (authorId: string, eventId: string) =>
+    [...eventKeys.all, "detail", authorId, eventId] as const,
+  attendees: (authorId: string, eventId: string) =>
+    [...eventKeys.detail(authorId, eventId), "attendees"] as const,
 };
 
 // ============================================================================
@@ -46,12 +99,45 @@ export const eventKeys = {
 export function useCalendars(params: StreamCalendarsParams = {}) {
   return useQuery({
     queryKey: calendarKeys.list(params),
-    queryFn: () => streamCalendars(params),
+    queryFn: () => listCalendars(params),
     staleTime: 1000 * 60 * 5, // 5 minutes
     gcTime: 1000 * 60 * 10, // 10 minutes (formerly cacheTime)
   });
 }
 
+/**
+ * Search calendars page by page for infinite scrolling
+ *
+ * Pages hold the matches of one Nexus page, so they can be short or empty
+ * while more results follow.
+ */
+export function useInfiniteCalendarSearch(
+  params: Omit<CalendarSearchParams, "skip" | "limit"> = {},
+  pageSize = 20,
+) {
+  return useInfiniteQuery({
+    queryKey: calendarKeys.search({ ...params, limit: pageSize }),
+    queryFn: ({ pageParam }) =>
+      searchCalendars({ ...params, skip: pageParam, limit: pageSize }),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextSkip,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    gcTime: 1000 * 60 * 10, // 10 minutes
+  });
+}
+
+/**
+ * Fetch the curated featured calendars
+ */
+export function useFeaturedCalendars() {
+  return useQuery({
+    queryKey: calendarKeys.featured(),
+    queryFn: fetchFeaturedCalendars,
+    staleTime: 1000 * 60 * 30, // 30 minutes
+    gcTime: 1000 * 60 * 60, // 1 hour
+  });
+}
+
 /**
  * Fetch calendars for a specific user (filtered by admin)
  * Useful for "My Calendars" page
@@ -61,7 +147,7 @@ export function useUserCalendars(userId: string | undefined) {
     queryKey: calendarKeys.user(userId || ""),
     queryFn: () => {
       if (!userId) throw new Error("User ID is required");
-      return getUserCalendars(userId);
+      return listUserCalendars(userId);
     },
     enabled: !!userId, // Only run if userId exists
     staleTime: 1000 * 60 * 5, // 5 minutes
@@ -87,6 +173,54 @@ export function useCalendar(authorId: string | undefined, calendarId: string | u
   });
 }
 
+/**
+ * Fetch the owner's admin settings of a calendar
+ * Roles, removed admins and a pending ownership transfer
+ */
+export function useCalendarAdmins(
+  authorId: string | undefined,
+  calendarId: string | undefined,
+) {
+  return useQuery({
+    queryKey: calendarKeys.admins(authorId || "", calendarId || ""),
+    queryFn: () => {
+      if (!authorId || !calendarId) {
+        throw new Error("Author ID and Calendar ID are required");
+      }
+      return fetchCalendarAdmins(authorId, calendarId);
+    },
+    enabled: !!authorId && !!calendarId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    gcTime: 1000 * 60 * 10, // 10 minutes
+  });
+}
+
+/**
+ * Fetch who may write to a calendar and which submissions were approved
+ */
+export function useCalendarTrust(
+  authorId: string | undefined,
+  calendarId: string | undefined,
+  admins: string[] | undefined,
+) {
+  return useQuery({
+    queryKey: calendarKeys.trust(
+      authorId || "",
+      calendarId || "",
+      admins || [],
+    ),
+    queryFn: () => {
+      if (!authorId || !calendarId) {
+        throw new Error("Author ID and Calendar ID are required");
+      }
+      return fetchCalendarTrust(authorId, calendarId, admins);
+    },
+    enabled: !!authorId && !!calendarId && !!admins,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    gcTime: 1000 * 60 * 10, // 10 minutes
+  });
+}
+
 // ============================================================================
 // Event Hooks
 // ============================================================================
@@ -97,7 +231,27 @@ export function useCalendar(authorId: string | undefined, calendarId: string | u
 export function useEvents(params: StreamEventsParams = {}) {
   return useQuery({
     queryKey: eventKeys.list(params),
-    queryFn: () => streamEvents(params),
+    queryFn: () => listEvents(params),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    gcTime: 1000 * 60 * 10, // 10 minutes
+  });
+}
+
+/**
+ * Page through the global event stream
+ * Each page requests `pageSize` events; a shorter page ends the stream.
+ */
+export function useInfiniteEvents(
+  params: Omit<StreamEventsParams, "skip" | "limit"> = {},
+  pageSize = 20,
+) {
+  return useInfiniteQuery({
+    queryKey: eventKeys.infinite({ ...params, limit: pageSize }),
+    queryFn: ({ pageParam }) =>
+      listEvents({ ...params, skip: pageParam, limit: pageSize }),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, allPages) =>
+      lastPage.length < pageSize ? undefined : allPages.length * pageSize,
     staleTime: 1000 * 60 * 5, // 5 minutes
     gcTime: 1000 * 60 * 10, // 10 minutes
   });
@@ -107,48 +261,260 @@ export function useEvents(params: StreamEventsParams = {}) {
  * Fetch events for a specific calendar
  */
 export function useCalendarEvents(
+  authorId: string | undefined,
   calendarId: string | undefined,
   params: Omit<StreamEventsParams, "calendar"> = {}
 ) {
   return useQuery({
     queryKey: eventKeys.calendar(calendarId || ""),
     queryFn: () => {
-      if (!calendarId) throw new Error("Calendar ID is required");
-      return getCalendarEvents(calendarId, params);
+      if (!authorId || !calendarId) {
+        throw new Error("Author ID and Calendar ID are required");
+      }
+      return listCalendarEvents(authorId, calendarId, params);
+    },
+    enabled: !!authorId && !!calendarId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    gcTime: 1000 * 60 * 10, // 10 minutes
+  });
+}
+
+/**
+ * Fetch every event of a calendar, without paging
+ */
+export function useAllCalendarEvents(
+  authorId: string | undefined,
+  calendarId: string | undefined,
+  options: { enabled?: boolean } = {},
+) {
+  const { enabled = true } = options;
+
+  return useQuery({
+    queryKey: eventKeys.complete(calendarId || ""),
+    queryFn: () => {
+      if (!authorId || !calendarId) {
+        throw new Error("Author ID and Calendar ID are required");
+      }
+      return listAllCalendarEvents(authorId, calendarId);
     },
-    enabled: !!calendarId,
+    enabled: enabled && !!authorId && !!calendarId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    gcTime: 1000 * 60 * 10, // 10 minutes
+  });
+}
+
+/**
+ * Fetch a calendar's events within the visible date range
+ * Keeps showing the previous range while the next one loads
+ */
+export function useCalendarEventsInRange(
+  authorId: string | undefined,
+  calendarId: string | undefined,
+  range: { start: Date; end: Date } | null,
+) {
+  return useQuery({
+    queryKey: eventKeys.range(
+      calendarId || "",
+      range?.start.getTime() || 0,
+      range?.end.getTime() || 0,
+    ),
+    queryFn: () => {
+      if (!authorId || !calendarId || !range) {
+        throw new Error("Author ID, Calendar ID and range are required");
+      }
+      return listCalendarEventsInRange(
+        authorId,
+        calendarId,
+        range.start,
+        range.end,
+      );
+    },
+    enabled: !!authorId && !!calendarId && !!range,
+    placeholderData: keepPreviousData,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    gcTime: 1000 * 60 * 10, // 10 minutes
+  });
+}
+
+/**
+ * Fetch a single event for the event page
+ * Falls back to the author's homeserver when Nexus has not indexed it
+ */
+export function useEvent(authorId: string | undefined, eventId: string | undefined) {
+  return useQuery({
+    queryKey: eventKeys.detail(authorId || "", eventId || ""),
+    queryFn: () => {
+      if (!authorId || !eventId) {
+        throw new Error("Author ID and Event ID are required");
+      }
+      return fetchEventDetail(authorId, eventId);
+    },
+    enabled: !!authorId && !!eventId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    gcTime: 1000 * 60 * 10, // 10 minutes
+  });
+}
+
+/**
+ * Fetch the RSVPs of an event, including the viewer's own
+ */
+export function useEventAttendees(
+  authorId: string | undefined,
+  eventId: string | undefined,
+  viewerKey?: string | null,
+) {
+  return useQuery({
+    queryKey: [
+      ...eventKeys.attendees(authorId || "", eventId || ""),
+      viewerKey || null,
+    ],
+    queryFn: () => {
+      if (!authorId || !eventId) {
+        throw new Error("Author ID and Event ID are required");
+      }
+      return fetchEventAttendees(
+        authorId,
+        eventId,
+        `pubky://${authorId}/pub/pubky.app/event/${eventId}`,
+        viewerKey,
+      );
+    },
+    enabled: !!authorId && !!eventId,
+    staleTime: 1000 * 60, // 1 minute
+    gcTime: 1000 * 60 * 10, // 10 minutes
+  });
+}
+
+/**
+ * Resolve a calendar's Nexus events to stored event data
+ * Needed to expand recurring series together with their overrides
+ */
+export function useCalendarEventRecords(
+  calendarId: string | undefined,
+  events: NexusEvent[] | undefined,
+) {
+  return useQuery({
+    queryKey: [...eventKeys.records(calendarId || ""), events?.map((event) => event.uri)],
+    queryFn: () => fetchEventRecords(events || []),
+    enabled: !!calendarId && !!events,
     staleTime: 1000 * 60 * 5, // 5 minutes
     gcTime: 1000 * 60 * 10, // 10 minutes
   });
 }
 
 // ============================================================================
-// Helper Functions to Convert Nexus Types to Serializable Types
+// Event Mutations
 // ============================================================================
 
+export interface RescheduleEventVariables {
+  eventUri: string;
+  start: Date;
+  end: Date | null;
+  publicKey: string;
+  recurrence?: {
+    series: RecurrenceSeries;
+    occurrence: EventOccurrence;
+    scope: RecurrenceEditScope;
+  };
+}
+
 /**
- * Convert NexusCalendar to SerializableCalendar format
- * This ensures compatibility with existing components like CalendarCard
+ * Describe a reschedule as a cache change
+ * Splitting a series ("following") is only shown once written.
  */
-export function nexusCalendarToSerializable(nexusCalendar: NexusCalendar) {
+function toTimeChange(
+  variables: RescheduleEventVariables,
+): EventTimeChange | null {
+  const { eventUri, start, end, recurrence } = variables;
+  if (!recurrence) return { eventUri, start, end };
+  if (recurrence.scope === "following") return null;
+
   return {
-    uri: nexusCalendar.uri,
-    authorId: nexusCalendar.author,
-    calendarId: nexusCalendar.id,
-    calendar: {
-      name: nexusCalendar.name,
-      timezone: nexusCalendar.timezone,
-      color: nexusCalendar.color,
-      image_uri: nexusCalendar.image_uri,
-      x_pubky_admins: nexusCalendar.x_pubky_admins || undefined,
-      created: nexusCalendar.created?.toString(),
+    eventUri,
+    start,
+    end,
+    occurrence: {
+      masterUri: recurrence.series.master.uri,
+      originalStart: recurrence.occurrence.recurrenceId ||
+        recurrence.occurrence.start,
+      scope: recurrence.scope,
     },
   };
 }
 
 /**
- * Convert array of NexusCalendar to SerializableCalendarListItem array
+ * Move or resize an event of a calendar
+ *
+ * The calendar's cached events are updated right away and restored if
+ * the write to the homeserver fails. The indexed events are not refetched
+ * after the write, as Nexus may not have picked it up yet.
  */
-export function nexusCalendarsToSerializable(nexusCalendars: NexusCalendar[]) {
-  return nexusCalendars.map(nexusCalendarToSerializable);
+export function useRescheduleEvent(calendarId: string) {
+  const queryClient = useQueryClient();
+  const calendarKey = eventKeys.calendar(calendarId);
+  const recordsKey = eventKeys.records(calendarId);
+
+  return useMutation({
+    mutationFn: ({ eventUri, start, end, publicKey, recurrence }: RescheduleEventVariables) =>
+      recurrence
+        ? rescheduleOccurrence(
+          recurrence.series,
+          recurrence.occurrence,
+          start,
+          end,
+          recurrence.scope,
+          publicKey,
+        )
+        : rescheduleEvent(eventUri, start, end, publicKey),
+    onMutate: async (variables) => {
+      await queryClient.cancelQueries({ queryKey: calendarKey });
+      const previous = queryClient.getQueriesData({ queryKey: calendarKey });
+
+      const change = toTimeChange(variables);
+      if (change) {
+        queryClient.setQueriesData<NexusEvent[]>(
+          {
+            queryKey: calendarKey,
+            // Indexed lists only; records are updated below
+            predicate: (query) => query.queryKey[3] !== "records",
+          },
+          (events) => events && rescheduleIndexedEvents(events, change),
+        );
+        queryClient.setQueriesData<PubkyAppEventRecord[]>(
+          { queryKey: recordsKey },
+          (records) => records && rescheduleEventRecords(records, change),
+        );
+      }
+
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      for (const [queryKey, data] of context?.previous || []) {
+        queryClient.setQueryData(queryKey, data);
+      }
+    },
+    onSuccess: (_uri, variables) => {
+      // Nexus indexes the write with a delay, so refetching the indexed
+      // lists now would bring back the old times. They keep the moved
+      // times until they go stale; the records come from the homeserver.
+      queryClient.invalidateQueries({ queryKey: recordsKey });
+      queryClient.invalidateQueries({
+        queryKey: eventKeys.lists(),
+        refetchType: "none",
+      });
+      if (!toTimeChange(variables)) {
+        // A split series adds an event, which only a refetch lists
+        queryClient.invalidateQueries({ queryKey: calendarKey });
+      }
+    },
+  });
 }
+
+// ============================================================================
+// Helper Functions to Convert Nexus Types to Serializable Types
+// ============================================================================
+
+export {
+  nexusCalendarToSerializable,
+  nexusCalendarsToSerializable,
+} from "@/services/calendar-list-service";
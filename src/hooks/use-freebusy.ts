@@ -0,0 +1,62 @@
+"use client";
+
+/**
+ * React Query hooks for free/busy time
+ */
+
+import { useQueries, useQuery } from "@tanstack/react-query";
+import {
+  computeFreeBusy,
+  fetchFreeBusy,
+} from "@/services/freebusy-service";
+
+export const freeBusyKeys = {
+  all: ["freebusy"] as const,
+  published: (publicKey: string) =>
+    [...freeBusyKeys.all, "published", publicKey] as const,
+  computed: (publicKey: string, start: number, end: number) =>
+    [...freeBusyKeys.all, "computed", publicKey, start, end] as const,
+};
+
+/**
+ * Fetch the published free/busy time of several users, one query per user
+ * `data` holds each user's document in order, null if they published none.
+ */
+export function usePublishedFreeBusy(publicKeys: string[]) {
+  return useQueries({
+    queries: publicKeys.map((publicKey) => ({
+      queryKey: freeBusyKeys.published(publicKey),
+      queryFn: () => fetchFreeBusy(publicKey),
+      staleTime: 1000 * 60 * 5, // 5 minutes
+    })),
+    combine: (results) => ({
+      data: results.map((result) => result.data),
+      isLoading: results.map((result) => result.isLoading),
+    }),
+  });
+}
+
+/**
+ * Compute a user's own busy time from their calendars and RSVPs
+ */
+export function useComputedFreeBusy(
+  publicKey: string | null | undefined,
+  range: { start: Date; end: Date },
+  userTimeZone: string,
+) {
+  return useQuery({
+    queryKey: freeBusyKeys.computed(
+      publicKey || "",
+      range.start.getTime(),
+      range.end.getTime(),
+    ),
+    queryFn: () => {
+      if (!publicKey) {
+        throw new Error("Public key is required");
+      }
+      return computeFreeBusy(publicKey, range.start, range.end, userTimeZone);
+    },
+    enabled: !!publicKey,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
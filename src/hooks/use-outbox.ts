@@ -0,0 +1,35 @@
+"use client";
+
+/**
+ * Hook for the queue of homeserver writes waiting to go through
+ */
+
+import { useMemo, useSyncExternalStore } from "react";
+import type { OutboxOperation } from "@/lib/outbox";
+import {
+  getOutboxSnapshot,
+  subscribeOutbox,
+} from "@/services/outbox-service";
+
+const EMPTY: OutboxOperation[] = [];
+
+/**
+ * Queued writes of a user, oldest first
+ */
+export function useOutbox(publicKey: string | null | undefined) {
+  const operations = useSyncExternalStore(
+    subscribeOutbox,
+    getOutboxSnapshot,
+    () => EMPTY,
+  );
+
+  return useMemo(
+    () =>
+      publicKey
+        ? operations
+          .filter((operation) => operation.publicKey === publicKey)
+          .sort((a, b) => a.createdAt - b.createdAt)
+        : EMPTY,
+    [operations, publicKey],
+  );
+}
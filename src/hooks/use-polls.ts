@@ -0,0 +1,78 @@
+"use client";
+
+/**
+ * React Query hooks for meeting polls
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import {
+  fetchPoll,
+  fetchPollVoters,
+  fetchUserPolls,
+} from "@/services/poll-service";
+import type { PubkyAppPollData } from "@/types/calendar";
+
+export const pollKeys = {
+  all: ["polls"] as const,
+  detail: (pollUri: string) => [...pollKeys.all, "detail", pollUri] as const,
+  votes: (pollUri: string) => [...pollKeys.all, "votes", pollUri] as const,
+  user: (publicKey: string) => [...pollKeys.all, "user", publicKey] as const,
+};
+
+/**
+ * Fetch a poll from its organizer's homeserver
+ */
+export function usePoll(pollUri: string | null | undefined) {
+  return useQuery({
+    queryKey: pollKeys.detail(pollUri || ""),
+    queryFn: () => {
+      if (!pollUri) {
+        throw new Error("Poll URI is required");
+      }
+      return fetchPoll(pollUri);
+    },
+    enabled: !!pollUri,
+    staleTime: 1000 * 30, // 30 seconds
+  });
+}
+
+/**
+ * Fetch the votes of a poll's organizer and invitees
+ */
+export function usePollVoters(
+  pollUri: string | null | undefined,
+  poll: PubkyAppPollData | null | undefined,
+) {
+  return useQuery({
+    queryKey: [...pollKeys.votes(pollUri || ""), poll?.invitees],
+    queryFn: () => {
+      if (!pollUri || !poll) {
+        throw new Error("Poll is required");
+      }
+      return fetchPollVoters(pollUri, poll);
+    },
+    enabled: !!pollUri && !!poll,
+    staleTime: 1000 * 30, // 30 seconds
+  });
+}
+
+/**
+ * Fetch the polls a user organized or voted on
+ */
+export function useUserPolls(
+  publicKey: string | null | undefined,
+  options: { refetchInterval?: number } = {},
+) {
+  return useQuery({
+    queryKey: pollKeys.user(publicKey || ""),
+    queryFn: () => {
+      if (!publicKey) {
+        throw new Error("Public key is required");
+      }
+      return fetchUserPolls(publicKey);
+    },
+    enabled: !!publicKey,
+    staleTime: 1000 * 60, // 1 minute
+    refetchInterval: options.refetchInterval,
+  });
+}
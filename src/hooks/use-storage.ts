@@ -0,0 +1,33 @@
+"use client";
+
+/**
+ * React Query hooks for homeserver storage
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { fetchStorageReport } from "@/services/storage-service";
+
+export const storageKeys = {
+  all: ["storage"] as const,
+  report: (publicKey: string) =>
+    [...storageKeys.all, "report", publicKey] as const,
+};
+
+/**
+ * Scan a user's uploads for unused files and blobs
+ * The scan reads every record, so it is not refreshed in the background.
+ */
+export function useStorageReport(publicKey: string | null | undefined) {
+  return useQuery({
+    queryKey: storageKeys.report(publicKey || ""),
+    queryFn: () => {
+      if (!publicKey) {
+        throw new Error("Public key is required");
+      }
+      return fetchStorageReport(publicKey);
+    },
+    enabled: !!publicKey,
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  });
+}
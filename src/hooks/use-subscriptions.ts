@@ -0,0 +1,55 @@
+"use client";
+
+/**
+ * React Query hooks for calendar subscriptions
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import {
+  fetchSubscribedCalendars,
+  fetchSubscription,
+} from "@/services/subscription-service";
+
+export const subscriptionKeys = {
+  all: ["subscriptions"] as const,
+  user: (publicKey: string) => [...subscriptionKeys.all, publicKey] as const,
+  calendar: (publicKey: string, calendarUri: string) =>
+    [...subscriptionKeys.user(publicKey), calendarUri] as const,
+};
+
+/**
+ * Fetch a user's subscription to a calendar (null if not subscribed)
+ */
+export function useSubscription(
+  publicKey: string | null | undefined,
+  calendarUri: string,
+) {
+  return useQuery({
+    queryKey: subscriptionKeys.calendar(publicKey || "", calendarUri),
+    queryFn: () => {
+      if (!publicKey) {
+        throw new Error("Public key is required");
+      }
+      return fetchSubscription(publicKey, calendarUri);
+    },
+    enabled: !!publicKey,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+/**
+ * Fetch a user's subscriptions together with their calendars
+ */
+export function useSubscribedCalendars(publicKey: string | null | undefined) {
+  return useQuery({
+    queryKey: [...subscriptionKeys.user(publicKey || ""), "calendars"],
+    queryFn: () => {
+      if (!publicKey) {
+        throw new Error("Public key is required");
+      }
+      return fetchSubscribedCalendars(publicKey);
+    },
+    enabled: !!publicKey,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
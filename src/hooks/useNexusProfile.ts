@@ -9,6 +9,7 @@
 
 import { useQuery, type UseQueryResult } from "@tanstack/react-query";
 import { getResolvedProfile } from "@/services/profile-service";
+import { searchNexusUsersByName } from "@/lib/nexus";
 import type { ResolvedProfile } from "@/types/profile";
 
 interface UseNexusProfileOptions {
@@ -52,3 +53,22 @@ export function useNexusProfile(
     gcTime: 30 * 60 * 1000,
   });
 }
+
+/**
+ * Hook to search users by name through Nexus
+ *
+ * @param query - Start of the name, searches from two characters on
+ * @returns Public keys of matching users
+ */
+export function useNexusUserSearch(
+  query: string,
+): UseQueryResult<string[], Error> {
+  const prefix = query.trim();
+
+  return useQuery({
+    queryKey: ["user-search", prefix],
+    queryFn: () => searchNexusUsersByName(prefix),
+    enabled: prefix.length >= 2,
+    staleTime: 60 * 1000,
+  });
+}
@@ -0,0 +1,173 @@
+import {
+  buildAgendaCalendars,
+  getAgendaItems,
+  getOutsideRsvps,
+  mergeAgendaItems,
+} from "../agenda";
+import type { NexusCalendar } from "@/lib/nexus-types";
+import type { PubkyAppEventData, PubkyAppEventRecord } from "@/types/calendar";
+
+const at = (value: string) => new Date(`${value}Z`);
+const micros = (value: string) => at(value).getTime() * 1000;
+
+const VIEWER = "viewer";
+const OWN_URI = "pubky://viewer/pub/pubky.app/calendar/0034OWN";
+const ADMIN_URI = "pubky://other/pub/pubky.app/calendar/0034ADMIN";
+const SUB_URI = "pubky://third/pub/pubky.app/calendar/0034SUB";
+
+const nexusCalendar = (
+  author: string,
+  id: string,
+  name: string,
+): NexusCalendar => ({
+  id,
+  indexed_at: 0,
+  author,
+  uri: `pubky://${author}/pub/pubky.app/calendar/${id}`,
+  name,
+  color: "#111111",
+});
+
+const subscription = (calendarUri: string, color?: string, hidden?: boolean) => ({
+  subscription: {
+    data: { x_pubky_calendar_uri: calendarUri, color, hidden, created: 0 },
+  },
+});
+
+const eventRecord = (
+  id: string,
+  overrides: Partial<PubkyAppEventData> = {},
+): PubkyAppEventRecord => {
+  const uri = `pubky://author/pub/pubky.app/event/${id}`;
+  return {
+    uri,
+    data: {
+      uid: uri,
+      dtstamp: micros("2025-01-01T00:00:00"),
+      dtstart: micros("2025-01-06T18:00:00"),
+      dtend: micros("2025-01-06T20:00:00"),
+      summary: id,
+      ...overrides,
+    },
+  };
+};
+
+describe("agenda", () => {
+  describe("buildAgendaCalendars", () => {
+    const calendars = buildAgendaCalendars(
+      VIEWER,
+      [
+        nexusCalendar("other", "0034ADMIN", "Admin"),
+        nexusCalendar("viewer", "0034OWN", "Own"),
+      ],
+      [
+        {
+          ...subscription(OWN_URI, "#ff0000"),
+          calendar: null,
+        },
+        {
+          ...subscription(SUB_URI, undefined, true),
+          calendar: {
+            uri: SUB_URI,
+            authorId: "third",
+            calendarId: "0034SUB",
+            calendar: { name: "Followed", color: "#222222" },
+          },
+        },
+        {
+          ...subscription("pubky://gone/pub/pubky.app/calendar/0034GONE"),
+          calendar: null,
+        },
+      ],
+    );
+
+    it("should list owned, administered and subscribed calendars in order", () => {
+      expect(calendars.map((calendar) => [calendar.uri, calendar.role]))
+        .toEqual([
+          [OWN_URI, "owner"],
+          [ADMIN_URI, "admin"],
+          [SUB_URI, "subscriber"],
+        ]);
+    });
+
+    it("should apply subscription colors and hidden settings", () => {
+      expect(calendars[0].color).toBe("#ff0000");
+      expect(calendars[1].color).toBe("#111111");
+      expect(calendars[2]).toMatchObject({ color: "#222222", hidden: true });
+    });
+  });
+
+  describe("getOutsideRsvps", () => {
+    it("should drop declined events and events in followed calendars", () => {
+      const rsvps = getOutsideRsvps(
+        [
+          { status: "ACCEPTED", event: eventRecord("0034A") },
+          { status: "DECLINED", event: eventRecord("0034B") },
+          {
+            status: "TENTATIVE",
+            event: eventRecord("0034C", { x_pubky_calendar_uris: [SUB_URI] }),
+          },
+        ],
+        [SUB_URI],
+      );
+
+      expect(rsvps.map(({ event }) => event.data.summary)).toEqual(["0034A"]);
+    });
+  });
+
+  describe("getAgendaItems", () => {
+    it("should expand recurring events with the calendar color", () => {
+      const record = eventRecord("0034WEEKLY", { rrule: "FREQ=WEEKLY" });
+      const items = getAgendaItems(
+        [record],
+        at("2025-01-01T00:00:00"),
+        at("2025-01-20T00:00:00"),
+        { calendarUri: OWN_URI, color: "#ff0000", timeZone: "UTC" },
+      );
+
+      expect(items.map((item) => item.occurrence.start)).toEqual([
+        at("2025-01-06T18:00:00"),
+        at("2025-01-13T18:00:00"),
+      ]);
+      expect(items[0]).toMatchObject({
+        eventUri: record.uri,
+        calendarUri: OWN_URI,
+        color: "#ff0000",
+      });
+      expect(items[0].key).not.toBe(items[1].key);
+    });
+
+    it("should attach the user's RSVP", () => {
+      const record = eventRecord("0034A");
+      const [item] = getAgendaItems(
+        [record],
+        at("2025-01-06T00:00:00"),
+        at("2025-01-07T00:00:00"),
+        { rsvps: new Map([[record.uri, "TENTATIVE" as const]]) },
+      );
+
+      expect(item).toMatchObject({ calendarUri: null, rsvp: "TENTATIVE" });
+    });
+  });
+
+  describe("mergeAgendaItems", () => {
+    it("should list shared events once and sort by start", () => {
+      const range = [at("2025-01-01T00:00:00"), at("2025-01-31T00:00:00")] as const;
+      const early = eventRecord("0034EARLY", {
+        dtstart: micros("2025-01-02T09:00:00"),
+        dtend: null,
+      });
+      const shared = eventRecord("0034SHARED");
+
+      const items = mergeAgendaItems([
+        getAgendaItems([shared], ...range, { color: "#ff0000" }),
+        getAgendaItems([early, shared], ...range, { color: "#00ff00" }),
+      ]);
+
+      expect(items.map((item) => [item.eventUri, item.color])).toEqual([
+        [early.uri, "#00ff00"],
+        [shared.uri, "#ff0000"],
+      ]);
+    });
+  });
+});
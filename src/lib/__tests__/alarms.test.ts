@@ -0,0 +1,203 @@
+import {
+  type AlarmRecord,
+  describeAlarm,
+  describeTrigger,
+  getAlarmNotifications,
+  getAlarmOffsets,
+  getPendingNotifications,
+  getScheduleNotifications,
+  getSubscriptionAlarms,
+} from "../alarms";
+import type { PubkyAppAlarmData, PubkyAppEventData } from "@/types/calendar";
+
+const MINUTE = 60 * 1000;
+const at = (value: string) => new Date(`${value}Z`);
+const micros = (value: string) => at(value).getTime() * 1000;
+
+const EVENT_URI = "pubky://author/pub/pubky.app/event/0034EVENT";
+
+const event: PubkyAppEventData = {
+  uid: EVENT_URI,
+  dtstamp: micros("2025-01-01T00:00:00"),
+  dtstart: micros("2025-01-06T18:00:00"),
+  dtend: micros("2025-01-06T20:00:00"),
+  summary: "Meetup",
+};
+
+const alarmData = (
+  overrides: Partial<PubkyAppAlarmData> = {},
+): PubkyAppAlarmData => ({
+  x_pubky_event_uri: EVENT_URI,
+  action: "DISPLAY",
+  trigger: "-PT15M",
+  created: 0,
+  ...overrides,
+});
+
+const alarm = (overrides: Partial<PubkyAppAlarmData> = {}): AlarmRecord => ({
+  uri: "pubky://viewer/pub/pubky.app/alarm/0034ALARM",
+  data: alarmData(overrides),
+});
+
+describe("alarms", () => {
+  describe("describeTrigger", () => {
+    it("should describe triggers in words", () => {
+      expect(describeTrigger("PT0S")).toBe("At start time");
+      expect(describeTrigger("-PT15M")).toBe("15 minutes before");
+      expect(describeTrigger("-PT1H")).toBe("1 hour before");
+      expect(describeTrigger("-P1D")).toBe("1 day before");
+      expect(describeTrigger("PT90M")).toBe("90 minutes after");
+      expect(describeTrigger("soon")).toBe("soon");
+    });
+  });
+
+  describe("describeAlarm", () => {
+    it("should mention repeats", () => {
+      expect(describeAlarm(alarmData())).toBe("15 minutes before");
+      expect(describeAlarm(alarmData({ repeat: 2, duration: "PT5M" })))
+        .toBe("15 minutes before, 3 times 5 minutes apart");
+    });
+  });
+
+  describe("getAlarmOffsets", () => {
+    it("should add REPEAT notifications DURATION apart", () => {
+      expect(getAlarmOffsets(alarmData({ repeat: 2, duration: "PT5M" })))
+        .toEqual([-15 * MINUTE, -10 * MINUTE, -5 * MINUTE]);
+    });
+
+    it("should ignore REPEAT without a valid DURATION", () => {
+      expect(getAlarmOffsets(alarmData({ repeat: 3 }))).toEqual([
+        -15 * MINUTE,
+      ]);
+    });
+
+    it("should return nothing for an invalid trigger", () => {
+      expect(getAlarmOffsets(alarmData({ trigger: "soon" }))).toEqual([]);
+    });
+  });
+
+  describe("getAlarmNotifications", () => {
+    it("should fire before a one-off event", () => {
+      const notifications = getAlarmNotifications(
+        alarm(),
+        event,
+        at("2025-01-06T00:00:00"),
+        at("2025-01-07T00:00:00"),
+      );
+
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0]).toMatchObject({
+        eventUri: EVENT_URI,
+        summary: "Meetup",
+        occurrenceStart: at("2025-01-06T18:00:00"),
+        fireAt: at("2025-01-06T17:45:00"),
+      });
+    });
+
+    it("should only include notifications inside the range", () => {
+      const notifications = getAlarmNotifications(
+        alarm({ repeat: 2, duration: "PT5M" }),
+        event,
+        at("2025-01-06T17:50:00"),
+        at("2025-01-07T00:00:00"),
+      );
+
+      expect(notifications.map((n) => n.fireAt)).toEqual([
+        at("2025-01-06T17:50:00"),
+        at("2025-01-06T17:55:00"),
+      ]);
+    });
+
+    it("should fire for every occurrence of a recurring event", () => {
+      const notifications = getAlarmNotifications(
+        alarm({ trigger: "-P1D" }),
+        { ...event, rrule: "FREQ=WEEKLY", exdate: ["20250113T180000Z"] },
+        at("2025-01-01T00:00:00"),
+        at("2025-01-25T00:00:00"),
+      );
+
+      expect(notifications.map((n) => n.fireAt)).toEqual([
+        at("2025-01-05T18:00:00"),
+        at("2025-01-19T18:00:00"),
+      ]);
+      expect(new Set(notifications.map((n) => n.key)).size).toBe(2);
+    });
+  });
+
+  describe("getScheduleNotifications", () => {
+    it("should skip alarms whose event is gone", () => {
+      const notifications = getScheduleNotifications(
+        [{ alarm: alarm(), event }, { alarm: alarm(), event: null }],
+        at("2025-01-06T00:00:00"),
+        at("2025-01-07T00:00:00"),
+      );
+
+      expect(notifications).toHaveLength(1);
+    });
+  });
+
+  describe("getPendingNotifications", () => {
+    const [notification] = getAlarmNotifications(
+      alarm(),
+      event,
+      at("2025-01-06T00:00:00"),
+      at("2025-01-07T00:00:00"),
+    );
+    const fireAt = notification.fireAt.getTime();
+
+    it("should drop notifications that were shown", () => {
+      expect(
+        getPendingNotifications([notification], {
+          [notification.key]: { firedAt: fireAt + 1000 },
+        }),
+      ).toEqual([]);
+    });
+
+    it("should move snoozed notifications to their snooze time", () => {
+      const pending = getPendingNotifications([notification], {
+        [notification.key]: {
+          firedAt: fireAt,
+          snoozedUntil: fireAt + 5 * MINUTE,
+        },
+      });
+
+      expect(pending).toHaveLength(1);
+      expect(pending[0].fireAt).toEqual(new Date(fireAt + 5 * MINUTE));
+    });
+
+    it("should drop snoozed notifications once shown again", () => {
+      expect(
+        getPendingNotifications([notification], {
+          [notification.key]: {
+            firedAt: fireAt + 5 * MINUTE,
+            snoozedUntil: fireAt + 5 * MINUTE,
+          },
+        }),
+      ).toEqual([]);
+    });
+  });
+
+  describe("getSubscriptionAlarms", () => {
+    const SUBSCRIPTION_URI = "pubky://viewer/pub/pubky.app/subscription/0034SUB";
+    const OTHER_URI = "pubky://author/pub/pubky.app/event/0034OTHER";
+
+    it("should add the default reminder to events without own reminders", () => {
+      const alarms = getSubscriptionAlarms(
+        SUBSCRIPTION_URI,
+        "-PT30M",
+        [
+          { uri: EVENT_URI, data: event },
+          { uri: OTHER_URI, data: { ...event, uid: OTHER_URI } },
+        ],
+        new Set([EVENT_URI]),
+      );
+
+      expect(alarms).toHaveLength(1);
+      expect(alarms[0]).toMatchObject({
+        subscriptionUri: SUBSCRIPTION_URI,
+        alarm: { data: { x_pubky_event_uri: OTHER_URI, trigger: "-PT30M" } },
+      });
+      expect(alarms[0].alarm.uri).toBe(`${SUBSCRIPTION_URI}#${OTHER_URI}`);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  type EventAttendee,
+  groupAttendeesByStatus,
+  mergeOwnAttendee,
+  nexusAttendeeToEventAttendee,
+} from "../attendees";
+
+const attendee = (
+  publicKey: string,
+  rsvp: EventAttendee["rsvp"],
+): EventAttendee => ({
+  publicKey,
+  uri: `pubky://${publicKey}/pub/pubky.app/attendee/0034ATT`,
+  rsvp,
+});
+
+describe("nexusAttendeeToEventAttendee", () => {
+  it("uses the record author as attendee and defaults the status", () => {
+    expect(
+      nexusAttendeeToEventAttendee({
+        id: "0034ATT",
+        indexed_at: 0,
+        author: "alice",
+        uri: "pubky://alice/pub/pubky.app/attendee/0034ATT",
+        event: "0034EVENT",
+      }),
+    ).toEqual({
+      publicKey: "alice",
+      uri: "pubky://alice/pub/pubky.app/attendee/0034ATT",
+      rsvp: "NEEDS_ACTION",
+      role: undefined,
+      name: undefined,
+    });
+  });
+});
+
+describe("mergeOwnAttendee", () => {
+  const indexed = [
+    attendee("alice", "ACCEPTED"),
+    attendee("viewer", "ACCEPTED"),
+    attendee("bob", "DECLINED"),
+    attendee("alice", "TENTATIVE"),
+  ];
+
+  it("replaces the viewer's indexed RSVP with their own record", () => {
+    const merged = mergeOwnAttendee(
+      indexed,
+      "viewer",
+      attendee("viewer", "TENTATIVE"),
+    );
+    expect(merged.map((a) => [a.publicKey, a.rsvp])).toEqual([
+      ["viewer", "TENTATIVE"],
+      ["alice", "ACCEPTED"],
+      ["bob", "DECLINED"],
+    ]);
+  });
+
+  it("drops the viewer once their RSVP is withdrawn", () => {
+    const merged = mergeOwnAttendee(indexed, "viewer", null);
+    expect(merged.map((a) => a.publicKey)).toEqual(["alice", "bob"]);
+  });
+
+  it("keeps indexed RSVPs for anonymous viewers", () => {
+    const merged = mergeOwnAttendee(indexed, null, null);
+    expect(merged.map((a) => a.publicKey)).toEqual(["alice", "viewer", "bob"]);
+  });
+});
+
+describe("groupAttendeesByStatus", () => {
+  it("groups attendees by RSVP status", () => {
+    const groups = groupAttendeesByStatus([
+      attendee("alice", "ACCEPTED"),
+      attendee("bob", "DECLINED"),
+      attendee("carol", "ACCEPTED"),
+    ]);
+    expect(groups.ACCEPTED.map((a) => a.publicKey)).toEqual(["alice", "carol"]);
+    expect(groups.DECLINED).toHaveLength(1);
+    expect(groups.TENTATIVE).toHaveLength(0);
+  });
+
+  it("skips unknown statuses", () => {
+    const groups = groupAttendeesByStatus([
+      attendee("alice", "MAYBE" as EventAttendee["rsvp"]),
+    ]);
+    expect(Object.values(groups).flat()).toHaveLength(0);
+  });
+});
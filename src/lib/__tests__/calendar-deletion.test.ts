@@ -0,0 +1,85 @@
+import { getPlanSize, planCalendarDeletion } from "../calendar-deletion";
+import { readStoredRecord, type StoredRecord } from "../storage-references";
+
+const base = "pubky://user123/pub/pubky.app";
+const calendarUri = `${base}/calendar/CAL1`;
+const otherCalendarUri = `${base}/calendar/CAL2`;
+
+const records: StoredRecord[] = [
+  { uri: calendarUri, data: { name: "Team" } },
+  { uri: otherCalendarUri, data: { name: "Personal" } },
+  {
+    uri: `${base}/event/EVT1`,
+    data: {
+      summary: "Only here",
+      x_pubky_calendar_uris: [calendarUri],
+      image_uri: `${base}/files/F1`,
+    },
+  },
+  {
+    uri: `${base}/event/EVT2`,
+    data: {
+      summary: "In both",
+      x_pubky_calendar_uris: [calendarUri, otherCalendarUri],
+    },
+  },
+  {
+    uri: `${base}/event/EVT3`,
+    data: { summary: "Elsewhere", x_pubky_calendar_uris: [otherCalendarUri] },
+  },
+  {
+    uri: `${base}/files/F1`,
+    data: { src: `${base}/blobs/B1` },
+  },
+  { uri: `${base}/blobs/B1`, data: null },
+];
+
+describe("calendar-deletion", () => {
+  describe("planCalendarDeletion", () => {
+    it("should delete events only in the calendar and detach the rest", () => {
+      const plan = planCalendarDeletion(calendarUri, records, "delete");
+
+      expect(plan.deleteEvents).toEqual([`${base}/event/EVT1`]);
+      expect(plan.detachEvents).toEqual([
+        { uri: `${base}/event/EVT2`, calendarUris: [otherCalendarUri] },
+      ]);
+      expect(plan.files).toEqual([`${base}/files/F1`]);
+      expect(plan.blobs).toEqual([`${base}/blobs/B1`]);
+      expect(getPlanSize(plan)).toBe(5);
+    });
+
+    it("should keep every event and its image when detaching", () => {
+      const plan = planCalendarDeletion(calendarUri, records, "detach");
+
+      expect(plan.deleteEvents).toEqual([]);
+      expect(plan.detachEvents).toEqual([
+        { uri: `${base}/event/EVT1`, calendarUris: [] },
+        { uri: `${base}/event/EVT2`, calendarUris: [otherCalendarUri] },
+      ]);
+      expect(plan.files).toEqual([]);
+    });
+
+    it("should refuse to plan when a record could not be read", () => {
+      const unreadable = [
+        ...records,
+        { uri: `${base}/event/EVT4`, data: null, unreadable: true },
+      ];
+
+      expect(() => planCalendarDeletion(calendarUri, unreadable, "delete"))
+        .toThrow("1 records could not be read");
+    });
+
+    it("should refuse to plan when reading a record failed", async () => {
+      const failed = await readStoredRecord(
+        `${base}/posts/P1`,
+        async () => {
+          throw new Error("Homeserver unreachable");
+        },
+      );
+
+      expect(() =>
+        planCalendarDeletion(calendarUri, [...records, failed!], "delete")
+      ).toThrow("1 records could not be read");
+    });
+  });
+});
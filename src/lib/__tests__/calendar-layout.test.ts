@@ -0,0 +1,154 @@
+import {
+  addDaysInTimeZone,
+  formatDayKey,
+  getDayStart,
+  getViewDays,
+  isSpanningItem,
+  layoutSpanningItems,
+  layoutTimedItems,
+  moveItem,
+  resizeItem,
+  shiftAnchorDay,
+  toDayNumber,
+} from "../calendar-layout";
+
+const utc = (value: string) => new Date(`${value}Z`);
+const day = (value: string) => toDayNumber(utc(`${value}T12:00:00`), "UTC");
+const keys = (days: number[]) => days.map(formatDayKey);
+
+describe("calendar-layout", () => {
+  describe("getViewDays", () => {
+    it("should cover whole weeks of a month", () => {
+      const days = keys(getViewDays("month", day("2025-10-19")));
+      expect(days[0]).toBe("2025-09-29"); // Monday before Oct 1
+      expect(days[days.length - 1]).toBe("2025-11-02");
+      expect(days).toHaveLength(35);
+    });
+
+    it("should honour the first day of the week", () => {
+      expect(keys(getViewDays("week", day("2025-10-15"), 0))[0])
+        .toBe("2025-10-12");
+      expect(keys(getViewDays("week", day("2025-10-15"), 1))[0])
+        .toBe("2025-10-13");
+    });
+  });
+
+  describe("shiftAnchorDay", () => {
+    it("should clamp the day when moving between months", () => {
+      expect(formatDayKey(shiftAnchorDay("month", day("2025-01-31"), 1)))
+        .toBe("2025-02-28");
+      expect(formatDayKey(shiftAnchorDay("week", day("2025-01-31"), -1)))
+        .toBe("2025-01-24");
+    });
+  });
+
+  describe("timezones", () => {
+    it("should use local midnight of the display timezone", () => {
+      const instant = utc("2025-10-25T23:30:00"); // 01:30 on Oct 26 in Zurich
+      expect(formatDayKey(toDayNumber(instant, "Europe/Zurich")))
+        .toBe("2025-10-26");
+      // DST ends on Oct 26: the day is 25 hours long
+      const start = getDayStart(day("2025-10-26"), "Europe/Zurich");
+      const end = getDayStart(day("2025-10-27"), "Europe/Zurich");
+      expect(start.toISOString()).toBe("2025-10-25T22:00:00.000Z");
+      expect(end.getTime() - start.getTime()).toBe(25 * 60 * 60 * 1000);
+    });
+  });
+
+  describe("layoutTimedItems", () => {
+    it("should place overlapping items side by side", () => {
+      const items = [
+        { id: "a", start: utc("2025-10-20T09:00:00"), end: utc("2025-10-20T11:00:00") },
+        { id: "b", start: utc("2025-10-20T10:00:00"), end: utc("2025-10-20T12:00:00") },
+        { id: "c", start: utc("2025-10-20T11:00:00"), end: utc("2025-10-20T11:30:00") },
+        { id: "d", start: utc("2025-10-20T14:00:00"), end: utc("2025-10-20T15:00:00") },
+      ];
+
+      const layout = layoutTimedItems(items, day("2025-10-20"), "UTC");
+      expect(
+        layout.map((l) => [l.item.id, l.column, l.columns]),
+      ).toEqual([
+        ["a", 0, 2],
+        ["b", 1, 2],
+        ["c", 0, 2], // Reuses the column freed by "a"
+        ["d", 0, 1],
+      ]);
+      expect(layout[0].top).toBeCloseTo(9 / 24);
+      expect(layout[0].height).toBeCloseTo(2 / 24);
+    });
+  });
+
+  describe("layoutSpanningItems", () => {
+    it("should stack bars and clip them to the visible days", () => {
+      const days = getViewDays("week", day("2025-10-15"));
+      const items = [
+        { id: "trip", start: utc("2025-10-10T08:00:00"), end: utc("2025-10-14T18:00:00") },
+        { id: "conf", start: utc("2025-10-14T00:00:00"), end: utc("2025-10-16T00:00:00"), allDay: true },
+        { id: "fair", start: utc("2025-10-16T00:00:00"), end: utc("2025-10-17T00:00:00"), allDay: true },
+      ];
+
+      expect(
+        layoutSpanningItems(items, days, "UTC").map((l) => [
+          l.item.id,
+          l.startIndex,
+          l.span,
+          l.row,
+          l.continuesBefore,
+        ]),
+      ).toEqual([
+        ["trip", 0, 2, 0, true],
+        ["conf", 1, 2, 1, false],
+        ["fair", 3, 1, 0, false],
+      ]);
+    });
+
+    it("should treat items crossing midnight as spanning", () => {
+      expect(
+        isSpanningItem(
+          { start: utc("2025-10-20T22:00:00"), end: utc("2025-10-21T02:00:00") },
+          "UTC",
+        ),
+      ).toBe(true);
+      expect(
+        isSpanningItem(
+          { start: utc("2025-10-20T22:00:00"), end: utc("2025-10-21T00:00:00") },
+          "UTC",
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe("moveItem", () => {
+    it("should keep the wall clock time across a DST change", () => {
+      // Europe/Zurich switches to summer time on 2025-03-30
+      expect(
+        addDaysInTimeZone(utc("2025-03-29T08:00:00"), 1, "Europe/Zurich")
+          .toISOString(),
+      ).toBe("2025-03-30T07:00:00.000Z");
+    });
+
+    it("should move by days and minutes and keep the duration", () => {
+      const moved = moveItem(
+        { start: utc("2025-10-13T09:00:00"), end: utc("2025-10-13T10:30:00") },
+        2,
+        -30,
+        "UTC",
+      );
+      expect(moved.start.toISOString()).toBe("2025-10-15T08:30:00.000Z");
+      expect(moved.end.toISOString()).toBe("2025-10-15T10:00:00.000Z");
+    });
+  });
+
+  describe("resizeItem", () => {
+    it("should not shrink an item below the minimum duration", () => {
+      const item = {
+        start: utc("2025-10-13T09:00:00"),
+        end: utc("2025-10-13T10:00:00"),
+      };
+      expect(resizeItem(item, 30).end.toISOString())
+        .toBe("2025-10-13T10:30:00.000Z");
+      expect(resizeItem(item, -120).end.toISOString())
+        .toBe("2025-10-13T09:15:00.000Z");
+    });
+  });
+});
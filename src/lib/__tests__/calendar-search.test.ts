@@ -0,0 +1,52 @@
+import { matchesCalendarQuery, parseCalendarUriList } from "../calendar-search";
+import type { NexusCalendar } from "../nexus-types";
+
+const calendar = (overrides: Partial<NexusCalendar>): NexusCalendar => ({
+  id: "0033CAL",
+  indexed_at: 0,
+  author: "author",
+  uri: "pubky://author/pub/pubky.app/calendar/0033CAL",
+  ...overrides,
+});
+
+describe("calendar-search", () => {
+  describe("matchesCalendarQuery", () => {
+    const meetups = calendar({
+      name: "Bitcoin Meetups",
+      description: "Monthly gatherings in Zurich",
+    });
+
+    it("should match everything for an empty query", () => {
+      expect(matchesCalendarQuery(meetups, undefined)).toBe(true);
+      expect(matchesCalendarQuery(meetups, "   ")).toBe(true);
+    });
+
+    it("should match words from name and description case-insensitively", () => {
+      expect(matchesCalendarQuery(meetups, "bitcoin")).toBe(true);
+      expect(matchesCalendarQuery(meetups, "ZURICH meetups")).toBe(true);
+    });
+
+    it("should require every word to match", () => {
+      expect(matchesCalendarQuery(meetups, "bitcoin berlin")).toBe(false);
+    });
+
+    it("should handle calendars without name or description", () => {
+      expect(matchesCalendarQuery(calendar({}), "bitcoin")).toBe(false);
+    });
+  });
+
+  describe("parseCalendarUriList", () => {
+    const first = "pubky://alice/pub/pubky.app/calendar/0033A";
+    const second = "pubky://bob/pub/pubky.app/calendar/0033B";
+
+    it("should split on commas and whitespace and keep order", () => {
+      expect(parseCalendarUriList(`${second}, ${first}\n${second}`))
+        .toEqual([second, first]);
+    });
+
+    it("should drop invalid entries", () => {
+      expect(parseCalendarUriList(`not-a-uri,${first}`)).toEqual([first]);
+      expect(parseCalendarUriList(undefined)).toEqual([]);
+    });
+  });
+});
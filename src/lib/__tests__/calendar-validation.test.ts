@@ -1,6 +1,7 @@
 import {
   validateCalendarForm,
   validateEventForm,
+  validatePollForm,
   generateEventUid,
   dateToMicroseconds,
   microsecondsToDate,
@@ -97,6 +98,75 @@ describe("calendar-validation", () => {
       expect(result.isValid).toBe(false);
       expect(result.errors.dtend).toBeDefined();
     });
+
+    it("should validate recurrence rules", () => {
+      const dtstart = new Date("2025-10-23T10:00:00");
+
+      expect(
+        validateEventForm({ summary: "Test", dtstart, rrule: "FREQ=WEEKLY" })
+          .isValid,
+      ).toBe(true);
+
+      const malformed = validateEventForm({
+        summary: "Test",
+        dtstart,
+        rrule: "FREQ=WEEKLY;BYDAY=XX",
+      });
+      expect(malformed.errors.rrule).toBeDefined();
+
+      const impossible = validateEventForm({
+        summary: "Test",
+        dtstart,
+        rrule: "FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=31",
+      });
+      expect(impossible.errors.rrule).toMatch(/never/);
+    });
+  });
+
+  describe("validatePollForm", () => {
+    const slot = (hour: number) => ({
+      start: new Date(Date.UTC(2025, 9, 20, hour)),
+      end: new Date(Date.UTC(2025, 9, 20, hour + 1)),
+    });
+    const validPoll = {
+      summary: "Community call",
+      calendarUri: "pubky://user123/pub/pubky.app/calendar/CAL1",
+      slots: [slot(9), slot(14)],
+      invitees: ["invitee123"],
+    };
+
+    it("should validate a correct poll", () => {
+      expect(validatePollForm(validPoll).isValid).toBe(true);
+    });
+
+    it("should require a title, a calendar and an invitee", () => {
+      const result = validatePollForm({
+        ...validPoll,
+        summary: " ",
+        calendarUri: "",
+        invitees: [],
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.summary).toBeDefined();
+      expect(result.errors.calendarUri).toBeDefined();
+      expect(result.errors.invitees).toBeDefined();
+    });
+
+    it("should reject too few, empty or duplicate times", () => {
+      expect(validatePollForm({ ...validPoll, slots: [slot(9)] }).errors.slots)
+        .toBeDefined();
+      expect(
+        validatePollForm({
+          ...validPoll,
+          slots: [slot(9), { start: slot(14).start, end: slot(14).start }],
+        }).errors.slots,
+      ).toBeDefined();
+      expect(
+        validatePollForm({ ...validPoll, slots: [slot(9), slot(9)] }).errors
+          .slots,
+      ).toBeDefined();
+    });
   });
 
   describe("generateEventUid", () => {
@@ -0,0 +1,119 @@
+import {
+  dedupeEventRecords,
+  getCalendarWriters,
+  listAllPages,
+  mapWithConcurrency,
+} from "../event-aggregation";
+import type { PubkyAppEventData, PubkyAppEventRecord } from "@/types/calendar";
+
+const record = (
+  uri: string,
+  overrides: Partial<PubkyAppEventData> = {},
+): PubkyAppEventRecord => ({
+  uri,
+  data: {
+    uid: "meetup@example.com",
+    dtstamp: 1000,
+    dtstart: 2000,
+    summary: "Meetup",
+    recurrence_id: null,
+    ...overrides,
+  } as PubkyAppEventData,
+});
+
+describe("event-aggregation", () => {
+  describe("getCalendarWriters", () => {
+    it("should list the owner first and each admin once", () => {
+      expect(
+        getCalendarWriters("owner", {
+          x_pubky_admins: ["pubky://owner", "pubky://admin", "admin"],
+        }),
+      ).toEqual(["owner", "admin"]);
+      expect(getCalendarWriters("owner", {})).toEqual(["owner"]);
+    });
+  });
+
+  describe("dedupeEventRecords", () => {
+    it("should keep the copy modified last", () => {
+      const records = dedupeEventRecords([
+        record("pubky://owner/pub/pubky.app/event/A"),
+        record("pubky://admin/pub/pubky.app/event/B", { dtstamp: 3000 }),
+        record("pubky://admin/pub/pubky.app/event/C", { uid: "other" }),
+      ]);
+
+      expect(records.map((item) => item.uri)).toEqual([
+        "pubky://admin/pub/pubky.app/event/B",
+        "pubky://admin/pub/pubky.app/event/C",
+      ]);
+    });
+
+    it("should keep overrides next to their series", () => {
+      const records = dedupeEventRecords([
+        record("pubky://owner/pub/pubky.app/event/master"),
+        record("pubky://owner/pub/pubky.app/event/override", {
+          recurrence_id: 5000,
+        }),
+      ]);
+
+      expect(records).toHaveLength(2);
+    });
+  });
+
+  describe("mapWithConcurrency", () => {
+    it("should keep order and limit calls in flight", async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      const results = await mapWithConcurrency(
+        [30, 10, 20, 0, 5],
+        2,
+        async (delay) => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          inFlight--;
+          return delay * 2;
+        },
+      );
+
+      expect(results).toEqual([60, 20, 40, 0, 10]);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it("should handle an empty list", async () => {
+      await expect(mapWithConcurrency([], 4, async (item) => item))
+        .resolves.toEqual([]);
+    });
+  });
+
+  describe("listAllPages", () => {
+    const entries = ["a", "b", "c", "d", "e"];
+    const listPage = async (cursor: string | undefined) => {
+      const start = cursor ? entries.indexOf(cursor) + 1 : 0;
+      return entries.slice(start, start + 2);
+    };
+
+    it("should continue after each full page", async () => {
+      const pages: string[][] = [];
+
+      await listAllPages(listPage, 2, async (page) => {
+        pages.push(page);
+      });
+
+      expect(pages).toEqual([["a", "b"], ["c", "d"], ["e"]]);
+    });
+
+    it("should reject when a page cannot be listed", async () => {
+      const pages: string[][] = [];
+      const failing = async (cursor: string | undefined) => {
+        if (cursor) throw new Error("Homeserver unreachable");
+        return listPage(cursor);
+      };
+
+      await expect(listAllPages(failing, 2, async (page) => {
+        pages.push(page);
+      })).rejects.toThrow("Homeserver unreachable");
+      expect(pages).toEqual([["a", "b"]]);
+    });
+  });
+});
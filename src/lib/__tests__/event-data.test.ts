@@ -0,0 +1,106 @@
+import {
+  eventDataToFormData,
+  formatEventDateValue,
+  getEventTimingUri,
+  toEventTimingData,
+  withEventTiming,
+} from "../event-data";
+import type { PubkyAppEventData } from "@/types/calendar";
+
+describe("event-data", () => {
+  describe("eventDataToFormData", () => {
+    const event: PubkyAppEventData = {
+      uid: "pubky://author/pub/pubky.app/event/0034ABC",
+      dtstamp: Date.UTC(2025, 0, 1) * 1000,
+      dtstart: Date.UTC(2025, 0, 6, 18) * 1000,
+      dtend: Date.UTC(2025, 0, 6, 20) * 1000,
+      summary: "Meetup",
+      status: "TENTATIVE",
+      organizer: JSON.stringify({ uri: "pubky://author", name: "Alice" }),
+      categories: ["bitcoin"],
+      created: Date.UTC(2024, 11, 1) * 1000,
+      rrule: "FREQ=WEEKLY",
+      exdate: ["20250113T180000Z"],
+      image_uri: "pubky://author/pub/pubky.app/files/0034XYZ",
+      conference: JSON.stringify({ uri: "https://meet.example", label: "Call" }),
+      structured_location: JSON.stringify({ name: "Café", uri: "geo:47,8" }),
+      styled_description: JSON.stringify({
+        fmttype: "text/markdown",
+        value: "**Bring** snacks",
+      }),
+      x_pubky_calendar_uris: ["pubky://author/pub/pubky.app/calendar/0033"],
+    };
+
+    it("should parse the JSON fields back into form values", () => {
+      const form = eventDataToFormData(event);
+
+      expect(form).toMatchObject({
+        summary: "Meetup",
+        status: "TENTATIVE",
+        categories: ["bitcoin"],
+        organizer: { uri: "pubky://author", name: "Alice" },
+        conferenceUri: "https://meet.example",
+        conferenceLabel: "Call",
+        structuredLocation: { name: "Café", uri: "geo:47,8" },
+        description: "**Bring** snacks",
+        descriptionFormat: "text/markdown",
+        imageUri: event.image_uri,
+        calendarUri: "pubky://author/pub/pubky.app/calendar/0033",
+        uid: event.uid,
+        rrule: "FREQ=WEEKLY",
+      });
+      expect(form.dtstart.toISOString()).toBe("2025-01-06T18:00:00.000Z");
+      expect(form.dtend?.toISOString()).toBe("2025-01-06T20:00:00.000Z");
+      expect(form.exdate?.map(formatEventDateValue)).toEqual(event.exdate);
+    });
+
+    it("should tolerate missing and malformed optional fields", () => {
+      const form = eventDataToFormData({
+        ...event,
+        dtend: null,
+        organizer: "not json",
+        styled_description: null,
+        exdate: null,
+      });
+
+      expect(form.dtend).toBeUndefined();
+      expect(form.organizer).toBeUndefined();
+      expect(form.description).toBeUndefined();
+      expect(form.exdate).toBeUndefined();
+    });
+  });
+
+  describe("event timing records", () => {
+    const eventUri = "pubky://author/pub/pubky.app/event/0034ABC";
+    const event: PubkyAppEventData = {
+      uid: eventUri,
+      dtstamp: 0,
+      dtstart: Date.UTC(2025, 0, 6) * 1000,
+      summary: "Holiday",
+      tzid: "Europe/Zurich",
+    };
+
+    it("should store the timing under the event's ID", () => {
+      expect(getEventTimingUri(eventUri))
+        .toBe("pubky://author/pub/pubky.app/event_timing/0034ABC");
+      expect(getEventTimingUri("pubky://author/pub/pubky.app/calendar/0033"))
+        .toBeNull();
+    });
+
+    it("should override timing fields kept in older event JSON", () => {
+      const timing = toEventTimingData(eventUri, {
+        all_day: true,
+        transp: "TRANSPARENT",
+      });
+
+      expect(withEventTiming(event, timing)).toMatchObject({
+        summary: "Holiday",
+        tzid: null,
+        all_day: true,
+        floating: false,
+        transp: "TRANSPARENT",
+      });
+      expect(withEventTiming(event, null)).toBe(event);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  DEFAULT_RADIUS_KM,
+  getDistanceKm,
+  matchesEventFilters,
+  parseEventFilters,
+  serializeEventFilters,
+  toStreamEventsParams,
+} from "../event-filters";
+import type { NexusEvent } from "../nexus-types";
+
+const event = (overrides: Partial<NexusEvent>): NexusEvent => ({
+  id: "0034EVENT",
+  indexed_at: 0,
+  author: "author",
+  uri: "pubky://author/pub/pubky.app/event/0034EVENT",
+  calendar: "0033CAL",
+  start_date: 0,
+  end_date: 0,
+  ...overrides,
+});
+
+describe("event-filters", () => {
+  describe("parseEventFilters / serializeEventFilters", () => {
+    it("should round-trip filters through the query string", () => {
+      const query =
+        "q=bitcoin+meetup&from=2025-10-01&to=2025-10-31&tags=btc%2Cdev&status=CONFIRMED&near=Z%C3%BCrich&lat=47.37&lon=8.54&radius=10";
+      const filters = parseEventFilters(new URLSearchParams(query));
+
+      expect(filters).toEqual({
+        query: "bitcoin meetup",
+        from: "2025-10-01",
+        to: "2025-10-31",
+        tags: ["btc", "dev"],
+        status: "CONFIRMED",
+        location: { name: "Zürich", lat: 47.37, lon: 8.54, radiusKm: 10 },
+      });
+      expect(serializeEventFilters(filters).toString()).toBe(query);
+    });
+
+    it("should drop invalid values", () => {
+      const filters = parseEventFilters(
+        new URLSearchParams("from=yesterday&status=DONE&lat=91&lon=8&tags=,"),
+      );
+
+      expect(filters).toEqual({
+        from: undefined,
+        to: undefined,
+        tags: [],
+        status: undefined,
+        location: undefined,
+        query: undefined,
+      });
+      expect(
+        parseEventFilters(new URLSearchParams("lat=1&lon=2")).location?.radiusKm,
+      ).toBe(DEFAULT_RADIUS_KM);
+    });
+  });
+
+  describe("toStreamEventsParams", () => {
+    it("should cover whole days in the timezone", () => {
+      const params = toStreamEventsParams(
+        { from: "2025-10-01", to: "2025-10-31", tags: ["btc"] },
+        "Europe/Zurich",
+      );
+
+      expect(new Date(params.start_date!).toISOString())
+        .toBe("2025-09-30T22:00:00.000Z");
+      expect(new Date(params.end_date!).toISOString())
+        .toBe("2025-10-31T23:00:00.000Z"); // Back on winter time
+      expect(params.tags).toBe("btc");
+      expect(params.location).toBeUndefined();
+    });
+  });
+
+  describe("matchesEventFilters", () => {
+    it("should match all free text terms", () => {
+      const meetup = event({
+        summary: "Bitcoin Meetup",
+        location: { name: "Café Central" },
+      });
+
+      expect(matchesEventFilters(meetup, { tags: [], query: "bitcoin café" }))
+        .toBe(true);
+      expect(matchesEventFilters(meetup, { tags: [], query: "bitcoin bern" }))
+        .toBe(false);
+    });
+
+    it("should only match events within the radius", () => {
+      const location = { name: "Zürich", lat: 47.3769, lon: 8.5417, radiusKm: 50 };
+
+      expect(
+        matchesEventFilters(
+          event({ location: { uri: "geo:47.5596,7.5886" } }), // Basel
+          { tags: [], location },
+        ),
+      ).toBe(false);
+      expect(
+        matchesEventFilters(
+          event({ location: { lat: 47.4979, lon: 8.7241 } }), // Winterthur
+          { tags: [], location },
+        ),
+      ).toBe(true);
+      expect(matchesEventFilters(event({}), { tags: [], location })).toBe(false);
+    });
+
+    it("should measure great-circle distances", () => {
+      expect(
+        getDistanceKm({ lat: 47.3769, lon: 8.5417 }, { lat: 46.948, lon: 7.4474 }),
+      ).toBeCloseTo(95.5, 0);
+    });
+  });
+});
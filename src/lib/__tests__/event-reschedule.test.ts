@@ -0,0 +1,114 @@
+import {
+  rescheduleEventRecords,
+  rescheduleIndexedEvents,
+} from "../event-reschedule";
+import type { NexusEvent } from "../nexus-types";
+import type { PubkyAppEventData, PubkyAppEventRecord } from "@/types/calendar";
+
+const HOUR = 60 * 60 * 1000;
+const at = (value: string) => new Date(`${value}Z`);
+const micros = (value: string) => at(value).getTime() * 1000;
+
+const MASTER_URI = "pubky://author/pub/pubky.app/event/0034MASTER";
+
+const masterData: PubkyAppEventData = {
+  uid: MASTER_URI,
+  dtstamp: micros("2025-01-01T00:00:00"),
+  dtstart: micros("2025-01-06T18:00:00"),
+  dtend: micros("2025-01-06T20:00:00"),
+  summary: "Meetup",
+  rrule: "FREQ=WEEKLY",
+  exdate: ["20250113T180000Z"],
+};
+
+const master: PubkyAppEventRecord = { uri: MASTER_URI, data: masterData };
+
+describe("event-reschedule", () => {
+  describe("rescheduleIndexedEvents", () => {
+    it("should move a single event and shift a master for whole series", () => {
+      const events = [
+        { uri: "pubky://author/pub/pubky.app/event/0034ONE", start_date: 0, end_date: HOUR },
+        { uri: MASTER_URI, start_date: at("2025-01-06T18:00:00").getTime(), end_date: 0 },
+      ] as NexusEvent[];
+
+      const [single] = rescheduleIndexedEvents(events, {
+        eventUri: events[0].uri,
+        start: new Date(2 * HOUR),
+        end: new Date(4 * HOUR),
+      });
+      expect([single.start_date, single.end_date]).toEqual([2 * HOUR, 4 * HOUR]);
+
+      const [, series] = rescheduleIndexedEvents(events, {
+        eventUri: MASTER_URI,
+        start: at("2025-01-20T19:00:00"),
+        end: at("2025-01-20T20:00:00"),
+        occurrence: {
+          masterUri: MASTER_URI,
+          originalStart: at("2025-01-20T18:00:00"),
+          scope: "all",
+        },
+      });
+      expect(new Date(series.start_date).toISOString())
+        .toBe("2025-01-06T19:00:00.000Z");
+      expect(series.end_date - series.start_date).toBe(HOUR);
+    });
+  });
+
+  describe("rescheduleEventRecords", () => {
+    it("should add an override when a single occurrence moves", () => {
+      const records = rescheduleEventRecords([master], {
+        eventUri: MASTER_URI,
+        start: at("2025-01-20T19:00:00"),
+        end: at("2025-01-20T21:00:00"),
+        occurrence: {
+          masterUri: MASTER_URI,
+          originalStart: at("2025-01-20T18:00:00"),
+          scope: "this",
+        },
+      });
+
+      expect(records).toHaveLength(2);
+      expect(records[0]).toBe(master);
+      expect(records[1].data).toMatchObject({
+        uid: MASTER_URI,
+        recurrence_id: micros("2025-01-20T18:00:00"),
+        dtstart: micros("2025-01-20T19:00:00"),
+        rrule: null,
+      });
+    });
+
+    it("should shift the master, exclusions and overrides for the series", () => {
+      const override: PubkyAppEventRecord = {
+        uri: "pubky://author/pub/pubky.app/event/0034OVERRIDE",
+        data: {
+          ...masterData,
+          rrule: null,
+          exdate: null,
+          recurrence_id: micros("2025-01-27T18:00:00"),
+          dtstart: micros("2025-01-27T17:00:00"),
+        },
+      };
+
+      const [movedMaster, movedOverride] = rescheduleEventRecords(
+        [master, override],
+        {
+          eventUri: MASTER_URI,
+          start: at("2025-01-20T19:00:00"),
+          end: at("2025-01-20T21:00:00"),
+          occurrence: {
+            masterUri: MASTER_URI,
+            originalStart: at("2025-01-20T18:00:00"),
+            scope: "all",
+          },
+        },
+      );
+
+      expect(movedMaster.data.dtstart).toBe(micros("2025-01-06T19:00:00"));
+      expect(movedMaster.data.dtend).toBe(micros("2025-01-06T21:00:00"));
+      expect(movedMaster.data.exdate).toEqual(["20250113T190000Z"]);
+      expect(movedOverride.data.recurrence_id)
+        .toBe(micros("2025-01-27T19:00:00"));
+      expect(movedOverride.data.dtstart).toBe(override.data.dtstart);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  addDaysToWallClock,
+  eventWallClockToDate,
+  formatEventTimeRange,
+  formatWallClockInput,
+  fromViewerDate,
+  getEventTimeZone,
+  getEventTiming,
+  getEventWallClock,
+  parseWallClockInput,
+  toViewerDate,
+} from "../event-time";
+
+const zurich = { allDay: false, floating: false, timeZone: "Europe/Zurich" };
+const floating = { allDay: false, floating: true, timeZone: null };
+const allDay = { allDay: true, floating: false, timeZone: null };
+
+describe("event-time", () => {
+  describe("getEventTiming", () => {
+    it("should prefer the event's zone over the fallback", () => {
+      expect(getEventTiming({ tzid: "Asia/Tokyo" }, "Europe/Zurich"))
+        .toEqual({ allDay: false, floating: false, timeZone: "Asia/Tokyo" });
+      expect(getEventTiming({}, "Europe/Zurich").timeZone).toBe(
+        "Europe/Zurich",
+      );
+      expect(getEventTiming({ tzid: "Not/AZone" }).timeZone).toBeNull();
+    });
+
+    it("should drop the zone of all-day and floating events", () => {
+      expect(getEventTiming({ all_day: true, floating: true }, "UTC"))
+        .toEqual(allDay);
+      expect(getEventTiming({ floating: true, tzid: "Asia/Tokyo" }))
+        .toEqual(floating);
+    });
+  });
+
+  describe("getEventTimeZone", () => {
+    it("should evaluate all-day and floating events in UTC", () => {
+      expect(getEventTimeZone({ all_day: true }, "Europe/Zurich")).toBe("UTC");
+      expect(getEventTimeZone({ floating: true }, "Europe/Zurich")).toBe("UTC");
+      expect(getEventTimeZone({ tzid: "Asia/Tokyo" }, "Europe/Zurich")).toBe(
+        "Asia/Tokyo",
+      );
+    });
+  });
+
+  describe("wall-clock conversion", () => {
+    const wall = {
+      year: 2025,
+      month: 10,
+      day: 23,
+      hour: 19,
+      minute: 30,
+      second: 0,
+    };
+
+    it("should read zoned times in the event's zone", () => {
+      const date = eventWallClockToDate(wall, zurich, "Asia/Tokyo");
+      expect(date.toISOString()).toBe("2025-10-23T17:30:00.000Z");
+      expect(getEventWallClock(date, zurich, "Asia/Tokyo")).toEqual(wall);
+    });
+
+    it("should store floating times as UTC wall clock", () => {
+      const date = eventWallClockToDate(wall, floating, "Asia/Tokyo");
+      expect(date.toISOString()).toBe("2025-10-23T19:30:00.000Z");
+    });
+
+    it("should store all-day times at UTC midnight", () => {
+      const date = eventWallClockToDate(wall, allDay, "Asia/Tokyo");
+      expect(date.toISOString()).toBe("2025-10-23T00:00:00.000Z");
+    });
+
+    it("should move wall-clock times across month ends", () => {
+      expect(addDaysToWallClock({ ...wall, day: 31 }, 1)).toMatchObject({
+        month: 11,
+        day: 1,
+        hour: 19,
+      });
+    });
+  });
+
+  describe("viewer dates", () => {
+    const stored = new Date("2025-10-23T19:30:00.000Z");
+
+    it("should place floating times at the viewer's wall clock", () => {
+      const viewer = toViewerDate(stored, floating, "America/New_York");
+      expect(viewer.toISOString()).toBe("2025-10-23T23:30:00.000Z");
+      expect(fromViewerDate(viewer, floating, "America/New_York")).toEqual(
+        stored,
+      );
+    });
+
+    it("should keep zoned instants", () => {
+      expect(toViewerDate(stored, zurich, "America/New_York")).toBe(stored);
+    });
+  });
+
+  describe("inputs", () => {
+    it("should format and parse date and datetime-local values", () => {
+      const wall = parseWallClockInput("2025-10-23T07:05");
+      expect(wall).toEqual({
+        year: 2025,
+        month: 10,
+        day: 23,
+        hour: 7,
+        minute: 5,
+        second: 0,
+      });
+      expect(formatWallClockInput(wall!)).toBe("2025-10-23T07:05");
+      expect(formatWallClockInput(wall!, true)).toBe("2025-10-23");
+      expect(parseWallClockInput("2025-10")).toBeNull();
+    });
+  });
+
+  describe("formatEventTimeRange", () => {
+    const start = new Date("2025-10-23T17:00:00.000Z");
+
+    it("should add the viewer's time when offsets differ", () => {
+      const range = formatEventTimeRange(
+        start,
+        null,
+        zurich,
+        "America/New_York",
+        "en-US",
+      );
+      expect(range.event).toContain("7:00");
+      expect(range.viewer).toContain("1:00");
+    });
+
+    it("should omit the viewer's time in the same offset", () => {
+      expect(
+        formatEventTimeRange(start, null, zurich, "Europe/Berlin", "en-US")
+          .viewer,
+      ).toBeNull();
+    });
+
+    it("should show the inclusive last day of all-day events", () => {
+      const range = formatEventTimeRange(
+        new Date("2025-10-23T00:00:00.000Z"),
+        new Date("2025-10-25T00:00:00.000Z"),
+        allDay,
+        "America/New_York",
+        "en-US",
+      );
+      expect(range.event).toContain("October 23");
+      expect(range.event).toContain("October 24");
+      expect(range.event).not.toContain("October 25");
+      expect(range.event).toContain("(all day)");
+      expect(range.viewer).toBeNull();
+    });
+  });
+});
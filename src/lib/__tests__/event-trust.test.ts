@@ -0,0 +1,132 @@
+import {
+  getApprovers,
+  getCalendarRole,
+  getCalendarTrust,
+  isTrustedAuthor,
+  partitionEventsByTrust,
+  updateRemovedAdmins,
+} from "../event-trust";
+import type { NexusEvent } from "../nexus-types";
+
+const REMOVED_AT = Date.UTC(2025, 5, 1);
+
+const trust = getCalendarTrust(
+  "owner",
+  ["pubky://owner", "pubky://admin", "pubky://moderator"],
+  {
+    removed: [{ pubky: "pubky://former", removed_at: REMOVED_AT * 1000 }],
+    roles: { moderator: "moderator" },
+  },
+  ["pubky://stranger/pub/pubky.app/event/approved"],
+);
+
+const event = (
+  id: string,
+  author: string,
+  created = Date.UTC(2025, 0, 1),
+): NexusEvent => ({
+  id,
+  indexed_at: created,
+  author,
+  uri: `pubky://${author}/pub/pubky.app/event/${id}`,
+  calendar: "0033",
+  start_date: 0,
+  end_date: 0,
+  created,
+});
+
+describe("event-trust", () => {
+  describe("isTrustedAuthor", () => {
+    it("should trust the owner and current admins only", () => {
+      expect(isTrustedAuthor(trust, "owner", undefined, "hide")).toBe(true);
+      expect(isTrustedAuthor(trust, "admin", undefined, "hide")).toBe(true);
+      expect(isTrustedAuthor(trust, "stranger", 0, "keep-earlier"))
+        .toBe(false);
+    });
+
+    it("should apply the removed admin policy", () => {
+      const before = REMOVED_AT - 1;
+      const after = REMOVED_AT + 1;
+
+      expect(isTrustedAuthor(trust, "former", before, "hide")).toBe(false);
+      expect(isTrustedAuthor(trust, "former", before, "keep-earlier"))
+        .toBe(true);
+      expect(isTrustedAuthor(trust, "former", after, "keep-earlier"))
+        .toBe(false);
+    });
+  });
+
+  describe("partitionEventsByTrust", () => {
+    it("should move outside submissions to pending", () => {
+      const { trusted, pending } = partitionEventsByTrust(
+        [
+          event("a", "owner"),
+          event("b", "stranger"),
+          event("c", "admin"),
+          event("d", "former"),
+          event("approved", "stranger"),
+        ],
+        trust,
+        "keep-earlier",
+      );
+
+      expect(trusted.map((item) => item.id))
+        .toEqual(["a", "c", "d", "approved"]);
+      expect(pending.map((item) => item.id)).toEqual(["b"]);
+    });
+
+    it("should judge removed admins by when their events were indexed", () => {
+      const backdated = {
+        ...event("late", "former", REMOVED_AT - 1000),
+        indexed_at: REMOVED_AT + 1000,
+      };
+
+      const { trusted, pending } = partitionEventsByTrust(
+        [backdated],
+        trust,
+        "keep-earlier",
+      );
+
+      expect(trusted).toEqual([]);
+      expect(pending.map((item) => item.id)).toEqual(["late"]);
+    });
+  });
+
+  describe("getCalendarRole", () => {
+    it("should tell owner, editors and moderators apart", () => {
+      expect(getCalendarRole(trust, "owner")).toBe("owner");
+      expect(getCalendarRole(trust, "admin")).toBe("editor");
+      expect(getCalendarRole(trust, "moderator")).toBe("moderator");
+      expect(getCalendarRole(trust, "former")).toBeNull();
+      expect(getCalendarRole(trust, null)).toBeNull();
+    });
+
+    it("should only count approvals of the owner and moderators", () => {
+      expect(getApprovers(trust)).toEqual(["owner", "moderator"]);
+    });
+  });
+
+  describe("updateRemovedAdmins", () => {
+    it("should record removed admins and forget re-added ones", () => {
+      const removed = updateRemovedAdmins(
+        [{ pubky: "former", removed_at: 1 }],
+        ["pubky://owner", "pubky://admin"],
+        ["pubky://owner", "pubky://former"],
+        5,
+      );
+
+      expect(removed).toEqual([{ pubky: "admin", removed_at: 5 }]);
+    });
+
+    it("should keep the first removal time of admins still removed", () => {
+      expect(
+        updateRemovedAdmins(
+          [{ pubky: "former", removed_at: 1 }],
+          ["former"],
+          [],
+          5,
+        ),
+      ).toEqual([{ pubky: "former", removed_at: 1 }]);
+    });
+  });
+});
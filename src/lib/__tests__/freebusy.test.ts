@@ -0,0 +1,142 @@
+import {
+  type FreeBusyPeriod,
+  getBusyPeriods,
+  getCommonFreePeriods,
+  getEventBusyType,
+  mergeFreeBusyPeriods,
+} from "../freebusy";
+import type { PubkyAppEventData } from "@/types/calendar";
+
+const at = (iso: string) => new Date(iso);
+
+function event(overrides: Partial<PubkyAppEventData>): PubkyAppEventData {
+  return {
+    uid: "pubky://user123/pub/pubky.app/event/EVT1",
+    dtstamp: Date.UTC(2025, 9, 1) * 1000,
+    dtstart: Date.UTC(2025, 9, 20, 9) * 1000,
+    dtend: Date.UTC(2025, 9, 20, 10) * 1000,
+    summary: "Standup",
+    status: "CONFIRMED",
+    ...overrides,
+  };
+}
+
+function period(
+  start: string,
+  end: string,
+  type: FreeBusyPeriod["type"] = "BUSY",
+): FreeBusyPeriod {
+  return { start: at(start), end: at(end), type };
+}
+
+const rangeStart = at("2025-10-20T00:00:00Z");
+const rangeEnd = at("2025-10-27T00:00:00Z");
+const options = { timeZone: "UTC", userTimeZone: "Europe/Zurich" };
+
+describe("freebusy", () => {
+  describe("getEventBusyType", () => {
+    it("should leave transparent and cancelled events free", () => {
+      expect(getEventBusyType({ transp: "TRANSPARENT" })).toBeNull();
+      expect(getEventBusyType({ status: "CANCELLED" })).toBeNull();
+      expect(getEventBusyType({ status: "TENTATIVE" })).toBe("BUSY-TENTATIVE");
+      expect(getEventBusyType({ status: "CONFIRMED" })).toBe("BUSY");
+      expect(getEventBusyType({})).toBe("BUSY");
+    });
+  });
+
+  describe("getBusyPeriods", () => {
+    it("should expand recurring events and skip cancelled overrides", () => {
+      const series = event({ rrule: "FREQ=DAILY;COUNT=3" });
+      const cancelled = event({
+        recurrence_id: Date.UTC(2025, 9, 21, 9) * 1000,
+        dtstart: Date.UTC(2025, 9, 21, 9) * 1000,
+        dtend: Date.UTC(2025, 9, 21, 10) * 1000,
+        status: "CANCELLED",
+      });
+
+      const periods = getBusyPeriods(
+        [series, cancelled],
+        rangeStart,
+        rangeEnd,
+        options,
+      );
+      expect(periods.map((p) => p.start.toISOString())).toEqual([
+        "2025-10-20T09:00:00.000Z",
+        "2025-10-22T09:00:00.000Z",
+      ]);
+    });
+
+    it("should place all-day and floating events in the user's zone", () => {
+      const periods = getBusyPeriods([
+        event({
+          all_day: true,
+          dtstart: Date.UTC(2025, 9, 21) * 1000,
+          dtend: null,
+        }),
+        event({ floating: true }),
+      ], rangeStart, rangeEnd, options);
+
+      expect(periods).toContainEqual(
+        period("2025-10-20T22:00:00Z", "2025-10-21T22:00:00Z"),
+      );
+      expect(periods).toContainEqual(
+        period("2025-10-20T07:00:00Z", "2025-10-20T08:00:00Z"),
+      );
+    });
+
+    it("should clip periods to the range", () => {
+      const periods = getBusyPeriods([
+        event({
+          dtstart: Date.UTC(2025, 9, 19, 22) * 1000,
+          dtend: Date.UTC(2025, 9, 20, 2) * 1000,
+        }),
+      ], rangeStart, rangeEnd, options);
+
+      expect(periods).toEqual([
+        period("2025-10-20T00:00:00Z", "2025-10-20T02:00:00Z"),
+      ]);
+    });
+
+    it("should ignore events without duration", () => {
+      expect(
+        getBusyPeriods([event({ dtend: null })], rangeStart, rangeEnd, options),
+      ).toEqual([]);
+    });
+  });
+
+  describe("mergeFreeBusyPeriods", () => {
+    it("should merge overlaps and let busy time win over tentative", () => {
+      expect(mergeFreeBusyPeriods([
+        period("2025-10-20T09:00:00Z", "2025-10-20T10:00:00Z"),
+        period("2025-10-20T09:30:00Z", "2025-10-20T11:00:00Z"),
+        period("2025-10-20T10:30:00Z", "2025-10-20T12:00:00Z", "BUSY-TENTATIVE"),
+      ])).toEqual([
+        period("2025-10-20T09:00:00Z", "2025-10-20T11:00:00Z"),
+        period("2025-10-20T11:00:00Z", "2025-10-20T12:00:00Z", "BUSY-TENTATIVE"),
+      ]);
+    });
+  });
+
+  describe("getCommonFreePeriods", () => {
+    it("should find the time everyone is free", () => {
+      expect(getCommonFreePeriods(
+        [
+          [period("2025-10-20T09:00:00Z", "2025-10-20T10:00:00Z")],
+          [
+            period(
+              "2025-10-20T12:00:00Z",
+              "2025-10-20T13:00:00Z",
+              "BUSY-TENTATIVE",
+            ),
+          ],
+        ],
+        at("2025-10-20T08:00:00Z"),
+        at("2025-10-20T14:00:00Z"),
+      )).toEqual([
+        { start: at("2025-10-20T08:00:00Z"), end: at("2025-10-20T09:00:00Z") },
+        { start: at("2025-10-20T10:00:00Z"), end: at("2025-10-20T12:00:00Z") },
+        { start: at("2025-10-20T13:00:00Z"), end: at("2025-10-20T14:00:00Z") },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import {
+  calendarDataToNexusCalendar,
+  eventDataToNexusEvent,
+  filterEventStream,
+  pageCalendarStream,
+} from "../homeserver-index";
+import { nexusEventToEventData } from "../event-data";
+import type { NexusCalendar, NexusEvent } from "../nexus-types";
+import type { PubkyAppEventData } from "@/types/calendar";
+
+const calendarUri = "pubky://author/pub/pubky.app/calendar/0033";
+
+const indexedEvent = (
+  id: string,
+  overrides: Partial<NexusEvent> = {},
+): NexusEvent => ({
+  id,
+  indexed_at: 0,
+  author: "author",
+  uri: `pubky://author/pub/pubky.app/event/${id}`,
+  calendar: "0033",
+  start_date: Date.UTC(2025, 0, 6, 18),
+  end_date: Date.UTC(2025, 0, 6, 20),
+  ...overrides,
+});
+
+describe("homeserver-index", () => {
+  describe("calendarDataToNexusCalendar", () => {
+    it("should use milliseconds and bare admin keys", () => {
+      expect(
+        calendarDataToNexusCalendar(calendarUri, {
+          name: "Meetups",
+          color: "#ff0000",
+          timezone: "Europe/Zurich",
+          x_pubky_admins: ["pubky://author", "pubky://admin"],
+          created: Date.UTC(2025, 0, 1) * 1000,
+        }),
+      ).toMatchObject({
+        id: "0033",
+        author: "author",
+        uri: calendarUri,
+        name: "Meetups",
+        color: "#ff0000",
+        timezone: "Europe/Zurich",
+        x_pubky_admins: ["author", "admin"],
+        created: Date.UTC(2025, 0, 1),
+      });
+    });
+  });
+
+  describe("eventDataToNexusEvent", () => {
+    const data: PubkyAppEventData = {
+      uid: "meetup@example.com",
+      dtstamp: Date.UTC(2025, 0, 2) * 1000,
+      dtstart: Date.UTC(2025, 0, 6, 18) * 1000,
+      dtend: Date.UTC(2025, 0, 6, 20) * 1000,
+      summary: "Meetup",
+      status: "CONFIRMED",
+      organizer: null,
+      categories: ["bitcoin"],
+      created: Date.UTC(2025, 0, 1) * 1000,
+      rrule: "FREQ=WEEKLY",
+      rdate: null,
+      exdate: null,
+      recurrence_id: null,
+      image_uri: null,
+      conference: null,
+      structured_location: JSON.stringify({
+        name: "Café",
+        description: "Main St 1",
+        uri: "geo:47.37,8.54",
+      }),
+      styled_description: JSON.stringify({
+        fmttype: "text/plain",
+        value: "Bring snacks",
+      }),
+      x_pubky_calendar_uris: [calendarUri],
+    };
+
+    it("should convert stored data to the indexed shape", () => {
+      expect(
+        eventDataToNexusEvent("pubky://author/pub/pubky.app/event/0034", data),
+      ).toMatchObject({
+        id: "0034",
+        author: "author",
+        calendar: "0033",
+        summary: "Meetup",
+        description: "Bring snacks",
+        location: {
+          name: "Café",
+          address: "Main St 1",
+          lat: 47.37,
+          lon: 8.54,
+        },
+        start_date: Date.UTC(2025, 0, 6, 18),
+        end_date: Date.UTC(2025, 0, 6, 20),
+        recurrence_rule: "FREQ=WEEKLY",
+        status: "CONFIRMED",
+        tags: ["bitcoin"],
+      });
+    });
+
+    it("should round-trip through nexusEventToEventData", () => {
+      const indexed = eventDataToNexusEvent(
+        "pubky://author/pub/pubky.app/event/0034",
+        data,
+      );
+      expect(nexusEventToEventData(indexed, calendarUri)).toMatchObject({
+        dtstart: data.dtstart,
+        dtend: data.dtend,
+        summary: data.summary,
+        categories: data.categories,
+        rrule: data.rrule,
+        x_pubky_calendar_uris: [calendarUri],
+      });
+    });
+  });
+
+  describe("filterEventStream", () => {
+    const events = [
+      indexedEvent("late", {
+        start_date: Date.UTC(2025, 1, 1),
+        end_date: Date.UTC(2025, 1, 1, 1),
+        tags: ["Nostr"],
+      }),
+      indexedEvent("early", { tags: ["bitcoin"] }),
+      indexedEvent("other", { calendar: "0099" }),
+      indexedEvent("cancelled", { status: "CANCELLED" }),
+    ];
+
+    it("should filter by calendar and status and order by start", () => {
+      expect(
+        filterEventStream(events, { calendar: "0033", status: "CANCELLED" })
+          .map((event) => event.id),
+      ).toEqual(["cancelled"]);
+      expect(
+        filterEventStream(events, { calendar: "0033" }).map((event) => event.id),
+      ).toEqual(["early", "cancelled", "late"]);
+    });
+
+    it("should keep events overlapping the date range", () => {
+      expect(
+        filterEventStream(events, {
+          start_date: Date.UTC(2025, 0, 6, 19),
+          end_date: Date.UTC(2025, 0, 31),
+        }).map((event) => event.id),
+      ).toEqual(["early", "other", "cancelled"]);
+    });
+
+    it("should match tags case-insensitively and page", () => {
+      expect(
+        filterEventStream(events, { tags: "nostr, bitcoin" })
+          .map((event) => event.id),
+      ).toEqual(["early", "late"]);
+      expect(
+        filterEventStream(events, { skip: 1, limit: 2 })
+          .map((event) => event.id),
+      ).toEqual(["other", "cancelled"]);
+    });
+  });
+
+  describe("pageCalendarStream", () => {
+    it("should order newest first and page", () => {
+      const calendar = (id: string, created: number): NexusCalendar => ({
+        id,
+        indexed_at: created,
+        author: "author",
+        uri: `pubky://author/pub/pubky.app/calendar/${id}`,
+        created,
+      });
+
+      expect(
+        pageCalendarStream(
+          [calendar("a", 1), calendar("c", 3), calendar("b", 2)],
+          { skip: 1, limit: 1 },
+        ).map((item) => item.id),
+      ).toEqual(["b"]);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import {
+  getIcsEventKey,
+  parseContentLine,
+  parsedEventToFormData,
+  parseIcsCalendar,
+  parseIcsDateValue,
+  resolveTzid,
+  unfoldLines,
+} from "../ical-parser";
+import { formatDuration, parseDuration } from "../duration";
+
+function ics(...events: string[][]): string {
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Test//EN",
+    "X-WR-CALNAME:Meetups",
+    ...events.flatMap((lines) => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ].join("\r\n");
+}
+
+describe("ical-parser", () => {
+  describe("unfoldLines", () => {
+    it("should join folded continuation lines", () => {
+      expect(unfoldLines("SUMMARY:Long\r\n  title\r\nUID:1\r\n")).toEqual([
+        "SUMMARY:Long title",
+        "UID:1",
+      ]);
+    });
+  });
+
+  describe("parseContentLine", () => {
+    it("should parse quoted parameters containing delimiters", () => {
+      expect(
+        parseContentLine(
+          "ORGANIZER;CN=\"Doe; John: Jr\":mailto:john@example.com",
+        ),
+      ).toEqual({
+        name: "ORGANIZER",
+        params: { CN: "Doe; John: Jr" },
+        value: "mailto:john@example.com",
+      });
+    });
+  });
+
+  describe("resolveTzid", () => {
+    it("should resolve IANA, Windows and prefixed timezone names", () => {
+      expect(resolveTzid("Europe/Zurich")).toBe("Europe/Zurich");
+      expect(resolveTzid("W. Europe Standard Time")).toBe("Europe/Berlin");
+      expect(
+        resolveTzid("/freeassociation.sourceforge.net/Europe/Zurich"),
+      ).toBe("Europe/Zurich");
+      expect(resolveTzid("Nowhere")).toBeUndefined();
+    });
+  });
+
+  describe("parseIcsDateValue", () => {
+    it("should convert TZID-qualified times to UTC", () => {
+      const value = parseIcsDateValue("20250715T190000", "Europe/Zurich");
+      expect(value?.date.toISOString()).toBe("2025-07-15T17:00:00.000Z");
+      expect(value?.tzid).toBe("Europe/Zurich");
+    });
+
+    it("should parse UTC and all-day values", () => {
+      expect(parseIcsDateValue("20251023T170000Z")?.date.toISOString()).toBe(
+        "2025-10-23T17:00:00.000Z",
+      );
+      const allDay = parseIcsDateValue("20251224");
+      expect(allDay?.allDay).toBe(true);
+      expect(allDay?.date.toISOString()).toBe("2025-12-24T00:00:00.000Z");
+    });
+
+    it("should reject malformed values", () => {
+      expect(parseIcsDateValue("2025-10-23")).toBeNull();
+    });
+  });
+
+  describe("parseIcsCalendar", () => {
+    it("should parse recurring events with exceptions and overrides", () => {
+      const result = parseIcsCalendar(ics(
+        [
+          "UID:weekly@example.com",
+          "SUMMARY:Weekly\\, with comma",
+          "DTSTART;TZID=Europe/Zurich:20251023T190000",
+          "DURATION:PT2H",
+          "RRULE:FREQ=WEEKLY;BYDAY=TH",
+          "EXDATE;TZID=Europe/Zurich:20251030T190000,20251106T190000",
+          "GEO:47.366667;8.55",
+          "LOCATION:Bitcoin Bar\\, Zurich",
+          "CATEGORIES:bitcoin,meetup",
+        ],
+        [
+          "UID:weekly@example.com",
+          "RECURRENCE-ID;TZID=Europe/Zurich:20251113T190000",
+          "SUMMARY:Moved",
+          "DTSTART;TZID=Europe/Zurich:20251113T200000",
+          "DTEND;TZID=Europe/Zurich:20251113T220000",
+        ],
+      ));
+
+      expect(result.name).toBe("Meetups");
+      expect(result.errors).toEqual([]);
+      expect(result.events).toHaveLength(2);
+
+      const [master, override] = result.events;
+      expect(master.summary).toBe("Weekly, with comma");
+      expect(master.dtstart.date.toISOString()).toBe("2025-10-23T17:00:00.000Z");
+      expect(master.dtend?.date.toISOString()).toBe("2025-10-23T19:00:00.000Z");
+      expect(master.rrule).toBe("FREQ=WEEKLY;BYDAY=TH");
+      expect(master.exdate.map((date) => date.toISOString())).toEqual([
+        "2025-10-30T18:00:00.000Z",
+        "2025-11-06T18:00:00.000Z",
+      ]);
+      expect(master.geo).toEqual({ lat: 47.366667, lon: 8.55 });
+      expect(master.categories).toEqual(["bitcoin", "meetup"]);
+
+      expect(override.recurrenceId?.toISOString()).toBe(
+        "2025-11-13T18:00:00.000Z",
+      );
+      expect(getIcsEventKey(override)).not.toBe(getIcsEventKey(master));
+    });
+
+    it("should report events without required fields", () => {
+      const result = parseIcsCalendar(ics(
+        ["SUMMARY:No UID", "DTSTART:20251023T170000Z"],
+        ["UID:ok", "DTSTART:20251023T170000Z"],
+      ));
+
+      expect(result.events.map((event) => event.uid)).toEqual(["ok"]);
+      expect(result.errors).toEqual(["VEVENT without UID"]);
+    });
+
+    it("should parse attachments and HTML descriptions", () => {
+      const [event] = parseIcsCalendar(ics([
+        "UID:att",
+        "DTSTART:20251023T170000Z",
+        "DESCRIPTION:Plain",
+        "X-ALT-DESC;FMTTYPE=text/html:<p>Rich</p>",
+        "ATTACH;FMTTYPE=image/png:https://example.com/a.png",
+        "ATTACH;ENCODING=BASE64;VALUE=BINARY;FMTTYPE=image/png:aGVsbG8=",
+      ])).events;
+
+      expect(event.htmlDescription).toBe("<p>Rich</p>");
+      expect(event.attachments).toEqual([
+        {
+          uri: "https://example.com/a.png",
+          data: undefined,
+          fmttype: "image/png",
+          filename: undefined,
+        },
+        {
+          uri: undefined,
+          data: "aGVsbG8=",
+          fmttype: "image/png",
+          filename: undefined,
+        },
+      ]);
+    });
+
+    it("should throw for documents without a VCALENDAR", () => {
+      expect(() => parseIcsCalendar("hello")).toThrow();
+    });
+  });
+
+  describe("parsedEventToFormData", () => {
+    it("should map parsed events to form data", () => {
+      const [event] = parseIcsCalendar(ics([
+        "UID:form",
+        "SUMMARY:Meetup",
+        "DESCRIPTION:Line one\\nLine <two>",
+        "DTSTART:20251023T170000Z",
+        "LOCATION:Bitcoin Bar",
+        "GEO:47.1;8.2",
+      ])).events;
+
+      const formData = parsedEventToFormData(event, "pubky://cal");
+      expect(formData.uid).toBe("form");
+      expect(formData.calendarUri).toBe("pubky://cal");
+      expect(formData.description).toBe("Line one<br>Line &lt;two&gt;");
+      expect(formData.structuredLocation).toEqual({
+        name: "Bitcoin Bar",
+        description: undefined,
+        uri: "geo:47.1,8.2",
+      });
+    });
+
+    it("should keep all-day, floating and zoned timing", () => {
+      const [allDay, floating, zoned] = parseIcsCalendar(ics(
+        ["UID:a", "DTSTART;VALUE=DATE:20251023"],
+        ["UID:b", "DTSTART:20251023T170000"],
+        ["UID:c", "DTSTART;TZID=Europe/Zurich:20251023T170000"],
+      )).events.map((event) => parsedEventToFormData(event));
+
+      expect(allDay.allDay).toBe(true);
+      expect(allDay.floating).toBeUndefined();
+      expect(floating.floating).toBe(true);
+      expect(floating.dtstart.toISOString()).toBe("2025-10-23T17:00:00.000Z");
+      expect(zoned.timeZone).toBe("Europe/Zurich");
+      expect(zoned.floating).toBeUndefined();
+    });
+  });
+});
+
+describe("duration", () => {
+  it("should parse and format durations", () => {
+    expect(parseDuration("PT1H30M")).toBe(90 * 60 * 1000);
+    expect(parseDuration("-PT15M")).toBe(-15 * 60 * 1000);
+    expect(parseDuration("P1W")).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(parseDuration("P")).toBeNull();
+    expect(formatDuration(-15 * 60 * 1000)).toBe("-PT15M");
+    expect(formatDuration(26 * 60 * 60 * 1000)).toBe("P1DT2H");
+  });
+});
@@ -0,0 +1,258 @@
+import {
+  buildVTimezone,
+  escapeText,
+  foldLine,
+  getIcsFilename,
+  serializeCalendar,
+  serializeFreeBusy,
+  toCssColorName,
+} from "../ical-serializer";
+import { parseIcsFreeBusy } from "../ical-parser";
+import type { PubkyAppEventData } from "@/types/calendar";
+
+const baseEvent: PubkyAppEventData = {
+  uid: "pubky://user123/pub/pubky.app/event/EVT1",
+  dtstamp: Date.UTC(2025, 9, 1, 12) * 1000,
+  dtstart: Date.UTC(2025, 9, 23, 17) * 1000,
+  dtend: Date.UTC(2025, 9, 23, 19) * 1000,
+  summary: "Bitcoin Meetup; Zürich, Switzerland",
+  status: "CONFIRMED",
+};
+
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, "").split("\r\n");
+}
+
+describe("ical-serializer", () => {
+  describe("escapeText", () => {
+    it("should escape special characters", () => {
+      expect(escapeText("a;b,c\\d\ne")).toBe("a\\;b\\,c\\\\d\\ne");
+    });
+  });
+
+  describe("foldLine", () => {
+    it("should keep short lines intact", () => {
+      expect(foldLine("SUMMARY:Short")).toBe("SUMMARY:Short");
+    });
+
+    it("should fold long lines at 75 octets without splitting characters", () => {
+      const line = `SUMMARY:${"ü".repeat(80)}`;
+      const folded = foldLine(line);
+      for (const segment of folded.split("\r\n")) {
+        expect(Buffer.byteLength(segment, "utf8")).toBeLessThanOrEqual(75);
+      }
+      expect(folded.replace(/\r\n /g, "")).toBe(line);
+    });
+  });
+
+  describe("toCssColorName", () => {
+    it("should map hex colors to the closest CSS color name", () => {
+      expect(toCssColorName("#FF0000")).toBe("red");
+      expect(toCssColorName("#0000FE")).toBe("blue");
+      expect(toCssColorName("Purple")).toBe("purple");
+      expect(toCssColorName("not-a-color")).toBeNull();
+    });
+  });
+
+  describe("buildVTimezone", () => {
+    it("should infer yearly DST rules for Europe/Zurich", () => {
+      const lines = buildVTimezone(
+        "Europe/Zurich",
+        new Date(Date.UTC(2025, 0, 1)),
+        new Date(Date.UTC(2026, 11, 31)),
+      );
+
+      expect(lines[0]).toBe("BEGIN:VTIMEZONE");
+      expect(lines).toContain("TZID:Europe/Zurich");
+      expect(lines).toContain("RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU");
+      expect(lines).toContain("RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU");
+      expect(lines).toContain("DTSTART:20250330T020000");
+      expect(lines).toContain("TZOFFSETTO:+0200");
+    });
+
+    it("should emit a single observance for zones without DST", () => {
+      const lines = buildVTimezone(
+        "Asia/Tokyo",
+        new Date(Date.UTC(2025, 0, 1)),
+        new Date(Date.UTC(2025, 11, 31)),
+      );
+
+      expect(lines.filter((line) => line.startsWith("BEGIN:"))).toEqual([
+        "BEGIN:VTIMEZONE",
+        "BEGIN:STANDARD",
+      ]);
+      expect(lines).toContain("TZOFFSETTO:+0900");
+    });
+  });
+
+  describe("serializeCalendar", () => {
+    it("should wrap events in a VCALENDAR with CRLF line endings", () => {
+      const ics = serializeCalendar({ name: "Meetups" }, [baseEvent], {
+        now: new Date(Date.UTC(2025, 9, 1)),
+      });
+
+      expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+      expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+
+      const lines = unfold(ics);
+      expect(lines).toContain("NAME:Meetups");
+      expect(lines).toContain("BEGIN:VEVENT");
+      expect(lines).toContain("DTSTART:20251023T170000Z");
+      expect(lines).toContain(
+        "SUMMARY:Bitcoin Meetup\\; Zürich\\, Switzerland",
+      );
+    });
+
+    it("should use TZID and include a VTIMEZONE for the calendar timezone", () => {
+      const ics = serializeCalendar(
+        { name: "Zurich", timezone: "Europe/Zurich", color: "#3B82F6" },
+        [{ ...baseEvent, exdate: ["20251030T170000Z"] }],
+        { now: new Date(Date.UTC(2025, 9, 1)) },
+      );
+      const lines = unfold(ics);
+
+      expect(lines).toContain("BEGIN:VTIMEZONE");
+      expect(lines).toContain("DTSTART;TZID=Europe/Zurich:20251023T190000");
+      expect(lines).toContain("EXDATE;TZID=Europe/Zurich:20251030T180000");
+      expect(lines).toContain("X-APPLE-CALENDAR-COLOR:#3B82F6");
+      expect(lines.some((line) => line.startsWith("COLOR:"))).toBe(true);
+    });
+
+    it("should prefer the event's own timezone and add its VTIMEZONE", () => {
+      const ics = serializeCalendar(
+        { timezone: "Europe/Zurich" },
+        [{ ...baseEvent, tzid: "America/New_York" }],
+        { now: new Date(Date.UTC(2025, 9, 1)) },
+      );
+      const lines = unfold(ics);
+
+      expect(lines).toContain("DTSTART;TZID=America/New_York:20251023T130000");
+      expect(lines).toContain("TZID:America/New_York");
+      expect(lines).toContain("TZID:Europe/Zurich");
+    });
+
+    it("should write all-day events as DATE values", () => {
+      const ics = serializeCalendar({ timezone: "Europe/Zurich" }, [{
+        ...baseEvent,
+        all_day: true,
+        dtstart: Date.UTC(2025, 9, 23) * 1000,
+        dtend: Date.UTC(2025, 9, 25) * 1000,
+      }]);
+      const lines = unfold(ics);
+
+      expect(lines).toContain("DTSTART;VALUE=DATE:20251023");
+      expect(lines).toContain("DTEND;VALUE=DATE:20251025");
+    });
+
+    it("should write floating events without TZID or Z", () => {
+      const ics = serializeCalendar({ timezone: "Europe/Zurich" }, [{
+        ...baseEvent,
+        floating: true,
+      }]);
+      const lines = unfold(ics);
+
+      expect(lines).toContain("DTSTART:20251023T170000");
+      expect(lines).toContain("DTEND:20251023T190000");
+    });
+
+    it("should map structured fields to iCalendar properties", () => {
+      const ics = serializeCalendar({}, [{
+        ...baseEvent,
+        rrule: "FREQ=WEEKLY;BYDAY=TH",
+        categories: ["bitcoin", "meetup"],
+        organizer: JSON.stringify({ uri: "user123", name: "Satoshi" }),
+        conference: JSON.stringify({
+          uri: "https://meet.jit.si/btc",
+          label: "Jitsi",
+        }),
+        structured_location: JSON.stringify({
+          name: "Bitcoin Bar",
+          uri: "geo:47.366667,8.55",
+        }),
+        styled_description: JSON.stringify({
+          fmttype: "text/html",
+          value: "<p>Hello <b>world</b></p>",
+        }),
+      }]);
+      const lines = unfold(ics);
+
+      expect(lines).toContain("RRULE:FREQ=WEEKLY;BYDAY=TH");
+      expect(lines).toContain("CATEGORIES:bitcoin,meetup");
+      expect(lines).toContain("ORGANIZER;CN=Satoshi:pubky://user123");
+      expect(lines).toContain(
+        "CONFERENCE;VALUE=URI;FEATURE=VIDEO;LABEL=Jitsi:https://meet.jit.si/btc",
+      );
+      expect(lines).toContain("LOCATION:Bitcoin Bar");
+      expect(lines).toContain("GEO:47.366667;8.55");
+      expect(lines).toContain("BEGIN:VLOCATION");
+      expect(lines).toContain("DESCRIPTION:Hello world");
+      expect(lines).toContain(
+        "STYLED-DESCRIPTION;VALUE=TEXT;FMTTYPE=text/html:<p>Hello <b>world</b></p>",
+      );
+    });
+  });
+
+  describe("serializeFreeBusy", () => {
+    it("should write busy periods per type and parse back", () => {
+      const periods = [
+        {
+          start: new Date(Date.UTC(2025, 9, 20, 9)),
+          end: new Date(Date.UTC(2025, 9, 20, 10)),
+          type: "BUSY" as const,
+        },
+        {
+          start: new Date(Date.UTC(2025, 9, 21, 9)),
+          end: new Date(Date.UTC(2025, 9, 21, 10)),
+          type: "BUSY-TENTATIVE" as const,
+        },
+      ];
+      const ics = serializeFreeBusy({
+        organizer: "user123",
+        start: new Date(Date.UTC(2025, 9, 20)),
+        end: new Date(Date.UTC(2025, 10, 20)),
+        periods,
+      }, { now: new Date(Date.UTC(2025, 9, 19)) });
+      const lines = unfold(ics);
+
+      expect(lines).toContain("BEGIN:VFREEBUSY");
+      expect(lines).toContain("ORGANIZER:pubky://user123");
+      expect(lines).toContain(
+        "FREEBUSY;FBTYPE=BUSY:20251020T090000Z/20251020T100000Z",
+      );
+      expect(lines.some((line) => /SUMMARY|DESCRIPTION/.test(line))).toBe(
+        false,
+      );
+
+      const parsed = parseIcsFreeBusy(ics);
+      expect(parsed?.organizer).toBe("pubky://user123");
+      expect(parsed?.periods).toEqual(periods);
+    });
+
+    it("should read durations and skip free periods", () => {
+      const parsed = parseIcsFreeBusy([
+        "BEGIN:VCALENDAR",
+        "BEGIN:VFREEBUSY",
+        "FREEBUSY:20251020T090000Z/PT30M",
+        "FREEBUSY;FBTYPE=FREE:20251020T120000Z/PT1H",
+        "FREEBUSY;FBTYPE=BUSY-UNAVAILABLE:20251020T150000Z/20251020T160000Z",
+        "END:VFREEBUSY",
+        "END:VCALENDAR",
+      ].join("\r\n"));
+
+      expect(parsed?.periods.map((p) => [p.end.toISOString(), p.type]))
+        .toEqual([
+          ["2025-10-20T09:30:00.000Z", "BUSY"],
+          ["2025-10-20T16:00:00.000Z", "BUSY"],
+        ]);
+    });
+  });
+
+  describe("getIcsFilename", () => {
+    it("should build a safe filename", () => {
+      expect(getIcsFilename("Bitcoin Zürich Events!")).toBe(
+        "bitcoin-zurich-events.ics",
+      );
+      expect(getIcsFilename(undefined)).toBe("calendar.ics");
+    });
+  });
+});
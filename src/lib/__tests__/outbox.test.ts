@@ -0,0 +1,168 @@
+import {
+  getBlockingOperation,
+  getDependentIds,
+  getReadyOperations,
+  getRetryDelay,
+  getWriteFailureKind,
+  MAX_OUTBOX_ATTEMPTS,
+  type OutboxOperation,
+  recordFailedAttempt,
+  resetOperation,
+} from "../outbox";
+
+const operation = (
+  id: string,
+  overrides: Partial<OutboxOperation> = {},
+): OutboxOperation => ({
+  id,
+  publicKey: "viewer",
+  kind: "put",
+  path: `/pub/pubky.app/event/${id}`,
+  label: id,
+  dependsOn: [],
+  createdAt: 1000,
+  attempts: 0,
+  nextAttemptAt: 0,
+  status: "pending",
+  ...overrides,
+});
+
+describe("outbox", () => {
+  describe("getRetryDelay", () => {
+    it("should double the delay up to a cap", () => {
+      expect(getRetryDelay(1)).toBe(5000);
+      expect(getRetryDelay(2)).toBe(10000);
+      expect(getRetryDelay(3)).toBe(20000);
+      expect(getRetryDelay(20)).toBe(5 * 60 * 1000);
+    });
+  });
+
+  describe("getReadyOperations", () => {
+    const blob = operation("blob", { path: "/pub/pubky.app/blobs/B" });
+    const file = operation("file", {
+      path: "/pub/pubky.app/files/F",
+      dependsOn: ["blob"],
+    });
+    const event = operation("event", { dependsOn: ["file"] });
+
+    it("should run blobs before files and files before events", () => {
+      expect(getReadyOperations([event, file, blob], "viewer", 0))
+        .toEqual([blob]);
+      expect(getReadyOperations([event, file], "viewer", 0)).toEqual([file]);
+      expect(getReadyOperations([event], "viewer", 0)).toEqual([event]);
+    });
+
+    it("should keep writes to the same path in order", () => {
+      const create = operation("a", { path: "/same", createdAt: 1 });
+      const update = operation("b", { path: "/same", createdAt: 2 });
+
+      expect(getReadyOperations([update, create], "viewer", 0))
+        .toEqual([create]);
+      expect(getBlockingOperation(update, [update, create])).toBe(create);
+    });
+
+    it("should skip other users, failed and backed-off operations", () => {
+      expect(
+        getReadyOperations(
+          [
+            operation("other", { publicKey: "other" }),
+            operation("failed", { status: "failed" }),
+            operation("later", { nextAttemptAt: 5000 }),
+          ],
+          "viewer",
+          1000,
+        ),
+      ).toEqual([]);
+    });
+
+    it("should keep dependents of a failed operation waiting", () => {
+      const failedBlob = { ...blob, status: "failed" as const };
+      expect(getReadyOperations([failedBlob, file], "viewer", 0)).toEqual([]);
+    });
+  });
+
+  describe("recordFailedAttempt", () => {
+    it("should back off and mark the operation failed after the last attempt", () => {
+      const retried = recordFailedAttempt(operation("a"), "Offline", 1000);
+      expect(retried).toMatchObject({
+        attempts: 1,
+        status: "pending",
+        lastError: "Offline",
+        nextAttemptAt: 6000,
+      });
+
+      const exhausted = recordFailedAttempt(
+        operation("a", { attempts: MAX_OUTBOX_ATTEMPTS - 1 }),
+        "Offline",
+        1000,
+      );
+      expect(exhausted.status).toBe("failed");
+    });
+
+    it("should mark the operation failed right away if it can't be retried", () => {
+      const rejected = recordFailedAttempt(operation("a"), "Rejected", 1000, false);
+      expect(rejected).toMatchObject({ attempts: 1, status: "failed" });
+    });
+
+    it("should reset for a manual retry", () => {
+      const failed = operation("a", {
+        attempts: MAX_OUTBOX_ATTEMPTS,
+        status: "failed",
+        nextAttemptAt: 9000,
+      });
+      expect(resetOperation(failed, 2000)).toMatchObject({
+        attempts: 0,
+        status: "pending",
+        nextAttemptAt: 2000,
+      });
+    });
+  });
+
+  describe("getDependentIds", () => {
+    it("should include everything that depends on the operation", () => {
+      const operations = [
+        operation("blob"),
+        operation("file", { dependsOn: ["blob"] }),
+        operation("event", { dependsOn: ["file"] }),
+        operation("other"),
+      ];
+
+      expect(getDependentIds("blob", operations).sort())
+        .toEqual(["blob", "event", "file"]);
+      expect(getDependentIds("event", operations)).toEqual(["event"]);
+    });
+  });
+
+  describe("getWriteFailureKind", () => {
+    const requestError = (statusCode?: number) =>
+      Object.assign(new Error("Request failed"), {
+        name: "RequestError",
+        data: statusCode ? { statusCode } : undefined,
+      });
+
+    it("should retry network failures and server errors", () => {
+      expect(getWriteFailureKind(requestError())).toBe("retry");
+      expect(getWriteFailureKind(requestError(503))).toBe("retry");
+      expect(getWriteFailureKind(new TypeError("Failed to fetch"))).toBe("retry");
+    });
+
+    it("should not retry missing or expired sessions", () => {
+      expect(getWriteFailureKind(requestError(401))).toBe("unauthorized");
+      expect(getWriteFailureKind(requestError(403))).toBe("unauthorized");
+      expect(
+        getWriteFailureKind(
+          Object.assign(new Error("No session"), { name: "AuthenticationError" }),
+        ),
+      ).toBe("unauthorized");
+    });
+
+    it("should not retry writes the homeserver refused", () => {
+      expect(getWriteFailureKind(requestError(413))).toBe("rejected");
+      expect(
+        getWriteFailureKind(
+          Object.assign(new Error("Bad path"), { name: "InvalidInput" }),
+        ),
+      ).toBe("rejected");
+    });
+  });
+});
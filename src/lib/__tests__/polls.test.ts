@@ -0,0 +1,118 @@
+import {
+  getBestSlots,
+  getSlotKey,
+  type PollVoter,
+  pollToEventFormData,
+  tallyPoll,
+} from "../polls";
+import type {
+  PollAnswer,
+  PollSlot,
+  PubkyAppPollData,
+} from "@/types/calendar";
+
+const slot = (hour: number): PollSlot => ({
+  start: Date.UTC(2025, 9, 20, hour) * 1000,
+  end: Date.UTC(2025, 9, 20, hour + 1) * 1000,
+});
+
+const poll: PubkyAppPollData = {
+  summary: "Community call",
+  description: "Quarterly sync",
+  location: "Online",
+  x_pubky_calendar_uri: "pubky://user123/pub/pubky.app/calendar/CAL1",
+  tzid: "Europe/Zurich",
+  slots: [slot(9), slot(13), slot(16)],
+  invitees: ["alice", "bob"],
+  final: null,
+  created: 0,
+  updated: 0,
+};
+
+function voter(
+  publicKey: string,
+  answers: Array<PollAnswer | null> | null,
+): PollVoter {
+  return {
+    publicKey,
+    vote: answers
+      ? {
+        x_pubky_poll_uri: "pubky://user123/pub/pubky.app/poll/POLL1",
+        answers: Object.fromEntries(
+          poll.slots.flatMap((s, index) =>
+            answers[index] ? [[getSlotKey(s), answers[index]]] : []
+          ),
+        ),
+        name: publicKey.toUpperCase(),
+        updated: 0,
+      }
+      : null,
+  };
+}
+
+describe("polls", () => {
+  describe("tallyPoll", () => {
+    it("should count answers per slot and list who has not answered", () => {
+      const tally = tallyPoll(poll, [
+        voter("user123", ["YES", "YES", "NO"]),
+        voter("alice", ["MAYBE", "YES", null]),
+        voter("bob", null),
+      ]);
+
+      expect(tally.slots.map(({ yes, maybe, no }) => [yes, maybe, no]))
+        .toEqual([[1, 1, 0], [2, 0, 0], [0, 0, 1]]);
+      expect(tally.rows[1]).toEqual({
+        publicKey: "alice",
+        name: "ALICE",
+        answers: ["MAYBE", "YES", null],
+      });
+      expect(tally.pending).toEqual(["bob"]);
+    });
+
+    it("should ignore answers to slots the poll no longer has", () => {
+      const tally = tallyPoll({ slots: [slot(9)] }, [
+        voter("alice", [null, "YES", "YES"]),
+      ]);
+
+      expect(tally.slots[0].yes).toBe(0);
+      expect(tally.rows[0].answers).toEqual([null]);
+    });
+  });
+
+  describe("getBestSlots", () => {
+    it("should prefer yes answers, then maybes", () => {
+      const tally = tallyPoll(poll, [
+        voter("alice", ["YES", "YES", "MAYBE"]),
+        voter("bob", ["MAYBE", "YES", "YES"]),
+      ]);
+
+      expect(getBestSlots(tally)).toEqual([slot(13)]);
+    });
+
+    it("should return ties and nothing when nobody is available", () => {
+      expect(getBestSlots(tallyPoll(poll, [
+        voter("alice", ["YES", "NO", "YES"]),
+      ]))).toEqual([slot(9), slot(16)]);
+      expect(getBestSlots(tallyPoll(poll, [
+        voter("alice", ["NO", "NO", "NO"]),
+      ]))).toEqual([]);
+    });
+  });
+
+  describe("pollToEventFormData", () => {
+    it("should turn the chosen slot into a confirmed event", () => {
+      expect(pollToEventFormData(poll, slot(13))).toEqual({
+        summary: "Community call",
+        dtstart: new Date(Date.UTC(2025, 9, 20, 13)),
+        dtend: new Date(Date.UTC(2025, 9, 20, 14)),
+        timeZone: "Europe/Zurich",
+        description: "Quarterly sync",
+        descriptionFormat: "text/plain",
+        location: "Online",
+        structuredLocation: { name: "Online" },
+        calendarUri: "pubky://user123/pub/pubky.app/calendar/CAL1",
+        status: "CONFIRMED",
+      });
+    });
+  });
+});
@@ -0,0 +1,320 @@
+import {
+  describeRRule,
+  expandEvents,
+  expandRecurrence,
+  formatRRule,
+  getNextOccurrence,
+  getRRuleError,
+  parseRRule,
+  splitRecurrence,
+} from "../recurrence";
+import type { PubkyAppEventData } from "@/types/calendar";
+
+const utc = (value: string) => new Date(`${value}Z`);
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+function expand(
+  dtstart: string,
+  rrule: string,
+  rangeEnd = "2030-01-01T00:00:00",
+  extra: { timeZone?: string; rdate?: Date[]; exdate?: Date[] } = {},
+) {
+  return iso(expandRecurrence(
+    { dtstart: utc(dtstart), rrule, ...extra },
+    utc("1990-01-01T00:00:00"),
+    utc(rangeEnd),
+  ));
+}
+
+describe("recurrence", () => {
+  describe("parseRRule", () => {
+    it("should parse all rule parts", () => {
+      expect(
+        parseRRule("FREQ=MONTHLY;INTERVAL=2;BYDAY=-1SU,2MO;BYSETPOS=1;WKST=SU"),
+      ).toEqual({
+        freq: "MONTHLY",
+        interval: 2,
+        wkst: "SU",
+        byDay: [
+          { weekday: "SU", ordinal: -1 },
+          { weekday: "MO", ordinal: 2 },
+        ],
+        bySetPos: [1],
+      });
+    });
+
+    it("should reject malformed and contradictory rules", () => {
+      expect(() => parseRRule("BYDAY=MO")).toThrow("FREQ is required");
+      expect(() => parseRRule("FREQ=FORTNIGHTLY")).toThrow();
+      expect(() => parseRRule("FREQ=DAILY;COUNT=0")).toThrow();
+      expect(() => parseRRule("FREQ=DAILY;COUNT=2;UNTIL=20251231")).toThrow();
+      expect(() => parseRRule("FREQ=WEEKLY;BYDAY=1MO")).toThrow();
+      expect(() => parseRRule("FREQ=WEEKLY;BYMONTHDAY=1")).toThrow();
+      expect(() => parseRRule("FREQ=DAILY;BYSETPOS=1")).toThrow();
+    });
+
+    it("should round-trip through formatRRule", () => {
+      const value = "FREQ=YEARLY;UNTIL=20301231T230000Z;BYMONTH=3;BYDAY=-1SU";
+      expect(formatRRule(parseRRule(value))).toBe(value);
+    });
+  });
+
+  describe("expandRecurrence", () => {
+    it("should expand COUNT and INTERVAL", () => {
+      expect(expand("2025-01-01T10:00:00", "FREQ=DAILY;INTERVAL=2;COUNT=3"))
+        .toEqual([
+          "2025-01-01T10:00:00.000Z",
+          "2025-01-03T10:00:00.000Z",
+          "2025-01-05T10:00:00.000Z",
+        ]);
+    });
+
+    it("should stop at UNTIL inclusively", () => {
+      expect(
+        expand("2025-01-06T10:00:00", "FREQ=WEEKLY;UNTIL=20250120T100000Z"),
+      ).toHaveLength(3);
+    });
+
+    it("should expand BYDAY for weekly rules", () => {
+      expect(
+        expand("2025-01-06T10:00:00", "FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4"),
+      ).toEqual([
+        "2025-01-06T10:00:00.000Z",
+        "2025-01-08T10:00:00.000Z",
+        "2025-01-13T10:00:00.000Z",
+        "2025-01-15T10:00:00.000Z",
+      ]);
+    });
+
+    it("should honour WKST for bi-weekly rules", () => {
+      // RFC 5545 example: WKST changes which days belong to a week
+      expect(
+        expand(
+          "1997-08-05T09:00:00",
+          "FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=MO",
+        ),
+      ).toEqual([
+        "1997-08-05T09:00:00.000Z",
+        "1997-08-10T09:00:00.000Z",
+        "1997-08-19T09:00:00.000Z",
+        "1997-08-24T09:00:00.000Z",
+      ]);
+      expect(
+        expand(
+          "1997-08-05T09:00:00",
+          "FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=SU",
+        ),
+      ).toEqual([
+        "1997-08-05T09:00:00.000Z",
+        "1997-08-17T09:00:00.000Z",
+        "1997-08-19T09:00:00.000Z",
+        "1997-08-31T09:00:00.000Z",
+      ]);
+    });
+
+    it("should expand numbered BYDAY and negative BYMONTHDAY", () => {
+      expect(
+        expand("2025-01-01T18:00:00", "FREQ=MONTHLY;BYDAY=-1FR;COUNT=3"),
+      ).toEqual([
+        "2025-01-01T18:00:00.000Z", // DTSTART always counts
+        "2025-01-31T18:00:00.000Z",
+        "2025-02-28T18:00:00.000Z",
+      ]);
+      expect(
+        expand("2025-01-31T12:00:00", "FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3"),
+      ).toEqual([
+        "2025-01-31T12:00:00.000Z",
+        "2025-02-28T12:00:00.000Z",
+        "2025-03-31T12:00:00.000Z",
+      ]);
+    });
+
+    it("should skip months without the day instead of clamping", () => {
+      expect(
+        expand("2025-01-31T12:00:00", "FREQ=MONTHLY;COUNT=3"),
+      ).toEqual([
+        "2025-01-31T12:00:00.000Z",
+        "2025-03-31T12:00:00.000Z",
+        "2025-05-31T12:00:00.000Z",
+      ]);
+    });
+
+    it("should apply BYSETPOS to pick the last workday of the month", () => {
+      expect(
+        expand(
+          "2025-01-31T09:00:00",
+          "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=3",
+        ),
+      ).toEqual([
+        "2025-01-31T09:00:00.000Z",
+        "2025-02-28T09:00:00.000Z",
+        "2025-03-31T09:00:00.000Z",
+      ]);
+    });
+
+    it("should expand yearly rules with BYMONTH and BYWEEKNO", () => {
+      expect(
+        expand("2024-02-29T12:00:00", "FREQ=YEARLY;COUNT=2"),
+      ).toEqual([
+        "2024-02-29T12:00:00.000Z",
+        "2028-02-29T12:00:00.000Z",
+      ]);
+      expect(
+        expand("1997-05-12T09:00:00", "FREQ=YEARLY;BYWEEKNO=20;BYDAY=MO;COUNT=3"),
+      ).toEqual([
+        "1997-05-12T09:00:00.000Z",
+        "1998-05-11T09:00:00.000Z",
+        "1999-05-17T09:00:00.000Z",
+      ]);
+    });
+
+    it("should keep the local time across DST changes", () => {
+      const occurrences = expand(
+        "2025-10-16T17:00:00", // 19:00 in Zurich (CEST)
+        "FREQ=WEEKLY;COUNT=3",
+        undefined,
+        { timeZone: "Europe/Zurich" },
+      );
+      expect(occurrences).toEqual([
+        "2025-10-16T17:00:00.000Z",
+        "2025-10-23T17:00:00.000Z",
+        "2025-10-30T18:00:00.000Z", // 19:00 CET after the switch
+      ]);
+    });
+
+    it("should merge RDATE and remove EXDATE", () => {
+      expect(
+        expand("2025-01-01T10:00:00", "FREQ=DAILY;COUNT=3", undefined, {
+          rdate: [utc("2025-01-10T15:00:00")],
+          exdate: [utc("2025-01-02T10:00:00")],
+        }),
+      ).toEqual([
+        "2025-01-01T10:00:00.000Z",
+        "2025-01-03T10:00:00.000Z",
+        "2025-01-10T15:00:00.000Z",
+      ]);
+    });
+
+    it("should only return occurrences inside the window", () => {
+      const result = expandRecurrence(
+        { dtstart: utc("2020-01-01T10:00:00"), rrule: "FREQ=DAILY" },
+        utc("2025-03-01T00:00:00"),
+        utc("2025-03-04T00:00:00"),
+        60 * 60 * 1000,
+      );
+      expect(iso(result)).toEqual([
+        "2025-03-01T10:00:00.000Z",
+        "2025-03-02T10:00:00.000Z",
+        "2025-03-03T10:00:00.000Z",
+      ]);
+    });
+  });
+
+  describe("getNextOccurrence", () => {
+    it("should find the next occurrence after an instant", () => {
+      expect(
+        getNextOccurrence(
+          { dtstart: utc("2025-01-06T10:00:00"), rrule: "FREQ=WEEKLY" },
+          utc("2025-06-01T00:00:00"),
+        )?.toISOString(),
+      ).toBe("2025-06-02T10:00:00.000Z");
+    });
+  });
+
+  describe("getRRuleError", () => {
+    it("should accept rules that produce occurrences", () => {
+      expect(getRRuleError("FREQ=WEEKLY;BYDAY=TH", new Date())).toBeNull();
+    });
+
+    it("should reject rules that never produce an occurrence", () => {
+      const start = utc("2025-01-01T10:00:00");
+      expect(getRRuleError("FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30", start))
+        .toMatch(/never/);
+      expect(getRRuleError("FREQ=DAILY;UNTIL=20240101T000000Z", start))
+        .toMatch(/never/);
+      expect(getRRuleError("FREQ=MINUTELY;FOO=1", start)).toMatch(/FOO/);
+    });
+  });
+
+  describe("describeRRule", () => {
+    it("should summarise common rules", () => {
+      expect(describeRRule("FREQ=WEEKLY;BYDAY=MO,WE")).toBe(
+        "Weekly on Monday and Wednesday",
+      );
+      expect(describeRRule("FREQ=MONTHLY;BYDAY=-1FR;COUNT=6")).toBe(
+        "Monthly on the last Friday, 6 times",
+      );
+      expect(describeRRule("FREQ=DAILY;INTERVAL=2;UNTIL=20251231T230000Z"))
+        .toBe("Every 2 days, until Dec 31, 2025");
+      expect(
+        describeRRule("FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1"),
+      ).toBe(
+        "Monthly on the last of Monday, Tuesday, Wednesday, Thursday or Friday",
+      );
+    });
+
+    it("should fall back to the raw rule", () => {
+      expect(describeRRule("FREQ=SOMETIMES")).toBe("FREQ=SOMETIMES");
+    });
+  });
+
+  describe("splitRecurrence", () => {
+    it("should end the series before the split and carry the rest", () => {
+      const result = splitRecurrence(
+        { dtstart: utc("2025-01-06T10:00:00"), rrule: "FREQ=WEEKLY;COUNT=5" },
+        utc("2025-01-20T10:00:00"),
+      );
+      expect(result).toEqual({
+        before: "FREQ=WEEKLY;UNTIL=20250120T095959Z",
+        after: "FREQ=WEEKLY;COUNT=3",
+      });
+    });
+
+    it("should return no remaining series when splitting at the start", () => {
+      expect(
+        splitRecurrence(
+          { dtstart: utc("2025-01-06T10:00:00"), rrule: "FREQ=DAILY" },
+          utc("2025-01-06T10:00:00"),
+        ).before,
+      ).toBeNull();
+    });
+  });
+
+  describe("expandEvents", () => {
+    const master: PubkyAppEventData = {
+      uid: "weekly",
+      dtstamp: 0,
+      dtstart: Date.UTC(2025, 0, 6, 10) * 1000,
+      dtend: Date.UTC(2025, 0, 6, 11) * 1000,
+      summary: "Weekly",
+      rrule: "FREQ=WEEKLY;COUNT=3",
+    };
+
+    it("should replace overridden occurrences", () => {
+      const override: PubkyAppEventData = {
+        ...master,
+        rrule: null,
+        summary: "Moved",
+        recurrence_id: Date.UTC(2025, 0, 13, 10) * 1000,
+        dtstart: Date.UTC(2025, 0, 14, 12) * 1000,
+        dtend: Date.UTC(2025, 0, 14, 13) * 1000,
+      };
+
+      const occurrences = expandEvents(
+        [master, override],
+        utc("2025-01-01T00:00:00"),
+        utc("2025-02-01T00:00:00"),
+      );
+
+      expect(
+        occurrences.map((o) => [o.event.summary, o.start.toISOString()]),
+      ).toEqual([
+        ["Weekly", "2025-01-06T10:00:00.000Z"],
+        ["Moved", "2025-01-14T12:00:00.000Z"],
+        ["Weekly", "2025-01-20T10:00:00.000Z"],
+      ]);
+      expect(occurrences[1].isOverride).toBe(true);
+      expect(occurrences[2].end.toISOString()).toBe("2025-01-20T11:00:00.000Z");
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  isSafeUrl,
+  markdownToHtml,
+  sanitizeHtml,
+  styledDescriptionToHtml,
+} from "../rich-text";
+
+describe("rich-text", () => {
+  describe("sanitizeHtml", () => {
+    it("should keep allowed formatting", () => {
+      expect(sanitizeHtml("<p>Hello <strong>world</strong><br></p>"))
+        .toBe("<p>Hello <strong>world</strong><br></p>");
+    });
+
+    it("should remove scripts, handlers and unsafe links", () => {
+      const html = sanitizeHtml(
+        '<p onclick="alert(1)">Hi<script>alert(2)</script>' +
+          '<img src=x onerror="alert(3)"><a href="javascript:alert(4)">x</a>' +
+          '<a href=" java\tscript:alert(5)">y</a></p>',
+      );
+      expect(html).toBe("<p>Hixy</p>");
+    });
+
+    it("should harden safe links and unwrap unknown tags", () => {
+      expect(
+        sanitizeHtml('<font color="red"><a href="https://example.com" style="x">Go</a></font>'),
+      ).toBe(
+        '<a href="https://example.com" target="_blank" rel="noopener noreferrer nofollow">Go</a>',
+      );
+    });
+  });
+
+  describe("markdownToHtml", () => {
+    it("should render blocks and inline formatting", () => {
+      expect(
+        markdownToHtml(
+          "# Meetup\n\nBring **snacks** and _friends_.\n\n- one\n- `two`\n\n1. first",
+        ),
+      ).toBe(
+        [
+          "<h1>Meetup</h1>",
+          "<p>Bring <strong>snacks</strong> and <em>friends</em>.</p>",
+          "<ul><li>one</li><li><code>two</code></li></ul>",
+          "<ol><li>first</li></ol>",
+        ].join("\n"),
+      );
+    });
+
+    it("should escape raw HTML and drop unsafe links", () => {
+      expect(markdownToHtml("<b>x</b> [a](javascript:alert) [b](https://x.org)"))
+        .toBe('<p>&lt;b&gt;x&lt;/b&gt; a <a href="https://x.org">b</a></p>');
+    });
+  });
+
+  describe("styledDescriptionToHtml", () => {
+    it("should render plain text with line breaks", () => {
+      expect(
+        styledDescriptionToHtml({ fmttype: "text/plain", value: "a <b>\nc" }),
+      ).toBe("a &lt;b&gt;<br>c");
+    });
+  });
+
+  it("should only allow http(s) and mailto URLs", () => {
+    expect(isSafeUrl("https://example.com")).toBe(true);
+    expect(isSafeUrl("mailto:a@b.c")).toBe(true);
+    expect(isSafeUrl("data:text/html,x")).toBe(false);
+    expect(isSafeUrl("/relative")).toBe(false);
+  });
+});
@@ -0,0 +1,215 @@
+import {
+  collectReferences,
+  findOrphanedContent,
+  formatStorageSize,
+  getDeletionCascade,
+  getDependentParent,
+  getRecordType,
+  getStoredContent,
+  readStoredRecord,
+  type StoredRecord,
+  summarizeStorage,
+} from "../storage-references";
+
+const base = "pubky://user123/pub/pubky.app";
+const calendarUri = `${base}/calendar/CAL1`;
+const eventUri = `${base}/event/EVT1`;
+
+function file(id: string, blobId: string, size = 1000): StoredRecord {
+  return {
+    uri: `${base}/files/${id}`,
+    data: {
+      name: `${id}.png`,
+      src: `${base}/blobs/${blobId}`,
+      content_type: "image/png",
+      size,
+    },
+  };
+}
+
+function blob(id: string): StoredRecord {
+  return { uri: `${base}/blobs/${id}`, data: null };
+}
+
+describe("storage-references", () => {
+  describe("getRecordType", () => {
+    it("should return the directory under the app path", () => {
+      expect(getRecordType(eventUri)).toBe("event");
+      expect(getRecordType(`${base}/files/F1`)).toBe("files");
+      expect(getRecordType(`${base}/profile.json`)).toBeNull();
+      expect(getRecordType("pubky://user123/pub/other/x")).toBeNull();
+    });
+  });
+
+  describe("collectReferences", () => {
+    it("should find pubky URIs at any depth", () => {
+      expect(collectReferences({
+        image_uri: `${base}/files/F1`,
+        x_pubky_calendar_uris: [calendarUri, calendarUri],
+        organizer: { uri: "pubky://other456" },
+        url: "https://example.com",
+      })).toEqual([`${base}/files/F1`, calendarUri, "pubky://other456"]);
+    });
+  });
+
+  describe("getDependentParent", () => {
+    it("should name the record a dependent record belongs to", () => {
+      expect(getDependentParent({
+        uri: `${base}/alarm/A1`,
+        data: { x_pubky_event_uri: eventUri },
+      })).toBe(eventUri);
+      expect(getDependentParent({
+        uri: `${base}/calendar_deletion/CAL1`,
+        data: { x_pubky_calendar_uri: calendarUri },
+      })).toBe(calendarUri);
+      expect(getDependentParent({
+        uri: `${base}/poll/P1`,
+        data: { x_pubky_calendar_uri: calendarUri },
+      })).toBeNull();
+    });
+  });
+
+  describe("readStoredRecord", () => {
+    it("should parse records and drop missing ones", async () => {
+      await expect(readStoredRecord(eventUri, async () => ({ a: 1 })))
+        .resolves.toEqual({ uri: eventUri, data: { a: 1 } });
+      await expect(readStoredRecord(eventUri, async () => null))
+        .resolves.toBeNull();
+    });
+
+    it("should mark records unreadable when the read fails", async () => {
+      const failing = async () => {
+        throw new Error("Homeserver unreachable");
+      };
+
+      await expect(readStoredRecord(eventUri, failing)).resolves.toEqual({
+        uri: eventUri,
+        data: null,
+        unreadable: true,
+      });
+      await expect(readStoredRecord(`${base}/blobs/B1`, failing))
+        .resolves.toEqual({ uri: `${base}/blobs/B1`, data: null });
+    });
+  });
+
+  describe("getDeletionCascade", () => {
+    const records: StoredRecord[] = [
+      { uri: calendarUri, data: { name: "Team", image_uri: `${base}/files/F1` } },
+      { uri: eventUri, data: { image_uri: `${base}/files/F2` } },
+      {
+        uri: `${base}/event/EVT2`,
+        data: { image_uri: `${base}/files/F3` },
+      },
+      { uri: `${base}/alarm/A1`, data: { x_pubky_event_uri: eventUri } },
+      {
+        uri: `${base}/event_timing/EVT1`,
+        data: { x_pubky_event_uri: eventUri, all_day: true },
+      },
+      {
+        uri: `${base}/calendar_admins/CAL1`,
+        data: { x_pubky_calendar_uri: calendarUri },
+      },
+      file("F1", "B1"),
+      file("F2", "B2"),
+      file("F3", "B2"),
+      blob("B1"),
+      blob("B2"),
+    ];
+
+    it("should delete dependents and content nothing else uses", () => {
+      expect(getDeletionCascade(records, [calendarUri, eventUri])).toEqual({
+        dependents: [
+          `${base}/alarm/A1`,
+          `${base}/event_timing/EVT1`,
+          `${base}/calendar_admins/CAL1`,
+        ],
+        files: [`${base}/files/F1`, `${base}/files/F2`],
+        blobs: [`${base}/blobs/B1`],
+      });
+    });
+
+    it("should keep files other records still use", () => {
+      const shared = [
+        ...records,
+        { uri: `${base}/profile.json`, data: { image: `${base}/files/F1` } },
+      ];
+
+      expect(getDeletionCascade(shared, [calendarUri]).files).toEqual([]);
+    });
+  });
+
+  describe("orphaned content", () => {
+    const records: StoredRecord[] = [
+      { uri: calendarUri, data: { image_uri: `${base}/files/F1` } },
+      { uri: `${base}/profile.json`, data: { image: `${base}/files/F2` } },
+      file("F1", "B1", 2048),
+      file("F2", "B2", 512),
+      file("F3", "B2", 512), // Re-upload of the profile image
+      file("F4", "B3", 4096), // Replaced calendar image
+      blob("B1"),
+      blob("B2"),
+      blob("B3"),
+      blob("B4"), // Left behind by a deleted file
+    ];
+
+    it("should find files nothing uses and blobs no used file needs", () => {
+      expect(findOrphanedContent(records)).toEqual({
+        files: [`${base}/files/F3`, `${base}/files/F4`],
+        blobs: [`${base}/blobs/B3`, `${base}/blobs/B4`],
+      });
+    });
+
+    it("should find nothing unused while a record is unreadable", () => {
+      const partial = [
+        ...records,
+        { uri: `${base}/posts/P1`, data: null, unreadable: true },
+      ];
+
+      expect(findOrphanedContent(partial)).toEqual({ files: [], blobs: [] });
+    });
+
+    it("should take blob sizes and types from their files", () => {
+      const content = getStoredContent(records);
+
+      expect(content.find((item) => item.uri === `${base}/blobs/B3`))
+        .toEqual({
+          uri: `${base}/blobs/B3`,
+          kind: "blob",
+          name: "F4.png",
+          contentType: "image/png",
+          size: 4096,
+        });
+      expect(content.find((item) => item.uri === `${base}/blobs/B4`))
+        .toMatchObject({ contentType: null, size: null });
+    });
+
+    it("should sum up blobs per content type", () => {
+      const content = getStoredContent(records);
+
+      expect(summarizeStorage(content, findOrphanedContent(records))).toEqual([
+        {
+          contentType: "image/png",
+          count: 3,
+          size: 6656,
+          orphanedCount: 1,
+          orphanedSize: 4096,
+        },
+        {
+          contentType: "unknown",
+          count: 1,
+          size: 0,
+          orphanedCount: 1,
+          orphanedSize: 0,
+        },
+      ]);
+    });
+  });
+
+  describe("formatStorageSize", () => {
+    it("should use the largest fitting unit", () => {
+      expect(formatStorageSize(512)).toBe("512 B");
+      expect(formatStorageSize(1536)).toBe("1.5 KB");
+      expect(formatStorageSize(5 * 1024 * 1024)).toBe("5.0 MB");
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Personal agenda
+ *
+ * Merges the calendars a user owns, administers or subscribes to into one
+ * timeline. Each calendar keeps its own color and timezone; recurring
+ * events are expanded per calendar.
+ */
+
+import { getEventCalendarUris } from "@/lib/event-data";
+import { type EventOccurrence, expandEvents } from "@/lib/recurrence";
+import type { NexusCalendar } from "@/lib/nexus-types";
+import type { SerializableCalendarListItem } from "@/types/calendar-serializable";
+import type {
+  AttendeeStatus,
+  PubkyAppEventRecord,
+  PubkyAppSubscriptionData,
+} from "@/types/calendar";
+
+export type AgendaCalendarRole = "owner" | "admin" | "subscriber";
+
+/**
+ * A calendar shown in the agenda
+ */
+export interface AgendaCalendar {
+  uri: string;
+  authorId: string;
+  calendarId: string;
+  name: string;
+  color?: string;
+  timezone?: string;
+  admins: string[]; // Admin public keys or pubky URIs
+  role: AgendaCalendarRole;
+  hidden: boolean; // Hidden in the subscription settings
+}
+
+/**
+ * An event the user answered that is not in one of their calendars
+ */
+export interface AgendaRsvp {
+  status: AttendeeStatus;
+  event: PubkyAppEventRecord;
+}
+
+/**
+ * An event occurrence in the agenda
+ */
+export interface AgendaItem {
+  key: string;
+  eventUri: string;
+  calendarUri: string | null; // null for RSVP'd events
+  occurrence: EventOccurrence;
+  color?: string;
+  rsvp?: AttendeeStatus;
+}
+
+/**
+ * Combine administered calendars and subscriptions into agenda calendars
+ *
+ * A calendar the user owns or administers is listed once even when they
+ * also subscribe to it; the subscription's color and hidden setting still
+ * apply. Subscriptions to calendars Nexus does not know are left out.
+ *
+ * @returns Owned, administered and subscribed calendars, each sorted by name
+ */
+export function buildAgendaCalendars(
+  publicKey: string,
+  administered: NexusCalendar[],
+  subscribed: Array<{
+    subscription: { data: PubkyAppSubscriptionData };
+    calendar: SerializableCalendarListItem | null;
+  }>,
+): AgendaCalendar[] {
+  const settings = new Map(
+    subscribed.map(({ subscription }) => [
+      subscription.data.x_pubky_calendar_uri,
+      subscription.data,
+    ]),
+  );
+  const calendars = new Map<string, AgendaCalendar>();
+
+  for (const calendar of administered) {
+    const subscription = settings.get(calendar.uri);
+    calendars.set(calendar.uri, {
+      uri: calendar.uri,
+      authorId: calendar.author,
+      calendarId: calendar.id,
+      name: calendar.name || "Untitled Calendar",
+      color: subscription?.color || calendar.color,
+      timezone: calendar.timezone,
+      admins: calendar.x_pubky_admins || [],
+      role: calendar.author === publicKey ? "owner" : "admin",
+      hidden: Boolean(subscription?.hidden),
+    });
+  }
+
+  for (const { subscription, calendar } of subscribed) {
+    if (!calendar || calendars.has(calendar.uri)) continue;
+    calendars.set(calendar.uri, {
+      uri: calendar.uri,
+      authorId: calendar.authorId,
+      calendarId: calendar.calendarId,
+      name: calendar.calendar.name || "Untitled Calendar",
+      color: subscription.data.color || calendar.calendar.color,
+      timezone: calendar.calendar.timezone,
+      admins: calendar.calendar.x_pubky_admins || [],
+      role: "subscriber",
+      hidden: Boolean(subscription.data.hidden),
+    });
+  }
+
+  const roleOrder: AgendaCalendarRole[] = ["owner", "admin", "subscriber"];
+  return Array.from(calendars.values()).sort((a, b) =>
+    roleOrder.indexOf(a.role) - roleOrder.indexOf(b.role) ||
+    a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Keep RSVPs for events outside the given calendars
+ *
+ * Declined events are left out, as are events linked to any of the
+ * calendars, which already show in the agenda.
+ */
+export function getOutsideRsvps(
+  rsvps: AgendaRsvp[],
+  calendarUris: Iterable<string>,
+): AgendaRsvp[] {
+  const followed = new Set(calendarUris);
+  return rsvps.filter(({ status, event }) =>
+    status !== "DECLINED" &&
+    !getEventCalendarUris(event.data).some((uri) => followed.has(uri))
+  );
+}
+
+/**
+ * Expand event records into agenda items overlapping [rangeStart, rangeEnd)
+ *
+ * Recurring series are expanded in `timeZone` with their overrides, and
+ * each item points at the record it came from.
+ */
+export function getAgendaItems(
+  records: PubkyAppEventRecord[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  options: {
+    calendarUri?: string | null;
+    color?: string;
+    timeZone?: string;
+    rsvps?: Map<string, AttendeeStatus>; // By event URI
+  } = {},
+): AgendaItem[] {
+  const uris = new Map(records.map((record) => [record.data, record.uri]));
+
+  return expandEvents(
+    records.map((record) => record.data),
+    rangeStart,
+    rangeEnd,
+    options.timeZone,
+  ).map((occurrence) => {
+    const eventUri = uris.get(occurrence.event) || occurrence.event.uid;
+    return {
+      key: `${eventUri}-${occurrence.start.getTime()}`,
+      eventUri,
+      calendarUri: options.calendarUri || null,
+      occurrence,
+      color: options.color,
+      rsvp: options.rsvps?.get(eventUri),
+    };
+  });
+}
+
+/**
+ * Merge agenda items from several sources into one timeline
+ *
+ * An event reachable through several calendars is listed once, with the
+ * first source's color.
+ */
+export function mergeAgendaItems(sources: AgendaItem[][]): AgendaItem[] {
+  const items = new Map<string, AgendaItem>();
+  for (const source of sources) {
+    for (const item of source) {
+      if (!items.has(item.key)) items.set(item.key, item);
+    }
+  }
+
+  return Array.from(items.values()).sort((a, b) =>
+    a.occurrence.start.getTime() - b.occurrence.start.getTime()
+  );
+}
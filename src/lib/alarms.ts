@@ -0,0 +1,257 @@
+/**
+ * Event reminders
+ *
+ * VALARM-style reminders a user attaches to events. The alarm records live
+ * on the user's homeserver; this module works out when their notifications
+ * fire, taking recurrence, REPEAT/DURATION and snoozing into account.
+ */
+
+import { parseDuration } from "@/lib/duration";
+import { expandEvents } from "@/lib/recurrence";
+import type {
+  PubkyAppAlarmData,
+  PubkyAppEventData,
+  PubkyAppEventRecord,
+} from "@/types/calendar";
+
+/**
+ * An alarm's stored data together with the URI it lives at
+ */
+export interface AlarmRecord {
+  uri: string;
+  data: PubkyAppAlarmData;
+}
+
+/**
+ * An alarm together with the event it belongs to
+ */
+export interface ScheduledAlarm {
+  alarm: AlarmRecord;
+  event: PubkyAppEventData | null; // null if the event is gone
+  subscriptionUri?: string; // Set for default reminders of a subscription
+}
+
+/**
+ * A single notification of an alarm for one event occurrence
+ */
+export interface AlarmNotification {
+  key: string; // Stable per alarm, occurrence and repeat
+  alarmUri: string;
+  eventUri: string;
+  summary: string;
+  occurrenceStart: Date;
+  fireAt: Date;
+}
+
+/**
+ * What the user did with a notification on this device
+ */
+export interface AlarmNotificationState {
+  firedAt?: number; // Unix ms
+  snoozedUntil?: number; // Unix ms
+}
+
+export const ALARM_TRIGGER_PRESETS: Array<{ value: string; label: string }> = [
+  { value: "PT0S", label: "At start time" },
+  { value: "-PT5M", label: "5 minutes before" },
+  { value: "-PT15M", label: "15 minutes before" },
+  { value: "-PT30M", label: "30 minutes before" },
+  { value: "-PT1H", label: "1 hour before" },
+  { value: "-P1D", label: "1 day before" },
+];
+
+const UNITS: Array<[number, string]> = [
+  [7 * 24 * 60 * 60 * 1000, "week"],
+  [24 * 60 * 60 * 1000, "day"],
+  [60 * 60 * 1000, "hour"],
+  [60 * 1000, "minute"],
+];
+
+function formatSpan(milliseconds: number): string {
+  const [size, unit] = UNITS.find(([size]) => milliseconds % size === 0) ||
+    [1000, "second"];
+  const count = milliseconds / size;
+  return `${count} ${unit}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Describe a trigger in words ("15 minutes before", "At start time")
+ */
+export function describeTrigger(trigger: string): string {
+  const offset = parseDuration(trigger);
+  if (offset === null) return trigger;
+  if (offset === 0) return "At start time";
+  return `${formatSpan(Math.abs(offset))} ${offset < 0 ? "before" : "after"}`;
+}
+
+/**
+ * Describe an alarm in words ("15 minutes before, 3 times 5 minutes apart")
+ */
+export function describeAlarm(alarm: PubkyAppAlarmData): string {
+  const offsets = getAlarmOffsets(alarm);
+  const trigger = describeTrigger(alarm.trigger);
+  if (offsets.length < 2) return trigger;
+  return `${trigger}, ${offsets.length} times ${
+    formatSpan(offsets[1] - offsets[0])
+  } apart`;
+}
+
+/**
+ * Offsets from the event start at which an alarm fires, in ms
+ *
+ * The first notification is at TRIGGER; REPEAT adds that many more, each
+ * DURATION after the previous one. REPEAT without a valid DURATION is
+ * ignored, as RFC 5545 requires both.
+ */
+export function getAlarmOffsets(alarm: PubkyAppAlarmData): number[] {
+  const trigger = parseDuration(alarm.trigger);
+  if (trigger === null) return [];
+
+  const interval = parseDuration(alarm.duration);
+  const repeat = interval && interval > 0 ? Math.max(0, alarm.repeat || 0) : 0;
+
+  return Array.from(
+    { length: repeat + 1 },
+    (_, index) => trigger + index * (interval || 0),
+  );
+}
+
+/**
+ * Key identifying one notification across reloads
+ */
+export function getNotificationKey(
+  alarmUri: string,
+  occurrenceStart: Date,
+  repeatIndex: number,
+): string {
+  return `${alarmUri}|${occurrenceStart.getTime()}|${repeatIndex}`;
+}
+
+/**
+ * Get the notifications of an alarm that fire within [rangeStart, rangeEnd)
+ *
+ * Recurring events produce one set of notifications per occurrence.
+ *
+ * @param timeZone - Zone recurrence rules are evaluated in
+ * @returns Notifications sorted by fire time
+ */
+export function getAlarmNotifications(
+  alarm: AlarmRecord,
+  event: PubkyAppEventData,
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone?: string,
+): AlarmNotification[] {
+  const offsets = getAlarmOffsets(alarm.data);
+  if (offsets.length === 0) return [];
+
+  // Occurrences whose notifications can land inside the range
+  const minOffset = Math.min(...offsets);
+  const maxOffset = Math.max(...offsets);
+  const occurrences = expandEvents(
+    [event],
+    new Date(rangeStart.getTime() - maxOffset),
+    new Date(rangeEnd.getTime() - minOffset),
+    timeZone,
+  );
+
+  const notifications: AlarmNotification[] = [];
+  for (const occurrence of occurrences) {
+    offsets.forEach((offset, index) => {
+      const fireAt = new Date(occurrence.start.getTime() + offset);
+      if (fireAt < rangeStart || fireAt >= rangeEnd) return;
+
+      notifications.push({
+        key: getNotificationKey(alarm.uri, occurrence.start, index),
+        alarmUri: alarm.uri,
+        eventUri: alarm.data.x_pubky_event_uri,
+        summary: alarm.data.summary || event.summary,
+        occurrenceStart: occurrence.start,
+        fireAt,
+      });
+    });
+  }
+
+  return notifications.sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+}
+
+/**
+ * Apply snoozes and drop notifications that were already shown
+ *
+ * A snoozed notification moves to its snooze time and counts as pending
+ * again until it has been shown after that time.
+ *
+ * @returns Pending notifications sorted by (snoozed) fire time
+ */
+export function getPendingNotifications(
+  notifications: AlarmNotification[],
+  states: Record<string, AlarmNotificationState>,
+): AlarmNotification[] {
+  const pending: AlarmNotification[] = [];
+
+  for (const notification of notifications) {
+    const state = states[notification.key];
+    const fireAt = state?.snoozedUntil !== undefined
+      ? new Date(state.snoozedUntil)
+      : notification.fireAt;
+    if (state?.firedAt !== undefined && state.firedAt >= fireAt.getTime()) {
+      continue;
+    }
+    pending.push({ ...notification, fireAt });
+  }
+
+  return pending.sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+}
+
+/**
+ * Get the notifications of all alarms that fire within [rangeStart, rangeEnd)
+ *
+ * Alarms whose event is gone are skipped.
+ *
+ * @returns Notifications sorted by fire time
+ */
+export function getScheduleNotifications(
+  schedule: ScheduledAlarm[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone?: string,
+): AlarmNotification[] {
+  return schedule
+    .flatMap(({ alarm, event }) =>
+      event
+        ? getAlarmNotifications(alarm, event, rangeStart, rangeEnd, timeZone)
+        : []
+    )
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+}
+
+/**
+ * Default reminders of a calendar subscription
+ *
+ * Every event of the calendar gets the subscription's default reminder,
+ * unless the user set reminders of their own for it.
+ *
+ * @param ownEventUris - Events the user has their own reminders for
+ */
+export function getSubscriptionAlarms(
+  subscriptionUri: string,
+  trigger: string,
+  events: PubkyAppEventRecord[],
+  ownEventUris: Set<string>,
+): ScheduledAlarm[] {
+  return events
+    .filter((event) => !ownEventUris.has(event.uri))
+    .map((event) => ({
+      alarm: {
+        uri: `${subscriptionUri}#${event.uri}`,
+        data: {
+          x_pubky_event_uri: event.uri,
+          action: "DISPLAY",
+          trigger,
+          created: 0,
+        },
+      },
+      event: event.data,
+      subscriptionUri,
+    }));
+}
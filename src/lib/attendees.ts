@@ -0,0 +1,95 @@
+/**
+ * Event attendees
+ *
+ * RSVPs of an event as shown on the event page, combined from Nexus and
+ * the viewer's own homeserver record.
+ */
+
+import type { NexusAttendee, RsvpStatus } from "@/lib/nexus-types";
+import type { PubkyAppAttendeeData } from "@/types/calendar";
+
+export interface EventAttendee {
+  publicKey: string;
+  uri: string; // Attendee record URI
+  rsvp: RsvpStatus;
+  role?: string | null;
+  name?: string | null;
+}
+
+/**
+ * Statuses shown on the event page, in display order
+ */
+export const ATTENDEE_STATUSES: RsvpStatus[] = [
+  "ACCEPTED",
+  "TENTATIVE",
+  "DECLINED",
+];
+
+export function nexusAttendeeToEventAttendee(
+  attendee: NexusAttendee,
+): EventAttendee {
+  return {
+    publicKey: attendee.author,
+    uri: attendee.uri,
+    rsvp: attendee.rsvp || "NEEDS_ACTION",
+    role: attendee.role,
+    name: attendee.name,
+  };
+}
+
+export function attendeeDataToEventAttendee(
+  publicKey: string,
+  uri: string,
+  data: PubkyAppAttendeeData,
+): EventAttendee {
+  return {
+    publicKey,
+    uri,
+    rsvp: data.rsvp,
+    role: data.role,
+    name: data.name,
+  };
+}
+
+/**
+ * Replace the viewer's indexed RSVP with their homeserver record
+ *
+ * The homeserver is ahead of Nexus right after an RSVP is changed or
+ * withdrawn, so `own` wins; null removes the viewer from the list.
+ * Duplicate entries per user are dropped.
+ */
+export function mergeOwnAttendee(
+  indexed: EventAttendee[],
+  viewerKey: string | null,
+  own: EventAttendee | null,
+): EventAttendee[] {
+  const seen = new Set<string>();
+  const attendees = indexed.filter((attendee) => {
+    if (attendee.publicKey === viewerKey || seen.has(attendee.publicKey)) {
+      return false;
+    }
+    seen.add(attendee.publicKey);
+    return true;
+  });
+
+  return own ? [own, ...attendees] : attendees;
+}
+
+/**
+ * Group attendees by RSVP status
+ */
+export function groupAttendeesByStatus(
+  attendees: EventAttendee[],
+): Record<RsvpStatus, EventAttendee[]> {
+  const groups: Record<RsvpStatus, EventAttendee[]> = {
+    NEEDS_ACTION: [],
+    ACCEPTED: [],
+    DECLINED: [],
+    TENTATIVE: [],
+    DELEGATED: [],
+  };
+  for (const attendee of attendees) {
+    groups[attendee.rsvp]?.push(attendee); // Unknown statuses are skipped
+  }
+  return groups;
+}
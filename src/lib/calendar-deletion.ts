@@ -0,0 +1,87 @@
+/**
+ * Calendar deletion
+ *
+ * Deleting a calendar also deals with the user's events in it: they are
+ * deleted, or detached and kept. Events that are also in other calendars
+ * are always detached. Settings, reminders, RSVPs and images that only
+ * belonged to what is deleted go with it.
+ */
+
+import { getEventCalendarUris } from "@/lib/event-data";
+import {
+  getDeletionCascade,
+  getRecordType,
+  type StoredRecord,
+} from "@/lib/storage-references";
+import type { PubkyAppEventData } from "@/types/calendar";
+
+/**
+ * What happens to the user's events in the calendar
+ */
+export type CalendarEventMode = "delete" | "detach";
+
+/**
+ * An event kept, with the calendars it stays in
+ */
+export interface DetachedEvent {
+  uri: string;
+  calendarUris: string[];
+}
+
+/**
+ * Everything a calendar deletion changes on the user's homeserver
+ */
+export interface CalendarDeletionPlan {
+  calendarUri: string;
+  detachEvents: DetachedEvent[];
+  deleteEvents: string[];
+  dependents: string[];
+  files: string[];
+  blobs: string[];
+}
+
+/**
+ * Work out what deleting a calendar changes
+ *
+ * @param records - All of the user's records, see getDeletionCascade
+ * @throws {Error} If a record could not be read
+ */
+export function planCalendarDeletion(
+  calendarUri: string,
+  records: StoredRecord[],
+  eventMode: CalendarEventMode,
+): CalendarDeletionPlan {
+  const detachEvents: DetachedEvent[] = [];
+  const deleteEvents: string[] = [];
+
+  for (const record of records) {
+    if (getRecordType(record.uri) !== "event" || !record.data) continue;
+
+    const calendarUris = getEventCalendarUris(
+      record.data as PubkyAppEventData,
+    );
+    if (!calendarUris.includes(calendarUri)) continue;
+
+    const remaining = calendarUris.filter((uri) => uri !== calendarUri);
+    if (eventMode === "delete" && remaining.length === 0) {
+      deleteEvents.push(record.uri);
+    } else {
+      detachEvents.push({ uri: record.uri, calendarUris: remaining });
+    }
+  }
+
+  return {
+    calendarUri,
+    detachEvents,
+    deleteEvents,
+    ...getDeletionCascade(records, [calendarUri, ...deleteEvents]),
+  };
+}
+
+/**
+ * Number of homeserver writes a plan takes
+ */
+export function getPlanSize(plan: CalendarDeletionPlan): number {
+  return 1 + plan.detachEvents.length + plan.deleteEvents.length +
+    plan.dependents.length + plan.files.length + plan.blobs.length;
+}
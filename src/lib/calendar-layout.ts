@@ -0,0 +1,389 @@
+/**
+ * Calendar grid layout
+ *
+ * Date ranges for the month / week / day / agenda views and positioning of
+ * events inside them. Days are handled as day numbers (days since
+ * 1970-01-01 on the wall clock of the display timezone) so views line up
+ * with local midnight across DST changes.
+ */
+
+import {
+  epochToWallClock,
+  getWallClockTime,
+  wallClockToDate,
+  wallClockToEpoch,
+} from "@/lib/timezone";
+
+export type CalendarViewType = "month" | "week" | "day" | "agenda";
+
+/**
+ * Anything that can be placed on the calendar grid
+ */
+export interface CalendarLayoutItem {
+  start: Date;
+  end: Date;
+  allDay?: boolean;
+}
+
+/**
+ * Placement of a timed item inside a day column
+ * top/height are fractions of the day, column/columns split overlaps
+ */
+export interface TimedItemLayout<T> {
+  item: T;
+  top: number;
+  height: number;
+  column: number;
+  columns: number;
+}
+
+/**
+ * Placement of an all-day or multi-day bar inside a row of days
+ */
+export interface SpanningItemLayout<T> {
+  item: T;
+  startIndex: number; // Index of the first visible day
+  span: number; // Number of visible days covered
+  row: number; // Stacking row, 0 = top
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AGENDA_DAYS = 30;
+const MINUTE_MS = 60 * 1000;
+const MIN_DURATION_MS = 15 * MINUTE_MS; // Smallest block drawn in time grids
+
+/**
+ * Day number of an instant in a timezone
+ */
+export function toDayNumber(date: Date, timeZone: string): number {
+  const wall = getWallClockTime(date, timeZone);
+  return Math.floor(
+    wallClockToEpoch({ ...wall, hour: 0, minute: 0, second: 0 }) / DAY_MS,
+  );
+}
+
+/**
+ * First instant of a day in a timezone
+ */
+export function getDayStart(dayNumber: number, timeZone: string): Date {
+  return wallClockToDate(epochToWallClock(dayNumber * DAY_MS), timeZone);
+}
+
+/**
+ * Day number as "YYYY-MM-DD"
+ */
+export function formatDayKey(dayNumber: number): string {
+  return new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Time of day of an instant in a timezone, e.g. "09:30"
+ */
+export function formatTimeOfDay(date: Date, timeZone: string): string {
+  return date.toLocaleTimeString(undefined, {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone,
+  });
+}
+
+/**
+ * Day of the week of a day number (0 = Sunday)
+ */
+export function getWeekday(dayNumber: number): number {
+  return new Date(dayNumber * DAY_MS).getUTCDay();
+}
+
+function getWeekStart(dayNumber: number, weekStartsOn: number): number {
+  return dayNumber - ((getWeekday(dayNumber) - weekStartsOn + 7) % 7);
+}
+
+/**
+ * Days shown by a view around an anchor day
+ *
+ * Month views cover whole weeks from the week of the 1st to the week of
+ * the last day of the month.
+ *
+ * @param weekStartsOn - First day of the week (0 = Sunday, 1 = Monday)
+ */
+export function getViewDays(
+  view: CalendarViewType,
+  anchorDay: number,
+  weekStartsOn = 1,
+): number[] {
+  let first: number;
+  let count: number;
+
+  switch (view) {
+    case "month": {
+      const anchor = new Date(anchorDay * DAY_MS);
+      const monthStart = Date.UTC(
+        anchor.getUTCFullYear(),
+        anchor.getUTCMonth(),
+        1,
+      ) / DAY_MS;
+      const monthEnd = Date.UTC(
+        anchor.getUTCFullYear(),
+        anchor.getUTCMonth() + 1,
+        0,
+      ) / DAY_MS;
+      first = getWeekStart(monthStart, weekStartsOn);
+      count = getWeekStart(monthEnd, weekStartsOn) + 7 - first;
+      break;
+    }
+    case "week":
+      first = getWeekStart(anchorDay, weekStartsOn);
+      count = 7;
+      break;
+    case "day":
+      first = anchorDay;
+      count = 1;
+      break;
+    case "agenda":
+      first = anchorDay;
+      count = AGENDA_DAYS;
+      break;
+  }
+
+  return Array.from({ length: count }, (_, index) => first + index);
+}
+
+/**
+ * Instants covered by a list of consecutive days
+ */
+export function getDaysRange(
+  days: number[],
+  timeZone: string,
+): { start: Date; end: Date } {
+  return {
+    start: getDayStart(days[0], timeZone),
+    end: getDayStart(days[days.length - 1] + 1, timeZone),
+  };
+}
+
+/**
+ * Move the anchor day one period forward or back
+ * Months keep the day of the month where possible (Jan 31 -> Feb 28).
+ */
+export function shiftAnchorDay(
+  view: CalendarViewType,
+  anchorDay: number,
+  direction: 1 | -1,
+): number {
+  switch (view) {
+    case "month": {
+      const anchor = new Date(anchorDay * DAY_MS);
+      const year = anchor.getUTCFullYear();
+      const month = anchor.getUTCMonth() + direction;
+      const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      return Date.UTC(year, month, Math.min(anchor.getUTCDate(), lastDay)) /
+        DAY_MS;
+    }
+    case "week":
+      return anchorDay + 7 * direction;
+    case "day":
+      return anchorDay + direction;
+    case "agenda":
+      return anchorDay + AGENDA_DAYS * direction;
+  }
+}
+
+/**
+ * Last day an item touches (end is exclusive)
+ */
+function getLastDay(item: CalendarLayoutItem, timeZone: string): number {
+  const startDay = toDayNumber(item.start, timeZone);
+  if (item.end.getTime() <= item.start.getTime()) return startDay;
+  return Math.max(
+    startDay,
+    toDayNumber(new Date(item.end.getTime() - 1), timeZone),
+  );
+}
+
+/**
+ * Whether an item is drawn as a bar (all-day or crossing midnight)
+ * rather than a block in the time grid
+ */
+export function isSpanningItem(
+  item: CalendarLayoutItem,
+  timeZone: string,
+): boolean {
+  return Boolean(item.allDay) ||
+    getLastDay(item, timeZone) > toDayNumber(item.start, timeZone);
+}
+
+/**
+ * Items touching a day, in start order
+ */
+export function getItemsForDay<T extends CalendarLayoutItem>(
+  items: T[],
+  dayNumber: number,
+  timeZone: string,
+): T[] {
+  return items
+    .filter((item) =>
+      toDayNumber(item.start, timeZone) <= dayNumber &&
+      getLastDay(item, timeZone) >= dayNumber
+    )
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Same wall clock time a number of days later in a timezone
+ */
+export function addDaysInTimeZone(
+  date: Date,
+  days: number,
+  timeZone: string,
+): Date {
+  const wall = getWallClockTime(date, timeZone);
+  return wallClockToDate(
+    epochToWallClock(wallClockToEpoch(wall) + days * DAY_MS),
+    timeZone,
+  );
+}
+
+/**
+ * New times of an item dragged by whole days and minutes
+ * The duration is kept.
+ */
+export function moveItem(
+  item: CalendarLayoutItem,
+  dayDelta: number,
+  minuteDelta: number,
+  timeZone: string,
+): { start: Date; end: Date } {
+  const start = new Date(
+    addDaysInTimeZone(item.start, dayDelta, timeZone).getTime() +
+      minuteDelta * MINUTE_MS,
+  );
+  const duration = item.end.getTime() - item.start.getTime();
+  return { start, end: new Date(start.getTime() + duration) };
+}
+
+/**
+ * New times of an item whose end was dragged by some minutes
+ * The item keeps at least the minimum block duration.
+ */
+export function resizeItem(
+  item: CalendarLayoutItem,
+  minuteDelta: number,
+): { start: Date; end: Date } {
+  const end = Math.max(
+    item.end.getTime() + minuteDelta * MINUTE_MS,
+    item.start.getTime() + MIN_DURATION_MS,
+  );
+  return { start: item.start, end: new Date(end) };
+}
+
+/**
+ * Lay out timed items of one day, placing overlapping items side by side
+ *
+ * Overlapping items form a cluster; each item takes the first free column
+ * and all items of a cluster share the cluster's column count.
+ */
+export function layoutTimedItems<T extends CalendarLayoutItem>(
+  items: T[],
+  dayNumber: number,
+  timeZone: string,
+): TimedItemLayout<T>[] {
+  const dayStart = getDayStart(dayNumber, timeZone).getTime();
+  const dayEnd = getDayStart(dayNumber + 1, timeZone).getTime();
+  const dayLength = dayEnd - dayStart;
+
+  const blocks = items
+    .map((item) => {
+      const start = Math.max(item.start.getTime(), dayStart);
+      const end = Math.min(
+        Math.max(item.end.getTime(), item.start.getTime() + MIN_DURATION_MS),
+        dayEnd,
+      );
+      return { item, start, end };
+    })
+    .filter((block) => block.start < dayEnd && block.end > dayStart)
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const layouts: TimedItemLayout<T>[] = [];
+  let cluster: TimedItemLayout<T>[] = [];
+  let columnEnds: number[] = [];
+  let clusterEnd = -Infinity;
+
+  const closeCluster = () => {
+    for (const layout of cluster) layout.columns = columnEnds.length;
+    cluster = [];
+    columnEnds = [];
+  };
+
+  for (const block of blocks) {
+    if (block.start >= clusterEnd) closeCluster();
+
+    let column = columnEnds.findIndex((end) => end <= block.start);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(block.end);
+    } else {
+      columnEnds[column] = block.end;
+    }
+
+    const layout: TimedItemLayout<T> = {
+      item: block.item,
+      top: (block.start - dayStart) / dayLength,
+      height: (block.end - block.start) / dayLength,
+      column,
+      columns: 1,
+    };
+    cluster.push(layout);
+    layouts.push(layout);
+    clusterEnd = Math.max(clusterEnd, block.end);
+  }
+  closeCluster();
+
+  return layouts;
+}
+
+/**
+ * Lay out all-day and multi-day bars across consecutive days
+ * Each bar takes the lowest row that is free on all of its days.
+ */
+export function layoutSpanningItems<T extends CalendarLayoutItem>(
+  items: T[],
+  days: number[],
+  timeZone: string,
+): SpanningItemLayout<T>[] {
+  const firstDay = days[0];
+  const lastDay = days[days.length - 1];
+
+  const bars = items
+    .map((item) => ({
+      item,
+      from: toDayNumber(item.start, timeZone),
+      to: getLastDay(item, timeZone),
+    }))
+    .filter((bar) => bar.from <= lastDay && bar.to >= firstDay)
+    .sort((a, b) => a.from - b.from || (b.to - b.from) - (a.to - a.from));
+
+  const rowEnds: number[] = []; // Last occupied day per row
+  return bars.map((bar) => {
+    const from = Math.max(bar.from, firstDay);
+    const to = Math.min(bar.to, lastDay);
+
+    let row = rowEnds.findIndex((end) => end < from);
+    if (row === -1) {
+      row = rowEnds.length;
+      rowEnds.push(to);
+    } else {
+      rowEnds[row] = to;
+    }
+
+    return {
+      item: bar.item,
+      startIndex: from - firstDay,
+      span: to - from + 1,
+      row,
+      continuesBefore: bar.from < firstDay,
+      continuesAfter: bar.to > lastDay,
+    };
+  });
+}
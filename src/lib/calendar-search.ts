@@ -0,0 +1,40 @@
+/**
+ * Calendar discovery
+ *
+ * Free-text matching for the calendar discovery page. Nexus streams
+ * calendars in the requested order; the text search runs on the client.
+ */
+
+import type { NexusCalendar } from "@/lib/nexus-types";
+import { parseCalendarUri } from "@/utils/pubky-uri";
+
+/**
+ * Check whether a calendar matches a free-text query
+ *
+ * Every word of the query must appear in the name or description.
+ */
+export function matchesCalendarQuery(
+  calendar: NexusCalendar,
+  query: string | undefined,
+): boolean {
+  const terms = (query || "").toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const haystack = [calendar.name, calendar.description]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+}
+
+/**
+ * Parse a comma- or whitespace-separated list of calendar URIs
+ *
+ * Invalid and duplicate URIs are dropped; order is kept.
+ */
+export function parseCalendarUriList(value: string | undefined): string[] {
+  const uris = (value || "")
+    .split(/[\s,]+/)
+    .filter((uri) => parseCalendarUri(uri) !== null);
+  return [...new Set(uris)];
+}
@@ -6,11 +6,16 @@
 import type {
   CalendarFormData,
   EventFormData,
+  PollFormData,
   ValidationResult,
 } from "@/types/calendar";
+import { getRRuleError } from "@/lib/recurrence";
+import { getEventExtraFields } from "@/lib/event-data";
+import { getEventTimeZone } from "@/lib/event-time";
 
 const MAX_NAME_LENGTH = 255;
 const MAX_SUMMARY_LENGTH = 255;
+const MAX_POLL_SLOTS = 20;
 
 /**
  * Validate calendar form data
@@ -68,9 +73,16 @@ export function validateEventForm(data: EventFormData): ValidationResult {
     errors.dtend = "End date/time must be after start date/time";
   }
 
-  // Validate RRULE if provided
-  if (data.rrule && !isValidRRule(data.rrule)) {
-    errors.rrule = "Invalid recurrence rule format";
+  // Validate RRULE if provided (must parse and produce occurrences)
+  if (data.rrule) {
+    const rruleError = getRRuleError(
+      data.rrule.trim(),
+      data.dtstart || undefined,
+      getEventTimeZone(getEventExtraFields(data), getUserTimezone()),
+    );
+    if (rruleError) {
+      errors.rrule = rruleError;
+    }
   }
 
   // Validate conference URL if provided
@@ -84,6 +96,46 @@ export function validateEventForm(data: EventFormData): ValidationResult {
   };
 }
 
+/**
+ * Validate meeting poll form data
+ */
+export function validatePollForm(data: PollFormData): ValidationResult {
+  const errors: Record<string, string> = {};
+
+  if (!data.summary || data.summary.trim().length === 0) {
+    errors.summary = "Event title is required";
+  } else if (data.summary.length > MAX_SUMMARY_LENGTH) {
+    errors.summary =
+      `Event title must be less than ${MAX_SUMMARY_LENGTH} characters`;
+  }
+
+  if (!data.calendarUri) {
+    errors.calendarUri = "Choose the calendar the event goes into";
+  }
+
+  if (data.slots.length < 2) {
+    errors.slots = "Propose at least two times";
+  } else if (data.slots.length > MAX_POLL_SLOTS) {
+    errors.slots = `Propose at most ${MAX_POLL_SLOTS} times`;
+  } else if (data.slots.some((slot) => slot.end <= slot.start)) {
+    errors.slots = "Each time must end after it starts";
+  } else if (
+    new Set(data.slots.map((slot) => slot.start.getTime())).size !==
+      data.slots.length
+  ) {
+    errors.slots = "Two proposed times start at the same time";
+  }
+
+  if (data.invitees.length === 0) {
+    errors.invitees = "Invite at least one person";
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
 /**
  * Validate CSS color
  */
@@ -133,35 +185,6 @@ function isValidTimezone(timezone: string): boolean {
   }
 }
 
-/**
- * Validate RFC 5545 RRULE
- * Basic validation - checks for required FREQ parameter
- */
-function isValidRRule(rrule: string): boolean {
-  // Must start with FREQ=
-  if (!rrule.startsWith("FREQ=")) {
-    return false;
-  }
-
-  // Valid frequencies
-  const validFreqs = [
-    "SECONDLY",
-    "MINUTELY",
-    "HOURLY",
-    "DAILY",
-    "WEEKLY",
-    "MONTHLY",
-    "YEARLY",
-  ];
-  const freqMatch = rrule.match(/FREQ=(\w+)/);
-
-  if (!freqMatch || !validFreqs.includes(freqMatch[1])) {
-    return false;
-  }
-
-  return true;
-}
-
 /**
  * Validate URL
  */
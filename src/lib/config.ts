@@ -1,3 +1,30 @@
+import { parseCalendarUriList } from "@/lib/calendar-search";
+
+/**
+ * Where calendar and event data is read from
+ * - "nexus-first": Nexus, falling back to homeservers on errors or 404
+ * - "nexus": Nexus only
+ * - "homeserver": homeservers only, e.g. while no Nexus is available
+ */
+export type DataSourceMode = "nexus-first" | "nexus" | "homeserver";
+
+/**
+ * What happens to events of admins who were removed from a calendar
+ * - "hide": treated like any other outside submission
+ * - "keep-earlier": events they created before the removal stay visible
+ */
+export type RemovedAdminPolicy = "hide" | "keep-earlier";
+
+function parseDataSourceMode(value: string | undefined): DataSourceMode {
+  return value === "nexus" || value === "homeserver" ? value : "nexus-first";
+}
+
+function parseRemovedAdminPolicy(
+  value: string | undefined,
+): RemovedAdminPolicy {
+  return value === "keep-earlier" ? value : "hide";
+}
+
 export interface AppConfig {
   appName: string;
   appUrl: string;
@@ -7,6 +34,9 @@ export interface AppConfig {
   pubkyProfileUrl: string; // Pubky.app profile base URL
   useTestnet: boolean; // Whether to use testnet mode
   homeserver: string; // Homeserver public key
+  featuredCalendars: string[]; // Calendar URIs shown as featured
+  dataSource: DataSourceMode; // Where calendar and event data is read from
+  removedAdminEvents: RemovedAdminPolicy; // Events of removed calendar admins
 }
 
 export function getAppConfig(): AppConfig {
@@ -32,5 +62,12 @@ export function getAppConfig(): AppConfig {
         : "https://nexus.pubky.app"),
     pubkyProfileUrl: process.env.NEXT_PUBLIC_PUBKY_PROFILE_URL ||
       "https://pubky.app/profile",
+    featuredCalendars: parseCalendarUriList(
+      process.env.NEXT_PUBLIC_FEATURED_CALENDARS,
+    ),
+    dataSource: parseDataSourceMode(process.env.NEXT_PUBLIC_DATA_SOURCE),
+    removedAdminEvents: parseRemovedAdminPolicy(
+      process.env.NEXT_PUBLIC_REMOVED_ADMIN_EVENTS,
+    ),
   };
 }
@@ -0,0 +1,62 @@
+/**
+ * ISO 8601 / RFC 5545 duration helpers
+ *
+ * Handles DURATION values ("PT1H30M", "P1D", "-PT15M", "P2W") as used by
+ * VEVENT DURATION and VALARM TRIGGER.
+ */
+
+const DURATION_PATTERN =
+  /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i;
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+/**
+ * Parse a duration into signed milliseconds
+ *
+ * @returns Milliseconds, or null if the value is not a valid duration
+ */
+export function parseDuration(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = value.trim().match(DURATION_PATTERN);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  if (!weeks && !days && !hours && !minutes && !seconds) return null;
+
+  const total = Number(weeks || 0) * WEEK +
+    Number(days || 0) * DAY +
+    Number(hours || 0) * HOUR +
+    Number(minutes || 0) * MINUTE +
+    Number(seconds || 0) * SECOND;
+
+  return sign === "-" ? -total : total;
+}
+
+/**
+ * Format signed milliseconds as a duration ("-PT15M", "P1DT2H")
+ */
+export function formatDuration(milliseconds: number): string {
+  const sign = milliseconds < 0 ? "-" : "";
+  let remaining = Math.abs(Math.round(milliseconds / SECOND)) * SECOND;
+
+  if (remaining === 0) return "PT0S";
+  if (remaining % WEEK === 0) return `${sign}P${remaining / WEEK}W`;
+
+  const days = Math.floor(remaining / DAY);
+  remaining -= days * DAY;
+  const hours = Math.floor(remaining / HOUR);
+  remaining -= hours * HOUR;
+  const minutes = Math.floor(remaining / MINUTE);
+  remaining -= minutes * MINUTE;
+  const seconds = remaining / SECOND;
+
+  const time = `${hours ? `${hours}H` : ""}${minutes ? `${minutes}M` : ""}${
+    seconds ? `${seconds}S` : ""
+  }`;
+
+  return `${sign}P${days ? `${days}D` : ""}${time ? `T${time}` : ""}`;
+}
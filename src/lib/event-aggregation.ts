@@ -0,0 +1,96 @@
+/**
+ * Event aggregation helpers
+ *
+ * A calendar's events live on several homeservers: the owner's and those
+ * of every admin, each written with `x_pubky_calendar_uris` pointing at the
+ * calendar. These helpers decide whose homeservers to read and merge what
+ * was found into one list.
+ */
+
+import type { PubkyAppCalendarData, PubkyAppEventRecord } from "@/types/calendar";
+
+/**
+ * Public keys of everyone who may write events to a calendar, owner first
+ */
+export function getCalendarWriters(
+  authorId: string,
+  calendar: Pick<PubkyAppCalendarData, "x_pubky_admins">,
+): string[] {
+  return Array.from(
+    new Set([
+      authorId,
+      ...(calendar.x_pubky_admins || []).map((admin) =>
+        admin.replace("pubky://", "")
+      ),
+    ]),
+  );
+}
+
+/**
+ * Drop copies of the same event
+ *
+ * Events are the same when they share UID and RECURRENCE-ID, so overrides
+ * of a series are kept next to their master. Of several copies the one
+ * modified last wins, on a tie the first one read.
+ */
+export function dedupeEventRecords(
+  records: PubkyAppEventRecord[],
+): PubkyAppEventRecord[] {
+  const byKey = new Map<string, PubkyAppEventRecord>();
+
+  for (const record of records) {
+    const key = `${record.data.uid}|${record.data.recurrence_id ?? ""}`;
+    const existing = byKey.get(key);
+    if (!existing || record.data.dtstamp > existing.data.dtstamp) {
+      byKey.set(key, record);
+    }
+  }
+
+  return Array.from(byKey.values());
+}
+
+/**
+ * Run an async function over items with at most `limit` calls in flight
+ * Results keep the order of the items.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker),
+  );
+  return results;
+}
+
+/**
+ * Page through a listing until a short page ends it
+ *
+ * Each page starts after the last entry of the previous one. A failed
+ * page rejects, so callers never mistake it for the end of the listing.
+ *
+ * @param listPage - Lists at most `pageSize` entries after `cursor`
+ */
+export async function listAllPages(
+  listPage: (cursor: string | undefined) => Promise<string[]>,
+  pageSize: number,
+  onPage: (entries: string[]) => Promise<void>,
+): Promise<void> {
+  for (let cursor: string | undefined; ;) {
+    const entries = await listPage(cursor);
+    if (entries.length > 0) await onPage(entries);
+    if (entries.length < pageSize) return;
+    cursor = entries[entries.length - 1];
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * Event data helpers
+ *
+ * Normalizes the different event representations (PubkyAppEvent JSON from
+ * the homeserver, NexusEvent from the indexer) into PubkyAppEventData so
+ * export, import and recurrence code only deals with one shape.
+ */
+
+import type { NexusEvent } from "@/lib/nexus-types";
+import type {
+  EventFormData,
+  EventStatus,
+  PubkyAppEventData,
+  PubkyAppEventTimingData,
+  StructuredLocation,
+} from "@/types/calendar";
+import {
+  createStructuredLocationJson,
+  createStyledDescriptionJson,
+  parseConference,
+  parseOrganizer,
+  parseStructuredLocation,
+  parseStyledDescription,
+} from "@/types/calendar";
+
+/**
+ * Convert a microsecond timestamp (number, bigint or numeric string) to a Date
+ */
+export function microsToDate(value: number | bigint | string): Date {
+  return new Date(Number(value) / 1000);
+}
+
+/**
+ * Convert a Date to Unix microseconds
+ */
+export function dateToMicros(date: Date): number {
+  return date.getTime() * 1000;
+}
+
+/**
+ * Get the calendar URIs an event is linked to
+ * Accepts both the array form and a legacy single-string value
+ */
+export function getEventCalendarUris(
+  event: Pick<PubkyAppEventData, "x_pubky_calendar_uris">,
+): string[] {
+  const value = event.x_pubky_calendar_uris as unknown;
+  if (!value) return [];
+  if (Array.isArray(value)) return value.filter(Boolean) as string[];
+  if (typeof value === "string") return [value];
+  return [];
+}
+
+/**
+ * Convert a NexusEvent to PubkyAppEventData
+ *
+ * Nexus timestamps are Unix milliseconds, homeserver data uses microseconds.
+ * Nexus does not expose the original UID, so the event URI is used instead.
+ */
+export function nexusEventToEventData(
+  event: NexusEvent,
+  calendarUri?: string,
+): PubkyAppEventData {
+  let structuredLocation: string | null = null;
+  if (event.location) {
+    const location: StructuredLocation = {
+      name: event.location.name || event.location.address,
+      description: event.location.address,
+      uri: event.location.uri ||
+        (event.location.lat !== undefined && event.location.lon !== undefined
+          ? `geo:${event.location.lat},${event.location.lon}`
+          : undefined),
+    };
+    structuredLocation = createStructuredLocationJson(location);
+  }
+
+  return {
+    uid: event.uri,
+    dtstamp: (event.last_modified || event.created || event.indexed_at) * 1000,
+    dtstart: event.start_date * 1000,
+    dtend: event.end_date ? event.end_date * 1000 : null,
+    summary: event.summary || "",
+    status: event.status || null,
+    organizer: event.organizer || null,
+    categories: event.tags && event.tags.length > 0 ? event.tags : null,
+    created: event.created ? event.created * 1000 : null,
+    rrule: event.recurrence_rule || null,
+    rdate: null,
+    exdate: null,
+    recurrence_id: event.recurrence_id && /^\d+$/.test(event.recurrence_id)
+      ? Number(event.recurrence_id) * 1000
+      : null,
+    image_uri: null,
+    conference: null,
+    structured_location: structuredLocation,
+    styled_description: event.description
+      ? createStyledDescriptionJson(event.description, "text/plain")
+      : null,
+    x_pubky_calendar_uris: calendarUri ? [calendarUri] : null,
+    all_day: event.all_day || null,
+    transp: event.transparency ? "TRANSPARENT" : null,
+  };
+}
+
+/**
+ * Parse a stored RDATE/EXDATE value into a Date
+ *
+ * Accepts RFC 5545 DATE-TIME ("20251023T180000Z"), DATE ("20251023"),
+ * ISO 8601 strings and Unix microsecond strings.
+ */
+export function parseEventDateValue(value: string | number): Date | null {
+  if (typeof value === "number") return microsToDate(value);
+
+  const trimmed = value.trim();
+  const ical = trimmed.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/,
+  );
+  if (ical) {
+    const [, year, month, day, hour = "0", minute = "0", second = "0"] = ical;
+    return new Date(
+      Date.UTC(
+        Number(year),
+        Number(month) - 1,
+        Number(day),
+        Number(hour),
+        Number(minute),
+        Number(second),
+      ),
+    );
+  }
+
+  if (/^\d{13,}$/.test(trimmed)) return microsToDate(trimmed);
+
+  const date = new Date(trimmed);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse a list of stored RDATE/EXDATE values, dropping invalid entries
+ */
+export function parseEventDateList(
+  values: Array<string | number> | null | undefined,
+): Date[] {
+  if (!values) return [];
+  return values
+    .map(parseEventDateValue)
+    .filter((date): date is Date => date !== null);
+}
+
+/**
+ * Format a Date as the stored RDATE/EXDATE representation (UTC DATE-TIME)
+ */
+export function formatEventDateValue(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Event fields the pubky-app-specs event has no room for, kept in a
+ * timing record next to the event: timing and transparency
+ */
+export type EventExtraFields = Pick<
+  PubkyAppEventData,
+  "tzid" | "all_day" | "floating" | "transp"
+>;
+
+/**
+ * Get the stored extra fields of form data
+ */
+export function getEventExtraFields(
+  formData: Pick<
+    EventFormData,
+    "allDay" | "floating" | "timeZone" | "transparent"
+  >,
+): EventExtraFields {
+  const allDay = Boolean(formData.allDay);
+  const floating = !allDay && Boolean(formData.floating);
+  return {
+    tzid: allDay || floating ? null : formData.timeZone || null,
+    all_day: allDay,
+    floating,
+    transp: formData.transparent ? "TRANSPARENT" : "OPAQUE",
+  };
+}
+
+/**
+ * Get the URI of an event's timing record
+ *
+ * @returns The URI, or null if the URI is not an event's
+ */
+export function getEventTimingUri(eventUri: string): string | null {
+  const match = eventUri.match(
+    /^(pubky:\/\/[^/]+\/pub\/pubky\.app)\/event\/([^/]+)$/,
+  );
+  return match ? `${match[1]}/event_timing/${match[2]}` : null;
+}
+
+/**
+ * Build the timing record of an event
+ */
+export function toEventTimingData(
+  eventUri: string,
+  event: EventExtraFields,
+): PubkyAppEventTimingData {
+  return {
+    x_pubky_event_uri: eventUri,
+    tzid: event.tzid ?? null,
+    all_day: event.all_day ?? false,
+    floating: event.floating ?? false,
+    transp: event.transp ?? "OPAQUE",
+  };
+}
+
+/**
+ * Add an event's timing record to its data
+ *
+ * Events written before timing records existed keep the fields stored in
+ * their own JSON.
+ */
+export function withEventTiming(
+  event: PubkyAppEventData,
+  timing: PubkyAppEventTimingData | null,
+): PubkyAppEventData {
+  if (!timing) return event;
+  return {
+    ...event,
+    tzid: timing.tzid,
+    all_day: timing.all_day,
+    floating: timing.floating,
+    transp: timing.transp,
+  };
+}
+
+/**
+ * Convert stored event data to form data, e.g. to prefill an edit form
+ */
+export function eventDataToFormData(event: PubkyAppEventData): EventFormData {
+  const location = parseStructuredLocation(
+    event.structured_location || undefined,
+  );
+  const conference = parseConference(event.conference || undefined);
+  const description = parseStyledDescription(
+    event.styled_description || undefined,
+  );
+  const organizer = parseOrganizer(event.organizer || undefined);
+  const rdate = parseEventDateList(event.rdate);
+  const exdate = parseEventDateList(event.exdate);
+
+  return {
+    summary: event.summary,
+    dtstart: microsToDate(event.dtstart),
+    dtend: event.dtend ? microsToDate(event.dtend) : undefined,
+    allDay: event.all_day || undefined,
+    floating: event.floating || undefined,
+    timeZone: event.tzid || undefined,
+    transparent: event.transp === "TRANSPARENT" || undefined,
+    status: (event.status as EventStatus | null) || undefined,
+    categories: event.categories || [],
+    description: description?.value,
+    descriptionFormat: description?.fmttype,
+    location: location?.name,
+    structuredLocation: location || undefined,
+    conferenceUri: conference?.uri,
+    conferenceLabel: conference?.label,
+    rrule: event.rrule || undefined,
+    imageUri: event.image_uri || undefined,
+    organizer: organizer || undefined,
+    calendarUri: getEventCalendarUris(event)[0],
+    uid: event.uid,
+    rdate: rdate.length > 0 ? rdate : undefined,
+    exdate: exdate.length > 0 ? exdate : undefined,
+    recurrenceId: event.recurrence_id
+      ? microsToDate(event.recurrence_id)
+      : undefined,
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Event discovery filters
+ *
+ * Filter state of the event discovery page, kept in the URL query string
+ * and translated to Nexus stream parameters. Free text and the location
+ * radius are also checked on the client, since the stream only narrows
+ * results by them.
+ */
+
+import type { EventStatus } from "@/types/calendar";
+import type { NexusEvent, StreamEventsParams } from "@/lib/nexus-types";
+import { wallClockToDate } from "@/lib/timezone";
+
+export interface LocationFilter {
+  name: string;
+  lat: number;
+  lon: number;
+  radiusKm: number;
+}
+
+export interface EventFilters {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  tags: string[];
+  status?: EventStatus;
+  location?: LocationFilter;
+  query?: string;
+}
+
+export const DEFAULT_RADIUS_KM = 25;
+
+const EVENT_STATUSES: EventStatus[] = ["CONFIRMED", "TENTATIVE", "CANCELLED"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EARTH_RADIUS_KM = 6371;
+
+function parseNumber(value: string | null): number | null {
+  if (value === null || value.trim() === "") return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Read filters from a query string, ignoring invalid values
+ */
+export function parseEventFilters(params: URLSearchParams): EventFilters {
+  const from = params.get("from");
+  const to = params.get("to");
+  const status = params.get("status");
+  const lat = parseNumber(params.get("lat"));
+  const lon = parseNumber(params.get("lon"));
+  const radius = parseNumber(params.get("radius"));
+  const query = params.get("q")?.trim();
+
+  return {
+    from: from && DATE_PATTERN.test(from) ? from : undefined,
+    to: to && DATE_PATTERN.test(to) ? to : undefined,
+    tags: (params.get("tags") || "")
+      .split(",")
+      .map((tag) => tag.trim().toLowerCase())
+      .filter(Boolean),
+    status: EVENT_STATUSES.find((value) => value === status),
+    location: lat !== null && lon !== null &&
+        Math.abs(lat) <= 90 && Math.abs(lon) <= 180
+      ? {
+        name: params.get("near") || `${lat}, ${lon}`,
+        lat,
+        lon,
+        radiusKm: radius && radius > 0 ? radius : DEFAULT_RADIUS_KM,
+      }
+      : undefined,
+    query: query || undefined,
+  };
+}
+
+/**
+ * Write filters to a query string, leaving out unset filters
+ */
+export function serializeEventFilters(filters: EventFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.query) params.set("q", filters.query);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (filters.tags.length > 0) params.set("tags", filters.tags.join(","));
+  if (filters.status) params.set("status", filters.status);
+  if (filters.location) {
+    params.set("near", filters.location.name);
+    params.set("lat", String(filters.location.lat));
+    params.set("lon", String(filters.location.lon));
+    params.set("radius", String(filters.location.radiusKm));
+  }
+  return params;
+}
+
+function parseDay(value: string, timeZone: string, dayOffset = 0): number {
+  const [year, month, day] = value.split("-").map(Number);
+  return wallClockToDate(
+    { year, month, day: day + dayOffset, hour: 0, minute: 0, second: 0 },
+    timeZone,
+  ).getTime();
+}
+
+/**
+ * Translate filters to Nexus stream parameters
+ * Dates are whole days in the viewer's timezone.
+ */
+export function toStreamEventsParams(
+  filters: EventFilters,
+  timeZone: string,
+): Omit<StreamEventsParams, "skip" | "limit"> {
+  return {
+    start_date: filters.from ? parseDay(filters.from, timeZone) : undefined,
+    end_date: filters.to ? parseDay(filters.to, timeZone, 1) : undefined,
+    tags: filters.tags.length > 0 ? filters.tags.join(",") : undefined,
+    status: filters.status,
+    location: filters.location
+      ? JSON.stringify({
+        lat: filters.location.lat,
+        lon: filters.location.lon,
+        radius_km: filters.location.radiusKm,
+      })
+      : undefined,
+  };
+}
+
+/**
+ * Great-circle distance between two coordinates in kilometres
+ */
+export function getDistanceKm(
+  a: { lat: number; lon: number },
+  b: { lat: number; lon: number },
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+function getEventCoordinates(
+  event: NexusEvent,
+): { lat: number; lon: number } | null {
+  const { location } = event;
+  if (!location) return null;
+  if (typeof location.lat === "number" && typeof location.lon === "number") {
+    return { lat: location.lat, lon: location.lon };
+  }
+  const match = location.uri?.match(/^geo:([-\d.]+),([-\d.]+)/);
+  return match ? { lat: Number(match[1]), lon: Number(match[2]) } : null;
+}
+
+/**
+ * Check the filters the stream can not apply exactly
+ * Events without coordinates never match a location filter.
+ */
+export function matchesEventFilters(
+  event: NexusEvent,
+  filters: EventFilters,
+): boolean {
+  if (filters.query) {
+    const haystack = [
+      event.summary,
+      event.description,
+      event.location?.name,
+      event.location?.address,
+      ...(event.tags || []),
+    ].filter(Boolean).join(" ").toLowerCase();
+
+    const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!terms.every((term) => haystack.includes(term))) return false;
+  }
+
+  if (filters.location) {
+    const coordinates = getEventCoordinates(event);
+    if (
+      !coordinates ||
+      getDistanceKm(coordinates, filters.location) > filters.location.radiusKm
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
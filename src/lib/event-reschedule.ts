@@ -0,0 +1,164 @@
+/**
+ * Event rescheduling
+ *
+ * Applies a change of start/end times to cached event lists, so the
+ * calendar can show a dragged event at its new slot before the write to
+ * the homeserver has finished.
+ */
+
+import type { NexusEvent } from "@/lib/nexus-types";
+import type { PubkyAppEventData, PubkyAppEventRecord } from "@/types/calendar";
+import {
+  dateToMicros,
+  formatEventDateValue,
+  microsToDate,
+  parseEventDateList,
+} from "@/lib/event-data";
+
+/**
+ * New times of an event or of an occurrence of a recurring event
+ */
+export interface EventTimeChange {
+  eventUri: string; // Moved event; for occurrences the master or override
+  start: Date;
+  end: Date | null;
+  occurrence?: {
+    masterUri: string;
+    originalStart: Date; // RECURRENCE-ID of the moved occurrence
+    scope: "this" | "all";
+  };
+}
+
+function getShift(change: EventTimeChange): number {
+  return change.occurrence
+    ? change.start.getTime() - change.occurrence.originalStart.getTime()
+    : 0;
+}
+
+function getDuration(change: EventTimeChange): number | null {
+  return change.end ? change.end.getTime() - change.start.getTime() : null;
+}
+
+function shiftDates(
+  values: PubkyAppEventData["exdate"],
+  shift: number,
+): string[] | null {
+  if (!values) return null;
+  return parseEventDateList(values).map((date) =>
+    formatEventDateValue(new Date(date.getTime() + shift))
+  );
+}
+
+/**
+ * Apply a time change to indexed events
+ *
+ * Single occurrence changes are left to the stored records, which carry
+ * the override; the indexed master keeps its times.
+ */
+export function rescheduleIndexedEvents(
+  events: NexusEvent[],
+  change: EventTimeChange,
+): NexusEvent[] {
+  const { occurrence } = change;
+  if (occurrence?.scope === "this") return events;
+
+  const targetUri = occurrence ? occurrence.masterUri : change.eventUri;
+  const shift = getShift(change);
+  const duration = getDuration(change);
+
+  return events.map((event) => {
+    if (event.uri !== targetUri) return event;
+    const start = occurrence ? event.start_date + shift : change.start.getTime();
+    return {
+      ...event,
+      start_date: start,
+      end_date: duration !== null ? start + duration : event.end_date,
+    };
+  });
+}
+
+/**
+ * Apply a time change to stored event records
+ *
+ * - Single events get the new times
+ * - "this" updates the occurrence's override, or adds one until the
+ *   written override is fetched
+ * - "all" moves the master, its RDATE/EXDATE and its overrides' IDs
+ */
+export function rescheduleEventRecords(
+  records: PubkyAppEventRecord[],
+  change: EventTimeChange,
+): PubkyAppEventRecord[] {
+  const { occurrence } = change;
+  const dtstart = dateToMicros(change.start);
+  const dtend = change.end ? dateToMicros(change.end) : null;
+
+  if (!occurrence) {
+    return records.map((record) =>
+      record.uri === change.eventUri
+        ? { ...record, data: { ...record.data, dtstart, dtend } }
+        : record
+    );
+  }
+
+  const master = records.find((record) => record.uri === occurrence.masterUri);
+  if (!master) return records;
+
+  const { uid } = master.data;
+  const recurrenceId = dateToMicros(occurrence.originalStart);
+  const isOverrideOf = (record: PubkyAppEventRecord, id: number) =>
+    record !== master && record.data.uid === uid &&
+    record.data.recurrence_id === id;
+
+  if (occurrence.scope === "this") {
+    if (records.some((record) => isOverrideOf(record, recurrenceId))) {
+      return records.map((record) =>
+        isOverrideOf(record, recurrenceId)
+          ? { ...record, data: { ...record.data, dtstart, dtend } }
+          : record
+      );
+    }
+
+    return [...records, {
+      uri: `${master.uri}#${recurrenceId}`,
+      data: {
+        ...master.data,
+        dtstart,
+        dtend,
+        recurrence_id: recurrenceId,
+        rrule: null,
+        rdate: null,
+        exdate: null,
+      },
+    }];
+  }
+
+  const shift = getShift(change);
+  const duration = getDuration(change);
+
+  return records.map((record) => {
+    if (record === master) {
+      const start = microsToDate(record.data.dtstart).getTime() + shift;
+      return {
+        ...record,
+        data: {
+          ...record.data,
+          dtstart: start * 1000,
+          dtend: duration !== null ? (start + duration) * 1000 : null,
+          rdate: shiftDates(record.data.rdate, shift),
+          exdate: shiftDates(record.data.exdate, shift),
+        },
+      };
+    }
+    if (record.data.uid === uid && record.data.recurrence_id) {
+      return {
+        ...record,
+        data: {
+          ...record.data,
+          recurrence_id: record.data.recurrence_id + shift * 1000,
+        },
+      };
+    }
+    return record;
+  });
+}
@@ -0,0 +1,240 @@
+/**
+ * Event time helpers
+ *
+ * Events are stored in one of three ways:
+ * - zoned: dtstart/dtend are instants, entered as wall-clock times in the
+ *   event's `tzid` (or the calendar's timezone)
+ * - floating: dtstart/dtend hold a wall-clock time encoded as UTC, shown at
+ *   the same local time in every timezone
+ * - all-day: dtstart/dtend are dates at UTC midnight, dtend is exclusive
+ *   (RFC 5545 DATE values)
+ */
+
+import type { PubkyAppEventData } from "@/types/calendar";
+import {
+  epochToWallClock,
+  getTimezoneAbbreviation,
+  getTimezoneOffset,
+  getWallClockTime,
+  isKnownTimezone,
+  type WallClockTime,
+  wallClockToDate,
+  wallClockToEpoch,
+} from "@/lib/timezone";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How an event's times are to be read
+ */
+export interface EventTiming {
+  allDay: boolean;
+  floating: boolean;
+  timeZone: string | null; // Zone of zoned events, null if unknown
+}
+
+/**
+ * Get the timing of stored event data
+ *
+ * @param fallbackTimeZone - Zone for events stored without one, usually
+ *   the calendar's
+ */
+export function getEventTiming(
+  event: Pick<PubkyAppEventData, "all_day" | "floating" | "tzid">,
+  fallbackTimeZone?: string | null,
+): EventTiming {
+  const allDay = Boolean(event.all_day);
+  const floating = !allDay && Boolean(event.floating);
+  const timeZone = isKnownTimezone(event.tzid)
+    ? event.tzid!
+    : isKnownTimezone(fallbackTimeZone)
+    ? fallbackTimeZone!
+    : null;
+
+  return { allDay, floating, timeZone: allDay || floating ? null : timeZone };
+}
+
+/**
+ * Zone an event's stored times and recurrence rules are evaluated in
+ * Floating and all-day events use UTC, which holds their wall-clock time.
+ */
+export function getEventTimeZone(
+  event: Pick<PubkyAppEventData, "all_day" | "floating" | "tzid">,
+  fallbackTimeZone?: string,
+): string | undefined {
+  const timing = getEventTiming(event, fallbackTimeZone);
+  if (timing.allDay || timing.floating) return "UTC";
+  return timing.timeZone || fallbackTimeZone;
+}
+
+/**
+ * Get the wall-clock time of a stored event time
+ *
+ * @param viewerTimeZone - Used for zoned events without a known zone
+ */
+export function getEventWallClock(
+  date: Date,
+  timing: EventTiming,
+  viewerTimeZone: string,
+): WallClockTime {
+  if (timing.allDay || timing.floating) {
+    return getWallClockTime(date, "UTC");
+  }
+  return getWallClockTime(date, timing.timeZone || viewerTimeZone);
+}
+
+/**
+ * Convert a wall-clock time entered for an event to its stored time
+ *
+ * @param viewerTimeZone - Used for zoned events without a known zone
+ */
+export function eventWallClockToDate(
+  wall: WallClockTime,
+  timing: EventTiming,
+  viewerTimeZone: string,
+): Date {
+  if (timing.allDay) {
+    return wallClockToDate({ ...wall, hour: 0, minute: 0, second: 0 }, "UTC");
+  }
+  if (timing.floating) {
+    return wallClockToDate(wall, "UTC");
+  }
+  return wallClockToDate(wall, timing.timeZone || viewerTimeZone);
+}
+
+/**
+ * Get the instant at which a stored event time happens for a viewer
+ *
+ * Floating and all-day times happen at their wall-clock time in the
+ * viewer's timezone; zoned times are absolute.
+ */
+export function toViewerDate(
+  date: Date,
+  timing: EventTiming,
+  viewerTimeZone: string,
+): Date {
+  if (timing.allDay || timing.floating) {
+    return wallClockToDate(getWallClockTime(date, "UTC"), viewerTimeZone);
+  }
+  return date;
+}
+
+/**
+ * Inverse of toViewerDate, e.g. for an event dragged to a new time
+ */
+export function fromViewerDate(
+  date: Date,
+  timing: EventTiming,
+  viewerTimeZone: string,
+): Date {
+  if (timing.allDay || timing.floating) {
+    return wallClockToDate(getWallClockTime(date, viewerTimeZone), "UTC");
+  }
+  return date;
+}
+
+/**
+ * Move a wall-clock time by whole days
+ */
+export function addDaysToWallClock(
+  wall: WallClockTime,
+  days: number,
+): WallClockTime {
+  return epochToWallClock(wallClockToEpoch(wall) + days * DAY_MS);
+}
+
+/**
+ * Format a wall-clock time for a date ("YYYY-MM-DD") or datetime-local
+ * ("YYYY-MM-DDTHH:MM") input
+ */
+export function formatWallClockInput(
+  wall: WallClockTime,
+  dateOnly = false,
+): string {
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, "0");
+  const date = `${pad(wall.year, 4)}-${pad(wall.month)}-${pad(wall.day)}`;
+  return dateOnly ? date : `${date}T${pad(wall.hour)}:${pad(wall.minute)}`;
+}
+
+/**
+ * Parse the value of a date or datetime-local input
+ *
+ * @returns The wall-clock time, or null if the value is incomplete
+ */
+export function parseWallClockInput(value: string): WallClockTime | null {
+  const match = value.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?$/,
+  );
+  if (!match) return null;
+
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  return {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour),
+    minute: Number(minute),
+    second: Number(second),
+  };
+}
+
+function formatRange(
+  start: Date,
+  end: Date | null,
+  options: Intl.DateTimeFormatOptions,
+  locale?: string,
+): string {
+  return (end ? [start, end] : [start])
+    .map((date) => date.toLocaleString(locale, options))
+    .join(" – ");
+}
+
+/**
+ * Describe an event's time range in its own timezone and the viewer's
+ *
+ * @returns `event` in the event's zone, and `viewer` in the viewer's zone
+ *   when its offset differs (null for floating and all-day events)
+ */
+export function formatEventTimeRange(
+  start: Date,
+  end: Date | null,
+  timing: EventTiming,
+  viewerTimeZone: string,
+  locale?: string,
+): { event: string; viewer: string | null } {
+  if (timing.allDay) {
+    // The stored end is exclusive, the last day is the one before
+    const lastDay = end && end.getTime() - DAY_MS > start.getTime()
+      ? new Date(end.getTime() - DAY_MS)
+      : null;
+    const range = formatRange(start, lastDay, {
+      timeZone: "UTC",
+      dateStyle: "full",
+    }, locale);
+    return { event: `${range} (all day)`, viewer: null };
+  }
+
+  const format = (timeZone: string) =>
+    formatRange(start, end, {
+      timeZone,
+      dateStyle: "full",
+      timeStyle: "short",
+    }, locale);
+
+  if (timing.floating) {
+    return { event: `${format("UTC")} (local time)`, viewer: null };
+  }
+
+  const eventTimeZone = timing.timeZone || viewerTimeZone;
+  const withZone = (timeZone: string) =>
+    `${format(timeZone)} ${getTimezoneAbbreviation(timeZone, start)}`;
+
+  return {
+    event: withZone(eventTimeZone),
+    viewer: getTimezoneOffset(eventTimeZone, start) ===
+        getTimezoneOffset(viewerTimeZone, start)
+      ? null
+      : withZone(viewerTimeZone),
+  };
+}
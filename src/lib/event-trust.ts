@@ -0,0 +1,162 @@
+/**
+ * Event trust checks
+ *
+ * Anyone can write an event that links to someone else's calendar. Only
+ * events by the calendar owner and its admins belong on the calendar;
+ * everything else is an outside submission until the owner or a moderator
+ * approves it.
+ */
+
+import type { RemovedAdminPolicy } from "@/lib/config";
+import type { NexusEvent } from "@/lib/nexus-types";
+import type {
+  CalendarRole,
+  PubkyAppCalendarAdminsData,
+  RemovedCalendarAdmin,
+} from "@/types/calendar";
+
+/**
+ * Who may write to a calendar, as bare public keys
+ */
+export interface CalendarTrust {
+  ownerId: string;
+  admins: string[];
+  roles: Record<string, CalendarRole>; // Admins without a role are editors
+  removedAdmins: RemovedCalendarAdmin[];
+  approved: string[]; // URIs of approved outside submissions
+}
+
+function toPublicKey(value: string): string {
+  return value.replace("pubky://", "");
+}
+
+/**
+ * Build the trust info of a calendar
+ * Admins may be given as public keys or pubky:// URIs.
+ *
+ * @param history - The owner's admin settings, if any
+ * @param approved - Submissions approved by the owner or moderators
+ */
+export function getCalendarTrust(
+  ownerId: string,
+  admins: string[] | null | undefined,
+  history: Pick<PubkyAppCalendarAdminsData, "removed" | "roles"> | null =
+    null,
+  approved: string[] = [],
+): CalendarTrust {
+  return {
+    ownerId,
+    admins: (admins || []).map(toPublicKey),
+    roles: history?.roles || {},
+    removedAdmins: (history?.removed || []).map((admin) => ({
+      ...admin,
+      pubky: toPublicKey(admin.pubky),
+    })),
+    approved,
+  };
+}
+
+/**
+ * Get what a user may do on a calendar
+ *
+ * @returns "owner", the admin's role, or null for everyone else
+ */
+export function getCalendarRole(
+  trust: CalendarTrust,
+  publicKey: string | null | undefined,
+): "owner" | CalendarRole | null {
+  if (!publicKey) return null;
+  if (publicKey === trust.ownerId) return "owner";
+  if (!trust.admins.includes(publicKey)) return null;
+  return trust.roles[publicKey] || "editor";
+}
+
+/**
+ * Public keys whose approvals count: the owner and current moderators
+ */
+export function getApprovers(trust: CalendarTrust): string[] {
+  return [
+    trust.ownerId,
+    ...trust.admins.filter((admin) =>
+      admin !== trust.ownerId && trust.roles[admin] === "moderator"
+    ),
+  ];
+}
+
+/**
+ * Check whether an author may have written an event to the calendar
+ *
+ * @param writtenAt - When the event was written, Unix milliseconds. Use a
+ *   time the author can't set, such as when Nexus indexed the event.
+ */
+export function isTrustedAuthor(
+  trust: CalendarTrust,
+  authorId: string,
+  writtenAt: number | undefined,
+  policy: RemovedAdminPolicy,
+): boolean {
+  if (authorId === trust.ownerId || trust.admins.includes(authorId)) {
+    return true;
+  }
+  if (policy !== "keep-earlier" || writtenAt === undefined) {
+    return false;
+  }
+
+  const removed = trust.removedAdmins.find((admin) => admin.pubky === authorId);
+  return !!removed && writtenAt <= removed.removed_at / 1000;
+}
+
+/**
+ * Split a calendar's events into trusted ones and pending submissions
+ * Approved submissions count as trusted.
+ */
+export function partitionEventsByTrust(
+  events: NexusEvent[],
+  trust: CalendarTrust,
+  policy: RemovedAdminPolicy,
+): { trusted: NexusEvent[]; pending: NexusEvent[] } {
+  const trusted: NexusEvent[] = [];
+  const pending: NexusEvent[] = [];
+
+  for (const event of events) {
+    // `created` is set by the author and can be backdated
+    const writtenAt = Math.max(event.indexed_at, event.created ?? 0);
+    if (
+      trust.approved.includes(event.uri) ||
+      isTrustedAuthor(trust, event.author, writtenAt, policy)
+    ) {
+      trusted.push(event);
+    } else {
+      pending.push(event);
+    }
+  }
+
+  return { trusted, pending };
+}
+
+/**
+ * Update the list of removed admins after the admin list changed
+ *
+ * Admins taken off are added with the current time, admins added back are
+ * dropped from the list.
+ *
+ * @param now - Unix microseconds
+ */
+export function updateRemovedAdmins(
+  removedAdmins: RemovedCalendarAdmin[],
+  previousAdmins: string[],
+  nextAdmins: string[],
+  now: number,
+): RemovedCalendarAdmin[] {
+  const next = new Set(nextAdmins.map(toPublicKey));
+  const kept = removedAdmins.filter((admin) =>
+    !next.has(toPublicKey(admin.pubky))
+  );
+  const listed = new Set(kept.map((admin) => toPublicKey(admin.pubky)));
+
+  const removed = Array.from(new Set(previousAdmins.map(toPublicKey)))
+    .filter((admin) => !next.has(admin) && !listed.has(admin))
+    .map((pubky) => ({ pubky, removed_at: now }));
+
+  return [...kept, ...removed];
+}
@@ -0,0 +1,184 @@
+/**
+ * Free/busy time
+ *
+ * Reduces events to the periods a user is busy, without any details
+ * (RFC 5545 VFREEBUSY). Transparent and cancelled events leave the time
+ * free, tentative events mark it tentatively busy. Recurring events are
+ * expanded; floating and all-day events happen at their wall-clock time
+ * in the user's timezone.
+ */
+
+import { getEventTiming, toViewerDate } from "@/lib/event-time";
+import { expandEvents } from "@/lib/recurrence";
+import type { PubkyAppEventData } from "@/types/calendar";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type FreeBusyType = "BUSY" | "BUSY-TENTATIVE";
+
+/**
+ * A period of time
+ */
+export interface TimePeriod {
+  start: Date;
+  end: Date; // Exclusive
+}
+
+/**
+ * A period the user is busy
+ */
+export interface FreeBusyPeriod extends TimePeriod {
+  type: FreeBusyType;
+}
+
+/**
+ * How an event blocks time
+ *
+ * @returns The busy type, or null if the event leaves the time free
+ */
+export function getEventBusyType(
+  event: Pick<PubkyAppEventData, "status" | "transp">,
+): FreeBusyType | null {
+  if (event.transp === "TRANSPARENT") return null;
+
+  const status = event.status?.toUpperCase();
+  if (status === "CANCELLED") return null;
+  return status === "TENTATIVE" ? "BUSY-TENTATIVE" : "BUSY";
+}
+
+/**
+ * Get the busy periods of events within [rangeStart, rangeEnd)
+ *
+ * Periods are clipped to the range and not merged, see
+ * mergeFreeBusyPeriods.
+ *
+ * @param options.timeZone - Zone recurrence rules are evaluated in, usually
+ *   the calendar's
+ * @param options.userTimeZone - Zone of the user, for floating and all-day
+ *   events
+ */
+export function getBusyPeriods(
+  events: PubkyAppEventData[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  options: { timeZone?: string; userTimeZone: string },
+): FreeBusyPeriod[] {
+  // Floating times shift by up to a day once placed in the user's zone
+  const occurrences = expandEvents(
+    events,
+    new Date(rangeStart.getTime() - DAY_MS),
+    new Date(rangeEnd.getTime() + DAY_MS),
+    options.timeZone,
+  );
+
+  const periods: FreeBusyPeriod[] = [];
+  for (const occurrence of occurrences) {
+    const type = getEventBusyType(occurrence.event);
+    if (!type) continue;
+
+    const timing = getEventTiming(occurrence.event);
+    let endTime = occurrence.end.getTime();
+    if (timing.allDay && endTime <= occurrence.start.getTime()) {
+      // RFC 5545: an all-day event without end lasts one day
+      endTime = occurrence.start.getTime() + DAY_MS;
+    }
+
+    const start = toViewerDate(occurrence.start, timing, options.userTimeZone);
+    const end = toViewerDate(new Date(endTime), timing, options.userTimeZone);
+    const clippedStart = Math.max(start.getTime(), rangeStart.getTime());
+    const clippedEnd = Math.min(end.getTime(), rangeEnd.getTime());
+    if (clippedEnd > clippedStart) {
+      periods.push({
+        start: new Date(clippedStart),
+        end: new Date(clippedEnd),
+        type,
+      });
+    }
+  }
+
+  return periods;
+}
+
+function mergePeriods(periods: TimePeriod[]): TimePeriod[] {
+  const sorted = [...periods].sort((a, b) =>
+    a.start.getTime() - b.start.getTime()
+  );
+
+  const merged: TimePeriod[] = [];
+  for (const period of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && period.start.getTime() <= last.end.getTime()) {
+      if (period.end.getTime() > last.end.getTime()) {
+        last.end = period.end;
+      }
+    } else {
+      merged.push({ start: period.start, end: period.end });
+    }
+  }
+  return merged;
+}
+
+function subtractPeriods(
+  periods: TimePeriod[],
+  removed: TimePeriod[],
+): TimePeriod[] {
+  let remaining = periods;
+  for (const cut of removed) {
+    remaining = remaining.flatMap((period) => {
+      if (
+        cut.end.getTime() <= period.start.getTime() ||
+        cut.start.getTime() >= period.end.getTime()
+      ) {
+        return [period];
+      }
+      return [
+        { start: period.start, end: cut.start },
+        { start: cut.end, end: period.end },
+      ].filter((part) => part.end.getTime() > part.start.getTime());
+    });
+  }
+  return remaining;
+}
+
+/**
+ * Merge overlapping busy periods
+ * Busy time wins over tentative time where they overlap.
+ *
+ * @returns Non-overlapping periods sorted by start
+ */
+export function mergeFreeBusyPeriods(
+  periods: FreeBusyPeriod[],
+): FreeBusyPeriod[] {
+  const busy = mergePeriods(periods.filter((period) => period.type === "BUSY"));
+  const tentative = subtractPeriods(
+    mergePeriods(
+      periods.filter((period) => period.type === "BUSY-TENTATIVE"),
+    ),
+    busy,
+  );
+
+  return [
+    ...busy.map((period) => ({ ...period, type: "BUSY" as const })),
+    ...tentative.map((period) => ({
+      ...period,
+      type: "BUSY-TENTATIVE" as const,
+    })),
+  ].sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Find the periods within [rangeStart, rangeEnd) in which everyone is free
+ * Tentatively busy time counts as busy.
+ *
+ * @param busyPeriods - Each person's busy periods
+ */
+export function getCommonFreePeriods(
+  busyPeriods: FreeBusyPeriod[][],
+  rangeStart: Date,
+  rangeEnd: Date,
+): TimePeriod[] {
+  return subtractPeriods(
+    [{ start: rangeStart, end: rangeEnd }],
+    mergePeriods(busyPeriods.flat()),
+  );
+}
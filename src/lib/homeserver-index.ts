@@ -0,0 +1,158 @@
+/**
+ * Homeserver index
+ *
+ * Presents homeserver records the way Nexus indexes them, so pages and
+ * hooks can read from homeservers when Nexus is down or does not know a
+ * record yet. Stream filters are applied locally.
+ */
+
+import { getEventCalendarUris } from "@/lib/event-data";
+import type {
+  NexusCalendar,
+  NexusEvent,
+  NexusLocation,
+  StreamCalendarsParams,
+  StreamEventsParams,
+} from "@/lib/nexus-types";
+import {
+  parseStructuredLocation,
+  parseStyledDescription,
+  type PubkyAppCalendarData,
+  type PubkyAppEventData,
+} from "@/types/calendar";
+
+const DEFAULT_STREAM_LIMIT = 20;
+
+function getRecordId(uri: string): string {
+  return uri.split("/").pop() || "";
+}
+
+function getLocation(data: PubkyAppEventData): NexusLocation | undefined {
+  const location = parseStructuredLocation(
+    data.structured_location || undefined,
+  );
+  if (!location) return undefined;
+
+  const geo = location.uri?.match(/^geo:(-?[\d.]+),(-?[\d.]+)/);
+  return {
+    name: location.name,
+    address: location.description,
+    uri: location.uri,
+    lat: geo ? Number(geo[1]) : undefined,
+    lon: geo ? Number(geo[2]) : undefined,
+  };
+}
+
+/**
+ * Convert stored calendar data to the Nexus calendar shape
+ *
+ * Homeserver timestamps are Unix microseconds, Nexus uses milliseconds.
+ * Admins are listed as bare public keys, like Nexus does.
+ */
+export function calendarDataToNexusCalendar(
+  uri: string,
+  data: PubkyAppCalendarData,
+): NexusCalendar {
+  const created = data.created ? Math.floor(data.created / 1000) : undefined;
+
+  return {
+    id: getRecordId(uri),
+    indexed_at: created || 0,
+    author: uri.replace("pubky://", "").split("/")[0],
+    uri,
+    name: data.name,
+    timezone: data.timezone || undefined,
+    color: data.color || undefined,
+    image_uri: data.image_uri || undefined,
+    x_pubky_admins: data.x_pubky_admins?.map((admin) =>
+      admin.replace("pubky://", "")
+    ) || null,
+    created,
+  };
+}
+
+/**
+ * Convert stored event data to the Nexus event shape
+ *
+ * The inverse of `nexusEventToEventData`. The event is listed in its
+ * first linked calendar.
+ */
+export function eventDataToNexusEvent(
+  uri: string,
+  data: PubkyAppEventData,
+): NexusEvent {
+  const toMillis = (micros: number) => Math.floor(micros / 1000);
+  const [calendarUri] = getEventCalendarUris(data);
+
+  return {
+    id: getRecordId(uri),
+    indexed_at: toMillis(data.dtstamp),
+    author: uri.replace("pubky://", "").split("/")[0],
+    uri,
+    calendar: calendarUri ? getRecordId(calendarUri) : "",
+    summary: data.summary,
+    description: parseStyledDescription(data.styled_description || undefined)
+      ?.value,
+    location: getLocation(data),
+    start_date: toMillis(data.dtstart),
+    end_date: data.dtend ? toMillis(data.dtend) : 0,
+    all_day: data.all_day || undefined,
+    transparency: data.transp === "TRANSPARENT" || undefined,
+    recurrence_rule: data.rrule || undefined,
+    recurrence_id: data.recurrence_id
+      ? String(toMillis(data.recurrence_id))
+      : undefined,
+    status: data.status || undefined,
+    organizer: data.organizer || undefined,
+    created: data.created ? toMillis(data.created) : undefined,
+    last_modified: toMillis(data.dtstamp),
+    tags: data.categories || undefined,
+  };
+}
+
+/**
+ * Apply event stream filters and paging locally
+ *
+ * A date range keeps events overlapping it. Location filters are not
+ * supported and ignored. Events are ordered by start.
+ */
+export function filterEventStream(
+  events: NexusEvent[],
+  params: StreamEventsParams = {},
+): NexusEvent[] {
+  const tags = params.tags?.split(",").map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean);
+  const { skip = 0, limit = DEFAULT_STREAM_LIMIT } = params;
+
+  return events
+    .filter((event) =>
+      (!params.calendar || event.calendar === params.calendar) &&
+      (!params.status || event.status === params.status) &&
+      (params.end_date === undefined || event.start_date < params.end_date) &&
+      (params.start_date === undefined ||
+        Math.max(event.end_date, event.start_date) >= params.start_date) &&
+      (!tags?.length ||
+        tags.some((tag) =>
+          event.tags?.some((eventTag) => eventTag.toLowerCase() === tag)
+        ))
+    )
+    .sort((a, b) => a.start_date - b.start_date)
+    .slice(skip, skip + limit);
+}
+
+/**
+ * Apply calendar stream paging locally, newest first
+ *
+ * Homeserver data has no event or subscriber counts, so every sorting
+ * falls back to newest first.
+ */
+export function pageCalendarStream(
+  calendars: NexusCalendar[],
+  params: StreamCalendarsParams = {},
+): NexusCalendar[] {
+  const { skip = 0, limit = DEFAULT_STREAM_LIMIT } = params;
+
+  return [...calendars]
+    .sort((a, b) => (b.created || 0) - (a.created || 0))
+    .slice(skip, skip + limit);
+}
@@ -0,0 +1,642 @@
+/**
+ * iCalendar Parser
+ *
+ * Parses RFC 5545 documents (Google, Outlook, Apple exports) and maps
+ * VEVENTs to EventFormData so they can be written with createEvent.
+ */
+
+import type {
+  EventFormData,
+  EventStatus,
+  StructuredLocation,
+} from "@/types/calendar";
+import { parseDuration } from "@/lib/duration";
+import type { FreeBusyPeriod, FreeBusyType } from "@/lib/freebusy";
+import {
+  isKnownTimezone,
+  wallClockToDate,
+  type WallClockTime,
+} from "@/lib/timezone";
+
+/**
+ * A single content line: NAME;PARAM=value:VALUE
+ */
+export interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * A BEGIN/END block with its properties and nested components
+ */
+export interface IcsComponent {
+  name: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+/**
+ * A parsed DATE or DATE-TIME value
+ */
+export interface IcsDateValue {
+  date: Date;
+  allDay: boolean; // VALUE=DATE
+  floating: boolean; // No "Z" and no TZID
+  tzid?: string; // Resolved IANA timezone, if any
+}
+
+/**
+ * An ATTACH property (RFC 5545 section 3.8.1.1)
+ */
+export interface IcsAttachment {
+  uri?: string;
+  data?: string; // Base64 content for inline attachments
+  fmttype?: string;
+  filename?: string;
+}
+
+/**
+ * A VEVENT reduced to the fields Calky understands
+ */
+export interface ParsedIcsEvent {
+  uid: string;
+  summary: string;
+  description?: string; // Plain text
+  htmlDescription?: string; // From X-ALT-DESC / STYLED-DESCRIPTION
+  dtstart: IcsDateValue;
+  dtend?: IcsDateValue;
+  status?: EventStatus;
+  categories: string[];
+  location?: string;
+  geo?: { lat: number; lon: number };
+  url?: string;
+  conference?: { uri: string; label?: string };
+  organizer?: { uri: string; name?: string };
+  rrule?: string;
+  rdate: Date[];
+  exdate: Date[];
+  recurrenceId?: Date;
+  attachments: IcsAttachment[];
+  sequence: number;
+  transparent: boolean;
+}
+
+/**
+ * Result of parsing a calendar file
+ */
+export interface ParsedIcsCalendar {
+  name?: string;
+  timezone?: string;
+  events: ParsedIcsEvent[];
+  errors: string[]; // Per-event problems that caused a VEVENT to be skipped
+}
+
+/**
+ * A VFREEBUSY reduced to its busy periods
+ */
+export interface ParsedIcsFreeBusy {
+  organizer?: string;
+  start?: Date;
+  end?: Date;
+  periods: FreeBusyPeriod[];
+}
+
+export interface IcsParseOptions {
+  defaultTimezone?: string; // Applied to floating times
+}
+
+// ============================================================================
+// Lexing
+// ============================================================================
+
+/**
+ * Split a document into logical lines, joining folded continuations
+ */
+export function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n|\r/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim().length > 0);
+}
+
+/**
+ * Parse one content line into name, parameters and value
+ * Respects quoted parameter values that contain ":" or ";".
+ */
+export function parseContentLine(line: string): IcsProperty | null {
+  let index = 0;
+  let inQuotes = false;
+  const segments: string[] = [];
+  let current = "";
+
+  for (; index < line.length; index++) {
+    const char = line[index];
+    if (char === "\"") {
+      inQuotes = !inQuotes;
+      current += char;
+    } else if (!inQuotes && char === ";") {
+      segments.push(current);
+      current = "";
+    } else if (!inQuotes && char === ":") {
+      break;
+    } else {
+      current += char;
+    }
+  }
+  if (index >= line.length) return null;
+  segments.push(current);
+
+  const [name, ...rawParams] = segments;
+  if (!name) return null;
+
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const equals = param.indexOf("=");
+    if (equals === -1) continue;
+    const key = param.slice(0, equals).toUpperCase();
+    params[key] = param.slice(equals + 1).replace(/^"(.*)"$/, "$1");
+  }
+
+  return {
+    name: name.toUpperCase(),
+    params,
+    value: line.slice(index + 1),
+  };
+}
+
+/**
+ * Parse an iCalendar document into a component tree
+ *
+ * @returns A synthetic "ROOT" component holding the top-level components
+ */
+export function parseIcs(text: string): IcsComponent {
+  const root: IcsComponent = { name: "ROOT", properties: [], components: [] };
+  const stack: IcsComponent[] = [root];
+
+  for (const line of unfoldLines(text)) {
+    const property = parseContentLine(line);
+    if (!property) continue;
+
+    const current = stack[stack.length - 1];
+    if (property.name === "BEGIN") {
+      const component: IcsComponent = {
+        name: property.value.trim().toUpperCase(),
+        properties: [],
+        components: [],
+      };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === "END") {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Reverse TEXT escaping (RFC 5545 section 3.3.11)
+ */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+/**
+ * Split a multi-valued TEXT property on unescaped commas
+ */
+export function splitTextList(value: string): string[] {
+  return value
+    .split(/(?<!\\),/)
+    .map((item) => unescapeText(item).trim())
+    .filter(Boolean);
+}
+
+// ============================================================================
+// Timezones
+// ============================================================================
+
+// Common Windows timezone names used by Outlook/Exchange exports
+const WINDOWS_TIMEZONES: Record<string, string> = {
+  "W. Europe Standard Time": "Europe/Berlin",
+  "Central Europe Standard Time": "Europe/Budapest",
+  "Romance Standard Time": "Europe/Paris",
+  "Central European Standard Time": "Europe/Warsaw",
+  "GMT Standard Time": "Europe/London",
+  "Greenwich Standard Time": "Atlantic/Reykjavik",
+  "E. Europe Standard Time": "Europe/Chisinau",
+  "FLE Standard Time": "Europe/Kiev",
+  "Russian Standard Time": "Europe/Moscow",
+  "Eastern Standard Time": "America/New_York",
+  "Central Standard Time": "America/Chicago",
+  "Mountain Standard Time": "America/Denver",
+  "Pacific Standard Time": "America/Los_Angeles",
+  "India Standard Time": "Asia/Kolkata",
+  "China Standard Time": "Asia/Shanghai",
+  "Tokyo Standard Time": "Asia/Tokyo",
+  "AUS Eastern Standard Time": "Australia/Sydney",
+  "UTC": "UTC",
+};
+
+/**
+ * Resolve a TZID to an IANA timezone known to the runtime
+ *
+ * Handles plain IANA names, Outlook's Windows names and prefixed forms
+ * such as "/freeassociation.sourceforge.net/Europe/Zurich".
+ */
+export function resolveTzid(tzid: string | undefined): string | undefined {
+  if (!tzid) return undefined;
+  const trimmed = tzid.trim();
+
+  if (isKnownTimezone(trimmed)) return trimmed;
+  if (WINDOWS_TIMEZONES[trimmed]) return WINDOWS_TIMEZONES[trimmed];
+
+  const embedded = trimmed.match(/([A-Z][A-Za-z_]+\/[A-Z][A-Za-z_/-]+)$/);
+  if (embedded && isKnownTimezone(embedded[1])) return embedded[1];
+
+  return undefined;
+}
+
+/**
+ * Parse a DATE or DATE-TIME value
+ *
+ * @param value - Raw property value ("20251023", "20251023T190000Z", ...)
+ * @param tzid - TZID parameter, if present
+ * @param defaultTimezone - Zone applied to floating and unresolvable times
+ */
+export function parseIcsDateValue(
+  value: string,
+  tzid?: string,
+  defaultTimezone?: string,
+): IcsDateValue | null {
+  const match = value.trim().match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/,
+  );
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const wall: WallClockTime = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour || 0),
+    minute: Number(minute || 0),
+    second: Number(second || 0),
+  };
+
+  if (hour === undefined) {
+    // All-day values are anchored at midnight UTC of that calendar day
+    return {
+      date: wallClockToDate(wall, "UTC"),
+      allDay: true,
+      floating: true,
+    };
+  }
+
+  if (utc) {
+    return { date: wallClockToDate(wall, "UTC"), allDay: false, floating: false };
+  }
+
+  const resolved = resolveTzid(tzid) ||
+    (defaultTimezone && isKnownTimezone(defaultTimezone)
+      ? defaultTimezone
+      : undefined);
+
+  return {
+    date: wallClockToDate(wall, resolved || "UTC"),
+    allDay: false,
+    floating: !tzid,
+    tzid: resolved,
+  };
+}
+
+function parseDateList(
+  properties: IcsProperty[],
+  defaultTimezone?: string,
+): Date[] {
+  const dates: Date[] = [];
+  for (const property of properties) {
+    // RDATE;VALUE=PERIOD entries are "start/end"; only the start matters here
+    for (const raw of property.value.split(",")) {
+      const parsed = parseIcsDateValue(
+        raw.split("/")[0],
+        property.params.TZID,
+        defaultTimezone,
+      );
+      if (parsed) dates.push(parsed.date);
+    }
+  }
+  return dates;
+}
+
+// ============================================================================
+// VEVENT Mapping
+// ============================================================================
+
+const EVENT_STATUSES: EventStatus[] = ["CONFIRMED", "TENTATIVE", "CANCELLED"];
+
+function first(component: IcsComponent, name: string): IcsProperty | undefined {
+  return component.properties.find((property) => property.name === name);
+}
+
+function all(component: IcsComponent, name: string): IcsProperty[] {
+  return component.properties.filter((property) => property.name === name);
+}
+
+function parseCalAddress(
+  property: IcsProperty | undefined,
+): { uri: string; name?: string } | undefined {
+  if (!property) return undefined;
+  return {
+    uri: property.value.trim(),
+    name: property.params.CN ? unescapeText(property.params.CN) : undefined,
+  };
+}
+
+function parseVEvent(
+  component: IcsComponent,
+  defaultTimezone?: string,
+): ParsedIcsEvent {
+  const uid = first(component, "UID")?.value.trim();
+  if (!uid) throw new Error("VEVENT without UID");
+
+  const dtstartProperty = first(component, "DTSTART");
+  if (!dtstartProperty) throw new Error(`Event ${uid} has no DTSTART`);
+  const dtstart = parseIcsDateValue(
+    dtstartProperty.value,
+    dtstartProperty.params.TZID,
+    defaultTimezone,
+  );
+  if (!dtstart) throw new Error(`Event ${uid} has an invalid DTSTART`);
+
+  let dtend: IcsDateValue | undefined;
+  const dtendProperty = first(component, "DTEND");
+  if (dtendProperty) {
+    dtend = parseIcsDateValue(
+      dtendProperty.value,
+      dtendProperty.params.TZID,
+      defaultTimezone,
+    ) || undefined;
+  } else {
+    const duration = parseDuration(first(component, "DURATION")?.value);
+    if (duration !== null) {
+      dtend = { ...dtstart, date: new Date(dtstart.date.getTime() + duration) };
+    } else if (dtstart.allDay) {
+      // RFC 5545: an all-day event without end lasts one day
+      dtend = {
+        ...dtstart,
+        date: new Date(dtstart.date.getTime() + 24 * 60 * 60 * 1000),
+      };
+    }
+  }
+
+  const recurrenceIdProperty = first(component, "RECURRENCE-ID");
+  const recurrenceId = recurrenceIdProperty
+    ? parseIcsDateValue(
+      recurrenceIdProperty.value,
+      recurrenceIdProperty.params.TZID,
+      defaultTimezone,
+    )?.date
+    : undefined;
+
+  const rawStatus = first(component, "STATUS")?.value.trim().toUpperCase();
+  const status = EVENT_STATUSES.find((value) => value === rawStatus);
+
+  const geoValue = first(component, "GEO")?.value.split(/[;,]/);
+  const geo = geoValue && geoValue.length === 2 &&
+      !isNaN(Number(geoValue[0])) && !isNaN(Number(geoValue[1]))
+    ? { lat: Number(geoValue[0]), lon: Number(geoValue[1]) }
+    : undefined;
+
+  const htmlDescription = [
+    ...all(component, "STYLED-DESCRIPTION"),
+    ...all(component, "X-ALT-DESC"),
+  ].find((property) =>
+    (property.params.FMTTYPE || "").toLowerCase() === "text/html"
+  );
+
+  const conferenceProperty = first(component, "CONFERENCE") ||
+    first(component, "X-GOOGLE-CONFERENCE");
+
+  const attachments: IcsAttachment[] = all(component, "ATTACH").map(
+    (property) => {
+      const isBinary = (property.params.VALUE || "").toUpperCase() ===
+          "BINARY" ||
+        (property.params.ENCODING || "").toUpperCase() === "BASE64";
+      return {
+        uri: isBinary ? undefined : property.value.trim(),
+        data: isBinary ? property.value.trim() : undefined,
+        fmttype: property.params.FMTTYPE,
+        filename: property.params.FILENAME || property.params["X-FILENAME"],
+      };
+    },
+  );
+
+  const description = first(component, "DESCRIPTION");
+  const location = first(component, "LOCATION");
+
+  return {
+    uid,
+    summary: unescapeText(first(component, "SUMMARY")?.value || "").trim(),
+    description: description ? unescapeText(description.value) : undefined,
+    htmlDescription: htmlDescription
+      ? unescapeText(htmlDescription.value)
+      : undefined,
+    dtstart,
+    dtend,
+    status,
+    categories: all(component, "CATEGORIES").flatMap((property) =>
+      splitTextList(property.value)
+    ),
+    location: location ? unescapeText(location.value).trim() : undefined,
+    geo,
+    url: first(component, "URL")?.value.trim(),
+    conference: conferenceProperty
+      ? {
+        uri: conferenceProperty.value.trim(),
+        label: conferenceProperty.params.LABEL,
+      }
+      : undefined,
+    organizer: parseCalAddress(first(component, "ORGANIZER")),
+    rrule: first(component, "RRULE")?.value.trim(),
+    rdate: parseDateList(all(component, "RDATE"), defaultTimezone),
+    exdate: parseDateList(all(component, "EXDATE"), defaultTimezone),
+    recurrenceId,
+    attachments,
+    sequence: Number(first(component, "SEQUENCE")?.value || 0) || 0,
+    transparent:
+      first(component, "TRANSP")?.value.trim().toUpperCase() === "TRANSPARENT",
+  };
+}
+
+/**
+ * Parse an iCalendar document and extract its events
+ *
+ * Invalid VEVENTs are skipped and reported in `errors` instead of failing
+ * the whole file.
+ */
+export function parseIcsCalendar(
+  text: string,
+  options: IcsParseOptions = {},
+): ParsedIcsCalendar {
+  const root = parseIcs(text);
+  const calendars = root.components.filter((c) => c.name === "VCALENDAR");
+  if (calendars.length === 0) {
+    throw new Error("No VCALENDAR found in file");
+  }
+
+  const result: ParsedIcsCalendar = { events: [], errors: [] };
+
+  for (const calendar of calendars) {
+    const name = first(calendar, "NAME") || first(calendar, "X-WR-CALNAME");
+    if (name && !result.name) result.name = unescapeText(name.value);
+
+    const calendarTimezone = resolveTzid(
+      first(calendar, "X-WR-TIMEZONE")?.value,
+    );
+    if (calendarTimezone && !result.timezone) {
+      result.timezone = calendarTimezone;
+    }
+    const defaultTimezone = calendarTimezone || options.defaultTimezone;
+
+    for (const component of calendar.components) {
+      if (component.name !== "VEVENT") continue;
+      try {
+        result.events.push(parseVEvent(component, defaultTimezone));
+      } catch (error) {
+        result.errors.push(
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse the first VFREEBUSY of a document
+ *
+ * FREE periods are left out and BUSY-UNAVAILABLE counts as BUSY. Periods
+ * may end at a time or after a duration.
+ *
+ * @returns The busy periods, or null if there is no VFREEBUSY
+ */
+export function parseIcsFreeBusy(text: string): ParsedIcsFreeBusy | null {
+  const component = parseIcs(text).components
+    .filter((calendar) => calendar.name === "VCALENDAR")
+    .flatMap((calendar) => calendar.components)
+    .find((child) => child.name === "VFREEBUSY");
+  if (!component) return null;
+
+  const dtstart = first(component, "DTSTART");
+  const dtend = first(component, "DTEND");
+  const periods: FreeBusyPeriod[] = [];
+
+  for (const property of all(component, "FREEBUSY")) {
+    const fbtype = (property.params.FBTYPE || "BUSY").toUpperCase();
+    if (fbtype === "FREE") continue;
+    const type: FreeBusyType = fbtype === "BUSY-TENTATIVE"
+      ? "BUSY-TENTATIVE"
+      : "BUSY";
+
+    for (const value of property.value.split(",")) {
+      const [startValue, endValue] = value.trim().split("/");
+      const start = parseIcsDateValue(startValue || "");
+      if (!start || !endValue) continue;
+
+      const duration = parseDuration(endValue);
+      const end = duration !== null
+        ? new Date(start.date.getTime() + duration)
+        : parseIcsDateValue(endValue)?.date;
+      if (end && end.getTime() > start.date.getTime()) {
+        periods.push({ start: start.date, end, type });
+      }
+    }
+  }
+
+  return {
+    organizer: parseCalAddress(first(component, "ORGANIZER"))?.uri,
+    start: dtstart
+      ? parseIcsDateValue(dtstart.value, dtstart.params.TZID)?.date
+      : undefined,
+    end: dtend
+      ? parseIcsDateValue(dtend.value, dtend.params.TZID)?.date
+      : undefined,
+    periods: periods.sort((a, b) => a.start.getTime() - b.start.getTime()),
+  };
+}
+
+/**
+ * Deduplication key for an event: UID plus RECURRENCE-ID for overrides
+ */
+export function getIcsEventKey(
+  event: { uid: string; recurrenceId?: Date },
+): string {
+  return event.recurrenceId
+    ? `${event.uid}#${event.recurrenceId.toISOString()}`
+    : event.uid;
+}
+
+function plainTextToHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\n/g, "<br>");
+}
+
+/**
+ * Map a parsed VEVENT to form data accepted by createEvent
+ *
+ * @param event - Parsed event
+ * @param calendarUri - Calendar the event is imported into
+ */
+export function parsedEventToFormData(
+  event: ParsedIcsEvent,
+  calendarUri?: string,
+): EventFormData {
+  let structuredLocation: StructuredLocation | undefined;
+  if (event.location || event.geo) {
+    const [name, ...rest] = (event.location || "").split(",");
+    structuredLocation = {
+      name: name?.trim() || event.location,
+      description: rest.length > 0 ? event.location : undefined,
+      uri: event.geo ? `geo:${event.geo.lat},${event.geo.lon}` : undefined,
+    };
+  }
+
+  const conferenceUri = event.conference?.uri ||
+    (event.url && /^https?:\/\//.test(event.url) ? event.url : undefined);
+
+  return {
+    summary: event.summary || "Untitled Event",
+    dtstart: event.dtstart.date,
+    dtend: event.dtend?.date,
+    // Floating times without a default zone keep their wall clock in UTC
+    allDay: event.dtstart.allDay || undefined,
+    floating: (!event.dtstart.allDay && event.dtstart.floating &&
+      !event.dtstart.tzid) || undefined,
+    timeZone: event.dtstart.tzid,
+    transparent: event.transparent || undefined,
+    status: event.status,
+    categories: event.categories.length > 0 ? event.categories : undefined,
+    description: event.htmlDescription ||
+      (event.description ? plainTextToHtml(event.description) : undefined),
+    location: event.location,
+    structuredLocation,
+    conferenceUri,
+    conferenceLabel: event.conference?.label,
+    rrule: event.rrule,
+    calendarUri,
+    uid: event.uid,
+    rdate: event.rdate.length > 0 ? event.rdate : undefined,
+    exdate: event.exdate.length > 0 ? event.exdate : undefined,
+    recurrenceId: event.recurrenceId,
+  };
+}
@@ -0,0 +1,818 @@
+/**
+ * iCalendar Serializer
+ *
+ * Builds RFC 5545 text from Pubky calendar and event data, including the
+ * RFC 7986 (NAME, COLOR, CONFERENCE, IMAGE) and RFC 9073 (STYLED-DESCRIPTION,
+ * VLOCATION) extensions used by pubky-app-specs.
+ */
+
+import type { PubkyAppEventData } from "@/types/calendar";
+import {
+  parseConference,
+  parseOrganizer,
+  parseStructuredLocation,
+  parseStyledDescription,
+} from "@/types/calendar";
+import {
+  formatEventDateValue,
+  microsToDate,
+  parseEventDateList,
+} from "@/lib/event-data";
+import { type EventTiming, getEventTiming } from "@/lib/event-time";
+import type { FreeBusyPeriod } from "@/lib/freebusy";
+import { getEventRecurrenceInput, getLastOccurrence } from "@/lib/recurrence";
+import {
+  epochToWallClock,
+  getTimezoneAbbreviation,
+  getTimezoneOffset,
+  getTimezoneTransitions,
+  getWallClockTime,
+  isKnownTimezone,
+  type TimezoneTransition,
+  type WallClockTime,
+} from "@/lib/timezone";
+
+const CRLF = "\r\n";
+const MAX_LINE_OCTETS = 75;
+
+export const ICS_PRODUCT_ID = "-//Calky//Pubky iCalendar//EN";
+export const ICS_CONTENT_TYPE = "text/calendar; charset=utf-8";
+
+/**
+ * Calendar-level properties for the VCALENDAR wrapper
+ */
+export interface IcsCalendarInput {
+  name?: string | null;
+  timezone?: string | null;
+  color?: string | null;
+  description?: string | null;
+  uri?: string; // Pubky URI of the calendar, used as calendar UID
+  url?: string; // Public web page of the calendar
+  source?: string; // Subscription URL (for feeds)
+  refreshInterval?: string; // ISO 8601 duration, e.g. "PT1H"
+}
+
+/**
+ * Hooks to resolve app-specific links while serializing
+ */
+export interface IcsSerializeOptions {
+  now?: Date;
+  resolveImageUrl?: (imageUri: string) => string | null;
+  resolveEventUrl?: (event: PubkyAppEventData) => string | null;
+}
+
+// ============================================================================
+// Text Encoding
+// ============================================================================
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+/**
+ * Encode a property parameter value, quoting when required (section 3.2)
+ */
+export function escapeParam(value: string): string {
+  const cleaned = value.replace(/"/g, "'").replace(/[\r\n]+/g, " ");
+  return /[:;,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+function utf8Length(char: string): number {
+  const codePoint = char.codePointAt(0) || 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * Fold a content line to at most 75 octets per line (section 3.1)
+ * Never splits inside a multi-byte UTF-8 sequence.
+ */
+export function foldLine(line: string): string {
+  const segments: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  // Continuation lines start with a space, which counts towards the limit
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const octets = utf8Length(char);
+    if (currentOctets + octets > limit) {
+      segments.push(current);
+      current = "";
+      currentOctets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  segments.push(current);
+
+  return segments.join(`${CRLF} `);
+}
+
+// ============================================================================
+// Date Formatting
+// ============================================================================
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+function formatWallClock(wall: WallClockTime): string {
+  return `${pad(wall.year, 4)}${pad(wall.month)}${pad(wall.day)}T${
+    pad(wall.hour)
+  }${pad(wall.minute)}${pad(wall.second)}`;
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME ("20251023T180000Z")
+ */
+export function formatUtcDateTime(date: Date): string {
+  return formatEventDateValue(date);
+}
+
+/**
+ * Format an instant as a local DATE-TIME in a timezone ("20251023T200000")
+ */
+export function formatLocalDateTime(date: Date, timeZone: string): string {
+  return formatWallClock(getWallClockTime(date, timeZone));
+}
+
+/**
+ * Format a UTC offset in minutes as "+HHMM"
+ */
+export function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+}
+
+/**
+ * Build a DATE-TIME property, using TZID when the timezone is not UTC
+ */
+function dateTimeProperty(
+  name: string,
+  date: Date,
+  timeZone: string | null,
+): string {
+  if (timeZone && timeZone !== "UTC") {
+    return `${name};TZID=${escapeParam(timeZone)}:${
+      formatLocalDateTime(date, timeZone)
+    }`;
+  }
+  return `${name}:${formatUtcDateTime(date)}`;
+}
+
+/**
+ * Build an event time property: DATE for all-day events, local DATE-TIME
+ * without TZID for floating ones, and a zoned DATE-TIME otherwise
+ */
+function eventTimeProperty(
+  name: string,
+  dates: Date[],
+  timing: EventTiming,
+): string {
+  if (timing.allDay) {
+    return `${name};VALUE=DATE:${
+      dates.map((date) => formatLocalDateTime(date, "UTC").slice(0, 8)).join(
+        ",",
+      )
+    }`;
+  }
+  if (timing.floating) {
+    return `${name}:${
+      dates.map((date) => formatLocalDateTime(date, "UTC")).join(",")
+    }`;
+  }
+  return dates.length === 1
+    ? dateTimeProperty(name, dates[0], timing.timeZone)
+    : dateTimeListProperty(name, dates, timing.timeZone);
+}
+
+function dateTimeListProperty(
+  name: string,
+  dates: Date[],
+  timeZone: string | null,
+): string {
+  if (timeZone && timeZone !== "UTC") {
+    return `${name};TZID=${escapeParam(timeZone)}:${
+      dates.map((date) => formatLocalDateTime(date, timeZone)).join(",")
+    }`;
+  }
+  return `${name}:${dates.map(formatUtcDateTime).join(",")}`;
+}
+
+// ============================================================================
+// VTIMEZONE
+// ============================================================================
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+interface ObservanceRule {
+  month: number;
+  weekday: number;
+  nth: number; // 1-5, or -1 for "last"
+  isLast: boolean;
+  hour: number;
+  minute: number;
+}
+
+function describeTransition(transition: TimezoneTransition): {
+  local: WallClockTime;
+  rule: ObservanceRule;
+} {
+  // Observance DTSTART is expressed in the offset in effect before it
+  const local = epochToWallClock(
+    transition.at.getTime() + transition.offsetFrom * 60000,
+  );
+  const weekday = new Date(Date.UTC(local.year, local.month - 1, local.day))
+    .getUTCDay();
+  return {
+    local,
+    rule: {
+      month: local.month,
+      weekday,
+      nth: Math.ceil(local.day / 7),
+      isLast: local.day + 7 > daysInMonth(local.year, local.month),
+      hour: local.hour,
+      minute: local.minute,
+    },
+  };
+}
+
+/**
+ * Build a yearly RRULE for a group of transitions if they follow one pattern
+ */
+function inferYearlyRule(transitions: TimezoneTransition[]): string | null {
+  if (transitions.length < 2) return null;
+
+  const described = transitions.map(describeTransition);
+  const first = described[0].rule;
+  const sameShape = described.every(({ rule }, index) =>
+    rule.month === first.month &&
+    rule.weekday === first.weekday &&
+    rule.hour === first.hour &&
+    rule.minute === first.minute &&
+    (index === 0 ||
+      described[index].local.year === described[index - 1].local.year + 1)
+  );
+  if (!sameShape) return null;
+
+  const weekday = WEEKDAY_CODES[first.weekday];
+  if (described.every(({ rule }) => rule.isLast)) {
+    return `FREQ=YEARLY;BYMONTH=${first.month};BYDAY=-1${weekday}`;
+  }
+  if (described.every(({ rule }) => rule.nth === first.nth)) {
+    return `FREQ=YEARLY;BYMONTH=${first.month};BYDAY=${first.nth}${weekday}`;
+  }
+  return null;
+}
+
+function observanceLines(
+  kind: "STANDARD" | "DAYLIGHT",
+  dtstart: string,
+  offsetFrom: number,
+  offsetTo: number,
+  name: string,
+  rrule?: string | null,
+): string[] {
+  return [
+    `BEGIN:${kind}`,
+    `DTSTART:${dtstart}`,
+    ...(rrule ? [`RRULE:${rrule}`] : []),
+    `TZOFFSETFROM:${formatUtcOffset(offsetFrom)}`,
+    `TZOFFSETTO:${formatUtcOffset(offsetTo)}`,
+    `TZNAME:${escapeText(name)}`,
+    `END:${kind}`,
+  ];
+}
+
+/**
+ * Generate a VTIMEZONE component for an IANA timezone
+ *
+ * Offsets are derived from the runtime's Intl data for the given range.
+ * Regular DST patterns are emitted as yearly RRULEs so clients can use the
+ * definition beyond the sampled range; irregular ones as single observances.
+ */
+export function buildVTimezone(
+  timeZone: string,
+  from: Date,
+  to: Date,
+): string[] {
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${escapeText(timeZone)}`];
+  const transitions = getTimezoneTransitions(timeZone, from, to);
+  const initialOffset = getTimezoneOffset(timeZone, from);
+
+  if (transitions.length === 0) {
+    lines.push(
+      ...observanceLines(
+        "STANDARD",
+        "19700101T000000",
+        initialOffset,
+        initialOffset,
+        getTimezoneAbbreviation(timeZone, from),
+      ),
+    );
+  } else {
+    // Base observance covering everything before the first transition
+    lines.push(
+      ...observanceLines(
+        "STANDARD",
+        "19700101T000000",
+        initialOffset,
+        initialOffset,
+        getTimezoneAbbreviation(timeZone, from),
+      ),
+    );
+
+    const groups = new Map<string, TimezoneTransition[]>();
+    for (const transition of transitions) {
+      const key = `${transition.offsetFrom}:${transition.offsetTo}`;
+      groups.set(key, [...(groups.get(key) || []), transition]);
+    }
+
+    for (const group of groups.values()) {
+      const { offsetFrom, offsetTo } = group[0];
+      const kind = offsetTo > offsetFrom ? "DAYLIGHT" : "STANDARD";
+      const name = getTimezoneAbbreviation(timeZone, group[0].at);
+      const rrule = inferYearlyRule(group);
+
+      if (rrule) {
+        lines.push(
+          ...observanceLines(
+            kind,
+            formatWallClock(describeTransition(group[0]).local),
+            offsetFrom,
+            offsetTo,
+            name,
+            rrule,
+          ),
+        );
+      } else {
+        for (const transition of group) {
+          lines.push(
+            ...observanceLines(
+              kind,
+              formatWallClock(describeTransition(transition).local),
+              offsetFrom,
+              offsetTo,
+              getTimezoneAbbreviation(timeZone, transition.at),
+            ),
+          );
+        }
+      }
+    }
+  }
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+// ============================================================================
+// Colors
+// ============================================================================
+
+// Subset of CSS3 named colors used to satisfy RFC 7986 COLOR
+const CSS_COLORS: Record<string, [number, number, number]> = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+  gray: [128, 128, 128],
+  silver: [192, 192, 192],
+  red: [255, 0, 0],
+  maroon: [128, 0, 0],
+  crimson: [220, 20, 60],
+  orange: [255, 165, 0],
+  darkorange: [255, 140, 0],
+  gold: [255, 215, 0],
+  yellow: [255, 255, 0],
+  olive: [128, 128, 0],
+  lime: [0, 255, 0],
+  green: [0, 128, 0],
+  forestgreen: [34, 139, 34],
+  seagreen: [46, 139, 87],
+  teal: [0, 128, 128],
+  turquoise: [64, 224, 208],
+  cyan: [0, 255, 255],
+  deepskyblue: [0, 191, 255],
+  dodgerblue: [30, 144, 255],
+  royalblue: [65, 105, 225],
+  blue: [0, 0, 255],
+  navy: [0, 0, 128],
+  indigo: [75, 0, 130],
+  purple: [128, 0, 128],
+  darkviolet: [148, 0, 211],
+  orchid: [218, 112, 214],
+  magenta: [255, 0, 255],
+  hotpink: [255, 105, 180],
+  pink: [255, 192, 203],
+  brown: [165, 42, 42],
+  chocolate: [210, 105, 30],
+  tan: [210, 180, 140],
+  salmon: [250, 128, 114],
+  coral: [255, 127, 80],
+  slategray: [112, 128, 144],
+};
+
+function parseHexColor(color: string): [number, number, number] | null {
+  const match = color.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const hex = match[1].length === 3
+    ? match[1].split("").map((c) => c + c).join("")
+    : match[1];
+  return [
+    parseInt(hex.slice(0, 2), 16),
+    parseInt(hex.slice(2, 4), 16),
+    parseInt(hex.slice(4, 6), 16),
+  ];
+}
+
+/**
+ * Map a calendar color to the closest CSS3 color name (RFC 7986 COLOR)
+ */
+export function toCssColorName(color: string): string | null {
+  const lower = color.trim().toLowerCase();
+  if (CSS_COLORS[lower]) return lower;
+  if (lower === "grey") return "gray";
+
+  const rgb = parseHexColor(lower);
+  if (!rgb) return null;
+
+  let closest = "black";
+  let closestDistance = Infinity;
+  for (const [name, [r, g, b]] of Object.entries(CSS_COLORS)) {
+    const distance = (r - rgb[0]) ** 2 + (g - rgb[1]) ** 2 + (b - rgb[2]) ** 2;
+    if (distance < closestDistance) {
+      closest = name;
+      closestDistance = distance;
+    }
+  }
+  return closest;
+}
+
+// ============================================================================
+// Descriptions
+// ============================================================================
+
+/**
+ * Reduce HTML to readable plain text for DESCRIPTION
+ */
+export function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h[1-6])>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "- ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// ============================================================================
+// Components
+// ============================================================================
+
+function parseGeoUri(uri: string | undefined): [string, string] | null {
+  if (!uri) return null;
+  const match = uri.match(/^geo:(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/i);
+  return match ? [match[1], match[2]] : null;
+}
+
+function toCalAddress(uri: string): string {
+  return /^[a-z][a-z0-9+.-]*:/i.test(uri) ? uri : `pubky://${uri}`;
+}
+
+/**
+ * Serialize one event to VEVENT content lines (unfolded)
+ *
+ * @param event - Event data (timestamps in microseconds)
+ * @param timeZone - Timezone for DTSTART/DTEND of events without their
+ *   own, usually the calendar's
+ */
+export function serializeEvent(
+  event: PubkyAppEventData,
+  timeZone: string | null,
+  options: IcsSerializeOptions = {},
+): string[] {
+  const timing = getEventTiming(event, timeZone);
+  const dtstamp = microsToDate(event.dtstamp || event.created || Date.now() * 1000);
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${escapeText(event.uid)}`,
+    `DTSTAMP:${formatUtcDateTime(dtstamp)}`,
+    eventTimeProperty("DTSTART", [microsToDate(event.dtstart)], timing),
+  ];
+
+  if (event.dtend) {
+    lines.push(eventTimeProperty("DTEND", [microsToDate(event.dtend)], timing));
+  }
+  if (event.recurrence_id) {
+    lines.push(
+      eventTimeProperty(
+        "RECURRENCE-ID",
+        [microsToDate(event.recurrence_id)],
+        timing,
+      ),
+    );
+  }
+  if (event.created) {
+    lines.push(`CREATED:${formatUtcDateTime(microsToDate(event.created))}`);
+  }
+  lines.push(`LAST-MODIFIED:${formatUtcDateTime(dtstamp)}`);
+
+  lines.push(`SUMMARY:${escapeText(event.summary || "")}`);
+  if (event.status) {
+    lines.push(`STATUS:${event.status.toUpperCase()}`);
+  }
+  if (event.transp === "TRANSPARENT") {
+    lines.push("TRANSP:TRANSPARENT");
+  }
+
+  if (event.rrule) {
+    lines.push(`RRULE:${event.rrule.replace(/^RRULE:/i, "").trim()}`);
+  }
+  const rdates = parseEventDateList(event.rdate);
+  if (rdates.length > 0) {
+    lines.push(eventTimeProperty("RDATE", rdates, timing));
+  }
+  const exdates = parseEventDateList(event.exdate);
+  if (exdates.length > 0) {
+    lines.push(eventTimeProperty("EXDATE", exdates, timing));
+  }
+
+  if (event.categories && event.categories.length > 0) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeText).join(",")}`);
+  }
+
+  const organizer = parseOrganizer(event.organizer || undefined);
+  if (organizer?.uri) {
+    const cn = organizer.name ? `;CN=${escapeParam(organizer.name)}` : "";
+    lines.push(`ORGANIZER${cn}:${toCalAddress(organizer.uri)}`);
+  }
+
+  const description = parseStyledDescription(
+    event.styled_description || undefined,
+  );
+  if (description?.value) {
+    const isHtml = description.fmttype === "text/html";
+    const plain = isHtml ? htmlToPlainText(description.value) : description.value;
+    lines.push(`DESCRIPTION:${escapeText(plain)}`);
+    if (description.fmttype && description.fmttype !== "text/plain") {
+      lines.push(
+        `STYLED-DESCRIPTION;VALUE=TEXT;FMTTYPE=${
+          escapeParam(description.fmttype)
+        }:${escapeText(description.value)}`,
+      );
+      if (isHtml) {
+        lines.push(`X-ALT-DESC;FMTTYPE=text/html:${escapeText(description.value)}`);
+      }
+    }
+  }
+
+  const location = parseStructuredLocation(
+    event.structured_location || undefined,
+  );
+  if (location) {
+    const label = location.name || location.description;
+    if (label) {
+      lines.push(`LOCATION:${escapeText(label)}`);
+    }
+    const geo = parseGeoUri(location.uri);
+    if (geo) {
+      lines.push(`GEO:${geo[0]};${geo[1]}`);
+    }
+    lines.push(
+      "BEGIN:VLOCATION",
+      `UID:${escapeText(`${event.uid}#location`)}`,
+      ...(location.name ? [`NAME:${escapeText(location.name)}`] : []),
+      ...(location.description
+        ? [`DESCRIPTION:${escapeText(location.description)}`]
+        : []),
+      ...(geo ? [`GEO:${geo[0]};${geo[1]}`] : []),
+      ...(location.uri && !geo ? [`URL:${location.uri}`] : []),
+      "END:VLOCATION",
+    );
+  }
+
+  const conference = parseConference(event.conference || undefined);
+  if (conference?.uri) {
+    const label = conference.label ? `;LABEL=${escapeParam(conference.label)}` : "";
+    lines.push(`CONFERENCE;VALUE=URI;FEATURE=VIDEO${label}:${conference.uri}`);
+  }
+
+  if (event.image_uri && options.resolveImageUrl) {
+    const imageUrl = options.resolveImageUrl(event.image_uri);
+    if (imageUrl) {
+      lines.push(`IMAGE;VALUE=URI;DISPLAY=BADGE:${imageUrl}`);
+    }
+  }
+
+  const eventUrl = options.resolveEventUrl?.(event);
+  if (eventUrl) {
+    lines.push(`URL:${eventUrl}`);
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+function getTimezoneRange(events: PubkyAppEventData[], now: Date): [Date, Date] {
+  let minYear = now.getUTCFullYear();
+  let maxYear = minYear;
+  for (const event of events) {
+    const startYear = microsToDate(event.dtstart).getUTCFullYear();
+    let endYear = microsToDate(event.dtend || event.dtstart).getUTCFullYear();
+    if (event.rrule) {
+      // Cover every occurrence of finite rules, the next year of open ones
+      const lastOccurrence = getLastOccurrence(getEventRecurrenceInput(event));
+      endYear = Math.max(
+        endYear,
+        lastOccurrence?.getUTCFullYear() ?? now.getUTCFullYear() + 1,
+      );
+    }
+    minYear = Math.min(minYear, startYear);
+    maxYear = Math.max(maxYear, endYear);
+  }
+  // Two years minimum so recurring DST patterns can be inferred
+  maxYear = Math.max(maxYear, minYear + 1);
+  return [
+    new Date(Date.UTC(minYear, 0, 1)),
+    new Date(Date.UTC(maxYear, 11, 31, 23, 59, 59)),
+  ];
+}
+
+/**
+ * Serialize a calendar and its events to an iCalendar document
+ *
+ * @returns CRLF-delimited, folded and escaped RFC 5545 text
+ */
+export function serializeCalendar(
+  calendar: IcsCalendarInput,
+  events: PubkyAppEventData[],
+  options: IcsSerializeOptions = {},
+): string {
+  const now = options.now || new Date();
+  const timeZone = calendar.timezone && isKnownTimezone(calendar.timezone)
+    ? calendar.timezone
+    : null;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${ICS_PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+
+  if (calendar.uri) {
+    lines.push(`UID:${escapeText(calendar.uri)}`);
+  }
+  if (calendar.name) {
+    lines.push(
+      `NAME:${escapeText(calendar.name)}`,
+      `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    );
+  }
+  if (calendar.description) {
+    lines.push(
+      `DESCRIPTION:${escapeText(calendar.description)}`,
+      `X-WR-CALDESC:${escapeText(calendar.description)}`,
+    );
+  }
+  if (timeZone) {
+    lines.push(`X-WR-TIMEZONE:${escapeText(timeZone)}`);
+  }
+  if (calendar.color) {
+    const colorName = toCssColorName(calendar.color);
+    if (colorName) {
+      lines.push(`COLOR:${colorName}`);
+    }
+    if (parseHexColor(calendar.color)) {
+      lines.push(`X-APPLE-CALENDAR-COLOR:${calendar.color.toUpperCase()}`);
+    }
+  }
+  if (calendar.url) {
+    lines.push(`URL:${calendar.url}`);
+  }
+  if (calendar.source) {
+    lines.push(`SOURCE;VALUE=URI:${calendar.source}`);
+  }
+  if (calendar.refreshInterval) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:${calendar.refreshInterval}`,
+      `X-PUBLISHED-TTL:${calendar.refreshInterval}`,
+    );
+  }
+
+  // One VTIMEZONE per zone referenced by TZID, covering its events
+  const eventsByZone = new Map<string, PubkyAppEventData[]>();
+  for (const event of events) {
+    const eventZone = getEventTiming(event, timeZone).timeZone;
+    if (eventZone && eventZone !== "UTC") {
+      eventsByZone.set(eventZone, [
+        ...(eventsByZone.get(eventZone) || []),
+        event,
+      ]);
+    }
+  }
+  if (timeZone && timeZone !== "UTC" && !eventsByZone.has(timeZone)) {
+    eventsByZone.set(timeZone, []);
+  }
+  for (const [zone, zoneEvents] of eventsByZone) {
+    const [from, to] = getTimezoneRange(zoneEvents, now);
+    lines.push(...buildVTimezone(zone, from, to));
+  }
+
+  for (const event of events) {
+    lines.push(...serializeEvent(event, timeZone, options));
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
+
+/**
+ * Input for a published free/busy document
+ */
+export interface IcsFreeBusyInput {
+  organizer: string; // Public key or pubky URI of the user
+  start: Date;
+  end: Date;
+  periods: FreeBusyPeriod[]; // Merged, see mergeFreeBusyPeriods
+  url?: string; // Where the document is published
+}
+
+/**
+ * Serialize a user's busy periods to an iCalendar VFREEBUSY document
+ * One FREEBUSY property per busy type, all times in UTC.
+ *
+ * @returns CRLF-delimited, folded RFC 5545 text
+ */
+export function serializeFreeBusy(
+  input: IcsFreeBusyInput,
+  options: Pick<IcsSerializeOptions, "now"> = {},
+): string {
+  const now = options.now || new Date();
+  const organizer = toCalAddress(input.organizer);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${ICS_PRODUCT_ID}`,
+    "METHOD:PUBLISH",
+    "BEGIN:VFREEBUSY",
+    `UID:${escapeText(`${organizer}#freebusy`)}`,
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+    `ORGANIZER:${organizer}`,
+    `DTSTART:${formatUtcDateTime(input.start)}`,
+    `DTEND:${formatUtcDateTime(input.end)}`,
+  ];
+  if (input.url) {
+    lines.push(`URL:${input.url}`);
+  }
+
+  for (const type of ["BUSY", "BUSY-TENTATIVE"] as const) {
+    const periods = input.periods.filter((period) => period.type === type);
+    if (periods.length > 0) {
+      lines.push(
+        `FREEBUSY;FBTYPE=${type}:${
+          periods.map((period) =>
+            `${formatUtcDateTime(period.start)}/${formatUtcDateTime(period.end)}`
+          ).join(",")
+        }`,
+      );
+    }
+  }
+
+  lines.push("END:VFREEBUSY", "END:VCALENDAR");
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
+
+/**
+ * Build a safe .ics filename from a calendar name
+ */
+export function getIcsFilename(name: string | null | undefined): string {
+  const slug = (name || "calendar")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase();
+  return `${slug || "calendar"}.ics`;
+}
@@ -67,6 +67,8 @@ class Logger {
       profile: "👤",
       calendar: "📅",
       event: "🎉",
+      attendee: "🙋",
+      alarm: "⏰",
       auth: "🔐",
       image: "🖼️",
       api: "🌐",
@@ -13,6 +13,7 @@ import {
   StreamCalendarsParams,
   StreamEventsParams,
 } from "./nexus-types";
+import { AppError, ErrorCode } from "@/types/errors";
 
 const NEXUS_API_URL = process.env.NEXT_PUBLIC_NEXUS_API_URL || "http://localhost:8080";
 
@@ -33,7 +34,13 @@ async function nexusFetch<T>(endpoint: string, options?: RequestInit): Promise<T
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Nexus API error: ${response.status} ${response.statusText} - ${errorText}`);
+      throw new AppError({
+        code: response.status === 404
+          ? ErrorCode.NEXUS_NOT_FOUND
+          : ErrorCode.NEXUS_API_ERROR,
+        message: `Nexus API error: ${response.status} ${response.statusText} - ${errorText}`,
+        details: { endpoint, status: response.status },
+      });
     }
 
     return await response.json();
@@ -126,6 +133,17 @@ export async function getAttendee(
   return nexusFetch<NexusAttendee>(`/v0/attendee/${authorId}/${attendeeId}`);
 }
 
+/**
+ * Get the attendees (RSVPs) indexed for an event
+ * GET /v0/event/:author_id/:event_id/attendees
+ */
+export async function getEventAttendees(
+  authorId: string,
+  eventId: string
+): Promise<NexusAttendee[]> {
+  return nexusFetch<NexusAttendee[]>(`/v0/event/${authorId}/${eventId}/attendees`);
+}
+
 // ============================================================================
 // Alarm Endpoints
 // ============================================================================
@@ -176,3 +194,26 @@ export async function getEventsByDateRange(
     end_date: endDate.getTime(),
   });
 }
+
+/**
+ * Get every event of a calendar by paging through the event stream
+ */
+export async function getAllCalendarEvents(
+  calendarId: string,
+  params: Omit<StreamEventsParams, "calendar" | "skip" | "limit"> = {},
+  pageSize = 100,
+): Promise<NexusEvent[]> {
+  const events: NexusEvent[] = [];
+
+  for (let skip = 0; ; skip += pageSize) {
+    const page = await getCalendarEvents(calendarId, {
+      ...params,
+      skip,
+      limit: pageSize,
+    });
+    events.push(...page);
+    if (page.length < pageSize) break;
+  }
+
+  return events;
+}
@@ -112,6 +112,11 @@ export interface NexusAlarm {
   duration?: string;
 }
 
+/**
+ * Stream order for calendars
+ */
+export type CalendarSorting = "newest" | "events" | "subscribers";
+
 /**
  * Stream query parameters for calendars
  */
@@ -119,6 +124,7 @@ export interface StreamCalendarsParams {
   skip?: number;
   limit?: number;
   admin?: string; // Filter by admin public key
+  sorting?: CalendarSorting; // Default: newest
 }
 
 /**
@@ -185,3 +185,38 @@ export async function fetchNexusBootstrap(publicKey: string): Promise<NexusBoots
     return null;
   }
 }
+
+/**
+ * Search Nexus users by name
+ *
+ * @param prefix - Start of the user's name
+ * @param limit - Maximum number of results
+ * @returns Public keys of matching users, empty on failure
+ */
+export async function searchNexusUsersByName(
+  prefix: string,
+  limit = 10,
+): Promise<string[]> {
+  try {
+    const response = await fetch(
+      `${NEXUS_BASE}/v0/search/users/by_name/${encodeURIComponent(prefix)}?limit=${limit}`,
+      {
+        method: "GET",
+        headers: {
+          accept: "application/json",
+        },
+      },
+    );
+
+    if (!response.ok) {
+      console.error(`Nexus user search error: ${response.status} for ${prefix}`);
+      return [];
+    }
+
+    const data = await response.json();
+    return Array.isArray(data) ? data : [];
+  } catch (error) {
+    console.error("Nexus user search error:", error);
+    return [];
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Outbox
+ *
+ * Homeserver writes that could not be made right away wait in an outbox
+ * and are retried with exponential backoff. Operations run in the order
+ * they were queued per path, and after the operations they depend on,
+ * e.g. an event after the image file it links to and the file after its
+ * blob.
+ */
+
+export type OutboxOperationKind = "put" | "delete";
+
+export type OutboxOperationStatus = "pending" | "failed";
+
+/**
+ * A queued homeserver write
+ */
+export interface OutboxOperation {
+  id: string;
+  publicKey: string; // Owner of the session that must make the write
+  kind: OutboxOperationKind;
+  path: string; // Relative homeserver path
+  body?: Uint8Array; // Content for puts
+  label: string; // Shown in the UI, e.g. "Create event"
+  dependsOn: string[]; // IDs of operations that must run first
+  createdAt: number; // Unix milliseconds
+  attempts: number;
+  nextAttemptAt: number; // Unix milliseconds
+  status: OutboxOperationStatus;
+  lastError?: string;
+}
+
+/**
+ * Attempts before an operation is marked failed and waits for the user
+ */
+export const MAX_OUTBOX_ATTEMPTS = 6;
+
+const BASE_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Delay before the next attempt, doubling per failed attempt
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1),
+    MAX_RETRY_DELAY_MS,
+  );
+}
+
+function sortByCreation(operations: OutboxOperation[]): OutboxOperation[] {
+  return [...operations].sort((a, b) =>
+    a.createdAt - b.createdAt || a.id.localeCompare(b.id)
+  );
+}
+
+/**
+ * Find the operation that keeps another from running, if any
+ *
+ * An operation waits for its dependencies and for earlier operations on
+ * the same path; operations that are done are no longer in the queue.
+ */
+export function getBlockingOperation(
+  operation: OutboxOperation,
+  operations: OutboxOperation[],
+): OutboxOperation | null {
+  const queue = sortByCreation(operations);
+  const position = queue.findIndex((other) => other.id === operation.id);
+
+  return queue.find((other, index) =>
+    other.id !== operation.id &&
+    (operation.dependsOn.includes(other.id) ||
+      (other.path === operation.path && index < position))
+  ) || null;
+}
+
+/**
+ * Operations of a user that can be attempted now, in queue order
+ */
+export function getReadyOperations(
+  operations: OutboxOperation[],
+  publicKey: string,
+  now: number,
+): OutboxOperation[] {
+  return sortByCreation(operations).filter((operation) =>
+    operation.publicKey === publicKey &&
+    operation.status === "pending" &&
+    operation.nextAttemptAt <= now &&
+    !getBlockingOperation(operation, operations)
+  );
+}
+
+/**
+ * How a failed write is handled
+ * - "retry": the homeserver could not be reached or had an error, so the
+ *   write is queued
+ * - "unauthorized": the session is missing or expired
+ * - "rejected": the homeserver refused the write, retrying won't help
+ */
+export type WriteFailureKind = "retry" | "unauthorized" | "rejected";
+
+/**
+ * HTTP status of a failed homeserver request, if it got a response
+ */
+export function getWriteErrorStatus(error: unknown): number | undefined {
+  const data = error && typeof error === "object"
+    ? (error as { data?: unknown }).data
+    : undefined;
+  const statusCode = data && typeof data === "object"
+    ? (data as { statusCode?: unknown }).statusCode
+    : undefined;
+  return typeof statusCode === "number" ? statusCode : undefined;
+}
+
+/**
+ * Tell from a Pubky SDK error whether a write is worth retrying
+ *
+ * Network failures and 5xx responses are retried. Errors thrown outside
+ * the SDK, such as a failed fetch, count as network failures.
+ */
+export function getWriteFailureKind(error: unknown): WriteFailureKind {
+  const statusCode = getWriteErrorStatus(error);
+  const name = error && typeof error === "object"
+    ? (error as { name?: unknown }).name
+    : undefined;
+
+  if (statusCode === 401 || statusCode === 403) return "unauthorized";
+  if (statusCode !== undefined) return statusCode >= 500 ? "retry" : "rejected";
+  if (name === "AuthenticationError") return "unauthorized";
+  if (
+    name === "InvalidInput" || name === "ClientStateError" ||
+    name === "InternalError"
+  ) {
+    return "rejected";
+  }
+  return "retry";
+}
+
+/**
+ * Record a failed attempt, marking the operation failed once it ran out
+ * of attempts, or right away if retrying won't help
+ */
+export function recordFailedAttempt(
+  operation: OutboxOperation,
+  error: string,
+  now: number,
+  canRetry = true,
+): OutboxOperation {
+  const attempts = operation.attempts + 1;
+  return {
+    ...operation,
+    attempts,
+    lastError: error,
+    status: canRetry && attempts < MAX_OUTBOX_ATTEMPTS ? "pending" : "failed",
+    nextAttemptAt: now + getRetryDelay(attempts),
+  };
+}
+
+/**
+ * Reset a failed operation for another round of attempts
+ */
+export function resetOperation(
+  operation: OutboxOperation,
+  now: number,
+): OutboxOperation {
+  return {
+    ...operation,
+    attempts: 0,
+    status: "pending",
+    nextAttemptAt: now,
+  };
+}
+
+/**
+ * IDs of an operation and every operation that depends on it, directly
+ * or through others
+ *
+ * Discarding an operation discards these too: an event cannot link to an
+ * image whose upload was dropped.
+ */
+export function getDependentIds(
+  operationId: string,
+  operations: OutboxOperation[],
+): string[] {
+  const ids = new Set([operationId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const operation of operations) {
+      if (
+        !ids.has(operation.id) &&
+        operation.dependsOn.some((id) => ids.has(id))
+      ) {
+        ids.add(operation.id);
+        added = true;
+      }
+    }
+  }
+  return Array.from(ids);
+}
@@ -0,0 +1,126 @@
+/**
+ * Meeting polls
+ *
+ * An organizer proposes candidate slots for a draft event and invitees
+ * answer each slot with yes, maybe or no. The tally counts the answers per
+ * slot; the best slots have the most yes answers, then the most maybes.
+ */
+
+import { microsToDate } from "@/lib/event-data";
+import type {
+  EventFormData,
+  PollAnswer,
+  PollSlot,
+  PubkyAppPollData,
+  PubkyAppPollVoteData,
+} from "@/types/calendar";
+
+/**
+ * Key of a slot in a vote's answers
+ */
+export function getSlotKey(slot: PollSlot): string {
+  return String(slot.start);
+}
+
+/**
+ * Someone asked to vote, with their vote if they answered
+ */
+export interface PollVoter {
+  publicKey: string;
+  vote: PubkyAppPollVoteData | null;
+}
+
+/**
+ * Answer counts of one slot
+ */
+export interface PollSlotTally {
+  slot: PollSlot;
+  yes: number;
+  maybe: number;
+  no: number;
+}
+
+/**
+ * Answers of all voters to all slots
+ */
+export interface PollTally {
+  slots: PollSlotTally[]; // In poll order
+  rows: Array<{
+    publicKey: string;
+    name?: string;
+    answers: Array<PollAnswer | null>; // In slot order, null if unanswered
+  }>;
+  pending: string[]; // Voters who have not answered yet
+}
+
+/**
+ * Count the answers to a poll
+ *
+ * Answers to slots the poll no longer has are ignored.
+ */
+export function tallyPoll(
+  poll: Pick<PubkyAppPollData, "slots">,
+  voters: PollVoter[],
+): PollTally {
+  const slots: PollSlotTally[] = poll.slots.map((slot) => ({
+    slot,
+    yes: 0,
+    maybe: 0,
+    no: 0,
+  }));
+
+  const rows = voters.map(({ publicKey, vote }) => {
+    const answers = poll.slots.map((slot, index) => {
+      const answer = vote?.answers[getSlotKey(slot)] || null;
+      if (answer === "YES") slots[index].yes++;
+      if (answer === "MAYBE") slots[index].maybe++;
+      if (answer === "NO") slots[index].no++;
+      return answer;
+    });
+    return { publicKey, name: vote?.name || undefined, answers };
+  });
+
+  return {
+    slots,
+    rows,
+    pending: voters
+      .filter(({ vote }) => !vote || Object.keys(vote.answers).length === 0)
+      .map(({ publicKey }) => publicKey),
+  };
+}
+
+/**
+ * Get the slots with the most yes answers, then the most maybes
+ *
+ * @returns The tied best slots, empty if nobody is available at all
+ */
+export function getBestSlots(tally: PollTally): PollSlot[] {
+  const score = (slot: PollSlotTally) => slot.yes * 1000 + slot.maybe;
+  const best = Math.max(0, ...tally.slots.map(score));
+  return best === 0
+    ? []
+    : tally.slots.filter((slot) => score(slot) === best).map(({ slot }) =>
+      slot
+    );
+}
+
+/**
+ * Turn a poll and its chosen slot into event form data
+ */
+export function pollToEventFormData(
+  poll: PubkyAppPollData,
+  slot: PollSlot,
+): EventFormData {
+  return {
+    summary: poll.summary,
+    dtstart: microsToDate(slot.start),
+    dtend: microsToDate(slot.end),
+    timeZone: poll.tzid || undefined,
+    description: poll.description || undefined,
+    descriptionFormat: poll.description ? "text/plain" : undefined,
+    location: poll.location || undefined,
+    structuredLocation: poll.location ? { name: poll.location } : undefined,
+    calendarUri: poll.x_pubky_calendar_uri,
+    status: "CONFIRMED",
+  };
+}
@@ -8,6 +8,17 @@ import type {
 } from "@synonymdev/pubky";
 import { getAppConfig } from "./config";
 
+/**
+ * Whether a Pubky SDK error is a 404 response
+ */
+function isNotFound(error: unknown): boolean {
+  const data = error && typeof error === "object"
+    ? (error as { data?: unknown }).data
+    : undefined;
+  return !!data && typeof data === "object" &&
+    (data as { statusCode?: unknown }).statusCode === 404;
+}
+
 /**
  * PubkyClient - Singleton wrapper for Pubky SDK 0.6.0
  * 
@@ -56,6 +67,9 @@ export class PubkyClient {
   /**
    * PUBLIC READ: Get data from a public resource
    * Uses publicStorage - no authentication required
+   *
+   * @returns The content, or null if nothing is stored there
+   * @throws {PubkyError} If the homeserver cannot be reached or fails
    */
   public async get(url: string): Promise<Uint8Array | null> {
     await this.ensureInitialized();
@@ -65,52 +79,49 @@ export class PubkyClient {
       const bytes = await this.pubky!.publicStorage.getBytes(url as any);
       return bytes || null;
     } catch (error) {
-      console.error("GET error:", error);
-      return null;
+      if (isNotFound(error)) return null;
+      throw error;
     }
   }
 
   /**
    * AUTHENTICATED WRITE: Put data to user's storage
    * Requires an active session
+   *
+   * @throws {PubkyError} If there is no session or the write fails
    */
-  public async put(path: string, content: Uint8Array): Promise<boolean> {
+  public async put(path: string, content: Uint8Array): Promise<void> {
     if (!this.currentSession) {
-      console.error("PUT failed: No active session");
-      return false;
-    }
-    
-    try {
-      await this.currentSession.storage.putBytes(path as any, content);
-      return true;
-    } catch (error) {
-      console.error("PUT error:", error);
-      return false;
+      throw Object.assign(new Error("No active session"), {
+        name: "AuthenticationError",
+      });
     }
+
+    await this.currentSession.storage.putBytes(path as any, content);
   }
 
   /**
    * AUTHENTICATED DELETE: Delete data from user's storage
    * Requires an active session
+   *
+   * @throws {PubkyError} If there is no session or the delete fails
    */
-  public async delete(path: string): Promise<boolean> {
+  public async delete(path: string): Promise<void> {
     if (!this.currentSession) {
-      console.error("DELETE failed: No active session");
-      return false;
-    }
-    
-    try {
-      await this.currentSession.storage.delete(path as any);
-      return true;
-    } catch (error) {
-      console.error("DELETE error:", error);
-      return false;
+      throw Object.assign(new Error("No active session"), {
+        name: "AuthenticationError",
+      });
     }
+
+    await this.currentSession.storage.delete(path as any);
   }
 
   /**
    * LIST: List resources at a path
    * Can be public or authenticated depending on the path
+   *
+   * @returns The URLs, or an empty list if the directory does not exist
+   * @throws {PubkyError} If the homeserver cannot be reached or fails
    */
   public async list(
     url: string,
@@ -142,8 +153,8 @@ export class PubkyClient {
       );
       return results || [];
     } catch (error) {
-      console.error("LIST error:", error);
-      return [];
+      if (isNotFound(error)) return [];
+      throw error;
     }
   }
 
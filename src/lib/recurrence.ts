@@ -0,0 +1,1035 @@
+/**
+ * Recurrence engine (RFC 5545 section 3.3.10 / 3.8.5)
+ *
+ * Expands RRULE, RDATE and EXDATE into concrete occurrences. Rules are
+ * evaluated on the wall clock of the event's timezone, so a weekly 19:00
+ * event stays at 19:00 local time across DST changes.
+ */
+
+import type { PubkyAppEventData } from "@/types/calendar";
+import { getEventTimeZone } from "@/lib/event-time";
+import {
+  microsToDate,
+  parseEventDateList,
+  parseEventDateValue,
+} from "@/lib/event-data";
+import {
+  getWallClockTime,
+  isKnownTimezone,
+  wallClockToDate,
+  type WallClockTime,
+} from "@/lib/timezone";
+
+export type Frequency =
+  | "SECONDLY"
+  | "MINUTELY"
+  | "HOURLY"
+  | "DAILY"
+  | "WEEKLY"
+  | "MONTHLY"
+  | "YEARLY";
+
+export type Weekday = "SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA";
+
+/**
+ * BYDAY entry, e.g. "-1SU" = { weekday: "SU", ordinal: -1 }
+ */
+export interface WeekdayNum {
+  weekday: Weekday;
+  ordinal?: number;
+}
+
+/**
+ * A parsed RRULE value
+ */
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  wkst: Weekday;
+  byMonth?: number[];
+  byWeekNo?: number[];
+  byYearDay?: number[];
+  byMonthDay?: number[];
+  byDay?: WeekdayNum[];
+  byHour?: number[];
+  byMinute?: number[];
+  bySecond?: number[];
+  bySetPos?: number[];
+}
+
+/**
+ * What is needed to expand one recurring item
+ */
+export interface RecurrenceInput {
+  dtstart: Date;
+  rrule?: string | null;
+  rdate?: Date[];
+  exdate?: Date[];
+  timeZone?: string; // IANA zone the rule is evaluated in (default UTC)
+}
+
+/**
+ * A single occurrence of an event inside a date window
+ */
+export interface EventOccurrence {
+  event: PubkyAppEventData;
+  start: Date;
+  end: Date;
+  recurrenceId: Date | null; // Original start, null for one-off events
+  isRecurring: boolean;
+  isOverride: boolean; // Produced by a RECURRENCE-ID exception
+}
+
+export const WEEKDAYS: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const FREQUENCIES: Frequency[] = [
+  "SECONDLY",
+  "MINUTELY",
+  "HOURLY",
+  "DAILY",
+  "WEEKLY",
+  "MONTHLY",
+  "YEARLY",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SUB_DAILY_STEP_MS: Partial<Record<Frequency, number>> = {
+  SECONDLY: 1000,
+  MINUTELY: 60 * 1000,
+  HOURLY: 60 * 60 * 1000,
+};
+
+// Stop looking once a rule has produced nothing for this long
+const MAX_GAP_DAYS = 400 * 366;
+const MAX_SUB_DAILY_STEPS = 100_000;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function parseIntList(
+  name: string,
+  value: string,
+  min: number,
+  max: number,
+  allowNegative = false,
+): number[] {
+  return value.split(",").map((item) => {
+    const number = Number(item);
+    const absolute = Math.abs(number);
+    if (
+      !/^[+-]?\d+$/.test(item) ||
+      absolute < min ||
+      absolute > max ||
+      (number < 0 && !allowNegative)
+    ) {
+      throw new Error(`Invalid ${name} value "${item}"`);
+    }
+    return number;
+  });
+}
+
+function parseWeekday(value: string): Weekday {
+  const weekday = value.toUpperCase() as Weekday;
+  if (!WEEKDAYS.includes(weekday)) {
+    throw new Error(`Invalid weekday "${value}"`);
+  }
+  return weekday;
+}
+
+/**
+ * Parse an RRULE value ("FREQ=WEEKLY;BYDAY=TH;COUNT=10")
+ *
+ * A leading "RRULE:" is accepted.
+ * @throws {Error} With a readable message if the rule is malformed
+ */
+export function parseRRule(value: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, "").split(";")) {
+    if (!part) continue;
+    const [key, partValue] = part.split("=");
+    if (!key || partValue === undefined || partValue === "") {
+      throw new Error(`Invalid rule part "${part}"`);
+    }
+    const name = key.toUpperCase();
+    if (parts.has(name)) throw new Error(`${name} is specified twice`);
+    parts.set(name, partValue);
+  }
+
+  const freq = parts.get("FREQ")?.toUpperCase() as Frequency | undefined;
+  if (!freq) throw new Error("FREQ is required");
+  if (!FREQUENCIES.includes(freq)) throw new Error(`Unknown FREQ "${freq}"`);
+
+  const rule: RecurrenceRule = { freq, interval: 1, wkst: "MO" };
+
+  for (const [name, partValue] of parts) {
+    switch (name) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        [rule.interval] = parseIntList(name, partValue, 1, Infinity);
+        break;
+      case "COUNT":
+        [rule.count] = parseIntList(name, partValue, 1, Infinity);
+        break;
+      case "UNTIL": {
+        const until = parseEventDateValue(partValue);
+        if (!until || !/^\d{8}(T\d{6}Z?)?$/.test(partValue)) {
+          throw new Error(`Invalid UNTIL value "${partValue}"`);
+        }
+        rule.until = until;
+        break;
+      }
+      case "WKST":
+        rule.wkst = parseWeekday(partValue);
+        break;
+      case "BYMONTH":
+        rule.byMonth = parseIntList(name, partValue, 1, 12);
+        break;
+      case "BYWEEKNO":
+        rule.byWeekNo = parseIntList(name, partValue, 1, 53, true);
+        break;
+      case "BYYEARDAY":
+        rule.byYearDay = parseIntList(name, partValue, 1, 366, true);
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = parseIntList(name, partValue, 1, 31, true);
+        break;
+      case "BYDAY":
+        rule.byDay = partValue.split(",").map((item) => {
+          const match = item.match(/^([+-]?\d{1,2})?([A-Za-z]{2})$/);
+          if (!match) throw new Error(`Invalid BYDAY value "${item}"`);
+          const ordinal = match[1] ? Number(match[1]) : undefined;
+          if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 53)) {
+            throw new Error(`Invalid BYDAY value "${item}"`);
+          }
+          return { weekday: parseWeekday(match[2]), ordinal };
+        });
+        break;
+      case "BYHOUR":
+        rule.byHour = parseIntList(name, partValue, 0, 23);
+        break;
+      case "BYMINUTE":
+        rule.byMinute = parseIntList(name, partValue, 0, 59);
+        break;
+      case "BYSECOND":
+        rule.bySecond = parseIntList(name, partValue, 0, 60);
+        break;
+      case "BYSETPOS":
+        rule.bySetPos = parseIntList(name, partValue, 1, 366, true);
+        break;
+      default:
+        if (!name.startsWith("X-")) {
+          throw new Error(`Unknown rule part "${name}"`);
+        }
+    }
+  }
+
+  if (rule.count !== undefined && rule.until) {
+    throw new Error("COUNT and UNTIL cannot be combined");
+  }
+  if (rule.byWeekNo && freq !== "YEARLY") {
+    throw new Error("BYWEEKNO is only allowed with FREQ=YEARLY");
+  }
+  if (rule.byYearDay && ["DAILY", "WEEKLY", "MONTHLY"].includes(freq)) {
+    throw new Error(`BYYEARDAY is not allowed with FREQ=${freq}`);
+  }
+  if (rule.byMonthDay && freq === "WEEKLY") {
+    throw new Error("BYMONTHDAY is not allowed with FREQ=WEEKLY");
+  }
+  if (
+    rule.byDay?.some((day) => day.ordinal !== undefined) &&
+    (!["MONTHLY", "YEARLY"].includes(freq) || rule.byWeekNo)
+  ) {
+    throw new Error(`Numbered BYDAY values are not allowed with FREQ=${freq}`);
+  }
+  if (
+    rule.bySetPos &&
+    !rule.byMonth && !rule.byWeekNo && !rule.byYearDay && !rule.byMonthDay &&
+    !rule.byDay && !rule.byHour && !rule.byMinute && !rule.bySecond
+  ) {
+    throw new Error("BYSETPOS requires another BYxxx rule part");
+  }
+
+  return rule;
+}
+
+/**
+ * Serialize a rule back to an RRULE value
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) {
+    parts.push(
+      `UNTIL=${rule.until.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")}`,
+    );
+  }
+  if (rule.byMonth) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.byWeekNo) parts.push(`BYWEEKNO=${rule.byWeekNo.join(",")}`);
+  if (rule.byYearDay) parts.push(`BYYEARDAY=${rule.byYearDay.join(",")}`);
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byDay) {
+    parts.push(
+      `BYDAY=${
+        rule.byDay.map((day) => `${day.ordinal ?? ""}${day.weekday}`).join(",")
+      }`,
+    );
+  }
+  if (rule.byHour) parts.push(`BYHOUR=${rule.byHour.join(",")}`);
+  if (rule.byMinute) parts.push(`BYMINUTE=${rule.byMinute.join(",")}`);
+  if (rule.bySecond) parts.push(`BYSECOND=${rule.bySecond.join(",")}`);
+  if (rule.bySetPos) parts.push(`BYSETPOS=${rule.bySetPos.join(",")}`);
+  if (rule.wkst !== "MO") parts.push(`WKST=${rule.wkst}`);
+  return parts.join(";");
+}
+
+// ============================================================================
+// Day arithmetic (days since the Unix epoch, no timezone involved)
+// ============================================================================
+
+function toDayNumber(year: number, month: number, day: number): number {
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+function fromDayNumber(dayNumber: number): {
+  year: number;
+  month: number;
+  day: number;
+} {
+  const date = new Date(dayNumber * DAY_MS);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  };
+}
+
+function weekdayIndex(dayNumber: number): number {
+  return new Date(dayNumber * DAY_MS).getUTCDay();
+}
+
+function matchesPosition(value: number, position: number, length: number) {
+  return value > 0 ? position === value : position === length + value + 1;
+}
+
+/**
+ * First day of week 1 of a year: the first week with at least four days
+ * in that year, weeks starting on WKST
+ */
+function getWeekOneStart(year: number, wkst: number): number {
+  const januaryFirst = toDayNumber(year, 1, 1);
+  const offset = (weekdayIndex(januaryFirst) - wkst + 7) % 7;
+  return offset >= 4 ? januaryFirst + 7 - offset : januaryFirst - offset;
+}
+
+// ============================================================================
+// Expansion
+// ============================================================================
+
+/**
+ * Rule with the implicit BYxxx parts derived from DTSTART filled in
+ * (RFC 5545: missing parts default to the corresponding DTSTART value)
+ */
+function withDefaults(rule: RecurrenceRule, start: WallClockTime): RecurrenceRule {
+  const resolved = { ...rule };
+  const hasDayRule = rule.byYearDay || rule.byMonthDay || rule.byDay;
+  const startWeekday = WEEKDAYS[
+    weekdayIndex(toDayNumber(start.year, start.month, start.day))
+  ];
+
+  if (rule.freq === "YEARLY" && !hasDayRule) {
+    if (rule.byWeekNo) {
+      resolved.byDay = [{ weekday: startWeekday }];
+    } else {
+      resolved.byMonth = rule.byMonth || [start.month];
+      resolved.byMonthDay = [start.day];
+    }
+  } else if (rule.freq === "MONTHLY" && !hasDayRule) {
+    resolved.byMonthDay = [start.day];
+  } else if (rule.freq === "WEEKLY" && !rule.byDay) {
+    resolved.byDay = [{ weekday: startWeekday }];
+  }
+
+  if (!FREQUENCIES.slice(0, 3).includes(rule.freq)) {
+    resolved.byHour = rule.byHour || [start.hour];
+    resolved.byMinute = rule.byMinute || [start.minute];
+    resolved.bySecond = rule.bySecond || [start.second];
+  }
+
+  return resolved;
+}
+
+/**
+ * Check whether a day passes the rule's day-level filters
+ */
+function matchesDay(
+  rule: RecurrenceRule,
+  dayNumber: number,
+  weekNoDays: Set<number> | null,
+): boolean {
+  const { year, month, day } = fromDayNumber(dayNumber);
+
+  if (rule.byMonth && !rule.byMonth.includes(month)) return false;
+  if (weekNoDays && !weekNoDays.has(dayNumber)) return false;
+
+  const yearStart = toDayNumber(year, 1, 1);
+  const yearLength = toDayNumber(year + 1, 1, 1) - yearStart;
+  const yearDay = dayNumber - yearStart + 1;
+  if (
+    rule.byYearDay &&
+    !rule.byYearDay.some((value) => matchesPosition(value, yearDay, yearLength))
+  ) {
+    return false;
+  }
+
+  const monthLength = toDayNumber(year, month + 1, 1) -
+    toDayNumber(year, month, 1);
+  if (
+    rule.byMonthDay &&
+    !rule.byMonthDay.some((value) => matchesPosition(value, day, monthLength))
+  ) {
+    return false;
+  }
+
+  if (rule.byDay) {
+    const weekday = WEEKDAYS[weekdayIndex(dayNumber)];
+    // Numbered weekdays count within the month, or the year for YEARLY
+    // rules without BYMONTH
+    const inYear = rule.freq === "YEARLY" && !rule.byMonth;
+    const position = inYear ? yearDay : day;
+    const length = inYear ? yearLength : monthLength;
+
+    const matches = rule.byDay.some((entry) => {
+      if (entry.weekday !== weekday) return false;
+      if (entry.ordinal === undefined) return true;
+      return entry.ordinal > 0
+        ? Math.floor((position - 1) / 7) + 1 === entry.ordinal
+        : -(Math.floor((length - position) / 7) + 1) === entry.ordinal;
+    });
+    if (!matches) return false;
+  }
+
+  return true;
+}
+
+function getWeekNoDays(rule: RecurrenceRule, year: number): Set<number> | null {
+  if (!rule.byWeekNo) return null;
+  const wkst = WEEKDAYS.indexOf(rule.wkst);
+  const weekOne = getWeekOneStart(year, wkst);
+  const weekCount = (getWeekOneStart(year + 1, wkst) - weekOne) / 7;
+
+  const days = new Set<number>();
+  for (const value of rule.byWeekNo) {
+    const week = value > 0 ? value : weekCount + value + 1;
+    if (week < 1 || week > weekCount) continue;
+    for (let offset = 0; offset < 7; offset++) {
+      days.add(weekOne + (week - 1) * 7 + offset);
+    }
+  }
+  return days;
+}
+
+/**
+ * Day range [first, last] of the n-th period counted from DTSTART
+ */
+function getPeriodDays(
+  rule: RecurrenceRule,
+  start: WallClockTime,
+  period: number,
+): [number, number] {
+  const step = period * rule.interval;
+  switch (rule.freq) {
+    case "YEARLY": {
+      const year = start.year + step;
+      return [toDayNumber(year, 1, 1), toDayNumber(year + 1, 1, 1) - 1];
+    }
+    case "MONTHLY": {
+      const monthIndex = start.year * 12 + (start.month - 1) + step;
+      const year = Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      return [toDayNumber(year, month, 1), toDayNumber(year, month + 1, 1) - 1];
+    }
+    case "WEEKLY": {
+      const startDay = toDayNumber(start.year, start.month, start.day);
+      const wkst = WEEKDAYS.indexOf(rule.wkst);
+      const weekStart = startDay - ((weekdayIndex(startDay) - wkst + 7) % 7) +
+        step * 7;
+      return [weekStart, weekStart + 6];
+    }
+    default: {
+      const day = toDayNumber(start.year, start.month, start.day) + step;
+      return [day, day];
+    }
+  }
+}
+
+/**
+ * Estimate how many whole periods can be skipped to reach a day
+ */
+function getPeriodsBefore(
+  rule: RecurrenceRule,
+  start: WallClockTime,
+  dayNumber: number,
+): number {
+  const startDay = toDayNumber(start.year, start.month, start.day);
+  const target = fromDayNumber(dayNumber);
+  let units: number;
+  switch (rule.freq) {
+    case "YEARLY":
+      units = target.year - start.year;
+      break;
+    case "MONTHLY":
+      units = (target.year - start.year) * 12 + (target.month - start.month);
+      break;
+    case "WEEKLY":
+      units = Math.floor((dayNumber - startDay) / 7);
+      break;
+    default:
+      units = dayNumber - startDay;
+  }
+  return Math.max(0, Math.floor(units / rule.interval) - 1);
+}
+
+/**
+ * Wall-clock candidates of one period, sorted, with BYSETPOS applied
+ */
+function getPeriodCandidates(
+  rule: RecurrenceRule,
+  firstDay: number,
+  lastDay: number,
+): WallClockTime[] {
+  const candidates: WallClockTime[] = [];
+  let weekNoYear = NaN;
+  let weekNoDays: Set<number> | null = null;
+
+  for (let dayNumber = firstDay; dayNumber <= lastDay; dayNumber++) {
+    const date = fromDayNumber(dayNumber);
+    if (date.year !== weekNoYear) {
+      weekNoYear = date.year;
+      weekNoDays = getWeekNoDays(rule, date.year);
+    }
+    if (!matchesDay(rule, dayNumber, weekNoDays)) continue;
+
+    for (const hour of [...rule.byHour!].sort((a, b) => a - b)) {
+      for (const minute of [...rule.byMinute!].sort((a, b) => a - b)) {
+        for (const second of [...rule.bySecond!].sort((a, b) => a - b)) {
+          candidates.push({ ...date, hour, minute, second });
+        }
+      }
+    }
+  }
+
+  if (!rule.bySetPos) return candidates;
+
+  const selected = new Set<number>();
+  for (const position of rule.bySetPos) {
+    const index = position > 0 ? position - 1 : candidates.length + position;
+    if (index >= 0 && index < candidates.length) selected.add(index);
+  }
+  return Array.from(selected)
+    .sort((a, b) => a - b)
+    .map((index) => candidates[index]);
+}
+
+function matchesSubDaily(rule: RecurrenceRule, wall: WallClockTime): boolean {
+  const dayNumber = toDayNumber(wall.year, wall.month, wall.day);
+  if (!matchesDay(rule, dayNumber, null)) return false;
+  if (rule.byHour && !rule.byHour.includes(wall.hour)) return false;
+  if (rule.byMinute && !rule.byMinute.includes(wall.minute)) return false;
+  if (rule.bySecond && !rule.bySecond.includes(wall.second)) return false;
+  return true;
+}
+
+/**
+ * Generate the instants produced by a rule, in order, starting at DTSTART
+ *
+ * DTSTART itself is only yielded if it matches the rule. COUNT and UNTIL
+ * are not applied here.
+ *
+ * @param from - Optional hint; periods entirely before it may be skipped
+ */
+function* generateRuleInstants(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  timeZone: string,
+  from?: Date,
+): Generator<Date> {
+  const start = getWallClockTime(dtstart, timeZone);
+  const resolved = withDefaults(rule, start);
+
+  const subDailyStep = SUB_DAILY_STEP_MS[rule.freq];
+  if (subDailyStep) {
+    // Sub-daily rules step in absolute time; BYxxx parts act as filters
+    const stepMs = subDailyStep * rule.interval;
+    let step = from && rule.count === undefined
+      ? Math.max(0, Math.floor((from.getTime() - dtstart.getTime()) / stepMs) - 1)
+      : 0;
+    for (let checked = 0; checked < MAX_SUB_DAILY_STEPS; checked++, step++) {
+      const instant = new Date(dtstart.getTime() + step * stepMs);
+      if (matchesSubDaily(resolved, getWallClockTime(instant, timeZone))) {
+        yield instant;
+      }
+    }
+    return;
+  }
+
+  let period = from && rule.count === undefined
+    ? getPeriodsBefore(
+      rule,
+      start,
+      Math.floor(from.getTime() / DAY_MS),
+    )
+    : 0;
+  let lastHitDay = getPeriodDays(rule, start, period)[0];
+
+  for (;; period++) {
+    const [firstDay, lastDay] = getPeriodDays(rule, start, period);
+    if (firstDay - lastHitDay > MAX_GAP_DAYS) return;
+
+    for (const wall of getPeriodCandidates(resolved, firstDay, lastDay)) {
+      const instant = wallClockToDate(wall, timeZone);
+      if (instant < dtstart) continue;
+      lastHitDay = lastDay;
+      yield instant;
+    }
+  }
+}
+
+function resolveTimeZone(timeZone: string | undefined): string {
+  return timeZone && isKnownTimezone(timeZone) ? timeZone : "UTC";
+}
+
+/**
+ * Generate the start of every occurrence of a recurrence set in order
+ *
+ * Applies COUNT (DTSTART counts as the first occurrence) and UNTIL, merges
+ * RDATE and removes EXDATE.
+ *
+ * @param from - Optional hint for skipping ahead; earlier values may still be yielded
+ */
+export function* iterateOccurrences(
+  input: RecurrenceInput,
+  from?: Date,
+): Generator<Date> {
+  const exdates = new Set((input.exdate || []).map((date) => date.getTime()));
+  const rdates = [...(input.rdate || [])]
+    .sort((a, b) => a.getTime() - b.getTime());
+  const seen = new Set<number>();
+  let rdateIndex = 0;
+
+  function* emit(date: Date): Generator<Date> {
+    // RDATEs are merged in order
+    while (rdateIndex < rdates.length && rdates[rdateIndex] < date) {
+      yield* emitOne(rdates[rdateIndex++]);
+    }
+    yield* emitOne(date);
+  }
+
+  function* emitOne(date: Date): Generator<Date> {
+    const time = date.getTime();
+    if (seen.has(time) || exdates.has(time)) return;
+    seen.add(time);
+    yield date;
+  }
+
+  if (input.rrule) {
+    const rule = parseRRule(input.rrule);
+    const timeZone = resolveTimeZone(input.timeZone);
+    let count = 0;
+
+    // DTSTART is always the first occurrence, even if the rule skips it
+    const instants = generateRuleInstants(rule, input.dtstart, timeZone, from);
+    let next = instants.next();
+    if (next.done || next.value.getTime() !== input.dtstart.getTime()) {
+      if (!from || rule.count !== undefined || input.dtstart >= from) {
+        count++;
+        yield* emit(input.dtstart);
+      }
+    }
+
+    for (; !next.done; next = instants.next()) {
+      if (rule.until && next.value > rule.until) break;
+      if (rule.count !== undefined && count >= rule.count) break;
+      count++;
+      yield* emit(next.value);
+    }
+  } else {
+    yield* emit(input.dtstart);
+  }
+
+  while (rdateIndex < rdates.length) {
+    yield* emitOne(rdates[rdateIndex++]);
+  }
+}
+
+/**
+ * Check whether [start, start + duration) overlaps [rangeStart, rangeEnd)
+ * Zero-length occurrences count as one millisecond long.
+ */
+function overlapsRange(
+  start: Date,
+  durationMs: number,
+  rangeStart: Date,
+  rangeEnd: Date,
+): boolean {
+  return start < rangeEnd &&
+    start.getTime() + Math.max(durationMs, 1) > rangeStart.getTime();
+}
+
+/**
+ * Get the occurrence starts whose time span overlaps [rangeStart, rangeEnd)
+ *
+ * @param durationMs - Length of each occurrence, used for the overlap check
+ * @param limit - Safety limit for the number of returned occurrences
+ */
+export function expandRecurrence(
+  input: RecurrenceInput,
+  rangeStart: Date,
+  rangeEnd: Date,
+  durationMs = 0,
+  limit = 5000,
+): Date[] {
+  const from = new Date(rangeStart.getTime() - durationMs);
+  const occurrences: Date[] = [];
+
+  // Occurrences are yielded in order, so stop at the first one past the range
+  for (const start of iterateOccurrences(input, from)) {
+    if (start >= rangeEnd) break;
+    if (!overlapsRange(start, durationMs, rangeStart, rangeEnd)) continue;
+    occurrences.push(start);
+    if (occurrences.length >= limit) break;
+  }
+
+  return occurrences;
+}
+
+/**
+ * Get the first occurrence that starts at or after a given instant
+ */
+export function getNextOccurrence(
+  input: RecurrenceInput,
+  after: Date,
+): Date | null {
+  for (const start of iterateOccurrences(input, after)) {
+    if (start >= after) return start;
+  }
+  return null;
+}
+
+/**
+ * Get the start of the last occurrence of a finite recurrence set
+ *
+ * @returns The last start, or null if the rule is open-ended or invalid
+ */
+export function getLastOccurrence(input: RecurrenceInput): Date | null {
+  let rule: RecurrenceRule | null = null;
+  try {
+    rule = input.rrule ? parseRRule(input.rrule) : null;
+  } catch {
+    return null;
+  }
+  if (rule && rule.count === undefined && !rule.until) return null;
+
+  let last: Date | null = null;
+  let seen = 0;
+  for (const start of iterateOccurrences(input)) {
+    last = start;
+    if (++seen >= MAX_SUB_DAILY_STEPS) break;
+  }
+  return last;
+}
+
+/**
+ * Split a recurrence rule at an occurrence ("this and following" edits)
+ *
+ * The original series ends right before `splitAt` (COUNT is replaced by
+ * UNTIL), the new series starts at `splitAt` with the remaining COUNT.
+ *
+ * @returns `before` is null if no occurrence precedes `splitAt`
+ */
+export function splitRecurrence(
+  input: RecurrenceInput,
+  splitAt: Date,
+): { before: string | null; after: string } {
+  if (!input.rrule) throw new Error("Event does not recur");
+  const rule = parseRRule(input.rrule);
+
+  // COUNT includes excluded dates, so count the bare rule
+  let countBefore = 0;
+  for (
+    const start of iterateOccurrences({
+      dtstart: input.dtstart,
+      rrule: input.rrule,
+      timeZone: input.timeZone,
+    })
+  ) {
+    if (start >= splitAt) break;
+    countBefore++;
+  }
+
+  const before = countBefore > 0
+    ? formatRRule({
+      ...rule,
+      count: undefined,
+      until: new Date(splitAt.getTime() - 1000),
+    })
+    : null;
+  const after = formatRRule(
+    rule.count !== undefined
+      ? { ...rule, count: Math.max(1, rule.count - countBefore) }
+      : rule,
+  );
+
+  return { before, after };
+}
+
+/**
+ * Explain why a rule is unusable for an event starting at dtstart
+ *
+ * @returns An error message, or null if the rule is valid and produces
+ *   at least one occurrence of its own
+ */
+export function getRRuleError(
+  rrule: string,
+  dtstart?: Date,
+  timeZone?: string,
+): string | null {
+  let rule: RecurrenceRule;
+  try {
+    rule = parseRRule(rrule);
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid recurrence rule";
+  }
+
+  if (!dtstart) return null;
+
+  const first = generateRuleInstants(
+    rule,
+    dtstart,
+    resolveTimeZone(timeZone),
+  ).next();
+  if (first.done || (rule.until && first.value > rule.until)) {
+    return "This recurrence rule never produces an occurrence";
+  }
+  return null;
+}
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  SU: "Sunday",
+  MO: "Monday",
+  TU: "Tuesday",
+  WE: "Wednesday",
+  TH: "Thursday",
+  FR: "Friday",
+  SA: "Saturday",
+};
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+const FREQUENCY_LABELS: Record<Frequency, [string, string]> = {
+  SECONDLY: ["Every second", "seconds"],
+  MINUTELY: ["Every minute", "minutes"],
+  HOURLY: ["Hourly", "hours"],
+  DAILY: ["Daily", "days"],
+  WEEKLY: ["Weekly", "weeks"],
+  MONTHLY: ["Monthly", "months"],
+  YEARLY: ["Yearly", "years"],
+};
+
+function formatOrdinal(value: number): string {
+  if (value === -1) return "last";
+  if (value < -1) return `${formatOrdinal(-value)} to last`;
+  const suffix = value % 100 >= 11 && value % 100 <= 13
+    ? "th"
+    : ["th", "st", "nd", "rd"][value % 10] || "th";
+  return `${value}${suffix}`;
+}
+
+function joinList(items: string[], conjunction = "and"): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} ${conjunction} ${items.at(-1)}`;
+}
+
+/**
+ * Human readable summary of a recurrence rule,
+ * e.g. "Monthly on the last Friday, until Dec 31, 2025"
+ *
+ * @param timeZone - Zone used to display UNTIL
+ * @returns The summary, or the raw rule if it cannot be parsed
+ */
+export function describeRRule(rrule: string, timeZone?: string): string {
+  let rule: RecurrenceRule;
+  try {
+    rule = parseRRule(rrule);
+  } catch {
+    return rrule;
+  }
+
+  const [single, unit] = FREQUENCY_LABELS[rule.freq];
+  const parts = [rule.interval > 1 ? `Every ${rule.interval} ${unit}` : single];
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map(({ weekday, ordinal }) =>
+      ordinal
+        ? `the ${formatOrdinal(ordinal)} ${WEEKDAY_NAMES[weekday]}`
+        : WEEKDAY_NAMES[weekday]
+    );
+    if (rule.bySetPos?.length) {
+      parts.push(
+        `on the ${joinList(rule.bySetPos.map(formatOrdinal))} of ${
+          joinList(days, "or")
+        }`,
+      );
+    } else {
+      parts.push(`on ${joinList(days)}`);
+    }
+  }
+
+  if (rule.byMonthDay?.length) {
+    parts.push(
+      `on the ${joinList(rule.byMonthDay.map(formatOrdinal))} day`,
+    );
+  }
+
+  if (rule.byMonth?.length) {
+    parts.push(`in ${joinList(rule.byMonth.map((m) => MONTH_NAMES[m - 1]))}`);
+  }
+
+  let summary = parts.join(" ");
+  if (rule.count) {
+    summary += rule.count === 1 ? ", once" : `, ${rule.count} times`;
+  } else if (rule.until) {
+    summary += `, until ${
+      rule.until.toLocaleDateString("en-US", {
+        dateStyle: "medium",
+        timeZone: resolveTimeZone(timeZone),
+      })
+    }`;
+  }
+  return summary;
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+/**
+ * Recurrence input for a stored event
+ * The event's own timezone takes precedence over the given one.
+ */
+export function getEventRecurrenceInput(
+  event: PubkyAppEventData,
+  timeZone?: string,
+): RecurrenceInput {
+  return {
+    dtstart: microsToDate(event.dtstart),
+    rrule: event.rrule,
+    rdate: parseEventDateList(event.rdate),
+    exdate: parseEventDateList(event.exdate),
+    timeZone: getEventTimeZone(event, timeZone),
+  };
+}
+
+/**
+ * Check whether an event is the master of a recurrence set
+ */
+export function isRecurringEvent(event: PubkyAppEventData): boolean {
+  return !event.recurrence_id &&
+    (Boolean(event.rrule) || Boolean(event.rdate?.length));
+}
+
+/**
+ * Expand events into occurrences overlapping [rangeStart, rangeEnd)
+ *
+ * Occurrences replaced by a RECURRENCE-ID override (same UID) are swapped
+ * for the override, which may have moved in time.
+ *
+ * @param timeZone - Zone recurrence rules are evaluated in (calendar timezone)
+ * @returns Occurrences sorted by start
+ */
+export function expandEvents(
+  events: PubkyAppEventData[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone?: string,
+): EventOccurrence[] {
+  const overrides = new Set<string>();
+  for (const event of events) {
+    if (event.recurrence_id) {
+      overrides.add(
+        `${event.uid}|${microsToDate(event.recurrence_id).getTime()}`,
+      );
+    }
+  }
+
+  const occurrences: EventOccurrence[] = [];
+
+  for (const event of events) {
+    const start = microsToDate(event.dtstart);
+    const durationMs = event.dtend
+      ? Math.max(0, microsToDate(event.dtend).getTime() - start.getTime())
+      : 0;
+
+    if (!isRecurringEvent(event)) {
+      if (overlapsRange(start, durationMs, rangeStart, rangeEnd)) {
+        occurrences.push({
+          event,
+          start,
+          end: new Date(start.getTime() + durationMs),
+          recurrenceId: event.recurrence_id
+            ? microsToDate(event.recurrence_id)
+            : null,
+          isRecurring: Boolean(event.recurrence_id),
+          isOverride: Boolean(event.recurrence_id),
+        });
+      }
+      continue;
+    }
+
+    let starts: Date[];
+    try {
+      starts = expandRecurrence(
+        getEventRecurrenceInput(event, timeZone),
+        rangeStart,
+        rangeEnd,
+        durationMs,
+      );
+    } catch {
+      // Unparseable rule: fall back to the single stored instance
+      starts = overlapsRange(start, durationMs, rangeStart, rangeEnd)
+        ? [start]
+        : [];
+    }
+
+    for (const occurrenceStart of starts) {
+      if (overrides.has(`${event.uid}|${occurrenceStart.getTime()}`)) continue;
+      occurrences.push({
+        event,
+        start: occurrenceStart,
+        end: new Date(occurrenceStart.getTime() + durationMs),
+        recurrenceId: occurrenceStart,
+        isRecurring: true,
+        isOverride: false,
+      });
+    }
+  }
+
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
@@ -0,0 +1,278 @@
+/**
+ * Rich text rendering for event descriptions (RFC 9073 STYLED-DESCRIPTION)
+ *
+ * Descriptions come from other users' homeservers, so every format is
+ * reduced to a small allowlist of tags before it is rendered as HTML.
+ */
+
+import type { StyledDescription } from "@/types/calendar";
+
+const ALLOWED_TAGS = new Set([
+  "a",
+  "b",
+  "blockquote",
+  "br",
+  "code",
+  "del",
+  "div",
+  "em",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "hr",
+  "i",
+  "li",
+  "ol",
+  "p",
+  "pre",
+  "s",
+  "span",
+  "strong",
+  "u",
+  "ul",
+]);
+
+// Removed together with their content
+const DROPPED_TAGS = new Set([
+  "button",
+  "embed",
+  "form",
+  "iframe",
+  "input",
+  "math",
+  "noscript",
+  "object",
+  "script",
+  "select",
+  "style",
+  "svg",
+  "template",
+  "textarea",
+  "title",
+]);
+
+const SAFE_URL_PATTERN = /^(https?:|mailto:)/i;
+
+/**
+ * Escape text for use in HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Check that a link target can not run script
+ */
+export function isSafeUrl(url: string): boolean {
+  // Browsers ignore control characters and whitespace inside schemes
+  return SAFE_URL_PATTERN.test(url.replace(/[\u0000- ]/g, ""));
+}
+
+function sanitizeNode(node: Node): void {
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) continue;
+
+    if (child.nodeType !== Node.ELEMENT_NODE) {
+      child.remove(); // Comments, processing instructions
+      continue;
+    }
+
+    const element = child as Element;
+    const tag = element.tagName.toLowerCase();
+
+    if (DROPPED_TAGS.has(tag)) {
+      element.remove();
+      continue;
+    }
+
+    sanitizeNode(element);
+
+    if (!ALLOWED_TAGS.has(tag)) {
+      // Keep the content of unknown elements
+      element.replaceWith(...Array.from(element.childNodes));
+      continue;
+    }
+
+    const href = element.getAttribute("href");
+    for (const attribute of Array.from(element.attributes)) {
+      element.removeAttribute(attribute.name);
+    }
+
+    if (tag === "a") {
+      if (href && isSafeUrl(href)) {
+        element.setAttribute("href", href);
+        element.setAttribute("target", "_blank");
+        element.setAttribute("rel", "noopener noreferrer nofollow");
+      } else {
+        element.replaceWith(...Array.from(element.childNodes));
+      }
+    }
+  }
+}
+
+/**
+ * Reduce untrusted HTML to the allowed tags
+ *
+ * Attributes are dropped except for safe link targets. Requires the DOM;
+ * without one (server rendering) the markup is escaped instead.
+ */
+export function sanitizeHtml(html: string): string {
+  if (typeof DOMParser === "undefined") {
+    return escapeHtml(html);
+  }
+
+  const doc = new DOMParser().parseFromString(
+    `<!DOCTYPE html><body>${html}</body>`,
+    "text/html",
+  );
+  sanitizeNode(doc.body);
+  return doc.body.innerHTML;
+}
+
+function renderInline(text: string): string {
+  const codeSpans: string[] = [];
+
+  let html = escapeHtml(text.replace(/\u0000/g, ""))
+    // Protect code spans from further formatting
+    .replace(/`([^`]+)`/g, (_, code: string) => {
+      codeSpans.push(`<code>${code}</code>`);
+      return `\u0000${codeSpans.length - 1}\u0000`;
+    })
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label: string, url: string) =>
+      isSafeUrl(url) ? `<a href="${url}">${label}</a>` : label
+    )
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a?: string, b?: string) =>
+      `<strong>${a ?? b}</strong>`
+    )
+    .replace(/(^|[^*\w])\*(?!\s)(.+?)\*(?!\w)|(^|\W)_(?!\s)(.+?)_(?!\w)/g, (
+      _,
+      p1?: string,
+      a?: string,
+      p2?: string,
+      b?: string,
+    ) => `${p1 ?? p2}<em>${a ?? b}</em>`)
+    .replace(/~~(.+?)~~/g, "<del>$1</del>");
+
+  html = html.replace(/\u0000(\d+)\u0000/g, (_, index: string) =>
+    codeSpans[Number(index)]
+  );
+  return html;
+}
+
+/**
+ * Render a Markdown subset to HTML
+ *
+ * Supports headings, paragraphs, emphasis, inline and fenced code, links,
+ * block quotes, lists and rules. Raw HTML in the source is escaped.
+ */
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push(`<p>${paragraph.map(renderInline).join("<br>")}</p>`);
+      paragraph = [];
+    }
+  };
+  const flushList = () => {
+    if (list) {
+      const tag = list.ordered ? "ol" : "ul";
+      blocks.push(
+        `<${tag}>${list.items.map((item) => `<li>${item}</li>`).join("")}</${tag}>`,
+      );
+      list = null;
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^\s*```/.test(line)) {
+      flushParagraph();
+      flushList();
+      const code: string[] = [];
+      while (++i < lines.length && !/^\s*```/.test(lines[i])) {
+        code.push(lines[i]);
+      }
+      blocks.push(`<pre><code>${escapeHtml(code.join("\n"))}</code></pre>`);
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      flushList();
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      flushList();
+      const level = heading[1].length;
+      blocks.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushParagraph();
+      flushList();
+      blocks.push("<hr>");
+      continue;
+    }
+
+    const quote = line.match(/^>\s?(.*)$/);
+    if (quote) {
+      flushParagraph();
+      flushList();
+      blocks.push(`<blockquote>${renderInline(quote[1])}</blockquote>`);
+      continue;
+    }
+
+    const item = line.match(/^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/);
+    if (item) {
+      flushParagraph();
+      const ordered = Boolean(item[2]);
+      if (list && list.ordered !== ordered) flushList();
+      list ??= { ordered, items: [] };
+      list.items.push(renderInline(item[3]));
+      continue;
+    }
+
+    flushList();
+    paragraph.push(line.trim());
+  }
+
+  flushParagraph();
+  flushList();
+  return blocks.join("\n");
+}
+
+/**
+ * Render a styled description as sanitized HTML
+ *
+ * text/html is sanitized, text/markdown is rendered and then sanitized,
+ * anything else is shown as plain text with line breaks kept.
+ */
+export function styledDescriptionToHtml(description: StyledDescription): string {
+  const format = description.fmttype.split(";")[0].trim().toLowerCase();
+
+  switch (format) {
+    case "text/html":
+      return sanitizeHtml(description.value);
+    case "text/markdown":
+      return sanitizeHtml(markdownToHtml(description.value));
+    default:
+      return escapeHtml(description.value).replace(/\r?\n/g, "<br>");
+  }
+}
@@ -0,0 +1,384 @@
+/**
+ * Storage references
+ *
+ * Records on a homeserver point at each other by pubky:// URI: events at
+ * their calendars and image files, files at the blobs holding the bytes,
+ * reminders, RSVPs and timing records at events. Deleting a record leaves
+ * behind what only it pointed at, and replacing an image leaves the old
+ * upload. These
+ * helpers follow the references of one user's records; references from
+ * other users' homeservers are not known.
+ */
+
+const APP_PREFIX = "/pub/pubky.app/";
+
+/**
+ * Record types that only make sense next to the record they point at,
+ * with the field naming it
+ */
+const DEPENDENT_TYPES: Record<string, string> = {
+  alarm: "x_pubky_event_uri",
+  attendee: "x_pubky_event_uri",
+  calendar_admins: "x_pubky_calendar_uri",
+  calendar_approvals: "x_pubky_calendar_uri",
+  calendar_deletion: "x_pubky_calendar_uri",
+  event_timing: "x_pubky_event_uri",
+  subscription: "x_pubky_calendar_uri",
+};
+
+/**
+ * Record types holding uploaded content, kept only while referenced
+ */
+const CONTENT_TYPES = ["files", "blobs"];
+
+/**
+ * A record on the user's homeserver
+ */
+export interface StoredRecord {
+  uri: string;
+  data: unknown; // Parsed JSON, or null for binary content such as blobs
+  unreadable?: boolean; // Listed but not readable, so its references are unknown
+}
+
+/**
+ * Get the type of a record from its URI, e.g. "event" or "files"
+ *
+ * @returns The directory under /pub/pubky.app/, or null for other paths
+ */
+export function getRecordType(uri: string): string | null {
+  const index = uri.indexOf(APP_PREFIX);
+  if (index === -1) return null;
+
+  const rest = uri.slice(index + APP_PREFIX.length);
+  const slash = rest.indexOf("/");
+  return slash > 0 ? rest.slice(0, slash) : null;
+}
+
+/**
+ * Collect every pubky:// URI anywhere in a record
+ */
+export function collectReferences(data: unknown): string[] {
+  const references = new Set<string>();
+  const visit = (value: unknown) => {
+    if (typeof value === "string") {
+      if (value.startsWith("pubky://")) references.add(value);
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === "object") {
+      Object.values(value).forEach(visit);
+    }
+  };
+
+  visit(data);
+  return Array.from(references);
+}
+
+/**
+ * Get the record a dependent record belongs to
+ *
+ * @returns The URI of the calendar or event, or null if the record stands
+ *   on its own
+ */
+export function getDependentParent(record: StoredRecord): string | null {
+  const type = getRecordType(record.uri);
+  const field = type ? DEPENDENT_TYPES[type] : undefined;
+  if (!field || !record.data || typeof record.data !== "object") return null;
+
+  const parent = (record.data as Record<string, unknown>)[field];
+  return typeof parent === "string" ? parent : null;
+}
+
+/**
+ * URIs of records that could not be read
+ */
+export function getUnreadableRecords(records: StoredRecord[]): string[] {
+  return records
+    .filter((record) => record.unreadable)
+    .map((record) => record.uri);
+}
+
+/**
+ * Read a listed record, blobs without their content
+ *
+ * @param readJson - Reads and parses a record, resolving null if it does
+ *   not exist
+ * @returns The record, marked unreadable if reading it failed, or null if
+ *   it is gone
+ */
+export async function readStoredRecord(
+  uri: string,
+  readJson: (uri: string) => Promise<unknown>,
+): Promise<StoredRecord | null> {
+  if (getRecordType(uri) === "blobs") return { uri, data: null };
+
+  try {
+    const data = await readJson(uri);
+    return data === null ? null : { uri, data };
+  } catch {
+    return { uri, data: null, unreadable: true };
+  }
+}
+
+/**
+ * What else goes when records are deleted
+ */
+export interface DeletionCascade {
+  dependents: string[]; // Settings, reminders and RSVPs of deleted records
+  files: string[]; // File records nothing else points at
+  blobs: string[]; // Blobs no remaining file points at
+}
+
+/**
+ * Follow deleted records to the records that go with them
+ *
+ * Dependent records of deleted records are deleted too. Files and blobs
+ * that deleted records pointed at are deleted once no remaining record
+ * points at them, so shared images are kept.
+ *
+ * @param records - All of the user's records
+ * @param deletedUris - Records being deleted
+ * @throws {Error} If a record could not be read, as it may point at
+ *   content or be a dependent
+ */
+export function getDeletionCascade(
+  records: StoredRecord[],
+  deletedUris: Iterable<string>,
+): DeletionCascade {
+  const unreadable = getUnreadableRecords(records);
+  if (unreadable.length > 0) {
+    throw new Error(`${unreadable.length} records could not be read`);
+  }
+
+  const deleted = new Set(deletedUris);
+  const known = new Map(records.map((record) => [record.uri, record]));
+  const dependents: string[] = [];
+  const content: string[] = [];
+
+  // Dependents, including those of dependents
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const record of records) {
+      const parent = getDependentParent(record);
+      if (parent && deleted.has(parent) && !deleted.has(record.uri)) {
+        deleted.add(record.uri);
+        dependents.push(record.uri);
+        changed = true;
+      }
+    }
+  }
+
+  // Content only deleted records pointed at, files before their blobs
+  changed = true;
+  while (changed) {
+    changed = false;
+    const referencedByRemaining = new Set(
+      records
+        .filter((record) => !deleted.has(record.uri))
+        .flatMap((record) => collectReferences(record.data)),
+    );
+    const candidates = records
+      .filter((record) => deleted.has(record.uri))
+      .flatMap((record) => collectReferences(record.data))
+      .filter((uri) =>
+        known.has(uri) &&
+        !deleted.has(uri) &&
+        CONTENT_TYPES.includes(getRecordType(uri) || "") &&
+        !referencedByRemaining.has(uri)
+      );
+
+    for (const uri of candidates) {
+      if (deleted.has(uri)) continue;
+      deleted.add(uri);
+      content.push(uri);
+      changed = true;
+    }
+  }
+
+  return {
+    dependents,
+    files: content.filter((uri) => getRecordType(uri) === "files"),
+    blobs: content.filter((uri) => getRecordType(uri) === "blobs"),
+  };
+}
+
+/**
+ * An uploaded file or blob with what is known about its size and type
+ *
+ * Blob sizes and types come from the files pointing at them, so blobs no
+ * file points at start without them.
+ */
+export interface StoredContent {
+  uri: string;
+  kind: "file" | "blob";
+  name: string | null; // File name, or the first file's name for a blob
+  contentType: string | null;
+  size: number | null; // Bytes of the uploaded content
+}
+
+/**
+ * Unused content, i.e. files no other record points at and blobs no kept
+ * file points at
+ */
+export interface OrphanedContent {
+  files: string[];
+  blobs: string[];
+}
+
+/**
+ * Storage use of one content type
+ */
+export interface ContentTypeUsage {
+  contentType: string; // "unknown" if no file tells
+  count: number; // Blobs, each stored once however many files use it
+  size: number; // Bytes, counting unknown sizes as 0
+  orphanedCount: number;
+  orphanedSize: number;
+}
+
+interface FileData {
+  name?: string;
+  src?: string;
+  content_type?: string;
+  size?: number;
+}
+
+function getFileData(record: StoredRecord): FileData {
+  return record.data && typeof record.data === "object"
+    ? record.data as FileData
+    : {};
+}
+
+/**
+ * List the user's files and blobs
+ */
+export function getStoredContent(records: StoredRecord[]): StoredContent[] {
+  const files = records.filter((record) =>
+    getRecordType(record.uri) === "files"
+  );
+  const fileByBlob = new Map<string, FileData>();
+  for (const file of files) {
+    const data = getFileData(file);
+    if (data.src && !fileByBlob.has(data.src)) fileByBlob.set(data.src, data);
+  }
+
+  return [
+    ...files.map((file): StoredContent => {
+      const data = getFileData(file);
+      return {
+        uri: file.uri,
+        kind: "file",
+        name: data.name || null,
+        contentType: data.content_type || null,
+        size: typeof data.size === "number" ? data.size : null,
+      };
+    }),
+    ...records
+      .filter((record) => getRecordType(record.uri) === "blobs")
+      .map((blob): StoredContent => {
+        const data = fileByBlob.get(blob.uri);
+        return {
+          uri: blob.uri,
+          kind: "blob",
+          name: data?.name || null,
+          contentType: data?.content_type || null,
+          size: typeof data?.size === "number" ? data.size : null,
+        };
+      }),
+  ];
+}
+
+/**
+ * Find the files and blobs nothing uses any more
+ *
+ * A file is used when a record other than a file points at it, e.g. a
+ * calendar, event, post or the profile. A blob is used when a used file
+ * points at it. Nothing counts as unused while a record could not be
+ * read, as it may point at any of them.
+ */
+export function findOrphanedContent(records: StoredRecord[]): OrphanedContent {
+  if (getUnreadableRecords(records).length > 0) {
+    return { files: [], blobs: [] };
+  }
+
+  const referenced = new Set(
+    records
+      .filter((record) =>
+        !CONTENT_TYPES.includes(getRecordType(record.uri) || "")
+      )
+      .flatMap((record) => collectReferences(record.data)),
+  );
+  const files = records.filter((record) =>
+    getRecordType(record.uri) === "files"
+  );
+  const orphanedFiles = new Set(
+    files.filter((file) => !referenced.has(file.uri)).map((file) => file.uri),
+  );
+  const usedBlobs = new Set(
+    files
+      .filter((file) => !orphanedFiles.has(file.uri))
+      .flatMap((file) => collectReferences(file.data)),
+  );
+
+  return {
+    files: Array.from(orphanedFiles),
+    blobs: records
+      .filter((record) =>
+        getRecordType(record.uri) === "blobs" && !usedBlobs.has(record.uri)
+      )
+      .map((record) => record.uri),
+  };
+}
+
+/**
+ * Sum up storage use per content type, largest first
+ *
+ * Counts blobs, which hold the bytes; file records are small.
+ */
+export function summarizeStorage(
+  content: StoredContent[],
+  orphaned: OrphanedContent,
+): ContentTypeUsage[] {
+  const orphanedBlobs = new Set(orphaned.blobs);
+  const usage = new Map<string, ContentTypeUsage>();
+
+  for (const item of content) {
+    if (item.kind !== "blob") continue;
+
+    const contentType = item.contentType || "unknown";
+    const entry = usage.get(contentType) || {
+      contentType,
+      count: 0,
+      size: 0,
+      orphanedCount: 0,
+      orphanedSize: 0,
+    };
+    entry.count++;
+    entry.size += item.size || 0;
+    if (orphanedBlobs.has(item.uri)) {
+      entry.orphanedCount++;
+      entry.orphanedSize += item.size || 0;
+    }
+    usage.set(contentType, entry);
+  }
+
+  return Array.from(usage.values()).sort((a, b) =>
+    b.size - a.size || a.contentType.localeCompare(b.contentType)
+  );
+}
+
+/**
+ * Format a byte count for display, e.g. "1.5 MB"
+ */
+export function formatStorageSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
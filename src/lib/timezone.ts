@@ -0,0 +1,234 @@
+/**
+ * Timezone utilities
+ *
+ * Wall-clock <-> instant conversion for IANA timezones using only the
+ * built-in Intl API (no tz database bundled). Used by iCalendar export,
+ * import and recurrence expansion.
+ */
+
+/**
+ * Calendar date and time as seen on a wall clock in some timezone
+ * Month is 1-based (1 = January)
+ */
+export interface WallClockTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * A UTC offset change in a timezone (e.g. start or end of DST)
+ */
+export interface TimezoneTransition {
+  at: Date; // First instant with the new offset
+  offsetFrom: number; // Minutes east of UTC before the transition
+  offsetTo: number; // Minutes east of UTC after the transition
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check whether a string is a timezone known to the runtime
+ */
+export function isKnownTimezone(timeZone: string | null | undefined): boolean {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock time of an instant in a timezone
+ */
+export function getWallClockTime(date: Date, timeZone: string): WallClockTime {
+  if (timeZone === "UTC") {
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+    };
+  }
+
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour") % 24,
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/**
+ * Treat a wall-clock time as if it were UTC and return its epoch milliseconds
+ * Useful for pure calendar arithmetic (day differences, weekday lookups)
+ */
+export function wallClockToEpoch(wall: WallClockTime): number {
+  return Date.UTC(
+    wall.year,
+    wall.month - 1,
+    wall.day,
+    wall.hour,
+    wall.minute,
+    wall.second,
+  );
+}
+
+/**
+ * Inverse of wallClockToEpoch
+ */
+export function epochToWallClock(epoch: number): WallClockTime {
+  return getWallClockTime(new Date(epoch), "UTC");
+}
+
+/**
+ * Get the UTC offset of a timezone at a given instant
+ *
+ * @returns Minutes east of UTC (e.g. 120 for Europe/Zurich in summer)
+ */
+export function getTimezoneOffset(timeZone: string, date: Date): number {
+  if (timeZone === "UTC") return 0;
+  const wall = getWallClockTime(date, timeZone);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((wallClockToEpoch(wall) - instant) / 60000);
+}
+
+/**
+ * Convert a wall-clock time in a timezone to an absolute instant
+ *
+ * Times that fall into a DST gap are shifted forward by the gap length,
+ * ambiguous times (DST fall-back) resolve to the first occurrence, matching
+ * RFC 5545 section 3.3.5.
+ */
+export function wallClockToDate(wall: WallClockTime, timeZone: string): Date {
+  const asUtc = wallClockToEpoch(wall);
+  if (timeZone === "UTC") return new Date(asUtc);
+
+  const offsetBefore = getTimezoneOffset(
+    timeZone,
+    new Date(asUtc - 24 * 60 * 60 * 1000),
+  );
+  const offsetAfter = getTimezoneOffset(
+    timeZone,
+    new Date(asUtc + 24 * 60 * 60 * 1000),
+  );
+
+  // Prefer the earlier offset so ambiguous times pick the first occurrence
+  const candidate = asUtc - offsetBefore * 60000;
+  if (getTimezoneOffset(timeZone, new Date(candidate)) === offsetBefore) {
+    return new Date(candidate);
+  }
+
+  const alternative = asUtc - offsetAfter * 60000;
+  if (getTimezoneOffset(timeZone, new Date(alternative)) === offsetAfter) {
+    return new Date(alternative);
+  }
+
+  // Inside a DST gap: apply the offset from before the gap
+  return new Date(asUtc - offsetBefore * 60000);
+}
+
+/**
+ * Find all UTC offset changes of a timezone within a time range
+ */
+export function getTimezoneTransitions(
+  timeZone: string,
+  from: Date,
+  to: Date,
+): TimezoneTransition[] {
+  const transitions: TimezoneTransition[] = [];
+  if (timeZone === "UTC") return transitions;
+
+  const step = 24 * 60 * 60 * 1000;
+  let previousTime = from.getTime();
+  let previousOffset = getTimezoneOffset(timeZone, from);
+
+  for (let time = previousTime + step; time <= to.getTime() + step; time += step) {
+    const offset = getTimezoneOffset(timeZone, new Date(time));
+    if (offset !== previousOffset) {
+      // Binary search for the first minute with the new offset
+      let low = previousTime;
+      let high = time;
+      while (high - low > 60000) {
+        const mid = Math.floor((low + high) / 2 / 60000) * 60000;
+        if (getTimezoneOffset(timeZone, new Date(mid)) === previousOffset) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+      if (high >= from.getTime() && high <= to.getTime()) {
+        transitions.push({
+          at: new Date(high),
+          offsetFrom: previousOffset,
+          offsetTo: offset,
+        });
+      }
+      previousOffset = offset;
+    }
+    previousTime = time;
+  }
+
+  return transitions;
+}
+
+/**
+ * Get a short display name for a timezone at an instant (e.g. "EST", "GMT+1")
+ */
+export function getTimezoneAbbreviation(timeZone: string, date: Date): string {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      timeZoneName: "short",
+    }).formatToParts(date);
+    return parts.find((part) => part.type === "timeZoneName")?.value ||
+      timeZone;
+  } catch {
+    return timeZone;
+  }
+}
+
+/**
+ * List the IANA timezones known to the runtime, UTC first
+ */
+export function getTimezoneNames(): string[] {
+  try {
+    return [
+      "UTC",
+      ...Intl.supportedValuesOf("timeZone").filter((name) => name !== "UTC"),
+    ];
+  } catch {
+    return ["UTC"];
+  }
+}
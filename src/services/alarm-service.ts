@@ -0,0 +1,210 @@
+/**
+ * Alarm Service
+ *
+ * Reminders are alarm records on the user's own homeserver that point at
+ * an event URI. A user can set several reminders for the same event.
+ */
+
+import { PubkyClient } from "@/lib/pubky-client";
+import {
+  type AlarmRecord,
+  getSubscriptionAlarms,
+  type ScheduledAlarm,
+} from "@/lib/alarms";
+import { nexusEventToEventData } from "@/lib/event-data";
+import {
+  fetchEventData,
+  generateTimestampId,
+} from "@/services/calendar-service";
+import { listDirectory } from "@/services/calendar-fetch-service";
+import { fetchUserSubscriptions } from "@/services/subscription-service";
+import { deleteOrQueue, putOrQueue } from "@/services/outbox-service";
+import {
+  getCalendar,
+  listAllCalendarEvents,
+} from "@/services/calendar-repository";
+import { filterTrustedEvents } from "@/services/calendar-trust-service";
+import type { PubkyAppAlarmData } from "@/types/calendar";
+import { AppError, ErrorCode } from "@/types/errors";
+import { logError } from "@/lib/error-logger";
+import { logger } from "@/lib/logger";
+import { parseCalendarUri } from "@/utils/pubky-uri";
+
+const ALARM_PATH = "/pub/pubky.app/alarm";
+
+export interface AlarmOptions {
+  summary?: string;
+  repeat?: number;
+  duration?: string;
+}
+
+/**
+ * Add a reminder to an event
+ *
+ * @param eventUri - Event the reminder is for
+ * @param trigger - Offset from the event start, e.g. "-PT15M"
+ * @param publicKey - The user's public key
+ * @returns URI of the alarm record
+ * @throws {AppError} If the write fails
+ */
+export async function createAlarm(
+  eventUri: string,
+  trigger: string,
+  publicKey: string,
+  options: AlarmOptions = {},
+): Promise<string> {
+  try {
+    const alarm: PubkyAppAlarmData = {
+      x_pubky_event_uri: eventUri,
+      action: "DISPLAY",
+      trigger,
+      summary: options.summary || null,
+      repeat: options.repeat || null,
+      duration: options.duration || null,
+      created: Date.now() * 1000,
+    };
+
+    const alarmPath = `${ALARM_PATH}/${generateTimestampId()}`;
+    const { queued } = await putOrQueue(
+      alarmPath,
+      new TextEncoder().encode(JSON.stringify(alarm)),
+      publicKey,
+      { label: "Add reminder" },
+    );
+
+    const alarmUri = `pubky://${publicKey}${alarmPath}`;
+    logger.service("alarm", "Reminder created", { alarmUri, trigger, queued });
+    return alarmUri;
+  } catch (error) {
+    const appError = error instanceof AppError ? error : new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to create reminder",
+      details: error,
+      publicKey,
+    });
+
+    logError(appError, {
+      action: "createAlarm",
+      userId: publicKey,
+      metadata: { eventUri },
+    });
+
+    throw appError;
+  }
+}
+
+/**
+ * Delete a reminder
+ *
+ * @throws {AppError} If the delete fails and cannot be queued
+ */
+export async function deleteAlarm(
+  alarmUri: string,
+  publicKey: string,
+): Promise<void> {
+  const alarmPath = alarmUri.replace(`pubky://${publicKey}`, "");
+
+  const { queued } = await deleteOrQueue(alarmPath, publicKey, {
+    label: "Delete reminder",
+  });
+  logger.service("alarm", "Reminder deleted", { alarmUri, queued });
+}
+
+/**
+ * Read all reminders of a user from their homeserver
+ */
+export async function fetchUserAlarms(
+  publicKey: string,
+): Promise<AlarmRecord[]> {
+  const client = PubkyClient.getInstance();
+  const alarms: AlarmRecord[] = [];
+
+  await listDirectory(`pubky${publicKey}${ALARM_PATH}/`, async (alarmUrls) => {
+    for (const alarmUrl of alarmUrls) {
+      try {
+        const response = await client.get(
+          alarmUrl.replace("pubky://", "pubky"),
+        );
+        if (!response) continue;
+
+        const data: PubkyAppAlarmData = JSON.parse(
+          new TextDecoder().decode(response),
+        );
+        if (data.x_pubky_event_uri && data.trigger) {
+          alarms.push({ uri: alarmUrl, data });
+        }
+      } catch (error) {
+        console.warn(`Skipping unreadable alarm ${alarmUrl}:`, error);
+      }
+    }
+  });
+
+  return alarms;
+}
+
+/**
+ * Read a user's reminders together with their events
+ *
+ * Each event is fetched once, however many reminders point at it. Visible
+ * calendar subscriptions with a default reminder add one for each of
+ * their events.
+ */
+export async function fetchAlarmSchedule(
+  publicKey: string,
+): Promise<ScheduledAlarm[]> {
+  const [alarms, subscriptions] = await Promise.all([
+    fetchUserAlarms(publicKey),
+    fetchUserSubscriptions(publicKey),
+  ]);
+  const eventUris = [
+    ...new Set(alarms.map((alarm) => alarm.data.x_pubky_event_uri)),
+  ];
+
+  const events = new Map(
+    await Promise.all(
+      eventUris.map(async (uri) => [uri, await fetchEventData(uri)] as const),
+    ),
+  );
+
+  const schedule: ScheduledAlarm[] = alarms.map((alarm) => ({
+    alarm,
+    event: events.get(alarm.data.x_pubky_event_uri) || null,
+  }));
+
+  const ownEventUris = new Set(eventUris);
+  for (const { uri, data } of subscriptions) {
+    const parsed = parseCalendarUri(data.x_pubky_calendar_uri);
+    if (!data.default_alarm || data.hidden || !parsed) continue;
+
+    try {
+      const [calendar, calendarEvents] = await Promise.all([
+        getCalendar(parsed.authorId, parsed.calendarId),
+        listAllCalendarEvents(parsed.authorId, parsed.calendarId),
+      ]);
+      const trustedEvents = await filterTrustedEvents(
+        parsed.authorId,
+        parsed.calendarId,
+        calendar?.x_pubky_admins,
+        calendarEvents,
+      );
+      schedule.push(
+        ...getSubscriptionAlarms(
+          uri,
+          data.default_alarm,
+          trustedEvents.map((event) => ({
+            uri: event.uri,
+            data: nexusEventToEventData(event, data.x_pubky_calendar_uri),
+          })),
+          ownEventUris,
+        ),
+      );
+    } catch (error) {
+      logger.warn("Skipping default reminders of unavailable calendar", {
+        calendarUri: data.x_pubky_calendar_uri,
+        error,
+      });
+    }
+  }
+
+  return schedule;
+}
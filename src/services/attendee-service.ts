@@ -0,0 +1,252 @@
+/**
+ * Attendee Service
+ *
+ * RSVPs are attendee records on the attendee's own homeserver that point
+ * at an event URI. The record ID is a hash of the event URI, so each user
+ * has one RSVP per event: changing it overwrites the record and
+ * withdrawing it deletes the record.
+ */
+
+import { PubkyClient } from "@/lib/pubky-client";
+import { getEventAttendees } from "@/lib/nexus-client";
+import {
+  attendeeDataToEventAttendee,
+  type EventAttendee,
+  mergeOwnAttendee,
+  nexusAttendeeToEventAttendee,
+} from "@/lib/attendees";
+import { mapWithConcurrency } from "@/lib/event-aggregation";
+import { createHashId, fetchEventData } from "@/services/calendar-service";
+import { listDirectory } from "@/services/calendar-fetch-service";
+import { deleteOrQueue, putOrQueue } from "@/services/outbox-service";
+import type {
+  AttendeeStatus,
+  PubkyAppAttendeeData,
+  PubkyAppEventData,
+} from "@/types/calendar";
+import { AppError, ErrorCode } from "@/types/errors";
+import { logError } from "@/lib/error-logger";
+import { logger } from "@/lib/logger";
+
+const ATTENDEE_PATH = "/pub/pubky.app/attendee";
+const READ_CONCURRENCY = 6; // Parallel RSVP reads per listed page
+
+/**
+ * One of the user's RSVPs together with the event it answers
+ */
+export interface UserRsvp {
+  uri: string; // Attendee record URI
+  data: PubkyAppAttendeeData;
+  event: PubkyAppEventData | null; // null if the event is gone
+}
+
+/**
+ * ID of a user's attendee record for an event
+ */
+export function getAttendeeId(eventUri: string): string {
+  return createHashId(new TextEncoder().encode(eventUri));
+}
+
+/**
+ * URI of a user's attendee record for an event
+ */
+export function getAttendeeUri(publicKey: string, eventUri: string): string {
+  return `pubky://${publicKey}${ATTENDEE_PATH}/${getAttendeeId(eventUri)}`;
+}
+
+/**
+ * Read a user's RSVP for an event from their homeserver
+ *
+ * @returns The attendee record, or null if the user has not answered
+ */
+export async function fetchAttendee(
+  publicKey: string,
+  eventUri: string,
+): Promise<PubkyAppAttendeeData | null> {
+  const client = PubkyClient.getInstance();
+  const attendeeUri = getAttendeeUri(publicKey, eventUri);
+
+  try {
+    const response = await client.get(attendeeUri.replace("pubky://", "pubky"));
+    if (!response) {
+      return null;
+    }
+
+    const data: PubkyAppAttendeeData = JSON.parse(
+      new TextDecoder().decode(response),
+    );
+    return data.x_pubky_event_uri === eventUri ? data : null;
+  } catch (error) {
+    logError(
+      new AppError({
+        code: ErrorCode.INVALID_DATA,
+        message: "Failed to parse attendee data",
+        details: error,
+      }),
+      {
+        action: "fetchAttendee",
+        metadata: { attendeeUri },
+      },
+    );
+
+    return null;
+  }
+}
+
+/**
+ * Read all RSVPs of a user from their homeserver, with their events
+ */
+export async function fetchUserRsvps(publicKey: string): Promise<UserRsvp[]> {
+  const client = PubkyClient.getInstance();
+  const rsvps: (UserRsvp | null)[] = [];
+
+  await listDirectory(`pubky${publicKey}${ATTENDEE_PATH}/`, async (attendeeUrls) => {
+    rsvps.push(
+      ...await mapWithConcurrency(
+        attendeeUrls,
+        READ_CONCURRENCY,
+        async (attendeeUrl): Promise<UserRsvp | null> => {
+          try {
+            const response = await client.get(
+              attendeeUrl.replace("pubky://", "pubky"),
+            );
+            if (!response) return null;
+
+            const data: PubkyAppAttendeeData = JSON.parse(
+              new TextDecoder().decode(response),
+            );
+            if (!data.x_pubky_event_uri) return null;
+
+            return {
+              uri: attendeeUrl,
+              data,
+              event: await fetchEventData(data.x_pubky_event_uri),
+            };
+          } catch (error) {
+            console.warn(`Skipping unreadable RSVP ${attendeeUrl}:`, error);
+            return null;
+          }
+        },
+      ),
+    );
+  });
+
+  return rsvps.filter((rsvp): rsvp is UserRsvp => rsvp !== null);
+}
+
+/**
+ * Answer an event invitation, or change an earlier answer
+ *
+ * @param eventUri - Event being answered
+ * @param status - RSVP answer
+ * @param publicKey - The answering user's public key
+ * @param name - Display name stored with the RSVP
+ * @returns URI of the attendee record
+ * @throws {AppError} If the write fails
+ */
+export async function saveRsvp(
+  eventUri: string,
+  status: AttendeeStatus,
+  publicKey: string,
+  name?: string,
+): Promise<string> {
+  try {
+    const existing = await fetchAttendee(publicKey, eventUri);
+    const now = Date.now() * 1000;
+
+    const attendee: PubkyAppAttendeeData = {
+      ...existing,
+      x_pubky_event_uri: eventUri,
+      rsvp: status,
+      role: existing?.role || "REQ-PARTICIPANT",
+      name: name || existing?.name || null,
+      created: existing?.created || now,
+      dtstamp: now,
+    };
+
+    const attendeePath = `${ATTENDEE_PATH}/${getAttendeeId(eventUri)}`;
+    const { queued } = await putOrQueue(
+      attendeePath,
+      new TextEncoder().encode(JSON.stringify(attendee)),
+      publicKey,
+      { label: "Save RSVP" },
+    );
+
+    const attendeeUri = `pubky://${publicKey}${attendeePath}`;
+    logger.service("attendee", "RSVP saved", { attendeeUri, status, queued });
+    return attendeeUri;
+  } catch (error) {
+    const appError = error instanceof AppError ? error : new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to save RSVP",
+      details: error,
+      publicKey,
+    });
+
+    logError(appError, {
+      action: "saveRsvp",
+      userId: publicKey,
+      metadata: { eventUri },
+    });
+
+    throw appError;
+  }
+}
+
+/**
+ * Withdraw a user's RSVP by deleting their attendee record
+ *
+ * @throws {AppError} If the delete fails and cannot be queued
+ */
+export async function withdrawRsvp(
+  eventUri: string,
+  publicKey: string,
+): Promise<void> {
+  const attendeePath = `${ATTENDEE_PATH}/${getAttendeeId(eventUri)}`;
+
+  const { queued } = await deleteOrQueue(attendeePath, publicKey, {
+    label: "Withdraw RSVP",
+  });
+  logger.service("attendee", "RSVP withdrawn", { eventUri, queued });
+}
+
+/**
+ * Get the attendees of an event
+ *
+ * Reads the indexed RSVPs from Nexus. The viewer's own RSVP is read from
+ * their homeserver, so it shows up before Nexus has indexed a change and
+ * is still shown when Nexus is unavailable.
+ *
+ * @param viewerKey - Public key of the signed-in user, if any
+ */
+export async function fetchEventAttendees(
+  authorId: string,
+  eventId: string,
+  eventUri: string,
+  viewerKey?: string | null,
+): Promise<EventAttendee[]> {
+  const [indexed, own] = await Promise.all([
+    getEventAttendees(authorId, eventId)
+      .then((attendees) => attendees.map(nexusAttendeeToEventAttendee))
+      .catch((error) => {
+        logger.warn("Nexus attendees unavailable, showing own RSVP only", {
+          eventUri,
+          error,
+        });
+        return [];
+      }),
+    viewerKey ? fetchAttendee(viewerKey, eventUri) : Promise.resolve(null),
+  ]);
+
+  return mergeOwnAttendee(
+    indexed,
+    viewerKey || null,
+    own && viewerKey
+      ? attendeeDataToEventAttendee(
+        viewerKey,
+        getAttendeeUri(viewerKey, eventUri),
+        own,
+      )
+      : null,
+  );
+}
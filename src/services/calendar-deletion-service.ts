@@ -0,0 +1,329 @@
+/**
+ * Calendar Deletion Service
+ *
+ * Deletes a calendar together with what belongs to it on the owner's
+ * homeserver: the owner's events in it (deleted or detached), its
+ * settings, and images nothing else uses. Events admins wrote live on
+ * their homeservers and are left alone; without the calendar they no
+ * longer show anywhere.
+ *
+ * A deletion can also be scheduled with a record on the owner's
+ * homeserver, so it can be undone from any device until it is due.
+ */
+
+import {
+  type CalendarDeletionPlan,
+  type CalendarEventMode,
+  getPlanSize,
+  planCalendarDeletion,
+} from "@/lib/calendar-deletion";
+import {
+  getUnreadableRecords,
+  type StoredRecord,
+} from "@/lib/storage-references";
+import type { NexusEvent } from "@/lib/nexus-types";
+import { PubkyClient } from "@/lib/pubky-client";
+import {
+  listDirectory,
+  parseCalendarUri,
+} from "@/services/calendar-fetch-service";
+import { listAllCalendarEvents } from "@/services/calendar-repository";
+import {
+  deleteCalendar,
+  updateEventData,
+} from "@/services/calendar-service";
+import { deleteOrQueue, putOrQueue } from "@/services/outbox-service";
+import { fetchStoredRecords } from "@/services/storage-service";
+import type { PubkyAppCalendarDeletionData } from "@/types/calendar";
+import { AppError, ErrorCode } from "@/types/errors";
+import { logError } from "@/lib/error-logger";
+import { logger } from "@/lib/logger";
+
+const CALENDAR_DELETION_PATH = "/pub/pubky.app/calendar_deletion";
+
+/**
+ * How long a scheduled deletion can still be undone
+ */
+export const DELETION_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What a calendar deletion would touch
+ */
+export interface CalendarDeletionScan {
+  records: StoredRecord[]; // All of the owner's records, for planning
+  otherEvents: NexusEvent[]; // Events in the calendar by its admins
+}
+
+/**
+ * Progress of a running deletion
+ */
+export interface CalendarDeletionProgress {
+  done: number;
+  total: number;
+  label: string; // The step running now
+}
+
+/**
+ * Outcome of a deletion, listing the steps that failed
+ */
+export interface CalendarDeletionReport {
+  completed: number;
+  failed: Array<{ uri: string; label: string }>;
+}
+
+/**
+ * Find everything that references a calendar
+ *
+ * @param calendarUri - The calendar, owned by `publicKey`
+ * @throws {AppError} If the homeserver or any of the records cannot be read
+ */
+export async function scanCalendarDeletion(
+  calendarUri: string,
+  publicKey: string,
+): Promise<CalendarDeletionScan> {
+  const { authorId, calendarId } = parseCalendarUri(calendarUri);
+  const [records, events] = await Promise.all([
+    fetchStoredRecords(publicKey),
+    listAllCalendarEvents(authorId, calendarId).catch(() => []),
+  ]);
+
+  const unreadable = getUnreadableRecords(records);
+  if (unreadable.length > 0) {
+    const appError = new AppError({
+      code: ErrorCode.INVALID_DATA,
+      message: "Some of your records could not be read",
+      details: { unreadable },
+      publicKey,
+    });
+    logError(appError, {
+      action: "scanCalendarDeletion",
+      userId: publicKey,
+      metadata: { calendarUri },
+    });
+    throw appError;
+  }
+
+  return {
+    records,
+    otherEvents: events.filter((event) => event.author !== publicKey),
+  };
+}
+
+/**
+ * Carry out a deletion plan
+ *
+ * Runs every step even when some fail: events first, so nothing is left
+ * pointing at a missing calendar, and files before their blobs.
+ */
+export async function executeCalendarDeletion(
+  plan: CalendarDeletionPlan,
+  publicKey: string,
+  onProgress?: (progress: CalendarDeletionProgress) => void,
+): Promise<CalendarDeletionReport> {
+  const total = getPlanSize(plan);
+  const report: CalendarDeletionReport = { completed: 0, failed: [] };
+
+  const step = async (
+    uri: string,
+    label: string,
+    run: () => Promise<unknown>,
+  ) => {
+    onProgress?.({
+      done: report.completed + report.failed.length,
+      total,
+      label,
+    });
+    try {
+      if ((await run()) === false) throw new Error(`${label} failed`);
+      report.completed++;
+    } catch {
+      report.failed.push({ uri, label });
+    }
+  };
+
+  const deletePath = (uri: string, label: string) =>
+    deleteOrQueue(uri.replace(`pubky://${publicKey}`, ""), publicKey, {
+      label,
+    });
+
+  for (const event of plan.detachEvents) {
+    await step(event.uri, "Detach event", () =>
+      updateEventData(event.uri, {
+        x_pubky_calendar_uris: event.calendarUris,
+      }, publicKey));
+  }
+  // Their timing records are among the dependents
+  for (const uri of plan.deleteEvents) {
+    await step(uri, "Delete event", () => deletePath(uri, "Delete event"));
+  }
+  for (const uri of plan.dependents) {
+    await step(uri, "Delete related record", () =>
+      deletePath(uri, "Delete related record"));
+  }
+  await step(
+    plan.calendarUri,
+    "Delete calendar",
+    () => deleteCalendar(plan.calendarUri),
+  );
+  for (const uri of plan.files) {
+    await step(uri, "Delete image", () => deletePath(uri, "Delete image"));
+  }
+  for (const uri of plan.blobs) {
+    await step(uri, "Delete image data", () =>
+      deletePath(uri, "Delete image data"));
+  }
+
+  onProgress?.({ done: total, total, label: "Done" });
+  logger.service("calendar", "Calendar deleted with its records", {
+    calendarUri: plan.calendarUri,
+    completed: report.completed,
+    failed: report.failed.length,
+  });
+  return report;
+}
+
+/**
+ * Scan, plan and delete a calendar in one go
+ *
+ * @throws {AppError} If the homeserver cannot be read
+ * @throws {Error} If some records could not be read
+ */
+export async function runCalendarDeletion(
+  calendarUri: string,
+  eventMode: CalendarEventMode,
+  publicKey: string,
+  onProgress?: (progress: CalendarDeletionProgress) => void,
+): Promise<CalendarDeletionReport> {
+  const records = await fetchStoredRecords(publicKey);
+  return executeCalendarDeletion(
+    planCalendarDeletion(calendarUri, records, eventMode),
+    publicKey,
+    onProgress,
+  );
+}
+
+function getDeletionPath(calendarUri: string): string {
+  return `${CALENDAR_DELETION_PATH}/${parseCalendarUri(calendarUri).calendarId}`;
+}
+
+async function readDeletion(
+  uri: string,
+): Promise<PubkyAppCalendarDeletionData | null> {
+  const response = await PubkyClient.getInstance().get(
+    uri.replace("pubky://", "pubky"),
+  );
+  return response ? JSON.parse(new TextDecoder().decode(response)) : null;
+}
+
+/**
+ * Read the pending deletion of a calendar from its owner's homeserver
+ *
+ * @returns The pending deletion, or null if none is scheduled
+ * @throws {AppError} If the homeserver cannot be read
+ */
+export async function fetchScheduledDeletion(
+  calendarUri: string,
+): Promise<PubkyAppCalendarDeletionData | null> {
+  const { authorId } = parseCalendarUri(calendarUri);
+
+  try {
+    const deletion = await readDeletion(
+      `pubky://${authorId}${getDeletionPath(calendarUri)}`,
+    );
+    return deletion?.x_pubky_calendar_uri === calendarUri ? deletion : null;
+  } catch (error) {
+    const appError = new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to read calendar deletion",
+      details: error,
+    });
+    logError(appError, {
+      action: "fetchScheduledDeletion",
+      metadata: { calendarUri },
+    });
+    throw appError;
+  }
+}
+
+/**
+ * Read all pending calendar deletions of a user
+ *
+ * Unreadable records are skipped.
+ *
+ * @throws {PubkyError} If the homeserver cannot be listed
+ */
+export async function fetchScheduledDeletions(
+  publicKey: string,
+): Promise<PubkyAppCalendarDeletionData[]> {
+  const deletions: PubkyAppCalendarDeletionData[] = [];
+
+  await listDirectory(
+    `pubky${publicKey}${CALENDAR_DELETION_PATH}/`,
+    async (urls) => {
+      for (const url of urls) {
+        try {
+          const deletion = await readDeletion(url);
+          if (deletion?.x_pubky_calendar_uri && deletion.delete_at) {
+            deletions.push(deletion);
+          }
+        } catch (error) {
+          console.warn(`Skipping unreadable calendar deletion ${url}:`, error);
+        }
+      }
+    },
+  );
+
+  return deletions;
+}
+
+/**
+ * Schedule a calendar for deletion once the grace period is over
+ *
+ * @param calendarUri - The calendar, owned by `publicKey`
+ * @throws {AppError} If the write fails
+ */
+export async function scheduleCalendarDeletion(
+  calendarUri: string,
+  eventMode: CalendarEventMode,
+  publicKey: string,
+): Promise<PubkyAppCalendarDeletionData> {
+  const now = Date.now();
+  const deletion: PubkyAppCalendarDeletionData = {
+    x_pubky_calendar_uri: calendarUri,
+    event_mode: eventMode,
+    delete_at: (now + DELETION_GRACE_MS) * 1000,
+    created: now * 1000,
+  };
+
+  const { queued } = await putOrQueue(
+    getDeletionPath(calendarUri),
+    new TextEncoder().encode(JSON.stringify(deletion)),
+    publicKey,
+    { label: "Schedule calendar deletion" },
+  );
+  logger.service("calendar", "Calendar deletion scheduled", {
+    calendarUri,
+    queued,
+  });
+  return deletion;
+}
+
+/**
+ * Undo a scheduled calendar deletion
+ *
+ * @throws {AppError} If the delete fails and cannot be queued
+ */
+export async function cancelCalendarDeletion(
+  calendarUri: string,
+  publicKey: string,
+): Promise<void> {
+  const { queued } = await deleteOrQueue(
+    getDeletionPath(calendarUri),
+    publicKey,
+    { label: "Undo calendar deletion" },
+  );
+  logger.service("calendar", "Calendar deletion undone", {
+    calendarUri,
+    queued,
+  });
+}
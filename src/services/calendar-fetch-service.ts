@@ -1,67 +1,36 @@
 /**
  * Calendar Fetch Service
  *
- * Abstracts calendar data fetching to prepare for Nexus API integration.
- * Currently fetches from homeserver, but will be updated to use Nexus endpoints.
+ * Reads calendars and events straight from the homeservers, as plain JSON
+ * (no pubky-app-specs WASM) so it also works in route handlers. Used where
+ * Nexus does not index a field, and as the homeserver data source of the
+ * calendar repository.
  */
 
-import { PubkyAppCalendar } from "pubky-app-specs";
 import { PubkyClient } from "@/lib/pubky-client";
 import { AppError, ErrorCode } from "@/types/errors";
 import { logError } from "@/lib/error-logger";
-
-/**
- * Fetch calendar metadata
- *
- * TODO: Update to fetch from Nexus API endpoint once available
- * Nexus endpoint will be: GET /calendar/:author_id/:calendar_id
- *
- * @param authorId - The public key of the calendar owner
- * @param calendarId - The calendar ID (timestamp-based)
- * @returns Calendar metadata or null if not found
- */
-export async function fetchCalendarMetadata(
-  authorId: string,
-  calendarId: string,
-): Promise<PubkyAppCalendar | null> {
-  try {
-    // TODO: Replace with Nexus API call
-    // const response = await fetch(`${NEXUS_API_URL}/calendar/${authorId}/${calendarId}`);
-    // const data = await response.json();
-    // return PubkyAppCalendar.fromJson(data);
-
-    // For now, fetch directly from homeserver
-    const calendarUri =
-      `pubky://${authorId}/pub/pubky.app/calendar/${calendarId}`;
-    const client = PubkyClient.getInstance();
-    // Convert to address format for SDK 0.6.0
-    const address = calendarUri.replace("pubky://", "pubky");
-    const response = await client.get(address);
-
-    if (!response) {
-      return null;
-    }
-
-    const text = new TextDecoder().decode(response);
-    const calendarData = JSON.parse(text);
-    const calendar = PubkyAppCalendar.fromJson(calendarData);
-
-    return calendar;
-  } catch (error) {
-    const appError = error instanceof AppError ? error : new AppError({
-      code: ErrorCode.HOMESERVER_ERROR,
-      message: "Failed to fetch calendar metadata",
-      details: error,
-    });
-
-    logError(appError, {
-      action: "fetchCalendarMetadata",
-      metadata: { authorId, calendarId },
-    });
-
-    throw appError;
-  }
-}
+import { getAppConfig } from "@/lib/config";
+import { getEvent } from "@/lib/nexus-client";
+import {
+  getEventCalendarUris,
+  getEventTimingUri,
+  nexusEventToEventData,
+  withEventTiming,
+} from "@/lib/event-data";
+import {
+  dedupeEventRecords,
+  getCalendarWriters,
+  listAllPages,
+  mapWithConcurrency,
+} from "@/lib/event-aggregation";
+import type { NexusEvent } from "@/lib/nexus-types";
+import type {
+  PubkyAppCalendarData,
+  PubkyAppEventData,
+  PubkyAppEventRecord,
+  PubkyAppEventTimingData,
+} from "@/types/calendar";
 
 /**
  * Parse author ID and calendar ID from a calendar URI
@@ -105,3 +74,410 @@ export function buildCalendarUri(
   return `pubky://${authorId}/pub/pubky.app/calendar/${calendarId}`;
 }
 
+
+const LIST_PAGE_SIZE = 100; // Entries per homeserver list request
+const READ_CONCURRENCY = 6; // Parallel homeserver record reads
+
+/**
+ * Read a JSON record from a homeserver
+ *
+ * @returns The parsed record, or null if it does not exist
+ */
+async function readRecord<T>(uri: string): Promise<T | null> {
+  const response = await PubkyClient.getInstance().get(
+    uri.replace("pubky://", "pubky"),
+  );
+  return response ? JSON.parse(new TextDecoder().decode(response)) : null;
+}
+
+/**
+ * Read the timing record of an event from its author's homeserver
+ *
+ * @returns The timing, or null if the event has none or it is unreadable
+ */
+export async function readEventTiming(
+  eventUri: string,
+): Promise<PubkyAppEventTimingData | null> {
+  const timingUri = getEventTimingUri(eventUri);
+  if (!timingUri) return null;
+
+  try {
+    return await readRecord<PubkyAppEventTimingData>(timingUri);
+  } catch (error) {
+    console.warn(`Skipping unreadable event timing ${timingUri}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Read an event from a homeserver together with its timing record
+ *
+ * @returns The event data, or null if the event does not exist
+ */
+async function readEventRecord(
+  eventUri: string,
+): Promise<PubkyAppEventData | null> {
+  const [data, timing] = await Promise.all([
+    readRecord<PubkyAppEventData>(eventUri),
+    readEventTiming(eventUri),
+  ]);
+  return data && withEventTiming(data, timing);
+}
+
+/**
+ * Fetch a calendar from its owner's homeserver
+ *
+ * @param authorId - The public key of the calendar owner
+ * @param calendarId - The calendar ID
+ * @returns Calendar data, or null if the calendar is missing
+ */
+export async function fetchStoredCalendar(
+  authorId: string,
+  calendarId: string,
+): Promise<PubkyAppCalendarData | null> {
+  try {
+    return await readRecord<PubkyAppCalendarData>(
+      buildCalendarUri(authorId, calendarId),
+    );
+  } catch (error) {
+    const appError = new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to fetch calendar",
+      details: error,
+    });
+
+    logError(appError, {
+      action: "fetchStoredCalendar",
+      metadata: { authorId, calendarId },
+    });
+
+    throw appError;
+  }
+}
+
+/**
+ * Fetch the calendars a user created, from their homeserver
+ *
+ * Calendars the user administers for others are only known to Nexus.
+ * Unreadable calendars are skipped.
+ *
+ * @param userId - The public key of the user
+ * @returns Calendar records with their URIs
+ */
+export async function fetchStoredUserCalendars(
+  userId: string,
+): Promise<Array<{ uri: string; data: PubkyAppCalendarData }>> {
+  try {
+    const calendars: Array<{ uri: string; data: PubkyAppCalendarData } | null> =
+      [];
+
+    await listDirectory(`pubky${userId}/pub/pubky.app/calendar/`, async (urls) => {
+      calendars.push(
+        ...await mapWithConcurrency(urls, READ_CONCURRENCY, async (uri) => {
+          try {
+            const data = await readRecord<PubkyAppCalendarData>(uri);
+            return data ? { uri, data } : null;
+          } catch (error) {
+            console.warn(`Skipping unreadable calendar ${uri}:`, error);
+            return null;
+          }
+        }),
+      );
+    });
+
+    return calendars.filter((calendar) => calendar !== null);
+  } catch (error) {
+    const appError = new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to fetch user calendars",
+      details: error,
+    });
+
+    logError(appError, {
+      action: "fetchStoredUserCalendars",
+      userId,
+    });
+
+    throw appError;
+  }
+}
+
+/**
+ * Fetch an event from its author's homeserver
+ *
+ * @param eventUri - Full event URI
+ * @returns Event data, or null if the event is missing
+ */
+export async function fetchStoredEvent(
+  eventUri: string,
+): Promise<PubkyAppEventData | null> {
+  try {
+    return await readEventRecord(eventUri);
+  } catch (error) {
+    const appError = new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to fetch event",
+      details: error,
+    });
+
+    logError(appError, {
+      action: "fetchStoredEvent",
+      metadata: { eventUri },
+    });
+
+    throw appError;
+  }
+}
+
+/**
+ * Page through a homeserver directory
+ *
+ * Calls `onPage` with the URLs of each page, continuing after the last
+ * URL of the previous page until a short page ends the listing.
+ *
+ * @throws {PubkyError} If a page cannot be listed
+ */
+export function listDirectory(
+  url: string,
+  onPage: (urls: string[]) => Promise<void>,
+): Promise<void> {
+  const client = PubkyClient.getInstance();
+  return listAllPages(
+    (cursor) => client.list(url, cursor, false, LIST_PAGE_SIZE),
+    LIST_PAGE_SIZE,
+    onPage,
+  );
+}
+
+/**
+ * Collect a calendar's events from the homeservers of its writers
+ *
+ * Lists every writer's events page by page and keeps those linked to the
+ * calendar. Writers are walked one after another, their records read with
+ * bounded concurrency; writers whose events cannot be listed are skipped.
+ * Copies of an event are merged by UID.
+ *
+ * @param calendarUri - The calendar the events must link to
+ * @param writers - Public keys of the owner and admins
+ * @returns Event records, owner's first
+ */
+export async function aggregateCalendarEvents(
+  calendarUri: string,
+  writers: string[],
+): Promise<PubkyAppEventRecord[]> {
+  const records: PubkyAppEventRecord[] = [];
+
+  for (const writer of writers) {
+    try {
+      await listDirectory(`pubky${writer}/pub/pubky.app/event/`, async (urls) => {
+        const page = await mapWithConcurrency(
+          urls,
+          READ_CONCURRENCY,
+          async (uri) => {
+            try {
+              const data = await readRecord<PubkyAppEventData>(uri);
+              return data && getEventCalendarUris(data).includes(calendarUri)
+                ? {
+                  uri,
+                  data: withEventTiming(data, await readEventTiming(uri)),
+                }
+                : null;
+            } catch (error) {
+              console.warn(`Skipping unreadable event ${uri}:`, error);
+              return null;
+            }
+          },
+        );
+        records.push(...page.filter((record) => record !== null));
+      });
+    } catch (error) {
+      console.warn(`Skipping unlistable events of ${writer}:`, error);
+    }
+  }
+
+  return dedupeEventRecords(records);
+}
+
+/**
+ * Fetch a calendar and its event records directly from the homeservers
+ *
+ * Events are collected from the owner and every admin, since admins write
+ * events to their own homeserver.
+ *
+ * @param authorId - The public key of the calendar owner
+ * @param calendarId - The calendar ID
+ * @returns Calendar data and linked events, or null if the calendar is missing
+ */
+export async function fetchCalendarEventRecords(
+  authorId: string,
+  calendarId: string,
+): Promise<
+  { calendar: PubkyAppCalendarData; events: PubkyAppEventRecord[] } | null
+> {
+  const calendarUri = buildCalendarUri(authorId, calendarId);
+
+  try {
+    const calendar = await readRecord<PubkyAppCalendarData>(calendarUri);
+    if (!calendar) {
+      return null;
+    }
+
+    const events = await aggregateCalendarEvents(
+      calendarUri,
+      getCalendarWriters(authorId, calendar),
+    );
+
+    return { calendar, events };
+  } catch (error) {
+    const appError = error instanceof AppError ? error : new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to fetch calendar events",
+      details: error,
+    });
+
+    logError(appError, {
+      action: "fetchCalendarEventRecords",
+      metadata: { authorId, calendarId },
+    });
+
+    throw appError;
+  }
+}
+
+/**
+ * Fetch a calendar and its events directly from the homeservers
+ *
+ * @param authorId - The public key of the calendar owner
+ * @param calendarId - The calendar ID
+ * @returns Calendar data and linked events, or null if the calendar is missing
+ */
+export async function fetchCalendarWithEvents(
+  authorId: string,
+  calendarId: string,
+): Promise<
+  { calendar: PubkyAppCalendarData; events: PubkyAppEventData[] } | null
+> {
+  const result = await fetchCalendarEventRecords(authorId, calendarId);
+  return result && {
+    calendar: result.calendar,
+    events: result.events.map((event) => event.data),
+  };
+}
+
+/**
+ * Resolve a Nexus event to its stored data, falling back to the indexed
+ * data with the event's timing record
+ */
+async function resolveEventRecord(
+  event: NexusEvent,
+): Promise<PubkyAppEventRecord> {
+  try {
+    const data = await readEventRecord(event.uri);
+    if (data) return { uri: event.uri, data };
+  } catch (error) {
+    console.warn(`Using indexed data for event ${event.uri}:`, error);
+  }
+  return {
+    uri: event.uri,
+    data: withEventTiming(
+      nexusEventToEventData(event),
+      await readEventTiming(event.uri),
+    ),
+  };
+}
+
+/**
+ * Resolve Nexus events to their stored event data
+ *
+ * Nexus does not index UID, RDATE or EXDATE, which are needed to expand a
+ * recurring series and match its overrides. Recurring events and overrides
+ * are therefore read from the author's homeserver; all other events are
+ * converted from the Nexus data. Nexus does not index timing records
+ * either, so every event gets its timing from the homeserver.
+ *
+ * @param events - Events from Nexus
+ * @returns One record per event, in the same order
+ */
+export async function fetchEventRecords(
+  events: NexusEvent[],
+): Promise<PubkyAppEventRecord[]> {
+  return mapWithConcurrency(events, READ_CONCURRENCY, async (event) => {
+    if (event.recurrence_rule || event.recurrence_id) {
+      return resolveEventRecord(event);
+    }
+    return {
+      uri: event.uri,
+      data: withEventTiming(
+        nexusEventToEventData(event),
+        await readEventTiming(event.uri),
+      ),
+    };
+  });
+}
+
+/**
+ * Resolve Nexus events to their complete stored event data
+ *
+ * Reads every event from its author's homeserver, for uses that need all
+ * fields, such as exports. Events that cannot be read use the Nexus data.
+ *
+ * @param events - Events from Nexus
+ * @returns One record per event, in the same order
+ */
+export async function fetchStoredEventRecords(
+  events: NexusEvent[],
+): Promise<PubkyAppEventRecord[]> {
+  return mapWithConcurrency(events, READ_CONCURRENCY, resolveEventRecord);
+}
+
+/**
+ * Everything the event page shows about one event
+ */
+export interface EventDetail {
+  uri: string;
+  authorId: string;
+  eventId: string;
+  data: PubkyAppEventData;
+  indexed: NexusEvent | null; // Nexus view, null if only on the homeserver
+}
+
+/**
+ * Fetch a single event, Nexus first with the homeserver as fallback
+ *
+ * The homeserver record is also read when Nexus has the event, since Nexus
+ * does not index the image, conference or description format. Nexus is
+ * skipped in the homeserver-only data source mode.
+ *
+ * @param authorId - The public key of the event author
+ * @param eventId - The event ID
+ * @returns The event, or null if neither source has it
+ * @throws {AppError} If the homeserver cannot be read and Nexus does not
+ *   have the event
+ */
+export async function fetchEventDetail(
+  authorId: string,
+  eventId: string,
+): Promise<EventDetail | null> {
+  const uri = `pubky://${authorId}/pub/pubky.app/event/${eventId}`;
+
+  const indexed = getAppConfig().dataSource === "homeserver"
+    ? null
+    : await getEvent(authorId, eventId).catch(() => null);
+  // An unreadable homeserver record falls back to the Nexus view
+  const stored = await fetchStoredEvent(uri).catch((error) => {
+    if (!indexed) throw error;
+    return null;
+  });
+
+  const data: PubkyAppEventData | null = stored
+    ? stored
+    : indexed
+    ? withEventTiming(nexusEventToEventData(indexed), await readEventTiming(uri))
+    : null;
+
+  if (!data) {
+    return null;
+  }
+
+  return { uri, authorId, eventId, data, indexed };
+}
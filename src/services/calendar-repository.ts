@@ -0,0 +1,304 @@
+/**
+ * Calendar Repository
+ *
+ * One read API for calendars and events, independent of where the data
+ * comes from. Results use the Nexus shapes. The configured data source
+ * mode decides which sources are asked and in which order:
+ * - "nexus-first": Nexus, then the homeservers if Nexus fails or does not
+ *   know the requested calendar or event
+ * - "nexus": Nexus only
+ * - "homeserver": homeservers only
+ */
+
+import { getAppConfig, type DataSourceMode } from "@/lib/config";
+import { logger } from "@/lib/logger";
+import {
+  getAllCalendarEvents,
+  getCalendar as getNexusCalendar,
+  getCalendarEvents,
+  getEvent as getNexusEvent,
+  getUserCalendars,
+  streamCalendars,
+  streamEvents,
+} from "@/lib/nexus-client";
+import type {
+  NexusCalendar,
+  NexusEvent,
+  StreamCalendarsParams,
+  StreamEventsParams,
+} from "@/lib/nexus-types";
+import {
+  calendarDataToNexusCalendar,
+  eventDataToNexusEvent,
+  filterEventStream,
+  pageCalendarStream,
+} from "@/lib/homeserver-index";
+import { parseCalendarUri } from "@/utils/pubky-uri";
+import { ErrorCode, isAppError } from "@/types/errors";
+import {
+  buildCalendarUri,
+  fetchCalendarEventRecords,
+  fetchStoredCalendar,
+  fetchStoredEvent,
+  fetchStoredUserCalendars,
+} from "@/services/calendar-fetch-service";
+
+type CalendarEventParams = Omit<StreamEventsParams, "calendar">;
+
+/**
+ * A place calendars and events can be read from
+ * Single-item reads resolve to null when the source does not have it.
+ */
+interface CalendarDataSource {
+  name: string;
+  getCalendar(
+    authorId: string,
+    calendarId: string,
+  ): Promise<NexusCalendar | null>;
+  listCalendars(params: StreamCalendarsParams): Promise<NexusCalendar[]>;
+  listUserCalendars(userId: string): Promise<NexusCalendar[]>;
+  getEvent(authorId: string, eventId: string): Promise<NexusEvent | null>;
+  listEvents(params: StreamEventsParams): Promise<NexusEvent[]>;
+  listCalendarEvents(
+    authorId: string,
+    calendarId: string,
+    params: CalendarEventParams,
+  ): Promise<NexusEvent[]>;
+  listAllCalendarEvents(
+    authorId: string,
+    calendarId: string,
+    params: Omit<CalendarEventParams, "skip" | "limit">,
+  ): Promise<NexusEvent[]>;
+}
+
+async function orNullIfNotFound<T>(request: Promise<T>): Promise<T | null> {
+  try {
+    return await request;
+  } catch (error) {
+    if (isAppError(error) && error.code === ErrorCode.NEXUS_NOT_FOUND) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+const nexusSource: CalendarDataSource = {
+  name: "Nexus",
+  getCalendar: (authorId, calendarId) =>
+    orNullIfNotFound(getNexusCalendar(authorId, calendarId)),
+  listCalendars: (params) => streamCalendars(params),
+  listUserCalendars: (userId) => getUserCalendars(userId),
+  getEvent: (authorId, eventId) =>
+    orNullIfNotFound(getNexusEvent(authorId, eventId)),
+  listEvents: (params) => streamEvents(params),
+  listCalendarEvents: (_authorId, calendarId, params) =>
+    getCalendarEvents(calendarId, params),
+  listAllCalendarEvents: (_authorId, calendarId, params) =>
+    getAllCalendarEvents(calendarId, params),
+};
+
+async function readStoredCalendarEvents(
+  authorId: string,
+  calendarId: string,
+): Promise<NexusEvent[]> {
+  const result = await fetchCalendarEventRecords(authorId, calendarId);
+  return (result?.events || []).map((event) => ({
+    ...eventDataToNexusEvent(event.uri, event.data),
+    calendar: calendarId, // Events can be linked to several calendars
+  }));
+}
+
+/**
+ * Without an index, the featured calendars are the only calendars known
+ * beyond a user's own
+ */
+async function readFeaturedCalendars(): Promise<NexusCalendar[]> {
+  const calendars = await Promise.all(
+    getAppConfig().featuredCalendars.map(async (calendarUri) => {
+      const parsed = parseCalendarUri(calendarUri);
+      return parsed
+        ? homeserverSource.getCalendar(parsed.authorId, parsed.calendarId)
+          .catch(() => null)
+        : null;
+    }),
+  );
+  return calendars.filter((calendar) => calendar !== null);
+}
+
+const homeserverSource: CalendarDataSource = {
+  name: "homeserver",
+  getCalendar: async (authorId, calendarId) => {
+    const data = await fetchStoredCalendar(authorId, calendarId);
+    return data &&
+      calendarDataToNexusCalendar(buildCalendarUri(authorId, calendarId), data);
+  },
+  listCalendars: async (params) =>
+    pageCalendarStream(
+      params.admin
+        ? await homeserverSource.listUserCalendars(params.admin)
+        : await readFeaturedCalendars(),
+      params,
+    ),
+  listUserCalendars: async (userId) =>
+    (await fetchStoredUserCalendars(userId)).map((calendar) =>
+      calendarDataToNexusCalendar(calendar.uri, calendar.data)
+    ),
+  getEvent: async (authorId, eventId) => {
+    const uri = `pubky://${authorId}/pub/pubky.app/event/${eventId}`;
+    const data = await fetchStoredEvent(uri);
+    return data && eventDataToNexusEvent(uri, data);
+  },
+  listEvents: async (params) => {
+    const calendars = await readFeaturedCalendars();
+    const events = await Promise.all(
+      calendars
+        .filter((calendar) =>
+          !params.calendar || calendar.id === params.calendar
+        )
+        .map((calendar) =>
+          readStoredCalendarEvents(calendar.author, calendar.id)
+        ),
+    );
+    return filterEventStream(events.flat(), params);
+  },
+  listCalendarEvents: async (authorId, calendarId, params) =>
+    filterEventStream(
+      await readStoredCalendarEvents(authorId, calendarId),
+      params,
+    ),
+  listAllCalendarEvents: async (authorId, calendarId, params) =>
+    filterEventStream(
+      await readStoredCalendarEvents(authorId, calendarId),
+      { ...params, limit: Infinity },
+    ),
+};
+
+const SOURCES: Record<DataSourceMode, CalendarDataSource[]> = {
+  "nexus-first": [nexusSource, homeserverSource],
+  nexus: [nexusSource],
+  homeserver: [homeserverSource],
+};
+
+/**
+ * Ask the configured sources in order
+ *
+ * A source that fails or has no result (null) hands over to the next one.
+ * The last source's answer or error is returned as is.
+ */
+async function read<T>(
+  action: string,
+  load: (source: CalendarDataSource) => Promise<T>,
+): Promise<T> {
+  const sources = SOURCES[getAppConfig().dataSource];
+
+  for (const source of sources.slice(0, -1)) {
+    try {
+      const result = await load(source);
+      if (result !== null) return result;
+    } catch (error) {
+      logger.warn(`${source.name} read failed, trying the next source`, {
+        action,
+        error,
+      });
+    }
+  }
+
+  return load(sources[sources.length - 1]);
+}
+
+// ============================================================================
+// Calendars
+// ============================================================================
+
+/**
+ * Get a calendar, or null if no source has it
+ */
+export function getCalendar(
+  authorId: string,
+  calendarId: string,
+): Promise<NexusCalendar | null> {
+  return read("getCalendar", (source) =>
+    source.getCalendar(authorId, calendarId));
+}
+
+/**
+ * Stream calendars, e.g. for discovery
+ * On homeservers only the featured calendars (or an admin's own) are known.
+ */
+export function listCalendars(
+  params: StreamCalendarsParams = {},
+): Promise<NexusCalendar[]> {
+  return read("listCalendars", (source) => source.listCalendars(params));
+}
+
+/**
+ * List the calendars a user administers
+ * On homeservers only the calendars the user created are known.
+ */
+export function listUserCalendars(userId: string): Promise<NexusCalendar[]> {
+  return read("listUserCalendars", (source) =>
+    source.listUserCalendars(userId));
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+/**
+ * Get an event, or null if no source has it
+ */
+export function getEvent(
+  authorId: string,
+  eventId: string,
+): Promise<NexusEvent | null> {
+  return read("getEvent", (source) => source.getEvent(authorId, eventId));
+}
+
+/**
+ * Stream events across calendars
+ * On homeservers only the events of the featured calendars are known.
+ */
+export function listEvents(
+  params: StreamEventsParams = {},
+): Promise<NexusEvent[]> {
+  return read("listEvents", (source) => source.listEvents(params));
+}
+
+/**
+ * List one page of a calendar's events
+ */
+export function listCalendarEvents(
+  authorId: string,
+  calendarId: string,
+  params: CalendarEventParams = {},
+): Promise<NexusEvent[]> {
+  return read("listCalendarEvents", (source) =>
+    source.listCalendarEvents(authorId, calendarId, params));
+}
+
+/**
+ * List every event of a calendar
+ */
+export function listAllCalendarEvents(
+  authorId: string,
+  calendarId: string,
+  params: Omit<CalendarEventParams, "skip" | "limit"> = {},
+): Promise<NexusEvent[]> {
+  return read("listAllCalendarEvents", (source) =>
+    source.listAllCalendarEvents(authorId, calendarId, params));
+}
+
+/**
+ * List every event of a calendar overlapping a date range
+ */
+export function listCalendarEventsInRange(
+  authorId: string,
+  calendarId: string,
+  start: Date,
+  end: Date,
+): Promise<NexusEvent[]> {
+  return listAllCalendarEvents(authorId, calendarId, {
+    start_date: start.getTime(),
+    end_date: end.getTime(),
+  });
+}
@@ -7,7 +7,12 @@
 
 import { PubkyClient } from "@/lib/pubky-client";
 import { PubkyAppCalendar, PubkyAppEvent, PubkyAppFile, PubkyAppBlob } from "pubky-app-specs";
-import type { CalendarFormData, EventFormData } from "@/types/calendar";
+import type {
+  CalendarFormData,
+  EventFormData,
+  PubkyAppEventData,
+  PubkyAppEventTimingData,
+} from "@/types/calendar";
 import { AppError, ErrorCode } from "@/types/errors";
 import { logError } from "@/lib/error-logger";
 import { logger } from "@/lib/logger";
@@ -19,6 +24,22 @@ import {
   generateEventUid,
   getUserTimezone,
 } from "@/lib/calendar-validation";
+import {
+  type EventExtraFields,
+  formatEventDateValue,
+  getEventExtraFields,
+  getEventTimingUri,
+  toEventTimingData,
+  withEventTiming,
+} from "@/lib/event-data";
+import {
+  deleteOrQueue,
+  getQueuedContent,
+  type OutboxWriteResult,
+  putOrQueue,
+} from "@/services/outbox-service";
+import { readEventTiming } from "@/services/calendar-fetch-service";
+import { recordAdminChanges } from "@/services/calendar-trust-service";
 import {
   createConferenceJson,
   createOrganizerJson,
@@ -26,13 +47,26 @@ import {
   createStyledDescriptionJson,
 } from "@/types/calendar";
 
+let lastTimestampId = 0;
+
+// Event fields kept in the event's timing record
+const TIMING_FIELDS: Array<keyof EventExtraFields> = [
+  "tzid",
+  "all_day",
+  "floating",
+  "transp",
+];
+
 /**
  * Generate a timestamp-based ID (13 characters, Crockford Base32)
  * This matches the pubky-app-specs TimestampId trait
  * Used for PubkyAppFile (not for PubkyAppBlob which uses HashId)
+ * IDs are strictly increasing so bulk writes never collide
  */
-function generateTimestampId(): string {
-  const now = Date.now() * 1000; // Convert to microseconds
+export function generateTimestampId(): string {
+  // Convert to microseconds
+  const now = Math.max(Date.now() * 1000, lastTimestampId + 1);
+  lastTimestampId = now;
   // Convert to Crockford Base32 (13 characters)
   const base32 = now.toString(32).toUpperCase().padStart(13, "0");
   return base32;
@@ -45,17 +79,15 @@ export async function createCalendar(
   formData: CalendarFormData,
   publicKey: string,
 ): Promise<string> {
-  const client = PubkyClient.getInstance();
-
   try {
     // Generate calendar ID
     const calendarId = generateTimestampId();
 
     // Upload image if provided
-    let imageUri: string | undefined;
-    if (formData.imageFile) {
-      imageUri = await uploadImage(formData.imageFile, publicKey);
-    }
+    const image = formData.imageFile
+      ? await uploadImage(formData.imageFile, publicKey)
+      : null;
+    const imageUri = image?.fileUri;
 
     // Create calendar object using pubky-app-specs constructor
     const calendar = new PubkyAppCalendar(
@@ -74,19 +106,24 @@ export async function createCalendar(
     // PUT to homeserver using relative path (authenticated write)
     const calendarPath = `/pub/pubky.app/calendar/${calendarId}`;
 
-    const success = await client.put(calendarPath, calendarBytes);
-
-    if (!success) {
-      throw new AppError({
-        code: ErrorCode.HOMESERVER_ERROR,
-        message: "Failed to create calendar on homeserver",
-        publicKey,
-      });
-    }
+    const { queued } = await putOrQueue(calendarPath, calendarBytes, publicKey, {
+      label: "Create calendar",
+      dependsOn: [image?.operationId],
+    });
 
     // Return the full pubky URI for reference
     const calendarUri = `pubky://${publicKey}${calendarPath}`;
-    logger.service("calendar", "Calendar created", { calendarUri });
+
+    if (formData.adminRoles && Object.keys(formData.adminRoles).length > 0) {
+      await recordAdminChanges(
+        calendarUri,
+        [],
+        formData.x_pubky_admins || [publicKey],
+        publicKey,
+        formData.adminRoles,
+      );
+    }
+    logger.service("calendar", "Calendar created", { calendarUri, queued });
     return calendarUri;
   } catch (error) {
     const appError = error instanceof AppError ? error : new AppError({
@@ -107,21 +144,22 @@ export async function createCalendar(
 
 /**
  * Update an existing calendar on the homeserver
+ * Admins removed since `previousAdmins` are recorded in the admin history,
+ * together with the admins' roles.
  */
 export async function updateCalendar(
   calendarUri: string,
   formData: CalendarFormData,
   publicKey: string,
   existingImageUri?: string | null,
+  previousAdmins?: string[],
 ): Promise<void> {
-  const client = PubkyClient.getInstance();
-
   try {
     // Upload new image if provided, otherwise keep existing
-    let imageUri: string | null | undefined = existingImageUri;
-    if (formData.imageFile) {
-      imageUri = await uploadImage(formData.imageFile, publicKey);
-    }
+    const image = formData.imageFile
+      ? await uploadImage(formData.imageFile, publicKey)
+      : null;
+    const imageUri = image ? image.fileUri : existingImageUri;
 
     // Create updated calendar object
     const calendar = new PubkyAppCalendar(
@@ -140,17 +178,22 @@ export async function updateCalendar(
     // Extract path from URI for authenticated write
     // calendarUri is like "pubky://<pubkey>/pub/pubky.app/calendar/ABC"
     const calendarPath = calendarUri.split(publicKey)[1]; // Gets "/pub/pubky.app/calendar/ABC"
-    const success = await client.put(calendarPath, calendarBytes);
+    const { queued } = await putOrQueue(calendarPath, calendarBytes, publicKey, {
+      label: "Update calendar",
+      dependsOn: [image?.operationId],
+    });
 
-    if (!success) {
-      throw new AppError({
-        code: ErrorCode.HOMESERVER_ERROR,
-        message: "Failed to update calendar on homeserver",
+    if (previousAdmins) {
+      await recordAdminChanges(
+        calendarUri,
+        previousAdmins,
+        formData.x_pubky_admins || [publicKey],
         publicKey,
-      });
+        formData.adminRoles,
+      );
     }
 
-    logger.service("calendar", "Calendar updated", { calendarUri });
+    logger.service("calendar", "Calendar updated", { calendarUri, queued });
   } catch (error) {
     const appError = error instanceof AppError ? error : new AppError({
       code: ErrorCode.HOMESERVER_ERROR,
@@ -169,29 +212,31 @@ export async function updateCalendar(
 }
 
 /**
- * Create an event on the homeserver
+ * Create an event on the homeserver, with its timing record
  */
 export async function createEvent(
   formData: EventFormData,
   publicKey: string,
 ): Promise<string> {
-  const client = PubkyClient.getInstance();
-
   try {
     // Generate event ID and UID
     const eventId = generateTimestampId();
-    const uid = formData.calendarUri
-      ? `pubky://${publicKey}/pub/pubky.app/event/${eventId}`
-      : generateEventUid(publicKey);
+    const uid = formData.uid ||
+      (formData.calendarUri
+        ? `pubky://${publicKey}/pub/pubky.app/event/${eventId}`
+        : generateEventUid(publicKey));
 
     // Upload image if provided
-    let imageUri: string | undefined;
-    if (formData.imageFile) {
-      imageUri = await uploadImage(formData.imageFile, publicKey);
-    }
+    const image = formData.imageFile
+      ? await uploadImage(formData.imageFile, publicKey)
+      : null;
+    const imageUri = image ? image.fileUri : formData.imageUri;
 
     // Create organizer JSON
-    const organizer = createOrganizerJson(publicKey, undefined);
+    const organizer = createOrganizerJson(
+      formData.organizer?.uri || publicKey,
+      formData.organizer?.name,
+    );
 
     // Create conference JSON if provided
     let conference: string | undefined;
@@ -213,7 +258,10 @@ export async function createEvent(
     // Create styled description if provided
     let styledDescription: string | undefined;
     if (formData.description) {
-      styledDescription = createStyledDescriptionJson(formData.description);
+      styledDescription = createStyledDescriptionJson(
+        formData.description,
+        formData.descriptionFormat,
+      );
     }
 
     // Create event object using pubky-app-specs constructor
@@ -229,9 +277,11 @@ export async function createEvent(
       formData.categories || null,
       now, // created
       formData.rrule?.trim() || null,
-      null, // rdate
-      null, // exdate
-      null, // recurrence_id
+      formData.rdate?.length ? formData.rdate.map(formatEventDateValue) : null,
+      formData.exdate?.length ? formData.exdate.map(formatEventDateValue) : null,
+      formData.recurrenceId
+        ? BigInt(dateToMicroseconds(formData.recurrenceId))
+        : null,
       imageUri || null,
       conference || null,
       structuredLocation || null,
@@ -245,19 +295,22 @@ export async function createEvent(
 
     // PUT to homeserver using relative path (authenticated write)
     const eventPath = `/pub/pubky.app/event/${eventId}`;
-    const success = await client.put(eventPath, eventBytes);
-
-    if (!success) {
-      throw new AppError({
-        code: ErrorCode.HOMESERVER_ERROR,
-        message: "Failed to create event on homeserver",
-        publicKey,
-      });
-    }
+    const eventUri = `pubky://${publicKey}${eventPath}`;
+    // The timing record follows the event, so it never exists alone
+    const eventWrite = await putOrQueue(eventPath, eventBytes, publicKey, {
+      label: "Create event",
+      dependsOn: [image?.operationId],
+    });
+    const timingWrite = await saveEventTiming(
+      eventUri,
+      getEventExtraFields(formData),
+      publicKey,
+      [eventWrite.operationId],
+    );
+    const queued = eventWrite.queued || timingWrite.queued;
 
     // Return the full pubky URI for reference
-    const eventUri = `pubky://${publicKey}${eventPath}`;
-    logger.service("event", "Event created", { eventUri });
+    logger.service("event", "Event created", { eventUri, queued });
     return eventUri;
   } catch (error) {
     const appError = error instanceof AppError ? error : new AppError({
@@ -276,27 +329,61 @@ export async function createEvent(
   }
 }
 
+function getEventTimingPath(eventUri: string, publicKey: string): string {
+  const timingUri = getEventTimingUri(eventUri);
+  const prefix = `pubky://${publicKey}`;
+  if (!timingUri?.startsWith(`${prefix}/`)) {
+    throw new AppError({
+      code: ErrorCode.INVALID_DATA,
+      message: "Not an event of the user",
+      details: { eventUri },
+      publicKey,
+    });
+  }
+  return timingUri.slice(prefix.length);
+}
+
 /**
- * Create a blob ID from file bytes using Blake3 hash (matches HashId trait)
+ * Write the timing record of one of the user's events
+ * The event JSON has no room for these fields, see PubkyAppEventTimingData.
+ */
+async function saveEventTiming(
+  eventUri: string,
+  fields: EventExtraFields,
+  publicKey: string,
+  dependsOn: Array<string | undefined> = [],
+): Promise<OutboxWriteResult> {
+  return putOrQueue(
+    getEventTimingPath(eventUri, publicKey),
+    new TextEncoder().encode(
+      JSON.stringify(toEventTimingData(eventUri, fields)),
+    ),
+    publicKey,
+    { label: "Save event timing", dependsOn },
+  );
+}
+
+/**
+ * Create a hash-based ID from bytes using Blake3 (matches HashId trait)
+ * Used for blobs and for records that must be unique per target, e.g. RSVPs
  * This is identical to the Rust implementation in pubky-app-specs
  * TODO: PR in pubky-app-specs to expose this function directly
  */
-function createBlobId(data: Uint8Array): string {
-  // Create Blake3 hash of the blob data
+export function createHashId(data: Uint8Array): string {
+  // Create Blake3 hash of the data
   const hash = blake3(data);
   
   // Get first half of the hash bytes (16 bytes)
   const halfHash = hash.slice(0, hash.length / 2);
   
   // Encode in Crockford Base32 (same as Rust implementation)
-  const blobId = base32Encode(halfHash, "Crockford", { padding: false });
-  
-  return blobId;
+  return base32Encode(halfHash, "Crockford", { padding: false });
 }
 
 /**
  * Upload an image file to homeserver using PubkyAppBlob and PubkyAppFile
- * Returns the pubky:// URI of the uploaded file metadata
+ * Returns the pubky:// URI of the uploaded file metadata, and the outbox
+ * operation of the file when the upload was queued
  * 
  * Process:
  * 1. Create PubkyAppBlob from file bytes (blob ID is hash-based)
@@ -304,16 +391,17 @@ function createBlobId(data: Uint8Array): string {
  * 3. Create PubkyAppFile metadata (file ID is timestamp-based)
  * 4. Upload file metadata to /pub/pubky.app/files/:file_id
  */
-async function uploadImage(file: File, publicKey: string): Promise<string> {
-  const client = PubkyClient.getInstance();
-
+async function uploadImage(
+  file: File,
+  publicKey: string,
+): Promise<{ fileUri: string; operationId?: string }> {
   try {
     // Read file as ArrayBuffer
     const arrayBuffer = await file.arrayBuffer();
     const fileBytes = new Uint8Array(arrayBuffer);
 
     // Generate blob ID from hash of file bytes (HashId trait)
-    const blobId = createBlobId(fileBytes);
+    const blobId = createHashId(fileBytes);
 
     console.log("📋 BLOB: Creating blob with hash-based ID:", blobId, `(${blobId.length} chars)`);
 
@@ -326,14 +414,12 @@ async function uploadImage(file: File, publicKey: string): Promise<string> {
 
     // Get blob data as Uint8Array for upload
     const blobData = blob.data; // Returns Uint8Array from WASM
-    const blobSuccess = await client.put(blobPath, blobData);
-
-    if (!blobSuccess) {
-      throw new Error("Failed to upload image blob");
-    }
+    const blobWrite = await putOrQueue(blobPath, blobData, publicKey, {
+      label: `Upload image ${file.name}`,
+    });
 
     const blobUri = `pubky://${publicKey}${blobPath}`;
-    console.log("📋 BLOB: Blob uploaded successfully to", blobUri);
+    console.log("📋 BLOB: Blob", blobWrite.queued ? "queued for" : "uploaded successfully to", blobUri);
 
     // Generate timestamp-based ID for file metadata (TimestampId trait)
     const fileId = generateTimestampId();
@@ -357,17 +443,21 @@ async function uploadImage(file: File, publicKey: string): Promise<string> {
     const metadataBytes = new TextEncoder().encode(metadataJson);
 
     const filePath = `/pub/pubky.app/files/${fileId}`;
-    const metadataSuccess = await client.put(filePath, metadataBytes);
-
-    if (!metadataSuccess) {
-      throw new Error("Failed to upload image metadata");
-    }
+    const fileWrite = await putOrQueue(filePath, metadataBytes, publicKey, {
+      label: `Save image details for ${file.name}`,
+      dependsOn: [blobWrite.operationId],
+    });
 
     const fileUri = `pubky://${publicKey}${filePath}`;
-    logger.service("image", "Image uploaded", { fileUri, blobId, fileId });
-    return fileUri;
+    logger.service("image", "Image uploaded", {
+      fileUri,
+      blobId,
+      fileId,
+      queued: fileWrite.queued,
+    });
+    return { fileUri, operationId: fileWrite.operationId };
   } catch (error) {
-    const appError = new AppError({
+    const appError = error instanceof AppError ? error : new AppError({
       code: ErrorCode.HOMESERVER_ERROR,
       message: "Failed to upload image",
       details: error,
@@ -467,24 +557,250 @@ export async function fetchEvent(
 }
 
 /**
- * Delete a calendar from homeserver
+ * Fetch the plain JSON data of an event from homeserver, with its timing
  */
-export async function deleteCalendar(calendarUri: string): Promise<boolean> {
+export async function fetchEventData(
+  eventUri: string,
+): Promise<PubkyAppEventData | null> {
   const client = PubkyClient.getInstance();
 
+  try {
+    const [response, timing] = await Promise.all([
+      client.get(eventUri.replace("pubky://", "pubky")),
+      readEventTiming(eventUri),
+    ]);
+    if (!response) {
+      return null;
+    }
+
+    return withEventTiming(
+      JSON.parse(new TextDecoder().decode(response)),
+      timing,
+    );
+  } catch (error) {
+    logError(
+      new AppError({
+        code: ErrorCode.INVALID_DATA,
+        message: "Failed to parse event data",
+        details: error,
+      }),
+      {
+        action: "fetchEventData",
+        metadata: { eventUri },
+      },
+    );
+
+    return null;
+  }
+}
+
+/**
+ * Map form data to the event fields it controls
+ * Used when updating stored events; UID and creation time are not touched.
+ */
+export function eventChangesFromForm(
+  formData: EventFormData,
+): Partial<PubkyAppEventData> {
+  return {
+    summary: formData.summary.trim(),
+    dtstart: dateToMicroseconds(formData.dtstart),
+    dtend: formData.dtend ? dateToMicroseconds(formData.dtend) : null,
+    ...getEventExtraFields(formData),
+    status: formData.status || "CONFIRMED",
+    categories: formData.categories?.length ? formData.categories : null,
+    rrule: formData.rrule?.trim() || null,
+    rdate: formData.rdate?.length
+      ? formData.rdate.map(formatEventDateValue)
+      : null,
+    exdate: formData.exdate?.length
+      ? formData.exdate.map(formatEventDateValue)
+      : null,
+    image_uri: formData.imageUri || null,
+    conference: formData.conferenceUri
+      ? createConferenceJson(formData.conferenceUri, formData.conferenceLabel)
+      : null,
+    structured_location: formData.structuredLocation
+      ? createStructuredLocationJson(formData.structuredLocation)
+      : null,
+    styled_description: formData.description
+      ? createStyledDescriptionJson(
+        formData.description,
+        formData.descriptionFormat,
+      )
+      : null,
+    ...(formData.organizer && {
+      organizer: createOrganizerJson(
+        formData.organizer.uri,
+        formData.organizer.name,
+      ),
+    }),
+  };
+}
+
+/**
+ * Apply changes to an event on the user's homeserver
+ *
+ * UID and creation time are kept, DTSTAMP is set to now. Edits build on
+ * a queued version of the event if its last write has not gone through.
+ *
+ * @param eventUri - URI of an event owned by publicKey
+ * @param changes - Fields to overwrite
+ * @param dependsOn - Queued writes the update must follow, e.g. an image
+ * @returns The stored event data
+ */
+export async function updateEventData(
+  eventUri: string,
+  changes: Partial<PubkyAppEventData>,
+  publicKey: string,
+  dependsOn: Array<string | undefined> = [],
+): Promise<PubkyAppEventData> {
+  try {
+    const prefix = `pubky://${publicKey}`;
+    if (!eventUri.startsWith(`${prefix}/`)) {
+      throw new AppError({
+        code: ErrorCode.UNAUTHORIZED,
+        message: "You can only edit your own events",
+        publicKey,
+      });
+    }
+
+    const eventPath = eventUri.slice(prefix.length);
+    const timingPath = getEventTimingPath(eventUri, publicKey);
+    const queued = await getQueuedContent(publicKey, eventPath);
+    const queuedTiming = await getQueuedContent(publicKey, timingPath);
+    const timing: PubkyAppEventTimingData | null = queuedTiming === undefined
+      ? await readEventTiming(eventUri)
+      : queuedTiming && JSON.parse(new TextDecoder().decode(queuedTiming));
+    const current: PubkyAppEventData | null = queued === undefined
+      ? await fetchEventData(eventUri)
+      : queued && withEventTiming(
+        JSON.parse(new TextDecoder().decode(queued)),
+        timing,
+      );
+    if (!current) {
+      throw new AppError({
+        code: ErrorCode.NOT_FOUND,
+        message: "Event not found",
+        details: { eventUri },
+      });
+    }
+
+    const next: PubkyAppEventData = {
+      ...current,
+      ...changes,
+      uid: current.uid,
+      created: current.created,
+      dtstamp: Date.now() * 1000,
+    };
+
+    // Round-trip through pubky-app-specs for validation and normalization
+    const event = PubkyAppEvent.fromJson(next);
+    const eventBytes = new TextEncoder().encode(JSON.stringify(event.toJson()));
+
+    // Events from before timing records get one, so the fields their
+    // JSON held are not lost
+    const changesTiming = !timing ||
+      TIMING_FIELDS.some((field) => field in changes);
+    const timingWrite = changesTiming
+      ? await saveEventTiming(eventUri, next, publicKey)
+      : null;
+    const write = await putOrQueue(eventPath, eventBytes, publicKey, {
+      label: "Update event",
+      dependsOn: [...dependsOn, timingWrite?.operationId],
+    });
+
+    logger.service("event", "Event updated", { eventUri, queued: write.queued });
+    return next;
+  } catch (error) {
+    const appError = error instanceof AppError ? error : new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to update event",
+      details: error,
+      publicKey,
+    });
+
+    logError(appError, {
+      action: "updateEventData",
+      userId: publicKey,
+      metadata: { eventUri },
+    });
+
+    throw appError;
+  }
+}
+
+/**
+ * Update an existing event on the homeserver
+ *
+ * Writes to the same path, keeping UID, creation time and calendar links.
+ * DTSTAMP marks the revision, since the event schema has no SEQUENCE.
+ *
+ * @param eventUri - URI of an event owned by publicKey
+ * @param formData - Edited form data
+ * @returns The event URI
+ */
+export async function updateEvent(
+  eventUri: string,
+  formData: EventFormData,
+  publicKey: string,
+): Promise<string> {
+  // Upload new image if provided, otherwise keep existing
+  const image = formData.imageFile
+    ? await uploadImage(formData.imageFile, publicKey)
+    : null;
+  const imageUri = image ? image.fileUri : formData.imageUri;
+
+  await updateEventData(
+    eventUri,
+    eventChangesFromForm({ ...formData, imageUri }),
+    publicKey,
+    [image?.operationId],
+  );
+
+  return eventUri;
+}
+
+/**
+ * Move an event to new start and end times
+ *
+ * @param eventUri - URI of an event owned by publicKey
+ * @returns The event URI
+ */
+export async function rescheduleEvent(
+  eventUri: string,
+  start: Date,
+  end: Date | null,
+  publicKey: string,
+): Promise<string> {
+  await updateEventData(eventUri, {
+    dtstart: dateToMicroseconds(start),
+    dtend: end ? dateToMicroseconds(end) : null,
+  }, publicKey);
+
+  return eventUri;
+}
+
+/**
+ * Delete a calendar from homeserver
+ * Returns true once deleted or queued for deletion
+ *
+ * Only removes the calendar record; calendar-deletion-service also takes
+ * care of its events, settings and images.
+ */
+export async function deleteCalendar(calendarUri: string): Promise<boolean> {
   try {
     // Extract the path from the URI for authenticated delete
     // calendarUri is like "pubky://<pk>/pub/pubky.app/calendar/ABC"
-    const pathMatch = calendarUri.match(/pubky:\/\/[^/]+(.+)/);
-    const path = pathMatch ? pathMatch[1] : calendarUri;
-    
-    const success = await client.delete(path);
+    const pathMatch = calendarUri.match(/pubky:\/\/([^/]+)(.+)/);
+    if (!pathMatch) return false;
+    const [, publicKey, path] = pathMatch;
 
-    if (success) {
-      logger.service("calendar", "Calendar deleted", { calendarUri });
-    }
+    const { queued } = await deleteOrQueue(path, publicKey, {
+      label: "Delete calendar",
+    });
+    logger.service("calendar", "Calendar deleted", { calendarUri, queued });
 
-    return success;
+    return true;
   } catch (error) {
     logError(
       new AppError({
@@ -504,22 +820,35 @@ export async function deleteCalendar(calendarUri: string): Promise<boolean> {
 
 /**
  * Delete an event from homeserver
+ * Returns true once deleted or queued for deletion
  */
 export async function deleteEvent(eventUri: string): Promise<boolean> {
-  const client = PubkyClient.getInstance();
-
   try {
     // Extract the path from the URI for authenticated delete
-    const pathMatch = eventUri.match(/pubky:\/\/[^/]+(.+)/);
-    const path = pathMatch ? pathMatch[1] : eventUri;
-    
-    const success = await client.delete(path);
+    const pathMatch = eventUri.match(/pubky:\/\/([^/]+)(.+)/);
+    if (!pathMatch) return false;
+    const [, publicKey, path] = pathMatch;
 
-    if (success) {
-      logger.service("event", "Event deleted", { eventUri });
+    const { queued } = await deleteOrQueue(path, publicKey, {
+      label: "Delete event",
+    });
+    logger.service("event", "Event deleted", { eventUri, queued });
+
+    try {
+      const timingPath = getEventTimingPath(eventUri, publicKey);
+      if (
+        await getQueuedContent(publicKey, timingPath) ||
+        await readEventTiming(eventUri)
+      ) {
+        await deleteOrQueue(timingPath, publicKey, {
+          label: "Delete event timing",
+        });
+      }
+    } catch (error) {
+      logger.warn("Event timing not deleted", { eventUri, error });
     }
 
-    return success;
+    return true;
   } catch (error) {
     logError(
       new AppError({
@@ -0,0 +1,196 @@
+/**
+ * Calendar Transfer Service
+ *
+ * Hands a calendar over to one of its admins. A calendar lives on its
+ * owner's homeserver, so ownership cannot change in place: the owner
+ * offers the transfer in the admin settings, the new owner copies the
+ * calendar to their homeserver under the same ID, and every writer moves
+ * their events to the copy.
+ */
+
+import { PubkyAppCalendar } from "pubky-app-specs";
+import { getUserTimezone } from "@/lib/calendar-validation";
+import {
+  buildCalendarUri,
+  fetchStoredCalendar,
+  parseCalendarUri,
+} from "@/services/calendar-fetch-service";
+import { listAllCalendarEvents } from "@/services/calendar-repository";
+import {
+  fetchEventData,
+  updateEventData,
+} from "@/services/calendar-service";
+import {
+  fetchCalendarAdmins,
+  saveCalendarAdmins,
+} from "@/services/calendar-trust-service";
+import { putOrQueue } from "@/services/outbox-service";
+import { AppError, ErrorCode } from "@/types/errors";
+import { logError } from "@/lib/error-logger";
+import { logger } from "@/lib/logger";
+
+/**
+ * Offer a calendar to one of its admins
+ *
+ * @param calendarUri - The calendar, owned by `publicKey`
+ * @param to - Public key of the admin taking over
+ * @throws {AppError} If the write fails and cannot be queued
+ */
+export async function offerCalendarTransfer(
+  calendarUri: string,
+  to: string,
+  publicKey: string,
+): Promise<void> {
+  await saveCalendarAdmins(calendarUri, {
+    transfer: { to, offered_at: Date.now() * 1000 },
+  }, publicKey);
+}
+
+/**
+ * Withdraw a pending transfer offer
+ *
+ * @throws {AppError} If the write fails and cannot be queued
+ */
+export async function cancelCalendarTransfer(
+  calendarUri: string,
+  publicKey: string,
+): Promise<void> {
+  await saveCalendarAdmins(calendarUri, { transfer: null }, publicKey);
+}
+
+/**
+ * Relink a user's events from one calendar to another
+ *
+ * @returns Number of events moved
+ * @throws {AppError} If an event update fails and cannot be queued
+ */
+export async function moveEventsToCalendar(
+  fromCalendarUri: string,
+  toCalendarUri: string,
+  publicKey: string,
+): Promise<number> {
+  const { authorId, calendarId } = parseCalendarUri(fromCalendarUri);
+  const events = await listAllCalendarEvents(authorId, calendarId);
+
+  let moved = 0;
+  for (const event of events) {
+    if (event.author !== publicKey) continue;
+
+    const data = await fetchEventData(event.uri);
+    const calendarUris = data?.x_pubky_calendar_uris || [];
+    if (!calendarUris.includes(fromCalendarUri)) continue;
+
+    await updateEventData(event.uri, {
+      x_pubky_calendar_uris: Array.from(
+        new Set(
+          calendarUris.map((uri) =>
+            uri === fromCalendarUri ? toCalendarUri : uri
+          ),
+        ),
+      ),
+    }, publicKey);
+    moved++;
+  }
+
+  logger.service("calendar", "Events moved", {
+    fromCalendarUri,
+    toCalendarUri,
+    moved,
+  });
+  return moved;
+}
+
+/**
+ * Take over a calendar offered to the user
+ *
+ * The copy keeps name, color, timezone, image and roles. The previous
+ * owner stays on as an admin, and the user's own events are moved over.
+ *
+ * @param calendarUri - The calendar on the previous owner's homeserver
+ * @param publicKey - The user the transfer was offered to
+ * @returns URI of the calendar on the user's homeserver
+ * @throws {AppError} If no transfer was offered or a write fails
+ */
+export async function acceptCalendarTransfer(
+  calendarUri: string,
+  publicKey: string,
+): Promise<string> {
+  const { authorId, calendarId } = parseCalendarUri(calendarUri);
+
+  try {
+    const settings = await fetchCalendarAdmins(authorId, calendarId);
+    if (settings?.transfer?.to !== publicKey) {
+      throw new AppError({
+        code: ErrorCode.UNAUTHORIZED,
+        message: "This calendar was not offered to you",
+        publicKey,
+      });
+    }
+
+    const stored = await fetchStoredCalendar(authorId, calendarId);
+    if (!stored) {
+      throw new AppError({
+        code: ErrorCode.NOT_FOUND,
+        message: "Calendar not found",
+        details: { calendarUri },
+      });
+    }
+
+    const admins = Array.from(
+      new Set([
+        publicKey,
+        ...(stored.x_pubky_admins || []),
+        authorId,
+      ].map((admin) => admin.replace("pubky://", ""))),
+    ).map((admin) => `pubky://${admin}`);
+
+    const calendar = new PubkyAppCalendar(
+      stored.name,
+      stored.color || null,
+      admins,
+      stored.timezone || getUserTimezone() || null,
+      stored.image_uri || null,
+      BigInt(Date.now() * 1000),
+    );
+
+    const calendarPath = `/pub/pubky.app/calendar/${calendarId}`;
+    const { queued } = await putOrQueue(
+      calendarPath,
+      new TextEncoder().encode(JSON.stringify(calendar.toJson())),
+      publicKey,
+      { label: "Take over calendar" },
+    );
+
+    const newCalendarUri = buildCalendarUri(publicKey, calendarId);
+    // The new owner needs no admin role of their own
+    const roles = Object.fromEntries(
+      Object.entries(settings.roles || {}).filter(([admin]) =>
+        admin !== publicKey
+      ),
+    );
+    await saveCalendarAdmins(newCalendarUri, { roles }, publicKey);
+    await moveEventsToCalendar(calendarUri, newCalendarUri, publicKey);
+
+    logger.service("calendar", "Calendar taken over", {
+      calendarUri,
+      newCalendarUri,
+      queued,
+    });
+    return newCalendarUri;
+  } catch (error) {
+    const appError = error instanceof AppError ? error : new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to take over calendar",
+      details: error,
+      publicKey,
+    });
+
+    logError(appError, {
+      action: "acceptCalendarTransfer",
+      userId: publicKey,
+      metadata: { calendarUri },
+    });
+
+    throw appError;
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * Calendar Trust Service
+ *
+ * Decides which events belong on a calendar: those by the owner and its
+ * admins, plus outside submissions approved by the owner or a moderator.
+ * The owner keeps the admin settings next to the calendar: roles, removed
+ * admins for the removed admin policy, and a pending ownership transfer.
+ * Approvals live on each approver's own homeserver.
+ */
+
+import { PubkyClient } from "@/lib/pubky-client";
+import { getAppConfig } from "@/lib/config";
+import {
+  type CalendarTrust,
+  getApprovers,
+  getCalendarTrust,
+  partitionEventsByTrust,
+  updateRemovedAdmins,
+} from "@/lib/event-trust";
+import type { NexusEvent } from "@/lib/nexus-types";
+import { putOrQueue } from "@/services/outbox-service";
+import { createHashId } from "@/services/calendar-service";
+import type {
+  CalendarRole,
+  PubkyAppCalendarAdminsData,
+  PubkyAppCalendarApprovalsData,
+} from "@/types/calendar";
+import { AppError, ErrorCode } from "@/types/errors";
+import { logError } from "@/lib/error-logger";
+import { logger } from "@/lib/logger";
+
+const CALENDAR_ADMINS_PATH = "/pub/pubky.app/calendar_admins";
+const CALENDAR_APPROVALS_PATH = "/pub/pubky.app/calendar_approvals";
+
+async function readJson<T>(
+  uri: string,
+  action: string,
+): Promise<T | null> {
+  try {
+    const response = await PubkyClient.getInstance().get(
+      uri.replace("pubky://", "pubky"),
+    );
+    if (!response) {
+      return null;
+    }
+
+    return JSON.parse(new TextDecoder().decode(response));
+  } catch (error) {
+    logError(
+      new AppError({
+        code: ErrorCode.INVALID_DATA,
+        message: "Failed to read calendar admin record",
+        details: error,
+      }),
+      {
+        action,
+        metadata: { uri },
+      },
+    );
+
+    return null;
+  }
+}
+
+function getApprovalsPath(calendarUri: string): string {
+  return `${CALENDAR_APPROVALS_PATH}/${
+    createHashId(new TextEncoder().encode(calendarUri))
+  }`;
+}
+
+/**
+ * Read a calendar's admin settings from the owner's homeserver
+ *
+ * @returns The settings, or null if the owner never saved any
+ */
+export async function fetchCalendarAdmins(
+  authorId: string,
+  calendarId: string,
+): Promise<PubkyAppCalendarAdminsData | null> {
+  return readJson<PubkyAppCalendarAdminsData>(
+    `pubky://${authorId}${CALENDAR_ADMINS_PATH}/${calendarId}`,
+    "fetchCalendarAdmins",
+  );
+}
+
+/**
+ * Write changes to a calendar's admin settings
+ *
+ * Unchanged fields are kept. Does nothing when nothing changed.
+ *
+ * @param calendarUri - The calendar, owned by `publicKey`
+ * @param publicKey - The owner's public key
+ * @throws {AppError} If the write fails and cannot be queued
+ */
+export async function saveCalendarAdmins(
+  calendarUri: string,
+  changes: Partial<
+    Pick<PubkyAppCalendarAdminsData, "removed" | "roles" | "transfer">
+  >,
+  publicKey: string,
+): Promise<void> {
+  const calendarId = calendarUri.split("/").pop() || "";
+
+  try {
+    const existing = await fetchCalendarAdmins(publicKey, calendarId);
+    const current = {
+      removed: existing?.removed || [],
+      roles: existing?.roles || {},
+      transfer: existing?.transfer || null,
+    };
+    const next = { ...current, ...changes };
+    if (JSON.stringify(next) === JSON.stringify(current)) {
+      return;
+    }
+
+    const record: PubkyAppCalendarAdminsData = {
+      x_pubky_calendar_uri: calendarUri,
+      ...next,
+      updated: Date.now() * 1000,
+    };
+
+    const { queued } = await putOrQueue(
+      `${CALENDAR_ADMINS_PATH}/${calendarId}`,
+      new TextEncoder().encode(JSON.stringify(record)),
+      publicKey,
+      { label: "Update calendar admins" },
+    );
+
+    logger.service("calendar", "Admin settings saved", {
+      calendarUri,
+      queued,
+    });
+  } catch (error) {
+    const appError = error instanceof AppError ? error : new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to save admin settings",
+      details: error,
+      publicKey,
+    });
+
+    logError(appError, {
+      action: "saveCalendarAdmins",
+      userId: publicKey,
+      metadata: { calendarUri },
+    });
+
+    throw appError;
+  }
+}
+
+/**
+ * Remember which admins were taken off a calendar and the admins' roles
+ *
+ * @param calendarUri - The calendar, owned by `publicKey`
+ * @param previousAdmins - Admins before the change
+ * @param nextAdmins - Admins after the change
+ * @param publicKey - The owner's public key
+ * @param roles - Roles of the new admins, keeps the stored ones if omitted
+ * @throws {AppError} If the write fails and cannot be queued
+ */
+export async function recordAdminChanges(
+  calendarUri: string,
+  previousAdmins: string[],
+  nextAdmins: string[],
+  publicKey: string,
+  roles?: Record<string, CalendarRole>,
+): Promise<void> {
+  const calendarId = calendarUri.split("/").pop() || "";
+  const existing = await fetchCalendarAdmins(publicKey, calendarId);
+
+  await saveCalendarAdmins(calendarUri, {
+    removed: updateRemovedAdmins(
+      existing?.removed || [],
+      previousAdmins,
+      nextAdmins,
+      Date.now() * 1000,
+    ),
+    ...(roles && { roles }),
+  }, publicKey);
+}
+
+/**
+ * Read the submissions a user approved for a calendar
+ *
+ * @returns URIs of approved events
+ */
+export async function fetchApprovals(
+  publicKey: string,
+  calendarUri: string,
+): Promise<string[]> {
+  const record = await readJson<PubkyAppCalendarApprovalsData>(
+    `pubky://${publicKey}${getApprovalsPath(calendarUri)}`,
+    "fetchApprovals",
+  );
+  return record?.approved || [];
+}
+
+/**
+ * Approve an outside submission so it shows on the calendar
+ * Only counts when `publicKey` is the owner or a moderator.
+ *
+ * @throws {AppError} If the write fails and cannot be queued
+ */
+export async function approveSubmission(
+  calendarUri: string,
+  eventUri: string,
+  publicKey: string,
+): Promise<void> {
+  try {
+    const approved = await fetchApprovals(publicKey, calendarUri);
+    if (approved.includes(eventUri)) {
+      return;
+    }
+
+    const record: PubkyAppCalendarApprovalsData = {
+      x_pubky_calendar_uri: calendarUri,
+      approved: [...approved, eventUri],
+      updated: Date.now() * 1000,
+    };
+
+    const { queued } = await putOrQueue(
+      getApprovalsPath(calendarUri),
+      new TextEncoder().encode(JSON.stringify(record)),
+      publicKey,
+      { label: "Approve submission" },
+    );
+
+    logger.service("calendar", "Submission approved", {
+      calendarUri,
+      eventUri,
+      queued,
+    });
+  } catch (error) {
+    const appError = error instanceof AppError ? error : new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to approve submission",
+      details: error,
+      publicKey,
+    });
+
+    logError(appError, {
+      action: "approveSubmission",
+      userId: publicKey,
+      metadata: { calendarUri, eventUri },
+    });
+
+    throw appError;
+  }
+}
+
+/**
+ * Read who may write to a calendar
+ *
+ * @param authorId - The calendar owner
+ * @param calendarId - The calendar ID
+ * @param admins - The calendar's current admins
+ */
+export async function fetchCalendarTrust(
+  authorId: string,
+  calendarId: string,
+  admins: string[] | null | undefined,
+): Promise<CalendarTrust> {
+  const settings = await fetchCalendarAdmins(authorId, calendarId);
+  const trust = getCalendarTrust(authorId, admins, settings);
+
+  const calendarUri =
+    `pubky://${authorId}/pub/pubky.app/calendar/${calendarId}`;
+  const approvals = await Promise.all(
+    getApprovers(trust).map((approver) =>
+      fetchApprovals(approver, calendarUri)
+    ),
+  );
+
+  return { ...trust, approved: Array.from(new Set(approvals.flat())) };
+}
+
+/**
+ * Drop a calendar's events that were not written by its owner or admins
+ */
+export async function filterTrustedEvents(
+  authorId: string,
+  calendarId: string,
+  admins: string[] | null | undefined,
+  events: NexusEvent[],
+): Promise<NexusEvent[]> {
+  const trust = await fetchCalendarTrust(authorId, calendarId, admins);
+  return partitionEventsByTrust(
+    events,
+    trust,
+    getAppConfig().removedAdminEvents,
+  ).trusted;
+}
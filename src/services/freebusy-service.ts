@@ -0,0 +1,213 @@
+/**
+ * Free/Busy Service
+ *
+ * Publishes when a user is busy without publishing what they are doing.
+ * Busy time comes from the calendars the user owns or administers and the
+ * events they accepted. The result is a VFREEBUSY document at a fixed path
+ * on the user's homeserver, which anyone can read to compare availability.
+ */
+
+import { PubkyClient } from "@/lib/pubky-client";
+import { nexusEventToEventData } from "@/lib/event-data";
+import {
+  type FreeBusyPeriod,
+  getBusyPeriods,
+  mergeFreeBusyPeriods,
+} from "@/lib/freebusy";
+import { parseIcsFreeBusy, type ParsedIcsFreeBusy } from "@/lib/ical-parser";
+import { serializeFreeBusy } from "@/lib/ical-serializer";
+import type { NexusEvent } from "@/lib/nexus-types";
+import {
+  listAllCalendarEvents,
+  listUserCalendars,
+} from "@/services/calendar-repository";
+import { filterTrustedEvents } from "@/services/calendar-trust-service";
+import { fetchEventData } from "@/services/calendar-service";
+import { fetchUserRsvps } from "@/services/attendee-service";
+import { putOrQueue } from "@/services/outbox-service";
+import type { PubkyAppEventData } from "@/types/calendar";
+import { AppError, ErrorCode } from "@/types/errors";
+import { logError } from "@/lib/error-logger";
+import { logger } from "@/lib/logger";
+
+const FREEBUSY_PATH = "/pub/pubky.app/freebusy.ics";
+
+// How far ahead published free/busy time reaches
+export const FREEBUSY_DAYS = 60;
+
+/**
+ * URI of a user's published free/busy document
+ */
+export function getFreeBusyUri(publicKey: string): string {
+  return `pubky://${publicKey}${FREEBUSY_PATH}`;
+}
+
+/**
+ * Read the stored data of indexed events that may overlap a range
+ *
+ * Nexus does not index transparency, timezones or exceptions, so events
+ * are read from their authors' homeservers, falling back to the index.
+ */
+async function fetchRangeEvents(
+  events: NexusEvent[],
+  rangeStart: Date,
+  rangeEnd: Date,
+): Promise<PubkyAppEventData[]> {
+  const candidates = events.filter((event) =>
+    event.recurrence_rule || event.recurrence_id ||
+    (event.start_date < rangeEnd.getTime() + 24 * 60 * 60 * 1000 &&
+      Math.max(event.end_date, event.start_date) >
+        rangeStart.getTime() - 24 * 60 * 60 * 1000)
+  );
+
+  return Promise.all(candidates.map(async (event) => {
+    try {
+      return await fetchEventData(event.uri) || nexusEventToEventData(event);
+    } catch (error) {
+      console.warn(`Using indexed data for event ${event.uri}:`, error);
+      return nexusEventToEventData(event);
+    }
+  }));
+}
+
+/**
+ * Compute when a user is busy within [rangeStart, rangeEnd)
+ *
+ * Calendars that cannot be read are skipped.
+ *
+ * @param userTimeZone - The user's timezone, for floating and all-day events
+ * @returns Merged busy periods sorted by start
+ */
+export async function computeFreeBusy(
+  publicKey: string,
+  rangeStart: Date,
+  rangeEnd: Date,
+  userTimeZone: string,
+): Promise<FreeBusyPeriod[]> {
+  const [calendars, rsvps] = await Promise.all([
+    listUserCalendars(publicKey),
+    fetchUserRsvps(publicKey),
+  ]);
+
+  const sources = await Promise.all(calendars.map(async (calendar) => {
+    try {
+      const events = await filterTrustedEvents(
+        calendar.author,
+        calendar.id,
+        calendar.x_pubky_admins,
+        await listAllCalendarEvents(calendar.author, calendar.id),
+      );
+      return getBusyPeriods(
+        await fetchRangeEvents(events, rangeStart, rangeEnd),
+        rangeStart,
+        rangeEnd,
+        { timeZone: calendar.timezone || userTimeZone, userTimeZone },
+      );
+    } catch (error) {
+      logger.warn("Skipping busy time of unavailable calendar", {
+        calendarUri: calendar.uri,
+        error,
+      });
+      return [];
+    }
+  }));
+
+  const accepted = rsvps.flatMap(({ data, event }) =>
+    data.rsvp === "ACCEPTED" && event ? [event] : []
+  );
+  sources.push(
+    getBusyPeriods(accepted, rangeStart, rangeEnd, {
+      timeZone: userTimeZone,
+      userTimeZone,
+    }),
+  );
+
+  return mergeFreeBusyPeriods(sources.flat());
+}
+
+/**
+ * Compute a user's busy time for the coming days and publish it
+ *
+ * @returns The published periods
+ * @throws {AppError} If the write fails and cannot be queued
+ */
+export async function publishFreeBusy(
+  publicKey: string,
+  userTimeZone: string,
+  now = new Date(),
+): Promise<FreeBusyPeriod[]> {
+  const start = new Date(now.getTime());
+  start.setUTCHours(0, 0, 0, 0);
+  const end = new Date(start.getTime() + FREEBUSY_DAYS * 24 * 60 * 60 * 1000);
+
+  try {
+    const periods = await computeFreeBusy(publicKey, start, end, userTimeZone);
+    const content = serializeFreeBusy(
+      { organizer: publicKey, start, end, periods },
+      { now },
+    );
+
+    const { queued } = await putOrQueue(
+      FREEBUSY_PATH,
+      new TextEncoder().encode(content),
+      publicKey,
+      { label: "Publish free/busy" },
+    );
+
+    logger.service("calendar", "Free/busy published", {
+      periods: periods.length,
+      queued,
+    });
+    return periods;
+  } catch (error) {
+    const appError = error instanceof AppError ? error : new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to publish free/busy time",
+      details: error,
+      publicKey,
+    });
+
+    logError(appError, {
+      action: "publishFreeBusy",
+      userId: publicKey,
+    });
+
+    throw appError;
+  }
+}
+
+/**
+ * Read a user's published free/busy time from their homeserver
+ *
+ * @returns The busy periods, or null if the user never published any
+ */
+export async function fetchFreeBusy(
+  publicKey: string,
+): Promise<ParsedIcsFreeBusy | null> {
+  const uri = getFreeBusyUri(publicKey);
+
+  try {
+    const response = await PubkyClient.getInstance().get(
+      uri.replace("pubky://", "pubky"),
+    );
+    if (!response) {
+      return null;
+    }
+
+    return parseIcsFreeBusy(new TextDecoder().decode(response));
+  } catch (error) {
+    logError(
+      new AppError({
+        code: ErrorCode.INVALID_DATA,
+        message: "Failed to read free/busy time",
+        details: error,
+      }),
+      {
+        action: "fetchFreeBusy",
+        metadata: { uri },
+      },
+    );
+
+    return null;
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * iCalendar Export Service
+ *
+ * Builds RFC 5545 .ics documents for calendars and triggers browser
+ * downloads. Downloads are built from the stored events, feeds from Nexus
+ * data with the homeservers as fallback.
+ */
+
+import {
+  getAllCalendarEvents,
+  getCalendar as getNexusCalendar,
+} from "@/lib/nexus-client";
+import type { NexusCalendar } from "@/lib/nexus-types";
+import { nexusEventToEventData } from "@/lib/event-data";
+import {
+  getIcsFilename,
+  ICS_CONTENT_TYPE,
+  type IcsSerializeOptions,
+  serializeCalendar,
+} from "@/lib/ical-serializer";
+import { extractFileId, extractPublicKey, getNexusImageUrl } from "@/lib/nexus";
+import { getAppConfig } from "@/lib/config";
+import {
+  fetchCalendarWithEvents,
+  fetchStoredEventRecords,
+} from "@/services/calendar-fetch-service";
+import {
+  getCalendar,
+  listAllCalendarEvents,
+} from "@/services/calendar-repository";
+import { filterTrustedEvents } from "@/services/calendar-trust-service";
+import {
+  getCalendarFeedUrl,
+  getCalendarPageUrl,
+  getEventPageUrl,
+} from "@/utils/pubky-uri";
+import type { PubkyAppEventData } from "@/types/calendar";
+import { AppError, ErrorCode } from "@/types/errors";
+import { logError } from "@/lib/error-logger";
+import { logger } from "@/lib/logger";
+
+export interface IcsDocument {
+  filename: string;
+  content: string;
+}
+
+export interface IcsFeed extends IcsDocument {
+  lastModified: Date;
+}
+
+// How often subscribed clients should poll the feed
+const FEED_REFRESH_INTERVAL = "PT1H";
+
+/**
+ * Serializer hooks that resolve images and event pages to public URLs
+ *
+ * @param appUrl - Origin of the web app (e.g. "https://calky.app")
+ */
+export function getIcsLinkResolvers(appUrl: string): IcsSerializeOptions {
+  return {
+    resolveImageUrl: (imageUri) => {
+      const publicKey = extractPublicKey(imageUri);
+      const fileId = extractFileId(imageUri);
+      return publicKey && fileId
+        ? getNexusImageUrl(publicKey, fileId, "main")
+        : null;
+    },
+    resolveEventUrl: (event) => {
+      const path = getEventPageUrl(event.uid);
+      return path && appUrl ? `${appUrl}${path}` : null;
+    },
+  };
+}
+
+/**
+ * Serialize a Nexus calendar and its events into an .ics document
+ */
+export function buildCalendarIcs(
+  calendar: NexusCalendar,
+  events: PubkyAppEventData[],
+  appUrl: string,
+  extra: { source?: string; refreshInterval?: string } = {},
+): string {
+  const pagePath = getCalendarPageUrl(calendar.uri);
+
+  return serializeCalendar(
+    {
+      name: calendar.name,
+      timezone: calendar.timezone,
+      color: calendar.color,
+      description: calendar.description,
+      uri: calendar.uri,
+      url: pagePath && appUrl ? `${appUrl}${pagePath}` : undefined,
+      ...extra,
+    },
+    events,
+    getIcsLinkResolvers(appUrl),
+  );
+}
+
+/**
+ * Fetch a calendar with all its stored events and build an .ics document
+ *
+ * Events are listed through the calendar repository and read from their
+ * authors' homeservers, so the document keeps every stored field.
+ *
+ * @param authorId - The public key of the calendar owner
+ * @param calendarId - The calendar ID
+ * @throws {AppError} If the calendar or its events cannot be fetched
+ */
+export async function exportCalendarToIcs(
+  authorId: string,
+  calendarId: string,
+): Promise<IcsDocument> {
+  try {
+    const calendar = await getCalendar(authorId, calendarId);
+    if (!calendar) {
+      throw new AppError({
+        code: ErrorCode.NOT_FOUND,
+        message: "Calendar not found",
+        details: { authorId, calendarId },
+      });
+    }
+
+    const trustedEvents = await filterTrustedEvents(
+      authorId,
+      calendarId,
+      calendar.x_pubky_admins,
+      await listAllCalendarEvents(authorId, calendarId),
+    );
+    const records = await fetchStoredEventRecords(trustedEvents);
+    const events = records.map((record) => record.data);
+
+    const content = buildCalendarIcs(
+      calendar,
+      events,
+      getAppConfig().appUrl,
+    );
+
+    logger.service("calendar", "Calendar exported to .ics", {
+      calendarId,
+      events: events.length,
+    });
+
+    return { filename: getIcsFilename(calendar.name), content };
+  } catch (error) {
+    const appError = error instanceof AppError ? error : new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to export calendar",
+      details: error,
+    });
+
+    logError(appError, {
+      action: "exportCalendarToIcs",
+      metadata: { authorId, calendarId },
+    });
+
+    throw appError;
+  }
+}
+
+/**
+ * Build the subscription feed for a calendar
+ *
+ * Uses Nexus and falls back to reading the owner's and admins' homeservers
+ * when Nexus is unavailable or does not know the calendar.
+ *
+ * @param authorId - The public key of the calendar owner
+ * @param calendarId - The calendar ID
+ * @param appUrl - Origin the feed is served from
+ * @returns The feed, or null if the calendar does not exist
+ * @throws {AppError} If neither Nexus nor the homeserver can be read
+ */
+export async function buildCalendarFeed(
+  authorId: string,
+  calendarId: string,
+  appUrl: string,
+): Promise<IcsFeed | null> {
+  const calendarUri = `pubky://${authorId}/pub/pubky.app/calendar/${calendarId}`;
+  const feedPath = getCalendarFeedUrl(calendarUri);
+  const extra = {
+    source: feedPath && appUrl ? `${appUrl}${feedPath}` : undefined,
+    refreshInterval: FEED_REFRESH_INTERVAL,
+  };
+
+  try {
+    const calendar = await getNexusCalendar(authorId, calendarId);
+    const nexusEvents = await filterTrustedEvents(
+      authorId,
+      calendarId,
+      calendar.x_pubky_admins,
+      await getAllCalendarEvents(calendarId),
+    );
+    const events = nexusEvents.map((event) =>
+      nexusEventToEventData(event, calendar.uri)
+    );
+    const lastModified = Math.max(
+      calendar.indexed_at,
+      ...nexusEvents.map((event) => event.last_modified || event.indexed_at),
+    );
+
+    return {
+      filename: getIcsFilename(calendar.name),
+      content: buildCalendarIcs(calendar, events, appUrl, extra),
+      lastModified: new Date(lastModified),
+    };
+  } catch (error) {
+    logger.warn("Nexus unavailable for feed, reading homeserver", {
+      calendarId,
+      error,
+    });
+  }
+
+  const data = await fetchCalendarWithEvents(authorId, calendarId);
+  if (!data) return null;
+
+  const { calendar, events } = data;
+  const pagePath = getCalendarPageUrl(calendarUri);
+  const lastModified = Math.max(
+    Number(calendar.created || 0) / 1000,
+    ...events.map((event) => Number(event.dtstamp) / 1000),
+  );
+
+  return {
+    filename: getIcsFilename(calendar.name),
+    content: serializeCalendar(
+      {
+        name: calendar.name,
+        timezone: calendar.timezone || undefined,
+        color: calendar.color || undefined,
+        uri: calendarUri,
+        url: pagePath && appUrl ? `${appUrl}${pagePath}` : undefined,
+        ...extra,
+      },
+      events,
+      getIcsLinkResolvers(appUrl),
+    ),
+    lastModified: new Date(lastModified),
+  };
+}
+
+/**
+ * Trigger a browser download for an .ics document
+ */
+export function downloadIcsDocument(document: IcsDocument): void {
+  const blob = new Blob([document.content], { type: ICS_CONTENT_TYPE });
+  const url = URL.createObjectURL(blob);
+  const link = window.document.createElement("a");
+  link.href = url;
+  link.download = document.filename;
+  window.document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,262 @@
+/**
+ * iCalendar Import Service
+ *
+ * Turns .ics files into import candidates, detects events that already
+ * exist (by UID and RECURRENCE-ID) and writes the selected ones through
+ * createEvent.
+ */
+
+import { PubkyClient } from "@/lib/pubky-client";
+import {
+  getIcsEventKey,
+  type IcsAttachment,
+  parsedEventToFormData,
+  type ParsedIcsEvent,
+  parseIcsCalendar,
+} from "@/lib/ical-parser";
+import { microsToDate } from "@/lib/event-data";
+import { mapWithConcurrency } from "@/lib/event-aggregation";
+import { getUserTimezone } from "@/lib/calendar-validation";
+import { createEvent } from "@/services/calendar-service";
+import { listDirectory } from "@/services/calendar-fetch-service";
+import type { EventFormData, PubkyAppEventData } from "@/types/calendar";
+import { AppError, ErrorCode } from "@/types/errors";
+import { logger } from "@/lib/logger";
+
+const READ_CONCURRENCY = 6; // Parallel event reads while checking duplicates
+
+/**
+ * An event from the file, ready to be previewed and imported
+ */
+export interface IcsImportCandidate {
+  key: string; // UID, plus RECURRENCE-ID for overrides
+  event: ParsedIcsEvent;
+  isDuplicate: boolean; // Already exists on the homeserver
+  warnings: string[];
+}
+
+export interface IcsImportPreview {
+  calendarName?: string;
+  candidates: IcsImportCandidate[];
+  errors: string[]; // VEVENTs that could not be parsed
+}
+
+export type IcsImportStatus = "success" | "failed" | "skipped";
+
+export interface IcsImportResult {
+  key: string;
+  summary: string;
+  status: IcsImportStatus;
+  eventUri?: string;
+  error?: string;
+}
+
+/**
+ * Parse an .ics file into import candidates
+ *
+ * Events sharing a UID/RECURRENCE-ID within the file are collapsed to the
+ * revision with the highest SEQUENCE.
+ *
+ * @param text - File contents
+ * @param existingKeys - Keys of events already on the homeserver
+ * @throws {AppError} If the file is not an iCalendar document
+ */
+export function prepareIcsImport(
+  text: string,
+  existingKeys: Set<string> = new Set(),
+): IcsImportPreview {
+  let parsed;
+  try {
+    parsed = parseIcsCalendar(text, { defaultTimezone: getUserTimezone() });
+  } catch (error) {
+    throw new AppError({
+      code: ErrorCode.PARSE_ERROR,
+      message: "File is not a valid iCalendar document",
+      details: error,
+    });
+  }
+
+  const byKey = new Map<string, ParsedIcsEvent>();
+  for (const event of parsed.events) {
+    const key = getIcsEventKey(event);
+    const current = byKey.get(key);
+    if (!current || event.sequence >= current.sequence) {
+      byKey.set(key, event);
+    }
+  }
+
+  const candidates = Array.from(byKey.entries()).map(([key, event]) => {
+    const warnings: string[] = [];
+    if (!event.summary) warnings.push("No title, \"Untitled Event\" is used");
+    if (event.dtend && event.dtend.date < event.dtstart.date) {
+      warnings.push("Ends before it starts, end time is dropped");
+    }
+    if (event.attachments.length > 1) {
+      warnings.push("Only the first image attachment is imported");
+    }
+    return {
+      key,
+      event,
+      isDuplicate: existingKeys.has(key),
+      warnings,
+    };
+  });
+
+  return {
+    calendarName: parsed.name,
+    candidates,
+    errors: parsed.errors,
+  };
+}
+
+/**
+ * Collect the UID keys of all events the user has on their homeserver
+ *
+ * @param publicKey - The user's public key
+ */
+export async function fetchExistingEventKeys(
+  publicKey: string,
+): Promise<Set<string>> {
+  const client = PubkyClient.getInstance();
+  const keys = new Set<string>();
+
+  await listDirectory(
+    `pubky${publicKey}/pub/pubky.app/event/`,
+    async (eventUrls) => {
+      await mapWithConcurrency(eventUrls, READ_CONCURRENCY, async (eventUrl) => {
+        try {
+          const response = await client.get(
+            eventUrl.replace("pubky://", "pubky"),
+          );
+          if (!response) return;
+
+          const data: PubkyAppEventData = JSON.parse(
+            new TextDecoder().decode(response),
+          );
+          keys.add(getIcsEventKey({
+            uid: data.uid,
+            recurrenceId: data.recurrence_id
+              ? microsToDate(data.recurrence_id)
+              : undefined,
+          }));
+        } catch (error) {
+          logger.warn("Skipping unreadable event during import check", {
+            eventUrl,
+            error,
+          });
+        }
+      });
+    },
+  );
+
+  return keys;
+}
+
+function decodeBase64(data: string): Uint8Array {
+  const binary = atob(data.replace(/\s/g, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Load the first image attachment as a File so createEvent can upload it
+ * Remote attachments are fetched best effort; CORS failures are ignored.
+ */
+async function loadImageAttachment(
+  attachments: IcsAttachment[],
+): Promise<File | undefined> {
+  const attachment = attachments.find((item) =>
+    !item.fmttype || item.fmttype.startsWith("image/")
+  );
+  if (!attachment) return undefined;
+
+  const filename = attachment.filename || "attachment";
+  if (attachment.data) {
+    const bytes = decodeBase64(attachment.data);
+    return new File([bytes as BlobPart], filename, {
+      type: attachment.fmttype || "application/octet-stream",
+    });
+  }
+
+  if (attachment.uri && /^https?:\/\//.test(attachment.uri)) {
+    const response = await fetch(attachment.uri);
+    if (!response.ok) return undefined;
+    const blob = await response.blob();
+    if (!blob.type.startsWith("image/")) return undefined;
+    const name = attachment.filename ||
+      attachment.uri.split("/").pop()?.split("?")[0] || filename;
+    return new File([blob], name, { type: blob.type });
+  }
+
+  return undefined;
+}
+
+/**
+ * Write the selected candidates to the homeserver
+ *
+ * Events are written one at a time, masters before their overrides, so a
+ * failure only affects that event and is reported in the result list.
+ *
+ * @param candidates - Candidates selected in the preview
+ * @param calendarUri - Calendar to import into
+ * @param publicKey - The user's public key
+ * @param onProgress - Called after each event with (done, total)
+ */
+export async function importIcsEvents(
+  candidates: IcsImportCandidate[],
+  calendarUri: string,
+  publicKey: string,
+  onProgress?: (done: number, total: number) => void,
+): Promise<IcsImportResult[]> {
+  const ordered = [...candidates].sort((a, b) =>
+    Number(Boolean(a.event.recurrenceId)) -
+    Number(Boolean(b.event.recurrenceId))
+  );
+  const results: IcsImportResult[] = [];
+
+  for (const candidate of ordered) {
+    const summary = candidate.event.summary || "Untitled Event";
+
+    try {
+      const formData: EventFormData = parsedEventToFormData(
+        candidate.event,
+        calendarUri,
+      );
+      if (formData.dtend && formData.dtend < formData.dtstart) {
+        formData.dtend = undefined;
+      }
+
+      try {
+        formData.imageFile = await loadImageAttachment(
+          candidate.event.attachments,
+        );
+      } catch (error) {
+        logger.warn("Could not load attachment", { key: candidate.key, error });
+      }
+
+      const eventUri = await createEvent(formData, publicKey);
+      results.push({ key: candidate.key, summary, status: "success", eventUri });
+    } catch (error) {
+      // createEvent already logs the failure
+      results.push({
+        key: candidate.key,
+        summary,
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    onProgress?.(results.length, ordered.length);
+  }
+
+  logger.service("event", "Events imported from .ics", {
+    calendarUri,
+    imported: results.filter((result) => result.status === "success").length,
+    failed: results.filter((result) => result.status === "failed").length,
+  });
+
+  return results;
+}
@@ -0,0 +1,450 @@
+/**
+ * Outbox Service
+ *
+ * Homeserver writes go through here. A write is made right away when
+ * nothing it waits for is queued; if the homeserver can't be reached or
+ * has an error, or the device is offline, it is stored in IndexedDB and
+ * retried by `processOutbox` until it goes through or is marked failed.
+ * Writes the homeserver refuses, or made without a valid session, are
+ * not queued. Failed writes stay until the user retries or discards them.
+ */
+
+import { PubkyClient } from "@/lib/pubky-client";
+import {
+  getDependentIds,
+  getReadyOperations,
+  getWriteErrorStatus,
+  getWriteFailureKind,
+  type OutboxOperation,
+  type OutboxOperationKind,
+  recordFailedAttempt,
+  resetOperation,
+} from "@/lib/outbox";
+import { AppError, ErrorCode } from "@/types/errors";
+import { logError } from "@/lib/error-logger";
+import { logger } from "@/lib/logger";
+
+const DB_NAME = "pubky-ical-outbox";
+const DB_VERSION = 1;
+const STORE_NAME = "operations";
+
+export interface OutboxWriteOptions {
+  label: string; // Shown while the write is queued, e.g. "Create event"
+  dependsOn?: Array<string | undefined>; // Operation IDs that must run first
+}
+
+export interface OutboxWriteResult {
+  queued: boolean;
+  operationId?: string; // Set when queued, for dependent writes
+}
+
+export interface OutboxRunResult {
+  completed: OutboxOperation[];
+  failed: OutboxOperation[]; // Marked failed in this run
+}
+
+// ============================================================================
+// IndexedDB storage
+// ============================================================================
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function isOutboxAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  const database = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+async function readOperations(): Promise<OutboxOperation[]> {
+  if (!isOutboxAvailable()) return [];
+  try {
+    return (await runTransaction<OutboxOperation[]>(
+      "readonly",
+      (store) => store.getAll(),
+    )) || [];
+  } catch (error) {
+    logger.warn("Outbox unavailable", { error });
+    return [];
+  }
+}
+
+async function storeOperation(operation: OutboxOperation): Promise<void> {
+  await runTransaction("readwrite", (store) => {
+    store.put(operation);
+  });
+}
+
+async function removeOperations(ids: string[]): Promise<void> {
+  await runTransaction("readwrite", (store) => {
+    for (const id of ids) store.delete(id);
+  });
+}
+
+// ============================================================================
+// Change notifications
+// ============================================================================
+
+const listeners = new Set<() => void>();
+let snapshot: OutboxOperation[] = [];
+
+/**
+ * Re-read the queue and notify subscribers
+ */
+async function refreshOutbox(): Promise<OutboxOperation[]> {
+  snapshot = await readOperations();
+  for (const listener of listeners) listener();
+  return snapshot;
+}
+
+/**
+ * Subscribe to queue changes; returns an unsubscribe function
+ */
+export function subscribeOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Queued operations as of the last change
+ */
+export function getOutboxSnapshot(): OutboxOperation[] {
+  return snapshot;
+}
+
+/**
+ * Load the queue stored by earlier sessions
+ */
+export async function loadOutbox(): Promise<OutboxOperation[]> {
+  return refreshOutbox();
+}
+
+// ============================================================================
+// Writes
+// ============================================================================
+
+function isOffline(): boolean {
+  return typeof navigator !== "undefined" && navigator.onLine === false;
+}
+
+function describeFailure(error: unknown): string {
+  if (isOffline()) return "Offline";
+  const statusCode = getWriteErrorStatus(error);
+  return statusCode
+    ? `Homeserver error ${statusCode}`
+    : "Homeserver could not be reached";
+}
+
+function unauthorizedError(publicKey: string, details?: unknown): AppError {
+  return new AppError({
+    code: ErrorCode.UNAUTHORIZED,
+    message: "Session missing or expired, please sign in again",
+    details,
+    publicKey,
+  });
+}
+
+/**
+ * Make a write on the homeserver
+ *
+ * @throws If the device is offline or the write fails
+ */
+async function attempt(
+  kind: OutboxOperationKind,
+  path: string,
+  body?: Uint8Array,
+): Promise<void> {
+  if (isOffline()) {
+    throw new Error("Offline");
+  }
+
+  const client = PubkyClient.getInstance();
+  if (kind === "put") {
+    await client.put(path, body || new Uint8Array());
+  } else {
+    await client.delete(path);
+  }
+}
+
+async function writeOrQueue(
+  kind: OutboxOperationKind,
+  path: string,
+  body: Uint8Array | undefined,
+  publicKey: string,
+  options: OutboxWriteOptions,
+): Promise<OutboxWriteResult> {
+  const queue = (await readOperations()).filter((operation) =>
+    operation.publicKey === publicKey
+  );
+  const queuedIds = new Set(queue.map((operation) => operation.id));
+  const dependsOn = (options.dependsOn || []).filter(
+    (id): id is string => !!id && queuedIds.has(id),
+  );
+  const mustWait = dependsOn.length > 0 ||
+    queue.some((operation) => operation.path === path);
+
+  // Queued writes could never be made without a session
+  if (!PubkyClient.getInstance().getSession()) {
+    throw unauthorizedError(publicKey);
+  }
+
+  let failure: string | null = null;
+  if (!mustWait) {
+    try {
+      await attempt(kind, path, body);
+      return { queued: false };
+    } catch (error) {
+      const failureKind = getWriteFailureKind(error);
+      if (failureKind !== "retry") {
+        const appError = failureKind === "unauthorized"
+          ? unauthorizedError(publicKey, error)
+          : new AppError({
+            code: ErrorCode.HOMESERVER_ERROR,
+            message: `${options.label} was rejected by the homeserver`,
+            details: error,
+            publicKey,
+          });
+        logError(appError, {
+          action: "writeOrQueue",
+          userId: publicKey,
+          metadata: { path },
+        });
+        throw appError;
+      }
+      failure = describeFailure(error);
+    }
+  }
+
+  if (!isOutboxAvailable()) {
+    throw new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: `${options.label} failed on homeserver`,
+      publicKey,
+    });
+  }
+
+  const now = Date.now();
+  const queued: OutboxOperation = {
+    id: crypto.randomUUID(),
+    publicKey,
+    kind,
+    path,
+    body,
+    label: options.label,
+    dependsOn,
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+    status: "pending",
+  };
+  // Writes that were tried count their first attempt
+  const operation = failure === null
+    ? queued
+    : recordFailedAttempt(queued, failure, now);
+
+  try {
+    await storeOperation(operation);
+  } catch (error) {
+    const appError = new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: `${options.label} failed and could not be queued`,
+      details: error,
+      publicKey,
+    });
+    logError(appError, {
+      action: "writeOrQueue",
+      userId: publicKey,
+      metadata: { path },
+    });
+    throw appError;
+  }
+
+  logger.service("storage", "Write queued", { path, label: options.label });
+  await refreshOutbox();
+  return { queued: true, operationId: operation.id };
+}
+
+/**
+ * Put content on the user's homeserver, queueing it if that fails
+ *
+ * @param path - Relative homeserver path
+ * @throws {AppError} UNAUTHORIZED without a valid session, or if the
+ *   homeserver refuses the write or it cannot be queued
+ */
+export function putOrQueue(
+  path: string,
+  body: Uint8Array,
+  publicKey: string,
+  options: OutboxWriteOptions,
+): Promise<OutboxWriteResult> {
+  return writeOrQueue("put", path, body, publicKey, options);
+}
+
+/**
+ * Delete a path on the user's homeserver, queueing it if that fails
+ *
+ * @param path - Relative homeserver path
+ * @throws {AppError} UNAUTHORIZED without a valid session, or if the
+ *   homeserver refuses the delete or it cannot be queued
+ */
+export function deleteOrQueue(
+  path: string,
+  publicKey: string,
+  options: OutboxWriteOptions,
+): Promise<OutboxWriteResult> {
+  return writeOrQueue("delete", path, undefined, publicKey, options);
+}
+
+/**
+ * Content a queued write will put at a path
+ *
+ * Lets edits build on records that have not reached the homeserver yet.
+ *
+ * @returns The queued content, null if a delete is queued, or undefined
+ *   if nothing is queued for the path
+ */
+export async function getQueuedContent(
+  publicKey: string,
+  path: string,
+): Promise<Uint8Array | null | undefined> {
+  const latest = (await readOperations())
+    .filter((operation) =>
+      operation.publicKey === publicKey && operation.path === path
+    )
+    .sort((a, b) => b.createdAt - a.createdAt)[0];
+
+  if (!latest) return undefined;
+  return latest.kind === "put" ? latest.body || null : null;
+}
+
+// ============================================================================
+// Processing
+// ============================================================================
+
+// Runs in progress, per user
+const processing = new Map<string, Promise<OutboxRunResult>>();
+
+async function processReadyOperations(
+  publicKey: string,
+): Promise<OutboxRunResult> {
+  const completed: OutboxOperation[] = [];
+  const failed: OutboxOperation[] = [];
+  const attempted = new Set<string>();
+
+  for (;;) {
+    const queue = await readOperations();
+    const operation = getReadyOperations(queue, publicKey, Date.now())
+      .find((ready) => !attempted.has(ready.id));
+    if (!operation) break;
+    attempted.add(operation.id);
+
+    try {
+      await attempt(operation.kind, operation.path, operation.body);
+      await removeOperations([operation.id]);
+      completed.push(operation);
+      logger.service("storage", "Queued write completed", {
+        path: operation.path,
+        label: operation.label,
+      });
+    } catch (error) {
+      const failureKind = getWriteFailureKind(error);
+      // Writes wait for the next sign in instead of using up attempts
+      if (failureKind === "unauthorized") break;
+
+      const next = recordFailedAttempt(
+        operation,
+        failureKind === "rejected"
+          ? `Rejected by homeserver: ${describeFailure(error)}`
+          : describeFailure(error),
+        Date.now(),
+        failureKind === "retry",
+      );
+      await storeOperation(next);
+      if (next.status === "failed") failed.push(next);
+    }
+    await refreshOutbox();
+  }
+
+  return { completed, failed };
+}
+
+/**
+ * Attempt the user's queued writes that are due
+ *
+ * Writes that become ready because an earlier one went through are
+ * attempted in the same run. Without a valid session writes wait.
+ *
+ * @returns Operations that went through and that were marked failed
+ */
+export function processOutbox(publicKey: string): Promise<OutboxRunResult> {
+  if (!isOutboxAvailable()) {
+    return Promise.resolve({ completed: [], failed: [] });
+  }
+
+  let run = processing.get(publicKey);
+  if (!run) {
+    if (!PubkyClient.getInstance().getSession()) {
+      return Promise.resolve({ completed: [], failed: [] });
+    }
+
+    run = processReadyOperations(publicKey).finally(() => {
+      processing.delete(publicKey);
+    });
+    processing.set(publicKey, run);
+  }
+  return run;
+}
+
+/**
+ * Queue a failed write for another round of attempts
+ */
+export async function retryOperation(operationId: string): Promise<void> {
+  const operation = (await readOperations()).find((queued) =>
+    queued.id === operationId
+  );
+  if (!operation) return;
+
+  await storeOperation(resetOperation(operation, Date.now()));
+  await refreshOutbox();
+}
+
+/**
+ * Drop a queued write together with the writes that depend on it
+ */
+export async function discardOperation(operationId: string): Promise<void> {
+  const ids = getDependentIds(operationId, await readOperations());
+  await removeOperations(ids);
+  logger.service("storage", "Queued writes discarded", { ids });
+  await refreshOutbox();
+}
@@ -0,0 +1,350 @@
+/**
+ * Poll Service
+ *
+ * Meeting polls ("find a time"). The organizer keeps the poll with its
+ * candidate slots and invitees on their homeserver. Each invitee writes
+ * their answers to their own homeserver; the record ID is a hash of the
+ * poll URI, so the organizer can read every invitee's vote without an
+ * index. Finalizing creates the event and records it in the poll, which
+ * is how voters learn about it.
+ */
+
+import { PubkyClient } from "@/lib/pubky-client";
+import { pollToEventFormData, type PollVoter } from "@/lib/polls";
+import { dateToMicroseconds } from "@/lib/calendar-validation";
+import { mapWithConcurrency } from "@/lib/event-aggregation";
+import {
+  createEvent,
+  createHashId,
+  generateTimestampId,
+} from "@/services/calendar-service";
+import { listDirectory } from "@/services/calendar-fetch-service";
+import { putOrQueue } from "@/services/outbox-service";
+import { extractPublicKey } from "@/utils/pubky-uri";
+import type {
+  PollAnswer,
+  PollFormData,
+  PollSlot,
+  PubkyAppPollData,
+  PubkyAppPollVoteData,
+} from "@/types/calendar";
+import { AppError, ErrorCode } from "@/types/errors";
+import { logError } from "@/lib/error-logger";
+import { logger } from "@/lib/logger";
+
+const POLL_PATH = "/pub/pubky.app/poll";
+const POLL_VOTE_PATH = "/pub/pubky.app/poll_vote";
+const READ_CONCURRENCY = 6; // Parallel poll reads per listed page
+
+/**
+ * A poll together with the URI it lives at
+ */
+export interface PollRecord {
+  uri: string;
+  data: PubkyAppPollData;
+}
+
+async function readJson<T>(
+  uri: string,
+  action: string,
+): Promise<T | null> {
+  try {
+    const response = await PubkyClient.getInstance().get(
+      uri.replace("pubky://", "pubky"),
+    );
+    if (!response) {
+      return null;
+    }
+
+    return JSON.parse(new TextDecoder().decode(response));
+  } catch (error) {
+    logError(
+      new AppError({
+        code: ErrorCode.INVALID_DATA,
+        message: "Failed to read poll record",
+        details: error,
+      }),
+      {
+        action,
+        metadata: { uri },
+      },
+    );
+
+    return null;
+  }
+}
+
+function getVoteId(pollUri: string): string {
+  return createHashId(new TextEncoder().encode(pollUri));
+}
+
+/**
+ * Build a poll URI
+ */
+export function buildPollUri(authorId: string, pollId: string): string {
+  return `pubky://${authorId}${POLL_PATH}/${pollId}`;
+}
+
+/**
+ * Propose times for an event and ask people to vote on them
+ *
+ * @returns URI of the poll
+ * @throws {AppError} If the write fails and cannot be queued
+ */
+export async function createPoll(
+  formData: PollFormData,
+  publicKey: string,
+): Promise<string> {
+  try {
+    const pollId = generateTimestampId();
+    const now = Date.now() * 1000;
+    const poll: PubkyAppPollData = {
+      summary: formData.summary.trim(),
+      description: formData.description?.trim() || null,
+      location: formData.location?.trim() || null,
+      x_pubky_calendar_uri: formData.calendarUri,
+      tzid: formData.timeZone || null,
+      slots: formData.slots
+        .map((slot) => ({
+          start: dateToMicroseconds(slot.start),
+          end: dateToMicroseconds(slot.end),
+        }))
+        .sort((a, b) => a.start - b.start),
+      invitees: Array.from(new Set(formData.invitees)),
+      final: null,
+      created: now,
+      updated: now,
+    };
+
+    const pollPath = `${POLL_PATH}/${pollId}`;
+    const { queued } = await putOrQueue(
+      pollPath,
+      new TextEncoder().encode(JSON.stringify(poll)),
+      publicKey,
+      { label: "Create poll" },
+    );
+
+    const pollUri = `pubky://${publicKey}${pollPath}`;
+    logger.service("event", "Poll created", { pollUri, queued });
+    return pollUri;
+  } catch (error) {
+    const appError = error instanceof AppError ? error : new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to create poll",
+      details: error,
+      publicKey,
+    });
+
+    logError(appError, {
+      action: "createPoll",
+      userId: publicKey,
+    });
+
+    throw appError;
+  }
+}
+
+/**
+ * Read a poll from its organizer's homeserver
+ *
+ * @returns The poll, or null if it does not exist
+ */
+export async function fetchPoll(
+  pollUri: string,
+): Promise<PubkyAppPollData | null> {
+  return readJson<PubkyAppPollData>(pollUri, "fetchPoll");
+}
+
+/**
+ * Read a user's answers to a poll from their homeserver
+ *
+ * @returns The vote, or null if the user has not voted
+ */
+export async function fetchPollVote(
+  publicKey: string,
+  pollUri: string,
+): Promise<PubkyAppPollVoteData | null> {
+  const vote = await readJson<PubkyAppPollVoteData>(
+    `pubky://${publicKey}${POLL_VOTE_PATH}/${getVoteId(pollUri)}`,
+    "fetchPollVote",
+  );
+  return vote?.x_pubky_poll_uri === pollUri ? vote : null;
+}
+
+/**
+ * Read the votes of the organizer and every invitee
+ */
+export async function fetchPollVoters(
+  pollUri: string,
+  poll: PubkyAppPollData,
+): Promise<PollVoter[]> {
+  const organizer = extractPublicKey(pollUri);
+  const voters = Array.from(
+    new Set([...(organizer ? [organizer] : []), ...poll.invitees]),
+  );
+
+  return Promise.all(
+    voters.map(async (publicKey) => ({
+      publicKey,
+      vote: await fetchPollVote(publicKey, pollUri),
+    })),
+  );
+}
+
+/**
+ * Answer a poll, or change earlier answers
+ *
+ * @param answers - Answers by slot key, see getSlotKey
+ * @param name - Display name shown in the tally
+ * @throws {AppError} If the write fails and cannot be queued
+ */
+export async function savePollVote(
+  pollUri: string,
+  answers: Record<string, PollAnswer>,
+  publicKey: string,
+  name?: string,
+): Promise<void> {
+  try {
+    const vote: PubkyAppPollVoteData = {
+      x_pubky_poll_uri: pollUri,
+      answers,
+      name: name || null,
+      updated: Date.now() * 1000,
+    };
+
+    const { queued } = await putOrQueue(
+      `${POLL_VOTE_PATH}/${getVoteId(pollUri)}`,
+      new TextEncoder().encode(JSON.stringify(vote)),
+      publicKey,
+      { label: "Vote on poll" },
+    );
+
+    logger.service("event", "Poll vote saved", { pollUri, queued });
+  } catch (error) {
+    const appError = error instanceof AppError ? error : new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to save vote",
+      details: error,
+      publicKey,
+    });
+
+    logError(appError, {
+      action: "savePollVote",
+      userId: publicKey,
+      metadata: { pollUri },
+    });
+
+    throw appError;
+  }
+}
+
+/**
+ * Create the event for the chosen slot and close the poll
+ *
+ * @param pollUri - The poll, organized by `publicKey`
+ * @returns URI of the new event
+ * @throws {AppError} If the poll is missing or closed, or a write fails
+ */
+export async function finalizePoll(
+  pollUri: string,
+  slot: PollSlot,
+  publicKey: string,
+): Promise<string> {
+  try {
+    const poll = await fetchPoll(pollUri);
+    if (!poll || extractPublicKey(pollUri) !== publicKey) {
+      throw new AppError({
+        code: ErrorCode.NOT_FOUND,
+        message: "Poll not found",
+        details: { pollUri },
+      });
+    }
+    if (poll.final) {
+      throw new AppError({
+        code: ErrorCode.INVALID_DATA,
+        message: "This poll is already closed",
+        details: { pollUri },
+      });
+    }
+
+    const eventUri = await createEvent(
+      pollToEventFormData(poll, slot),
+      publicKey,
+    );
+
+    const now = Date.now() * 1000;
+    const closed: PubkyAppPollData = {
+      ...poll,
+      final: { slot, event_uri: eventUri, finalized_at: now },
+      updated: now,
+    };
+    const { queued } = await putOrQueue(
+      pollUri.replace(`pubky://${publicKey}`, ""),
+      new TextEncoder().encode(JSON.stringify(closed)),
+      publicKey,
+      { label: "Close poll" },
+    );
+
+    logger.service("event", "Poll finalized", { pollUri, eventUri, queued });
+    return eventUri;
+  } catch (error) {
+    const appError = error instanceof AppError ? error : new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to finalize poll",
+      details: error,
+      publicKey,
+    });
+
+    logError(appError, {
+      action: "finalizePoll",
+      userId: publicKey,
+      metadata: { pollUri },
+    });
+
+    throw appError;
+  }
+}
+
+/**
+ * Read the polls a user organized and the polls they voted on
+ */
+export async function fetchUserPolls(
+  publicKey: string,
+): Promise<{ organized: PollRecord[]; voted: PollRecord[] }> {
+  const readPoll = async (uri: string): Promise<PollRecord | null> => {
+    const data = await fetchPoll(uri);
+    return data ? { uri, data } : null;
+  };
+
+  const organized: (PollRecord | null)[] = [];
+  const voted: (PollRecord | null)[] = [];
+  await Promise.all([
+    listDirectory(`pubky${publicKey}${POLL_PATH}/`, async (pollUrls) => {
+      organized.push(
+        ...await mapWithConcurrency(pollUrls, READ_CONCURRENCY, readPoll),
+      );
+    }),
+    listDirectory(`pubky${publicKey}${POLL_VOTE_PATH}/`, async (voteUrls) => {
+      voted.push(
+        ...await mapWithConcurrency(voteUrls, READ_CONCURRENCY, async (voteUrl) => {
+          const vote = await readJson<PubkyAppPollVoteData>(
+            voteUrl,
+            "fetchUserPolls",
+          );
+          return vote?.x_pubky_poll_uri
+            ? readPoll(vote.x_pubky_poll_uri)
+            : null;
+        }),
+      );
+    }),
+  ]);
+
+  const isRecord = (poll: PollRecord | null): poll is PollRecord =>
+    poll !== null;
+  return {
+    organized: organized.filter(isRecord).reverse(),
+    voted: voted.filter(isRecord).filter((poll) =>
+      extractPublicKey(poll.uri) !== publicKey
+    ),
+  };
+}
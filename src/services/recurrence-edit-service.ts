@@ -0,0 +1,358 @@
+/**
+ * Recurrence Edit Service
+ *
+ * Edits and cancellations of single occurrences of recurring events:
+ * - "this": writes an override event with the master's UID and a
+ *   RECURRENCE-ID, or adds an EXDATE to the master
+ * - "following": ends the master with UNTIL and starts a new series
+ * - "all": updates the master (and keeps overrides aligned)
+ */
+
+import {
+  createEvent,
+  deleteEvent,
+  eventChangesFromForm,
+  updateEventData,
+} from "@/services/calendar-service";
+import {
+  eventDataToFormData,
+  formatEventDateValue,
+  microsToDate,
+  parseEventDateList,
+} from "@/lib/event-data";
+import {
+  type EventOccurrence,
+  getEventRecurrenceInput,
+  splitRecurrence,
+} from "@/lib/recurrence";
+import type {
+  EventFormData,
+  PubkyAppEventData,
+  PubkyAppEventRecord,
+} from "@/types/calendar";
+import { AppError, ErrorCode } from "@/types/errors";
+import { logger } from "@/lib/logger";
+
+export type RecurrenceEditScope = "this" | "following" | "all";
+
+/**
+ * A recurring event with the overrides that share its UID
+ */
+export interface RecurrenceSeries {
+  master: PubkyAppEventRecord;
+  overrides: PubkyAppEventRecord[];
+  timeZone?: string; // Zone the rule is evaluated in
+}
+
+function getRecurrenceId(record: PubkyAppEventRecord): number | null {
+  return record.data.recurrence_id
+    ? microsToDate(record.data.recurrence_id).getTime()
+    : null;
+}
+
+function findOverride(
+  series: RecurrenceSeries,
+  occurrenceStart: Date,
+): PubkyAppEventRecord | undefined {
+  return series.overrides.find((override) =>
+    getRecurrenceId(override) === occurrenceStart.getTime()
+  );
+}
+
+function assertOwner(series: RecurrenceSeries, publicKey: string) {
+  if (!series.master.uri.startsWith(`pubky://${publicKey}/`)) {
+    throw new AppError({
+      code: ErrorCode.UNAUTHORIZED,
+      message: "Only the author of a recurring event can change its series",
+      publicKey,
+    });
+  }
+}
+
+/**
+ * Split stored RDATE/EXDATE values at an instant
+ */
+function partitionDates(
+  values: PubkyAppEventData["rdate"],
+  splitAt: Date,
+): [Date[], Date[]] {
+  const dates = parseEventDateList(values);
+  return [
+    dates.filter((date) => date < splitAt),
+    dates.filter((date) => date >= splitAt),
+  ];
+}
+
+function toStoredDates(dates: Date[]): string[] | null {
+  return dates.length > 0 ? dates.map(formatEventDateValue) : null;
+}
+
+/**
+ * Delete overrides of occurrences at or after an instant
+ */
+async function deleteOverridesFrom(series: RecurrenceSeries, from: Date) {
+  for (const override of series.overrides) {
+    const recurrenceId = getRecurrenceId(override);
+    if (recurrenceId !== null && recurrenceId >= from.getTime()) {
+      await deleteEvent(override.uri);
+    }
+  }
+}
+
+/**
+ * End the master series right before an occurrence
+ *
+ * Not truncated if no occurrence precedes the split, in which case the
+ * whole series is affected. Returns the rule and RDATE/EXDATE values that
+ * continue after the split.
+ */
+async function truncateSeries(
+  series: RecurrenceSeries,
+  splitAt: Date,
+  publicKey: string,
+): Promise<{
+  truncated: boolean;
+  after: string | null;
+  movedRdates: Date[];
+  movedExdates: Date[];
+}> {
+  const { master } = series;
+  const input = getEventRecurrenceInput(master.data, series.timeZone);
+  if (!master.data.rrule) {
+    return { truncated: false, after: null, movedRdates: [], movedExdates: [] };
+  }
+
+  const { before, after } = splitRecurrence(input, splitAt);
+  if (!before) {
+    return { truncated: false, after, movedRdates: [], movedExdates: [] };
+  }
+
+  const [keptRdates, movedRdates] = partitionDates(master.data.rdate, splitAt);
+  const [keptExdates, movedExdates] = partitionDates(
+    master.data.exdate,
+    splitAt,
+  );
+
+  await updateEventData(master.uri, {
+    rrule: before,
+    rdate: toStoredDates(keptRdates),
+    exdate: toStoredDates(keptExdates),
+  }, publicKey);
+  await deleteOverridesFrom(series, splitAt);
+
+  return { truncated: true, after, movedRdates, movedExdates };
+}
+
+/**
+ * Update the whole series, shifting it by the same amount the edited
+ * occurrence moved so overrides and exclusions keep matching
+ */
+async function updateAllOccurrences(
+  series: RecurrenceSeries,
+  occurrenceStart: Date,
+  formData: EventFormData,
+  publicKey: string,
+): Promise<string> {
+  const { master } = series;
+  const shift = formData.dtstart.getTime() - occurrenceStart.getTime();
+  const duration = formData.dtend
+    ? formData.dtend.getTime() - formData.dtstart.getTime()
+    : null;
+  const masterStart = microsToDate(master.data.dtstart).getTime() + shift;
+  const shiftDates = (values: PubkyAppEventData["exdate"]) =>
+    toStoredDates(
+      parseEventDateList(values).map((date) =>
+        new Date(date.getTime() + shift)
+      ),
+    );
+
+  await updateEventData(master.uri, {
+    ...eventChangesFromForm(formData),
+    rrule: formData.rrule?.trim() || master.data.rrule,
+    dtstart: masterStart * 1000,
+    dtend: duration !== null ? (masterStart + duration) * 1000 : null,
+    rdate: shiftDates(master.data.rdate),
+    exdate: shiftDates(master.data.exdate),
+  }, publicKey);
+
+  if (shift !== 0) {
+    for (const override of series.overrides) {
+      const recurrenceId = getRecurrenceId(override);
+      if (recurrenceId === null) continue;
+      await updateEventData(override.uri, {
+        recurrence_id: (recurrenceId + shift) * 1000,
+      }, publicKey);
+    }
+  }
+
+  return master.uri;
+}
+
+/**
+ * Edit an occurrence of a recurring event
+ *
+ * @param series - The recurring event and its overrides
+ * @param occurrenceStart - Original start of the edited occurrence (its RECURRENCE-ID)
+ * @param formData - New values for the occurrence
+ * @param scope - Which occurrences the edit applies to
+ * @param publicKey - The editing user's public key
+ * @returns URI of the written event
+ * @throws {AppError} If the user does not own the series or a write fails
+ */
+export async function updateOccurrence(
+  series: RecurrenceSeries,
+  occurrenceStart: Date,
+  formData: EventFormData,
+  scope: RecurrenceEditScope,
+  publicKey: string,
+): Promise<string> {
+  assertOwner(series, publicKey);
+  const { master } = series;
+
+  if (scope === "this") {
+    const override = findOverride(series, occurrenceStart);
+    const changes = {
+      ...eventChangesFromForm(formData),
+      rrule: null,
+      rdate: null,
+      exdate: null,
+    };
+
+    if (override) {
+      await updateEventData(override.uri, changes, publicKey);
+      return override.uri;
+    }
+
+    const eventUri = await createEvent({
+      ...formData,
+      uid: master.data.uid,
+      recurrenceId: occurrenceStart,
+      rrule: undefined,
+      rdate: undefined,
+      exdate: undefined,
+    }, publicKey);
+    logger.service("event", "Occurrence overridden", {
+      masterUri: master.uri,
+      eventUri,
+    });
+    return eventUri;
+  }
+
+  if (scope === "following") {
+    const { truncated, after, movedRdates, movedExdates } =
+      await truncateSeries(series, occurrenceStart, publicKey);
+
+    if (truncated) {
+      // New series keeps the original rule unless the form changed it
+      const shift = formData.dtstart.getTime() - occurrenceStart.getTime();
+      const shiftAll = (dates: Date[]) =>
+        dates.map((date) => new Date(date.getTime() + shift));
+
+      const eventUri = await createEvent({
+        ...formData,
+        uid: undefined,
+        recurrenceId: undefined,
+        rrule: !formData.rrule || formData.rrule === master.data.rrule
+          ? after || undefined
+          : formData.rrule,
+        rdate: shiftAll(movedRdates),
+        exdate: shiftAll(movedExdates),
+      }, publicKey);
+      logger.service("event", "Recurring event split", {
+        masterUri: master.uri,
+        eventUri,
+      });
+      return eventUri;
+    }
+  }
+
+  return updateAllOccurrences(series, occurrenceStart, formData, publicKey);
+}
+
+/**
+ * Move an occurrence of a recurring event to new times
+ * Other fields are kept as they are on the occurrence.
+ *
+ * @returns URI of the written event
+ * @throws {AppError} If the user does not own the series or a write fails
+ */
+export function rescheduleOccurrence(
+  series: RecurrenceSeries,
+  occurrence: EventOccurrence,
+  start: Date,
+  end: Date | null,
+  scope: RecurrenceEditScope,
+  publicKey: string,
+): Promise<string> {
+  return updateOccurrence(
+    series,
+    occurrence.recurrenceId || occurrence.start,
+    {
+      ...eventDataToFormData(occurrence.event),
+      dtstart: start,
+      dtend: end || undefined,
+    },
+    scope,
+    publicKey,
+  );
+}
+
+/**
+ * Cancel occurrences of a recurring event
+ *
+ * @param series - The recurring event and its overrides
+ * @param occurrenceStart - Original start of the cancelled occurrence
+ * @param scope - "this" adds an EXDATE, "following" ends the series,
+ *   "all" deletes the master and its overrides
+ * @param publicKey - The editing user's public key
+ * @throws {AppError} If the user does not own the series or a write fails
+ */
+export async function deleteOccurrence(
+  series: RecurrenceSeries,
+  occurrenceStart: Date,
+  scope: RecurrenceEditScope,
+  publicKey: string,
+): Promise<void> {
+  assertOwner(series, publicKey);
+  const { master } = series;
+
+  if (scope === "this") {
+    const override = findOverride(series, occurrenceStart);
+    if (override) {
+      await deleteEvent(override.uri);
+    }
+
+    const exdates = parseEventDateList(master.data.exdate);
+    if (!exdates.some((date) => date.getTime() === occurrenceStart.getTime())) {
+      await updateEventData(master.uri, {
+        exdate: toStoredDates([...exdates, occurrenceStart]),
+      }, publicKey);
+    }
+    logger.service("event", "Occurrence cancelled", {
+      masterUri: master.uri,
+      occurrence: occurrenceStart.toISOString(),
+    });
+    return;
+  }
+
+  if (scope === "following") {
+    const { truncated } = await truncateSeries(
+      series,
+      occurrenceStart,
+      publicKey,
+    );
+    if (truncated) return;
+  }
+
+  for (const override of series.overrides) {
+    await deleteEvent(override.uri);
+  }
+  const success = await deleteEvent(master.uri);
+  if (!success) {
+    throw new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to delete recurring event",
+      publicKey,
+    });
+  }
+}
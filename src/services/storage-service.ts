@@ -0,0 +1,251 @@
+/**
+ * Storage Service
+ *
+ * Reads everything kept under /pub/pubky.app/ on a user's homeserver,
+ * including records of other pubky apps such as posts, to follow the
+ * references between records, and cleans up uploads nothing uses. Writes
+ * still waiting in the outbox count as done, so content they point at is
+ * kept. Blobs are only downloaded when no file tells their size.
+ */
+
+import { PubkyClient } from "@/lib/pubky-client";
+import { mapWithConcurrency } from "@/lib/event-aggregation";
+import {
+  type ContentTypeUsage,
+  findOrphanedContent,
+  getRecordType,
+  getStoredContent,
+  getUnreadableRecords,
+  type OrphanedContent,
+  readStoredRecord,
+  type StoredContent,
+  type StoredRecord,
+  summarizeStorage,
+} from "@/lib/storage-references";
+import { listDirectory } from "@/services/calendar-fetch-service";
+import { deleteOrQueue, loadOutbox } from "@/services/outbox-service";
+import { AppError, ErrorCode } from "@/types/errors";
+import { logError } from "@/lib/error-logger";
+import { logger } from "@/lib/logger";
+
+const APP_PATH = "/pub/pubky.app";
+const READ_CONCURRENCY = 6; // Parallel record reads per listed page
+
+/**
+ * Read a JSON record from a homeserver, logging failures
+ *
+ * @returns The parsed record, or null if it does not exist
+ * @throws If the record cannot be read or parsed
+ */
+async function readJson(uri: string): Promise<unknown> {
+  try {
+    const response = await PubkyClient.getInstance().get(
+      uri.replace("pubky://", "pubky"),
+    );
+    return response ? JSON.parse(new TextDecoder().decode(response)) : null;
+  } catch (error) {
+    logError(
+      new AppError({
+        code: ErrorCode.INVALID_DATA,
+        message: "Failed to read stored record",
+        details: error,
+      }),
+      {
+        action: "fetchStoredRecords",
+        metadata: { uri },
+      },
+    );
+    throw error;
+  }
+}
+
+/**
+ * Apply the user's queued writes, in queue order, to the listed records
+ */
+async function applyQueuedWrites(
+  records: StoredRecord[],
+  publicKey: string,
+): Promise<StoredRecord[]> {
+  const byUri = new Map(records.map((record) => [record.uri, record]));
+  const operations = (await loadOutbox())
+    .filter((operation) => operation.publicKey === publicKey)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  for (const operation of operations) {
+    const uri = `pubky://${publicKey}${operation.path}`;
+    if (operation.kind === "delete") {
+      byUri.delete(uri);
+      continue;
+    }
+
+    if (getRecordType(uri) === "blobs" || !operation.body) {
+      byUri.set(uri, { uri, data: null });
+      continue;
+    }
+    try {
+      byUri.set(uri, {
+        uri,
+        data: JSON.parse(new TextDecoder().decode(operation.body)),
+      });
+    } catch {
+      byUri.set(uri, { uri, data: null, unreadable: true });
+    }
+  }
+
+  return Array.from(byUri.values());
+}
+
+/**
+ * Read all of a user's records, with blobs listed without content
+ *
+ * Unreadable records are kept and marked, so callers know what they
+ * point at is unknown.
+ *
+ * @throws {AppError} If the homeserver cannot be listed
+ */
+export async function fetchStoredRecords(
+  publicKey: string,
+): Promise<StoredRecord[]> {
+  const records: StoredRecord[] = [];
+
+  try {
+    // Lists every record below the app path, in all directories
+    await listDirectory(`pubky${publicKey}${APP_PATH}/`, async (urls) => {
+      const page = await mapWithConcurrency(
+        urls,
+        READ_CONCURRENCY,
+        (uri) => readStoredRecord(uri, readJson),
+      );
+      records.push(
+        ...page.filter((record): record is StoredRecord => record !== null),
+      );
+    });
+
+    return applyQueuedWrites(records, publicKey);
+  } catch (error) {
+    const appError = new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to read your homeserver",
+      details: error,
+      publicKey,
+    });
+
+    logError(appError, {
+      action: "fetchStoredRecords",
+      userId: publicKey,
+    });
+
+    throw appError;
+  }
+}
+
+/**
+ * A user's uploads and how much of them is unused
+ */
+export interface StorageReport {
+  content: StoredContent[];
+  orphaned: OrphanedContent; // Empty while any record is unreadable
+  usage: ContentTypeUsage[];
+  unreadable: string[]; // Records that could not be read
+}
+
+/**
+ * Progress of a bulk delete
+ */
+export interface StorageDeletionProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * Outcome of a bulk delete, listing what could not be deleted
+ */
+export interface StorageDeletionReport {
+  completed: number;
+  failed: string[];
+}
+
+/**
+ * Scan a user's files and blobs for unused uploads
+ *
+ * Nothing is reported unused when some records could not be read.
+ *
+ * @throws {AppError} If the homeserver cannot be read
+ */
+export async function fetchStorageReport(
+  publicKey: string,
+): Promise<StorageReport> {
+  const records = await fetchStoredRecords(publicKey);
+  const orphaned = findOrphanedContent(records);
+
+  // Measure blobs no file describes
+  const content = await mapWithConcurrency(
+    getStoredContent(records),
+    READ_CONCURRENCY,
+    async (item) => {
+      if (item.kind !== "blob" || item.size !== null) return item;
+      try {
+        const bytes = await PubkyClient.getInstance().get(
+          item.uri.replace("pubky://", "pubky"),
+        );
+        return bytes ? { ...item, size: bytes.length } : item;
+      } catch {
+        return item; // Size stays unknown
+      }
+    },
+  );
+
+  return {
+    content,
+    orphaned,
+    usage: summarizeStorage(content, orphaned),
+    unreadable: getUnreadableRecords(records),
+  };
+}
+
+/**
+ * Delete uploads, files before the blobs they point at
+ *
+ * Keeps going when a delete fails.
+ *
+ * @param uris - Files and blobs owned by `publicKey`
+ */
+export async function deleteStoredContent(
+  uris: string[],
+  publicKey: string,
+  onProgress?: (progress: StorageDeletionProgress) => void,
+): Promise<StorageDeletionReport> {
+  const ordered = [
+    ...uris.filter((uri) => getRecordType(uri) === "files"),
+    ...uris.filter((uri) => getRecordType(uri) === "blobs"),
+  ];
+  const report: StorageDeletionReport = { completed: 0, failed: [] };
+  const prefix = `pubky://${publicKey}`;
+
+  for (const uri of ordered) {
+    onProgress?.({
+      done: report.completed + report.failed.length,
+      total: ordered.length,
+    });
+    try {
+      if (!uri.startsWith(`${prefix}/`)) {
+        throw new Error("Not the user's content");
+      }
+      await deleteOrQueue(uri.slice(prefix.length), publicKey, {
+        label: getRecordType(uri) === "files"
+          ? "Delete unused file"
+          : "Delete unused image data",
+      });
+      report.completed++;
+    } catch {
+      report.failed.push(uri);
+    }
+  }
+
+  onProgress?.({ done: ordered.length, total: ordered.length });
+  logger.service("image", "Unused uploads deleted", {
+    completed: report.completed,
+    failed: report.failed.length,
+  });
+  return report;
+}
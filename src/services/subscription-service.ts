@@ -0,0 +1,234 @@
+/**
+ * Subscription Service
+ *
+ * Calendar subscriptions are records on the subscriber's own homeserver
+ * that point at a calendar URI, so they follow the user across devices.
+ * The record ID is a hash of the calendar URI: one subscription per
+ * calendar, holding the user's settings for it.
+ */
+
+import { PubkyClient } from "@/lib/pubky-client";
+import { createHashId } from "@/services/calendar-service";
+import { listDirectory } from "@/services/calendar-fetch-service";
+import { deleteOrQueue, putOrQueue } from "@/services/outbox-service";
+import { getCalendar } from "@/services/calendar-repository";
+import {
+  type CalendarListItem,
+  nexusCalendarToSerializable,
+} from "@/services/calendar-list-service";
+import type { PubkyAppSubscriptionData } from "@/types/calendar";
+import { AppError, ErrorCode } from "@/types/errors";
+import { logError } from "@/lib/error-logger";
+import { logger } from "@/lib/logger";
+import { parseCalendarUri } from "@/utils/pubky-uri";
+
+const SUBSCRIPTION_PATH = "/pub/pubky.app/subscription";
+
+/**
+ * A subscription's stored data together with the URI it lives at
+ */
+export interface SubscriptionRecord {
+  uri: string;
+  data: PubkyAppSubscriptionData;
+}
+
+/**
+ * A subscription together with the calendar it points at
+ */
+export interface SubscribedCalendar {
+  subscription: SubscriptionRecord;
+  calendar: CalendarListItem | null; // null if Nexus does not know it
+}
+
+export type SubscriptionSettings = Pick<
+  PubkyAppSubscriptionData,
+  "color" | "hidden" | "default_alarm"
+>;
+
+function getSubscriptionPath(calendarUri: string): string {
+  return `${SUBSCRIPTION_PATH}/${
+    createHashId(new TextEncoder().encode(calendarUri))
+  }`;
+}
+
+/**
+ * Read a user's subscription to a calendar from their homeserver
+ *
+ * @returns The subscription, or null if the user is not subscribed
+ */
+export async function fetchSubscription(
+  publicKey: string,
+  calendarUri: string,
+): Promise<SubscriptionRecord | null> {
+  const client = PubkyClient.getInstance();
+  const subscriptionUri =
+    `pubky://${publicKey}${getSubscriptionPath(calendarUri)}`;
+
+  try {
+    const response = await client.get(
+      subscriptionUri.replace("pubky://", "pubky"),
+    );
+    if (!response) {
+      return null;
+    }
+
+    const data: PubkyAppSubscriptionData = JSON.parse(
+      new TextDecoder().decode(response),
+    );
+    return data.x_pubky_calendar_uri === calendarUri
+      ? { uri: subscriptionUri, data }
+      : null;
+  } catch (error) {
+    logError(
+      new AppError({
+        code: ErrorCode.INVALID_DATA,
+        message: "Failed to parse subscription data",
+        details: error,
+      }),
+      {
+        action: "fetchSubscription",
+        metadata: { subscriptionUri },
+      },
+    );
+
+    return null;
+  }
+}
+
+/**
+ * Read all subscriptions of a user from their homeserver
+ */
+export async function fetchUserSubscriptions(
+  publicKey: string,
+): Promise<SubscriptionRecord[]> {
+  const client = PubkyClient.getInstance();
+  const subscriptions: SubscriptionRecord[] = [];
+
+  await listDirectory(
+    `pubky${publicKey}${SUBSCRIPTION_PATH}/`,
+    async (subscriptionUrls) => {
+      for (const subscriptionUrl of subscriptionUrls) {
+        try {
+          const response = await client.get(
+            subscriptionUrl.replace("pubky://", "pubky"),
+          );
+          if (!response) continue;
+
+          const data: PubkyAppSubscriptionData = JSON.parse(
+            new TextDecoder().decode(response),
+          );
+          if (data.x_pubky_calendar_uri) {
+            subscriptions.push({ uri: subscriptionUrl, data });
+          }
+        } catch (error) {
+          console.warn(
+            `Skipping unreadable subscription ${subscriptionUrl}:`,
+            error,
+          );
+        }
+      }
+    },
+  );
+
+  return subscriptions;
+}
+
+/**
+ * Read a user's subscriptions together with their calendars from Nexus
+ */
+export async function fetchSubscribedCalendars(
+  publicKey: string,
+): Promise<SubscribedCalendar[]> {
+  const subscriptions = await fetchUserSubscriptions(publicKey);
+
+  return Promise.all(
+    subscriptions.map(async (subscription) => {
+      const parsed = parseCalendarUri(subscription.data.x_pubky_calendar_uri);
+      if (!parsed) return { subscription, calendar: null };
+
+      try {
+        const calendar = await getCalendar(parsed.authorId, parsed.calendarId);
+        return {
+          subscription,
+          calendar: calendar && nexusCalendarToSerializable(calendar),
+        };
+      } catch (error) {
+        logger.warn("Subscribed calendar unavailable", {
+          calendarUri: subscription.data.x_pubky_calendar_uri,
+          error,
+        });
+        return { subscription, calendar: null };
+      }
+    }),
+  );
+}
+
+/**
+ * Subscribe to a calendar, or change the settings of a subscription
+ *
+ * @param calendarUri - Calendar to subscribe to
+ * @param publicKey - The subscribing user's public key
+ * @param settings - Settings to change; others are kept
+ * @returns URI of the subscription record
+ * @throws {AppError} If the write fails
+ */
+export async function saveSubscription(
+  calendarUri: string,
+  publicKey: string,
+  settings: SubscriptionSettings = {},
+): Promise<string> {
+  try {
+    const existing = await fetchSubscription(publicKey, calendarUri);
+
+    const subscription: PubkyAppSubscriptionData = {
+      ...existing?.data,
+      ...settings,
+      x_pubky_calendar_uri: calendarUri,
+      created: existing?.data.created || Date.now() * 1000,
+    };
+
+    const subscriptionPath = getSubscriptionPath(calendarUri);
+    const { queued } = await putOrQueue(
+      subscriptionPath,
+      new TextEncoder().encode(JSON.stringify(subscription)),
+      publicKey,
+      { label: existing ? "Update subscription" : "Subscribe to calendar" },
+    );
+
+    const subscriptionUri = `pubky://${publicKey}${subscriptionPath}`;
+    logger.service("calendar", "Subscription saved", { subscriptionUri, queued });
+    return subscriptionUri;
+  } catch (error) {
+    const appError = error instanceof AppError ? error : new AppError({
+      code: ErrorCode.HOMESERVER_ERROR,
+      message: "Failed to save subscription",
+      details: error,
+      publicKey,
+    });
+
+    logError(appError, {
+      action: "saveSubscription",
+      userId: publicKey,
+      metadata: { calendarUri },
+    });
+
+    throw appError;
+  }
+}
+
+/**
+ * Unsubscribe from a calendar by deleting the subscription record
+ *
+ * @throws {AppError} If the delete fails and cannot be queued
+ */
+export async function deleteSubscription(
+  calendarUri: string,
+  publicKey: string,
+): Promise<void> {
+  const { queued } = await deleteOrQueue(
+    getSubscriptionPath(calendarUri),
+    publicKey,
+    { label: "Unsubscribe from calendar" },
+  );
+  logger.service("calendar", "Subscription deleted", { calendarUri, queued });
+}
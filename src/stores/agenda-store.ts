@@ -0,0 +1,36 @@
+"use client";
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+/**
+ * Agenda view settings on this device
+ *
+ * Calendars without an entry in `shown` follow their subscription's
+ * hidden setting.
+ */
+interface AgendaState {
+  shown: Record<string, boolean>; // By calendar URI
+  showRsvps: boolean;
+  setShown: (calendarUri: string, shown: boolean) => void;
+  setShowRsvps: (showRsvps: boolean) => void;
+}
+
+export const useAgendaStore = create<AgendaState>()(
+  persist(
+    (set) => ({
+      shown: {},
+      showRsvps: true,
+      setShown: (calendarUri, shown) =>
+        set((state) => ({ shown: { ...state.shown, [calendarUri]: shown } })),
+      setShowRsvps: (showRsvps) => set({ showRsvps }),
+    }),
+    {
+      name: "pubky-ical-agenda",
+      partialize: (state) => ({
+        shown: state.shown,
+        showRsvps: state.showRsvps,
+      }),
+    },
+  ),
+);
@@ -0,0 +1,55 @@
+"use client";
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { AlarmNotificationState } from "@/lib/alarms";
+
+/**
+ * Notifications already shown or snoozed on this device
+ *
+ * Kept in localStorage so reminders are not shown twice after a reload.
+ */
+interface AlarmState {
+  notifications: Record<string, AlarmNotificationState>;
+  markFired: (key: string, at?: number) => void;
+  snooze: (key: string, until: number) => void;
+  prune: (before: number) => void;
+}
+
+export const useAlarmStore = create<AlarmState>()(
+  persist(
+    (set) => ({
+      notifications: {},
+      markFired: (key, at = Date.now()) =>
+        set((state) => ({
+          notifications: {
+            ...state.notifications,
+            [key]: { ...state.notifications[key], firedAt: at },
+          },
+        })),
+      snooze: (key, until) =>
+        set((state) => ({
+          notifications: {
+            ...state.notifications,
+            [key]: { ...state.notifications[key], snoozedUntil: until },
+          },
+        })),
+      // Forget notifications last touched before a given time
+      prune: (before) =>
+        set((state) => ({
+          notifications: Object.fromEntries(
+            Object.entries(state.notifications).filter(([, notification]) =>
+              Math.max(
+                notification.firedAt || 0,
+                notification.snoozedUntil || 0,
+              ) >= before
+            ),
+          ),
+        })),
+    }),
+    {
+      name: "pubky-ical-alarms",
+      partialize: (state) => ({ notifications: state.notifications }),
+    },
+  ),
+);
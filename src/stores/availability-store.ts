@@ -0,0 +1,35 @@
+"use client";
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+/**
+ * People compared on the availability page on this device
+ */
+interface AvailabilityState {
+  people: string[]; // Public keys
+  addPerson: (publicKey: string) => void;
+  removePerson: (publicKey: string) => void;
+}
+
+export const useAvailabilityStore = create<AvailabilityState>()(
+  persist(
+    (set) => ({
+      people: [],
+      addPerson: (publicKey) =>
+        set((state) => ({
+          people: state.people.includes(publicKey)
+            ? state.people
+            : [...state.people, publicKey],
+        })),
+      removePerson: (publicKey) =>
+        set((state) => ({
+          people: state.people.filter((person) => person !== publicKey),
+        })),
+    }),
+    {
+      name: "pubky-ical-availability",
+      partialize: (state) => ({ people: state.people }),
+    },
+  ),
+);
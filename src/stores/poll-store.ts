@@ -0,0 +1,30 @@
+"use client";
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+/**
+ * Decided polls already announced on this device
+ *
+ * Kept in localStorage so a decision is announced once.
+ */
+interface PollState {
+  announced: string[];
+  markAnnounced: (pollUris: string[]) => void;
+}
+
+export const usePollStore = create<PollState>()(
+  persist(
+    (set) => ({
+      announced: [],
+      markAnnounced: (pollUris) =>
+        set((state) => ({
+          announced: Array.from(new Set([...state.announced, ...pollUris])),
+        })),
+    }),
+    {
+      name: "pubky-ical-polls",
+      partialize: (state) => ({ announced: state.announced }),
+    },
+  ),
+);
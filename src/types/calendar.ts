@@ -6,6 +6,236 @@
 // Re-export types from pubky-app-specs
 export type { PubkyAppCalendar, PubkyAppEvent } from "pubky-app-specs";
 
+/**
+ * Plain JSON shape of a PubkyAppEvent as stored on the homeserver
+ * (what `PubkyAppEvent.toJson()` returns). Timestamps are Unix microseconds.
+ * The timing fields are read from the event's timing record.
+ */
+export interface PubkyAppEventData {
+  uid: string;
+  dtstamp: number;
+  dtstart: number;
+  dtend?: number | null;
+  summary: string;
+  status?: string | null;
+  organizer?: string | null; // JSON, see EventOrganizer
+  categories?: string[] | null;
+  created?: number | null;
+  rrule?: string | null;
+  rdate?: string[] | null; // RFC 5545 DATE-TIME values
+  exdate?: string[] | null; // RFC 5545 DATE-TIME values
+  recurrence_id?: number | null; // Original start of an overridden occurrence
+  image_uri?: string | null;
+  conference?: string | null; // JSON, see EventConference
+  structured_location?: string | null; // JSON, see StructuredLocation
+  styled_description?: string | null; // JSON, see StyledDescription
+  x_pubky_calendar_uris?: string[] | null;
+  tzid?: string | null; // IANA zone the times were entered in
+  all_day?: boolean | null; // Dates at UTC midnight, exclusive end
+  floating?: boolean | null; // Wall-clock times encoded as UTC
+  transp?: "OPAQUE" | "TRANSPARENT" | null; // TRANSPARENT leaves the time free
+}
+
+/**
+ * Plain JSON shape of an event's timing record, stored by the event's
+ * author under the event's ID. Holds what the pubky-app-specs event has
+ * no fields for.
+ */
+export interface PubkyAppEventTimingData {
+  x_pubky_event_uri: string; // Event the timing is for
+  tzid: string | null;
+  all_day: boolean;
+  floating: boolean;
+  transp: "OPAQUE" | "TRANSPARENT";
+}
+
+/**
+ * An event's stored data together with the URI it lives at
+ */
+export interface PubkyAppEventRecord {
+  uri: string;
+  data: PubkyAppEventData;
+}
+
+/**
+ * Plain JSON shape of a PubkyAppCalendar as stored on the homeserver
+ */
+export interface PubkyAppCalendarData {
+  name: string;
+  color?: string | null;
+  x_pubky_admins?: string[] | null;
+  timezone?: string | null;
+  image_uri?: string | null;
+  created?: number | null;
+}
+
+/**
+ * RSVP answers a user can give (RFC 5545 PARTSTAT)
+ */
+export type AttendeeStatus = "ACCEPTED" | "DECLINED" | "TENTATIVE";
+
+/**
+ * Plain JSON shape of an attendee record (an RSVP) as stored on the
+ * attendee's homeserver. Timestamps are Unix microseconds.
+ */
+export interface PubkyAppAttendeeData {
+  x_pubky_event_uri: string; // Event the RSVP answers
+  rsvp: AttendeeStatus;
+  role?: string | null; // e.g. "REQ-PARTICIPANT"
+  name?: string | null;
+  delegated_to?: string | null;
+  delegated_from?: string | null;
+  created: number;
+  dtstamp: number; // Last change
+}
+
+/**
+ * Plain JSON shape of an alarm (a VALARM reminder) as stored on the
+ * homeserver of the user who set it. Timestamps are Unix microseconds.
+ */
+export interface PubkyAppAlarmData {
+  x_pubky_event_uri: string; // Event the reminder is for
+  action: string; // "DISPLAY"
+  trigger: string; // Offset from the event start, e.g. "-PT15M"
+  summary?: string | null;
+  description?: string | null;
+  repeat?: number | null; // Extra notifications after the first
+  duration?: string | null; // Delay between repeats, e.g. "PT5M"
+  created: number;
+}
+
+/**
+ * Plain JSON shape of a calendar subscription as stored on the subscriber's
+ * homeserver, together with the subscriber's settings for the calendar.
+ * Timestamps are Unix microseconds.
+ */
+export interface PubkyAppSubscriptionData {
+  x_pubky_calendar_uri: string; // Calendar subscribed to
+  color?: string | null; // Overrides the calendar color
+  hidden?: boolean | null; // Keep subscribed but hide its events
+  default_alarm?: string | null; // Trigger for every event, e.g. "-PT15M"
+  created: number;
+}
+
+/**
+ * An admin the owner took off a calendar, and when (Unix microseconds)
+ */
+export interface RemovedCalendarAdmin {
+  pubky: string; // Public key of the former admin
+  removed_at: number;
+}
+
+/**
+ * What an admin may do on a calendar
+ * - "editor": create and edit events
+ * - "moderator": like editor, and approve outside submissions
+ */
+export type CalendarRole = "editor" | "moderator";
+
+/**
+ * An offer to hand a calendar over to one of its admins
+ */
+export interface CalendarTransferOffer {
+  to: string; // Public key of the future owner
+  offered_at: number;
+}
+
+/**
+ * Plain JSON shape of a calendar's admin settings and history as stored on
+ * the owner's homeserver, next to the calendar and under the same ID.
+ * Timestamps are Unix microseconds.
+ */
+export interface PubkyAppCalendarAdminsData {
+  x_pubky_calendar_uri: string; // Calendar the settings belong to
+  removed: RemovedCalendarAdmin[]; // Former admins, not re-added since
+  roles?: Record<string, CalendarRole> | null; // By public key, editor if missing
+  transfer?: CalendarTransferOffer | null; // Pending ownership transfer
+  updated: number;
+}
+
+/**
+ * Plain JSON shape of the outside submissions an owner or moderator
+ * approved for a calendar, stored on their own homeserver. Timestamps are
+ * Unix microseconds.
+ */
+export interface PubkyAppCalendarApprovalsData {
+  x_pubky_calendar_uri: string; // Calendar the approvals are for
+  approved: string[]; // Event URIs
+  updated: number;
+}
+
+/**
+ * Plain JSON shape of a pending calendar deletion, stored on the owner's
+ * homeserver next to the calendar and under the same ID. The calendar is
+ * deleted once `delete_at` has passed, unless the record is removed
+ * first. Timestamps are Unix microseconds.
+ */
+export interface PubkyAppCalendarDeletionData {
+  x_pubky_calendar_uri: string; // Calendar to delete
+  event_mode: "delete" | "detach"; // What happens to the owner's events in it
+  delete_at: number;
+  created: number;
+}
+
+/**
+ * A candidate time of a meeting poll, Unix microseconds
+ */
+export interface PollSlot {
+  start: number;
+  end: number;
+}
+
+/**
+ * Answers to a poll slot
+ */
+export type PollAnswer = "YES" | "MAYBE" | "NO";
+
+/**
+ * Plain JSON shape of a meeting poll, stored on the organizer's
+ * homeserver. The draft event becomes a real event in the calendar once
+ * the organizer picks a slot. Timestamps are Unix microseconds.
+ */
+export interface PubkyAppPollData {
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  x_pubky_calendar_uri: string; // Calendar the event is created in
+  tzid?: string | null; // Zone of the event, the calendar's by default
+  slots: PollSlot[];
+  invitees: string[]; // Public keys of the people asked to vote
+  final?: {
+    slot: PollSlot;
+    event_uri: string;
+    finalized_at: number;
+  } | null;
+  created: number;
+  updated: number;
+}
+
+/**
+ * Plain JSON shape of a user's answers to a poll, stored on the voter's
+ * own homeserver
+ */
+export interface PubkyAppPollVoteData {
+  x_pubky_poll_uri: string; // Poll being answered
+  answers: Record<string, PollAnswer>; // By slot start
+  name?: string | null;
+  updated: number;
+}
+
+/**
+ * Form data for a new meeting poll
+ */
+export interface PollFormData {
+  summary: string;
+  description?: string;
+  location?: string;
+  calendarUri: string;
+  timeZone?: string;
+  slots: Array<{ start: Date; end: Date }>;
+  invitees: string[]; // Public keys
+}
+
 /**
  * Event status values (RFC 5545)
  */
@@ -55,6 +285,7 @@ export interface CalendarFormData {
   timezone?: string;
   imageFile?: File;
   x_pubky_admins?: string[]; // Array of admin pubky URIs
+  adminRoles?: Record<string, CalendarRole>; // By public key, editor if unset
 }
 
 /**
@@ -62,18 +293,29 @@ export interface CalendarFormData {
  */
 export interface EventFormData {
   summary: string;
-  dtstart: Date;
-  dtend?: Date;
+  dtstart: Date; // Stored time, see lib/event-time for all-day and floating
+  dtend?: Date; // Exclusive for all-day events
+  allDay?: boolean;
+  floating?: boolean;
+  timeZone?: string; // IANA zone of zoned events
+  transparent?: boolean; // Shown as free in free/busy
   status?: EventStatus;
   categories?: string[];
   description?: string; // Plain text, will be converted to styled_description
+  descriptionFormat?: string; // MIME type of description (defaults to text/html)
   location?: string; // Plain text location
   structuredLocation?: StructuredLocation;
   conferenceUri?: string;
   conferenceLabel?: string;
   rrule?: string;
   imageFile?: File;
+  imageUri?: string; // Existing image to keep when no new file is chosen
+  organizer?: EventOrganizer; // Existing organizer (set from the author on create)
   calendarUri?: string; // Link to parent calendar
+  uid?: string; // Keep an existing UID (imports, overrides)
+  rdate?: Date[]; // Additional occurrences
+  exdate?: Date[]; // Excluded occurrences
+  recurrenceId?: Date; // Original start of the occurrence this event overrides
 }
 
 /**
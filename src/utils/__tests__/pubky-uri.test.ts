@@ -3,8 +3,10 @@ import {
   parseEventUri,
   getCalendarPageUrl,
   getEventPageUrl,
+  getPollPageUrl,
   extractPublicKey,
   extractFileId,
+  parsePublicKey,
 } from "../pubky-uri";
 
 describe("pubky-uri utilities", () => {
@@ -67,6 +69,18 @@ describe("pubky-uri utilities", () => {
     });
   });
 
+  describe("getPollPageUrl", () => {
+    it("should build poll page URL", () => {
+      expect(getPollPageUrl("pubky://user123/pub/pubky.app/poll/0034POLL"))
+        .toBe("/poll/user123/0034POLL");
+    });
+
+    it("should return null for other URIs", () => {
+      expect(getPollPageUrl("pubky://user123/pub/pubky.app/event/evt456"))
+        .toBeNull();
+    });
+  });
+
   describe("extractPublicKey", () => {
     it("should extract public key from URI", () => {
       const uri = "pubky://user123/pub/pubky.app/files/abc";
@@ -103,4 +117,21 @@ describe("pubky-uri utilities", () => {
       expect(extractFileId("")).toBeNull();
     });
   });
+
+  describe("parsePublicKey", () => {
+    const key = "8pinxxgqs41n4aididenw5apqp1urfmzdztr8jt4abrkdn435ewo";
+
+    it("should accept bare keys, URIs and prefixes", () => {
+      expect(parsePublicKey(key)).toBe(key);
+      expect(parsePublicKey(` pubky://${key}/pub/pubky.app/ `)).toBe(key);
+      expect(parsePublicKey(`pk:${key}`)).toBe(key);
+      expect(parsePublicKey(`pubky${key}`)).toBe(key);
+    });
+
+    it("should reject anything that is not a key", () => {
+      expect(parsePublicKey("alice")).toBeNull();
+      expect(parsePublicKey(key.slice(1))).toBeNull();
+      expect(parsePublicKey(`${key.slice(1)}l`)).toBeNull(); // "l" is not z-base-32
+    });
+  });
 });
@@ -50,6 +50,17 @@ export function getCalendarPageUrl(calendarUri: string): string | null {
   return `/calendar/${parsed.authorId}/${parsed.calendarId}`;
 }
 
+/**
+ * Build the iCalendar feed URL path for a calendar
+ *
+ * @param calendarUri - The calendar URI
+ * @returns The feed URL path, or null if invalid URI
+ */
+export function getCalendarFeedUrl(calendarUri: string): string | null {
+  const pagePath = getCalendarPageUrl(calendarUri);
+  return pagePath ? `${pagePath}/feed.ics` : null;
+}
+
 /**
  * Build an event page URL from an event URI
  *
@@ -62,6 +73,19 @@ export function getEventPageUrl(eventUri: string): string | null {
   return `/event/${parsed.authorId}/${parsed.eventId}`;
 }
 
+/**
+ * Build a meeting poll page URL from a poll URI
+ *
+ * @param pollUri - Format: pubky://author_id/pub/pubky.app/poll/poll_id
+ * @returns The page URL path, or null if invalid URI
+ */
+export function getPollPageUrl(pollUri: string): string | null {
+  const match = pollUri.match(
+    /^pubky:\/\/([^/]+)\/pub\/pubky\.app\/poll\/([^/]+)$/,
+  );
+  return match ? `/poll/${match[1]}/${match[2]}` : null;
+}
+
 /**
  * Extract public key from a pubky:// URI
  *
@@ -76,6 +100,27 @@ export function extractPublicKey(uri: string | null | undefined): string | null
   return publicKey || null;
 }
 
+/**
+ * Read a public key typed or pasted by a user
+ *
+ * Accepts a bare key, a pubky:// URI (with or without a path) and the
+ * "pk:" and "pubky" prefixes. Keys are 52 z-base-32 characters.
+ *
+ * @param input - User input
+ * @returns The public key, or null if the input is not a valid key
+ */
+export function parsePublicKey(input: string): string | null {
+  const key = input
+    .trim()
+    .replace(/^pubky:\/\//, "")
+    .replace(/^pk:/, "")
+    .split("/")[0]
+    .replace(/^pubky(?=.{52}$)/, "")
+    .toLowerCase();
+
+  return /^[ybndrfg8ejkmcpqxot1uwisza345h769]{52}$/.test(key) ? key : null;
+}
+
 /**
  * Extract file ID from a pubky:// file URI
  *